@@ -6,7 +6,7 @@ import type { ApiError, ChatResponse } from "@edu/shared-types/contracts";
  *
  * This is a server-side proxy that:
  * - validates the browser payload with a shared Zod schema
- * - forwards it to the Deno backend (`/v1/chat`)
+ * - forwards it to the Deno backend (`/v1/chat`) together with the caller's `Authorization` header
  * - returns the backend response verbatim to the browser
  *
  * Why proxy instead of calling Deno from the browser?
@@ -40,9 +40,14 @@ export async function POST(request: Request) {
 
   try {
     // Forward request to the Deno agent. We keep the payload unchanged to preserve the contract.
+    // The session token is passed through untouched; the Deno side decides what the caller may access.
+    const authorization = request.headers.get("authorization");
     const upstream = await fetch(`${agentUrl}/v1/chat`, {
       method: "POST",
-      headers: { "content-type": "application/json" },
+      headers: {
+        "content-type": "application/json",
+        ...(authorization ? { authorization } : {})
+      },
       body: JSON.stringify(parsed.data)
     });
 
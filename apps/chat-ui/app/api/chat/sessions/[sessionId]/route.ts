@@ -0,0 +1,50 @@
+import type { ApiError, ChatSessionDetailResponse } from "@edu/shared-types/contracts";
+
+/**
+ * Next.js API Route: `GET /api/chat/sessions/{sessionId}`
+ *
+ * Proxy to the Deno agent’s `GET /v1/chat/sessions/{sessionId}`.
+ *
+ * Why this exists:
+ * - The page restores the transcript of the conversation it was showing before a reload.
+ */
+const agentUrl = process.env.DENO_AGENT_URL ?? "http://localhost:8000";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: Request,
+  { params }: { params: { sessionId: string } }
+) {
+  const authorization = request.headers.get("authorization");
+  try {
+    const upstream = await fetch(
+      `${agentUrl}/v1/chat/sessions/${encodeURIComponent(params.sessionId)}`,
+      {
+        headers: {
+          "content-type": "application/json",
+          ...(authorization ? { authorization } : {})
+        },
+        cache: "no-store"
+      }
+    );
+
+    const text = await upstream.text();
+    const contentType = upstream.headers.get("content-type") ?? "application/json";
+
+    return new Response(text, {
+      status: upstream.status,
+      headers: { "content-type": contentType }
+    });
+  } catch (error) {
+    return Response.json<ApiError>(
+      {
+        error: "Failed to reach Deno agent",
+        detail: error instanceof Error ? error.message : String(error)
+      },
+      { status: 502 }
+    );
+  }
+}
+
+export type { ChatSessionDetailResponse };
@@ -0,0 +1,49 @@
+import type { ApiError, ChatSessionListResponse } from "@edu/shared-types/contracts";
+
+/**
+ * Next.js API Route: `GET /api/chat/sessions`
+ *
+ * Proxy to the Deno agent’s `GET /v1/chat/sessions`.
+ *
+ * Why this exists:
+ * - Chat turns are stored by the backend, so the UI can offer earlier conversations after a reload.
+ * - The list depends on the caller's token (only their own sessions), so it is never cached.
+ */
+const agentUrl = process.env.DENO_AGENT_URL ?? "http://localhost:8000";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const authorization = request.headers.get("authorization");
+  const limit = new URL(request.url).searchParams.get("limit");
+  try {
+    const upstream = await fetch(
+      `${agentUrl}/v1/chat/sessions${limit ? `?limit=${encodeURIComponent(limit)}` : ""}`,
+      {
+        headers: {
+          "content-type": "application/json",
+          ...(authorization ? { authorization } : {})
+        },
+        cache: "no-store"
+      }
+    );
+
+    const text = await upstream.text();
+    const contentType = upstream.headers.get("content-type") ?? "application/json";
+
+    return new Response(text, {
+      status: upstream.status,
+      headers: { "content-type": contentType }
+    });
+  } catch (error) {
+    return Response.json<ApiError>(
+      {
+        error: "Failed to reach Deno agent",
+        detail: error instanceof Error ? error.message : String(error)
+      },
+      { status: 502 }
+    );
+  }
+}
+
+export type { ChatSessionListResponse };
@@ -0,0 +1,79 @@
+import { chatRequestSchema } from "@edu/shared-types/schemas";
+import type { ApiError, ChatStreamEvent } from "@edu/shared-types/contracts";
+
+/**
+ * Next.js API Route: `POST /api/chat/stream`
+ *
+ * Streaming counterpart of `/api/chat`: validates the payload the same way, forwards it to the Deno
+ * backend's `/v1/chat/stream`, and pipes the Server-Sent Events body through as it arrives.
+ *
+ * Why a separate route:
+ * - `/api/chat` reads the whole upstream body with `upstream.text()`, which would hold back every token
+ *   until the reply is complete.
+ */
+const agentUrl = process.env.DENO_AGENT_URL ?? "http://localhost:8000";
+
+// Streams depend on the caller and the moment, so they must never be cached.
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return Response.json<ApiError>(
+      { error: "Invalid JSON payload" },
+      { status: 400 }
+    );
+  }
+
+  const parsed = chatRequestSchema.safeParse(payload);
+  if (!parsed.success) {
+    return Response.json<ApiError>(
+      { error: "Invalid chat request", detail: parsed.error.message },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const authorization = request.headers.get("authorization");
+    const upstream = await fetch(`${agentUrl}/v1/chat/stream`, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        ...(authorization ? { authorization } : {})
+      },
+      body: JSON.stringify(parsed.data),
+      // Closing the browser request aborts the upstream one, so the backend stops generating.
+      signal: request.signal
+    });
+
+    const contentType = upstream.headers.get("content-type") ?? "application/json";
+    // Validation/auth errors come back as JSON before any streaming starts; pass them through as-is.
+    if (!contentType.startsWith("text/event-stream") || !upstream.body) {
+      return new Response(await upstream.text(), {
+        status: upstream.status,
+        headers: { "content-type": contentType }
+      });
+    }
+
+    return new Response(upstream.body, {
+      status: upstream.status,
+      headers: {
+        "content-type": "text/event-stream",
+        "cache-control": "no-cache",
+        "x-accel-buffering": "no"
+      }
+    });
+  } catch (error) {
+    return Response.json<ApiError>(
+      {
+        error: "Failed to reach Deno agent",
+        detail: error instanceof Error ? error.message : String(error)
+      },
+      { status: 502 }
+    );
+  }
+}
+
+export type { ChatStreamEvent };
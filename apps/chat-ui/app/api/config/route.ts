@@ -11,11 +11,16 @@ import type { ApiConfigResponse, ApiError } from "@edu/shared-types/contracts";
  */
 const agentUrl = process.env.DENO_AGENT_URL ?? "http://localhost:8000";
 
-export async function GET() {
+export async function GET(request: Request) {
+  // Pass the session token through; the Deno side decides which data this caller may see.
+  const authorization = request.headers.get("authorization");
   try {
     // Forward request to the Deno backend.
     const upstream = await fetch(`${agentUrl}/v1/config`, {
-      headers: { "content-type": "application/json" }
+      headers: {
+        "content-type": "application/json",
+        ...(authorization ? { authorization } : {})
+      }
     });
 
     // Pass through body and status. Reading as text avoids assumptions about error payloads.
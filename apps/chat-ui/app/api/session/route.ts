@@ -0,0 +1,46 @@
+import type { ApiError, SessionResponse } from "@edu/shared-types/contracts";
+
+/**
+ * Next.js API Route: `GET /api/session`
+ *
+ * Proxy to the Deno agent’s `GET /v1/session`.
+ *
+ * Why this exists:
+ * - The UI learns its role and accessible students from the session token instead of letting the user pick.
+ * - Invalid or expired tokens surface as a 401 the page can show next to the token field.
+ */
+const agentUrl = process.env.DENO_AGENT_URL ?? "http://localhost:8000";
+
+// Every call depends on the caller's token, so responses must never be cached.
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const authorization = request.headers.get("authorization");
+  try {
+    const upstream = await fetch(`${agentUrl}/v1/session`, {
+      headers: {
+        "content-type": "application/json",
+        ...(authorization ? { authorization } : {})
+      },
+      cache: "no-store"
+    });
+
+    const text = await upstream.text();
+    const contentType = upstream.headers.get("content-type") ?? "application/json";
+
+    return new Response(text, {
+      status: upstream.status,
+      headers: { "content-type": contentType }
+    });
+  } catch (error) {
+    return Response.json<ApiError>(
+      {
+        error: "Failed to reach Deno agent",
+        detail: error instanceof Error ? error.message : String(error)
+      },
+      { status: 502 }
+    );
+  }
+}
+
+export type { SessionResponse };
@@ -11,10 +11,19 @@ import type { ApiError, StudentListResponse } from "@edu/shared-types/contracts"
  */
 const agentUrl = process.env.DENO_AGENT_URL ?? "http://localhost:8000";
 
-export async function GET() {
+// The roster is editable through the backend API, so this route must never be statically cached.
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  // Pass the session token through; the Deno side decides which data this caller may see.
+  const authorization = request.headers.get("authorization");
   try {
     const upstream = await fetch(`${agentUrl}/v1/students`, {
-      headers: { "content-type": "application/json" }
+      headers: {
+        "content-type": "application/json",
+        ...(authorization ? { authorization } : {})
+      },
+      cache: "no-store"
     });
 
     const text = await upstream.text();
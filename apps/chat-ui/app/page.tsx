@@ -3,7 +3,13 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import type {
   ApiConfigResponse,
+  ChatMemoryChange,
   ChatResponse,
+  ChatSessionDetailResponse,
+  ChatSessionListResponse,
+  ChatSessionSummary,
+  ChatStreamEvent,
+  SessionResponse,
   StudentListResponse,
   StudentProfile
 } from "@edu/shared-types/contracts";
@@ -12,11 +18,14 @@ import type {
  * Main demo UI page.
  *
  * UX goals:
- * - Make it easy to demo “role-aware” behavior (student vs teacher vs admin).
+ * - Make it easy to demo “role-aware” behavior (student vs teacher vs admin); the role comes from the
+ *   session token, so switching roles means pasting a different token.
  * - Provide a student selector so the backend can address the student by name.
- * - Keep state simple and local: this UI is intentionally not a full chat product.
+ * - Keep state simple: the backend stores the conversation, and the page only remembers which one it was showing,
+ *   so a reload restores the transcript. Earlier conversations can be reopened from a list.
  * - Surface operational context (model/schedule/memory) via `/api/config`.
  * - Surface token usage totals when the backend provides them.
+ * - Render replies token by token (via `/api/chat/stream`) so long coaching plans don't freeze the page.
  *
  * Why this is a client component:
  * - It uses React hooks and browser APIs (state, effects, scroll refs).
@@ -24,10 +33,28 @@ import type {
  */
 type Role = "student" | "teacher" | "admin";
 
+// Tokens are issued by an operator (`deno task token <userId>`) and kept in this browser only.
+const TOKEN_STORAGE_KEY = "edu-agent-session-token";
+// The conversation shown before a reload; its transcript is fetched back from the backend.
+const CHAT_SESSION_STORAGE_KEY = "edu-agent-chat-session";
+
 interface ChatMessage {
   id: string;
   role: "user" | "agent";
   text: string;
+  // What this reply saved to the student's memory (teacher chat only).
+  memoryChanges?: ChatMemoryChange[];
+}
+
+const MEMORY_FIELD_LABELS: Record<ChatMemoryChange["field"], string> = {
+  goals: "goal",
+  accommodations: "accommodation",
+  strengths: "strength",
+  improvementAreas: "focus area"
+};
+
+function describeMemoryChange(change: ChatMemoryChange): string {
+  return `${change.action === "add" ? "Added" : "Removed"} ${MEMORY_FIELD_LABELS[change.field]}: ${change.value}`;
 }
 
 const SMART_PROMPTS: Record<Role, { label: string; text: string }[]> = {
@@ -70,6 +97,10 @@ const SMART_PROMPTS: Record<Role, { label: string; text: string }[]> = {
     {
       label: "Family note",
       text: "Draft a short family/guardian note with positive tone and clear next steps."
+    },
+    {
+      label: "Set goal",
+      text: "Set goal: read 20 minutes nightly."
     }
     ,
     {
@@ -122,17 +153,61 @@ const SMART_PROMPTS: Record<Role, { label: string; text: string }[]> = {
   ]
 };
 
+function authHeaders(token: string): Record<string, string> {
+  return token ? { authorization: `Bearer ${token}` } : {};
+}
+
+/**
+ * Read a `/api/chat/stream` body and hand each Server-Sent Event to `onEvent` as it arrives.
+ *
+ * `EventSource` only supports GET, so the POST stream is parsed by hand: frames are separated by a
+ * blank line and carry an `event:` name plus one JSON `data:` line.
+ */
+async function readChatStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ChatStreamEvent) => void
+) {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+      let name = "";
+      let data = "";
+      for (const line of frame.split("\n")) {
+        if (line.startsWith("event:")) name = line.slice(6).trim();
+        if (line.startsWith("data:")) data += line.slice(5).trim();
+      }
+      if (name && data) {
+        onEvent({ event: name, data: JSON.parse(data) } as ChatStreamEvent);
+      }
+    }
+  }
+}
+
 export default function HomePage() {
-  // Unique identifiers are created per browser session so the backend can correlate messages if desired.
+  // Informational only; the session token decides identity on the backend.
   const userId = useMemo(() => crypto.randomUUID(), []);
-  const sessionId = useMemo(() => crypto.randomUUID(), []);
+  // Conversation id sent with every message; the backend stores turns under it.
+  const [sessionId, setSessionId] = useState(() => crypto.randomUUID());
+  const [chatSessions, setChatSessions] = useState<ChatSessionSummary[]>([]);
 
-  // Role drives UI affordances and backend policy enforcement.
-  const [role, setRole] = useState<Role>("student");
+  // The session token decides role and accessible students; the backend enforces both.
+  const [token, setToken] = useState("");
+  const [tokenInput, setTokenInput] = useState("");
+  const [session, setSession] = useState<SessionResponse | null>(null);
+  const [sessionError, setSessionError] = useState<string | null>(null);
+  const role: Role = session?.role ?? "student";
   // The backend expects a studentId for teacher/student roles; we update this once we load the student list.
   const [studentId, setStudentId] = useState("student-001");
   const [message, setMessage] = useState("");
-  // Chat transcript (client-only). The backend does not store the chat transcript in this demo UI.
+  // Chat transcript for the current conversation (restored from the backend after a reload).
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [isSending, setIsSending] = useState(false);
 
@@ -172,11 +247,20 @@ export default function HomePage() {
     setMessage("");
     setIsSending(true);
 
+    // The agent bubble is added up front and filled in as deltas arrive.
+    const agentId = crypto.randomUUID();
+    const setAgentText = (update: (text: string) => string) =>
+      setMessages((prev) =>
+        prev.some((item) => item.id === agentId)
+          ? prev.map((item) => (item.id === agentId ? { ...item, text: update(item.text) } : item))
+          : [...prev, { id: agentId, role: "agent", text: update("") }]
+      );
+
     try {
-      // The browser calls Next.js, not Deno. Next then proxies to the Deno agent.
-      const response = await fetch("/api/chat", {
+      // The browser calls Next.js, not Deno. Next then proxies the event stream from the Deno agent.
+      const response = await fetch("/api/chat/stream", {
         method: "POST",
-        headers: { "content-type": "application/json" },
+        headers: { "content-type": "application/json", ...authHeaders(token) },
         body: JSON.stringify({
           sessionId,
           userId,
@@ -187,23 +271,38 @@ export default function HomePage() {
         })
       });
 
-      // The backend returns either a valid ChatResponse or a shared error shape.
-      const data = (await response.json()) as ChatResponse | { error?: string; detail?: string };
-      if (!response.ok) {
-        // Normalize backend errors into a user-friendly string.
-        const message =
-          typeof data === "object" && data && "error" in data && data.error
-            ? data.error + (data.detail ? `: ${data.detail}` : "")
-            : "Chat request failed";
-        throw new Error(message);
+      // Errors before streaming starts (auth, validation) come back as the shared JSON error shape.
+      if (!response.ok || !response.body) {
+        const data = (await response.json().catch(() => ({}))) as { error?: string; detail?: string };
+        throw new Error(data.error ? data.error + (data.detail ? `: ${data.detail}` : "") : "Chat request failed");
       }
 
-      const agentMessage: ChatMessage = {
-        id: crypto.randomUUID(),
-        role: "agent",
-        text: (data as ChatResponse).reply
-      };
-      const usage = (data as ChatResponse).usage;
+      let done: ChatResponse | null = null;
+      await readChatStream(response.body, (event) => {
+        if (event.event === "delta") {
+          setAgentText((text) => text + event.data.text);
+        } else if (event.event === "done") {
+          done = event.data;
+        } else {
+          throw new Error(event.data.error);
+        }
+      });
+      const data = done as ChatResponse | null;
+      if (!data) {
+        throw new Error("The reply stream ended early");
+      }
+
+      // The final event carries the full reply; use it in case any delta was missed.
+      setAgentText(() => data.reply);
+      if (data.memoryChanges?.length) {
+        setMessages((prev) =>
+          prev.map((item) => (item.id === agentId ? { ...item, memoryChanges: data.memoryChanges } : item))
+        );
+      }
+      // Remember the conversation so a reload can restore it, and refresh the list of conversations.
+      window.localStorage.setItem(CHAT_SESSION_STORAGE_KEY, data.sessionId);
+      loadChatSessions().catch(() => undefined);
+      const usage = data.usage;
       if (usage) {
         // Aggregate token/cost totals so a demo session has an at-a-glance cost estimate.
         setUsageTotals((prev) => ({
@@ -217,28 +316,24 @@ export default function HomePage() {
           setHasCost(true);
         }
       }
-      setMessages((prev) => [...prev, agentMessage]);
     } catch (error) {
-      // Client-side catch covers both network failures and normalized backend errors.
-      const agentMessage: ChatMessage = {
-        id: crypto.randomUUID(),
-        role: "agent",
-        text: error instanceof Error
-          ? `Sorry, I couldn't reach the agent: ${error.message}`
-          : "Sorry, I couldn't reach the agent."
-      };
-      setMessages((prev) => [...prev, agentMessage]);
+      // Client-side catch covers network failures, normalized backend errors, and in-stream errors.
+      const notice = error instanceof Error
+        ? `Sorry, I couldn't reach the agent: ${error.message}`
+        : "Sorry, I couldn't reach the agent.";
+      // Keep any partial reply visible and append the notice below it.
+      setAgentText((text) => (text ? `${text}\n\n${notice}` : notice));
     } finally {
       setIsSending(false);
     }
   };
 
-  const loadConfig = async () => {
+  const loadConfig = async (activeToken = token) => {
     setIsConfigLoading(true);
     setConfigError(null);
     try {
       // Fetch from Next proxy; it forwards to Deno’s `/v1/config`.
-      const response = await fetch("/api/config");
+      const response = await fetch("/api/config", { headers: authHeaders(activeToken) });
       const data = (await response.json()) as ApiConfigResponse;
       if (!response.ok) {
         throw new Error("Failed to load config");
@@ -253,11 +348,11 @@ export default function HomePage() {
     }
   };
 
-  const loadStudents = async () => {
+  const loadStudents = async (activeToken = token) => {
     setStudentsError(null);
     try {
-      // Fetch safe student index from the backend via Next proxy.
-      const response = await fetch("/api/students");
+      // Fetch safe student index from the backend via Next proxy (already filtered to this session).
+      const response = await fetch("/api/students", { headers: authHeaders(activeToken) });
       const data = (await response.json()) as StudentListResponse;
       if (!response.ok) {
         throw new Error("Failed to load students");
@@ -279,10 +374,85 @@ export default function HomePage() {
     }
   };
 
+  const loadChatSessions = async (activeToken = token) => {
+    const response = await fetch("/api/chat/sessions", { headers: authHeaders(activeToken) });
+    if (!response.ok) return;
+    const data = (await response.json()) as ChatSessionListResponse;
+    setChatSessions(data.sessions);
+  };
+
+  const openChatSession = async (id: string, activeToken = token) => {
+    const response = await fetch(`/api/chat/sessions/${encodeURIComponent(id)}`, {
+      headers: authHeaders(activeToken)
+    });
+    if (!response.ok) {
+      // The conversation is gone or belongs to another user; start fresh instead.
+      window.localStorage.removeItem(CHAT_SESSION_STORAGE_KEY);
+      return;
+    }
+    const data = (await response.json()) as ChatSessionDetailResponse;
+    resetChat();
+    setSessionId(data.session.sessionId);
+    window.localStorage.setItem(CHAT_SESSION_STORAGE_KEY, data.session.sessionId);
+    if (data.session.studentId) {
+      setStudentId(data.session.studentId);
+    }
+    setMessages(
+      data.messages.map((item) => ({
+        id: crypto.randomUUID(),
+        role: item.role === "assistant" ? "agent" : "user",
+        text: item.content
+      }))
+    );
+  };
+
+  const loadSession = async (activeToken: string) => {
+    setSessionError(null);
+    setSession(null);
+    if (!activeToken) return;
+    try {
+      const response = await fetch("/api/session", { headers: authHeaders(activeToken) });
+      const data = (await response.json()) as SessionResponse | { error?: string; detail?: string };
+      if (!response.ok) {
+        const detail = "error" in data && data.error ? data.error + (data.detail ? `: ${data.detail}` : "") : "";
+        throw new Error(detail || "Failed to load session");
+      }
+      const nextSession = data as SessionResponse;
+      setSession(nextSession);
+      if (nextSession.studentId) {
+        setStudentId(nextSession.studentId);
+      }
+      // Config names server paths, so the backend only returns it to teachers and admins.
+      const configLoad = nextSession.role === "student" ? Promise.resolve() : loadConfig(activeToken);
+      await Promise.all([configLoad, loadStudents(activeToken), loadChatSessions(activeToken)]);
+      const savedChat = window.localStorage.getItem(CHAT_SESSION_STORAGE_KEY);
+      if (savedChat) {
+        await openChatSession(savedChat, activeToken);
+      }
+    } catch (error) {
+      setSessionError(error instanceof Error ? error.message : "Failed to load session");
+    }
+  };
+
+  const applyToken = () => {
+    const nextToken = tokenInput.trim();
+    setToken(nextToken);
+    if (nextToken) {
+      window.localStorage.setItem(TOKEN_STORAGE_KEY, nextToken);
+    } else {
+      window.localStorage.removeItem(TOKEN_STORAGE_KEY);
+    }
+    setChatSessions([]);
+    startNewChat();
+    loadSession(nextToken).catch(() => undefined);
+  };
+
   useEffect(() => {
-    // Load config and students on initial mount.
-    loadConfig().catch(() => undefined);
-    loadStudents().catch(() => undefined);
+    // Restore the saved token on mount; config and students load once the session resolves.
+    const saved = window.localStorage.getItem(TOKEN_STORAGE_KEY) ?? "";
+    setToken(saved);
+    setTokenInput(saved);
+    loadSession(saved).catch(() => undefined);
   }, []);
 
   useEffect(() => {
@@ -294,7 +464,7 @@ export default function HomePage() {
   }, [messages]);
 
   const resetChat = () => {
-    // Reset is intentionally local-only: it clears the UI transcript and usage totals.
+    // Clears the transcript and usage totals shown; stored conversations stay available in the list.
     setMessages([]);
     setUsageTotals({
       inputTokens: 0,
@@ -306,6 +476,13 @@ export default function HomePage() {
     setHasCost(false);
   };
 
+  const startNewChat = () => {
+    // A new id starts a new stored conversation with the next message.
+    resetChat();
+    setSessionId(crypto.randomUUID());
+    window.localStorage.removeItem(CHAT_SESSION_STORAGE_KEY);
+  };
+
   // Smart prompts are role-specific “quick start” messages.
   const smartPrompts = SMART_PROMPTS[role];
 
@@ -321,28 +498,39 @@ export default function HomePage() {
         </p>
         <div className="form">
           <label>
-            Role
-            <div className="toggle-group" role="group" aria-label="Select role">
-              {(["student", "teacher", "admin"] as Role[]).map((item) => (
-                <button
-                  key={item}
-                  type="button"
-                  className={`toggle-button ${role === item ? "active" : ""}`}
-                  // Role switching is purely UI state; server enforcement still applies.
-                  onClick={() => setRole(item)}
-                >
-                  {item}
-                </button>
-              ))}
-            </div>
+            Session token
+            <input
+              type="password"
+              value={tokenInput}
+              onChange={(event) => setTokenInput(event.target.value)}
+              placeholder="Paste a token from `deno task token <userId>`"
+            />
           </label>
-          {role !== "admin" ? (
+          <div className="controls">
+            <button className="button secondary" type="button" onClick={applyToken}>
+              Sign in
+            </button>
+          </div>
+          {session ? (
+            <p className="helper">
+              Signed in as {session.userId} ({session.role})
+            </p>
+          ) : (
+            <p className="helper">{sessionError ?? "Sign in with a session token to start chatting."}</p>
+          )}
+          {session && role !== "admin" ? (
             <label>
               {role === "teacher" ? "Focus student" : "Student"}
               {students.length > 0 ? (
                 <select
                   value={studentId}
-                  onChange={(event) => setStudentId(event.target.value)}
+                  onChange={(event) => {
+                    // A conversation is about one student, so switching students starts a new one.
+                    setStudentId(event.target.value);
+                    startNewChat();
+                  }}
+                  // Student sessions are pinned to their own record.
+                  disabled={role === "student"}
                 >
                   {students.map((student) => (
                     <option key={student.id} value={student.id}>
@@ -358,9 +546,9 @@ export default function HomePage() {
                 />
               )}
             </label>
-          ) : (
+          ) : session ? (
             <p className="helper">Admin is system-only and does not access student data.</p>
-          )}
+          ) : null}
           {role !== "admin" && studentsError ? (
             <p className="helper">{studentsError}</p>
           ) : null}
@@ -368,53 +556,57 @@ export default function HomePage() {
             Tip: choose a student so the assistant can address them by name.
           </p>
         </div>
-        <div className="config-card">
-          <div className="config-header">
-            <h3>Agent Config</h3>
-            <button
-              className="button secondary"
-              type="button"
-              onClick={loadConfig}
-              disabled={isConfigLoading}
-            >
-              {isConfigLoading ? "Loading..." : "Refresh"}
-            </button>
-          </div>
-          {config ? (
-            <div className="config-grid">
-              <div>
-                <span className="config-label">Model</span>
-                <span className="config-value">{config.openAiModel}</span>
-              </div>
-              <div>
-                <span className="config-label">Schedule</span>
-                <span className="config-value">
-                  {config.scheduleCron
-                    ? `Cron: ${config.scheduleCron}`
-                    : `Every ${config.scheduleIntervalMin} min`}
-                </span>
-              </div>
-              <div>
-                <span className="config-label">Memory</span>
-                <span className="config-value">
-                  {config.memoryDir} (limit {config.memoryHistoryLimit})
-                </span>
-              </div>
-              <div>
-                <span className="config-label">Students</span>
-                <span className="config-value">{config.studentsJsonPath}</span>
-              </div>
-              <div>
-                <span className="config-label">History DB</span>
-                <span className="config-value">{config.historyDbPath}</span>
-              </div>
+        {role !== "student" ? (
+          <div className="config-card">
+            <div className="config-header">
+              <h3>Agent Config</h3>
+              <button
+                className="button secondary"
+                type="button"
+                onClick={() => loadConfig()}
+                disabled={isConfigLoading}
+              >
+                {isConfigLoading ? "Loading..." : "Refresh"}
+              </button>
             </div>
-          ) : (
-            <p className="helper">
-              {configError ?? "No config loaded yet."}
-            </p>
-          )}
-        </div>
+            {config ? (
+              <div className="config-grid">
+                <div>
+                  <span className="config-label">Model</span>
+                  <span className="config-value">
+                    {config.openAiModel} ({config.llmProvider})
+                  </span>
+                </div>
+                <div>
+                  <span className="config-label">Schedule</span>
+                  <span className="config-value">
+                    {config.scheduleCron
+                      ? `Cron: ${config.scheduleCron}`
+                      : `Every ${config.scheduleIntervalMin} min`}
+                  </span>
+                </div>
+                <div>
+                  <span className="config-label">Memory</span>
+                  <span className="config-value">
+                    {config.memoryDir} (limit {config.memoryHistoryLimit})
+                  </span>
+                </div>
+                <div>
+                  <span className="config-label">Students</span>
+                  <span className="config-value">{config.studentsJsonPath}</span>
+                </div>
+                <div>
+                  <span className="config-label">History DB</span>
+                  <span className="config-value">{config.historyDbPath}</span>
+                </div>
+              </div>
+            ) : (
+              <p className="helper">
+                {configError ?? "No config loaded yet."}
+              </p>
+            )}
+          </div>
+        ) : null}
         <div className="usage-card">
           <div className="usage-header">
             <h3>Token Usage</h3>
@@ -463,6 +655,29 @@ export default function HomePage() {
           <p className="helper">
             Messages are routed through the Next.js API proxy to the Deno agent.
           </p>
+          {chatSessions.length > 0 ? (
+            <label>
+              Conversation
+              <select
+                value={chatSessions.some((item) => item.sessionId === sessionId) ? sessionId : ""}
+                onChange={(event) => {
+                  if (event.target.value) {
+                    openChatSession(event.target.value).catch(() => undefined);
+                  } else {
+                    startNewChat();
+                  }
+                }}
+              >
+                <option value="">New conversation</option>
+                {chatSessions.map((item) => (
+                  <option key={item.sessionId} value={item.sessionId}>
+                    {item.title}
+                    {item.studentId ? ` (${item.studentId})` : ""}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ) : null}
         </header>
 
         <div className="messages" aria-live="polite" ref={messagesRef}>
@@ -475,6 +690,15 @@ export default function HomePage() {
             messages.map((item) => (
               <div key={item.id} className={`message ${item.role}`}>
                 {item.text}
+                {item.memoryChanges?.length ? (
+                  <ul className="memory-changes">
+                    {item.memoryChanges.map((change) => (
+                      <li key={`${change.field}-${change.action}-${change.value}`}>
+                        {describeMemoryChange(change)}
+                      </li>
+                    ))}
+                  </ul>
+                ) : null}
               </div>
             ))
           )}
@@ -509,11 +733,11 @@ export default function HomePage() {
             />
           </label>
           <div className="controls">
-            <button className="button" type="button" onClick={sendMessage} disabled={isSending}>
+            <button className="button" type="button" onClick={sendMessage} disabled={isSending || !session}>
               {isSending ? "Sending..." : "Send"}
             </button>
-            <button className="button secondary" type="button" onClick={resetChat}>
-              Reset
+            <button className="button secondary" type="button" onClick={startNewChat}>
+              New chat
             </button>
           </div>
         </div>
@@ -12,15 +12,16 @@
 export type UserRole = "student" | "teacher" | "admin";
 
 export interface ChatRequest {
-  // Optional: allows the UI to group a series of messages into a single conversation.
+  // Conversation id (letters, digits, "-" or "_"). Earlier turns of the session are sent to the model as context;
+  // an unknown id starts a new session with that id, and omitting it starts one with a server-generated id.
   sessionId?: string;
-  // Required: caller identity from the UI’s perspective (not authentication in this demo).
+  // Required: caller identity from the UI’s perspective. Informational only; the session token decides identity.
   userId: string;
-  // Drives server-side role rules (what data can be accessed and how the model should respond).
+  // Must match the session token's role (the server rejects mismatches with 403).
   role: UserRole;
   // The actual user message (plain text).
   message: string;
-  // Required for teacher/student roles in practice; admin must omit.
+  // Required for teachers (a student on their roster); students may omit it to use their own; admin must omit.
   studentId?: string;
   // Optional extra context to attach to the request (course name, etc).
   context?: Record<string, unknown>;
@@ -29,26 +30,156 @@ export interface ChatRequest {
 export interface ChatResponse {
   // The assistant’s reply text (rendered directly in the UI).
   reply: string;
-  // Reserved for future use (this demo chat path does not persist memory updates).
+  // The session this turn was stored in; send it back to continue the conversation.
+  sessionId: string;
+  // True when a teacher message stated something durable (a goal, accommodation, ...) that was saved
+  // to the student's memory; `memoryChanges` lists exactly what changed.
   memoryUpdated: boolean;
+  memoryChanges?: ChatMemoryChange[];
   // Optional: if chat triggers analysis runs later, this could link to a history record.
   runId?: string;
   // Optional usage/cost metadata if the model/provider returns it.
   usage?: TokenUsage;
 }
 
+export type MemoryField = "goals" | "accommodations" | "strengths" | "improvementAreas";
+
+// One change applied to a student's memory from teacher chat.
+export interface ChatMemoryChange {
+  field: MemoryField;
+  action: "add" | "remove";
+  value: string;
+}
+
+// `POST /v1/chat/stream` takes a `ChatRequest` and answers with Server-Sent Events. Each frame is
+// `event: <name>` plus a JSON `data:` line:
+// - `delta`: the next piece of reply text
+// - `done`: the final `ChatResponse` (full reply, session id, usage), sent once at the end
+// - `error`: an `ApiError` when generation fails after streaming has started
+// Errors before streaming starts are plain JSON responses, exactly as for `POST /v1/chat`.
+export interface ChatStreamDelta {
+  text: string;
+}
+
+export type ChatStreamEvent =
+  | { event: "delta"; data: ChatStreamDelta }
+  | { event: "done"; data: ChatResponse }
+  | { event: "error"; data: ApiError };
+
+export interface ChatSessionSummary {
+  sessionId: string;
+  role: UserRole;
+  // The student the conversation is about (absent for admin sessions).
+  studentId?: string;
+  // First user message, shortened.
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+}
+
+export interface ChatSessionListResponse {
+  // The caller's own sessions, most recently active first.
+  sessions: ChatSessionSummary[];
+}
+
+export interface ChatSessionMessage {
+  role: "user" | "assistant";
+  content: string;
+  createdAt: string;
+}
+
+export interface ChatSessionDetailResponse {
+  session: ChatSessionSummary;
+  // Every stored turn, oldest first.
+  messages: ChatSessionMessage[];
+}
+
 export interface AnalyzeRequest {
-  // Scope is currently “all” only; included so the contract can evolve without renaming endpoints.
+  // “all” runs the full class; “student” refreshes one student without regenerating the teacher summary.
   scope?: "all" | "student";
-  // Placeholder for future student-specific runs.
+  // Required when scope is “student”.
   studentId?: string;
-  // Placeholder for future “compute but don’t persist” behavior.
+  // Compute analyses + insights and return rendered messages without writing emails, history, or memory.
   dryRun?: boolean;
+  // Class to run when scope is “all”; optional when only one class is configured.
+  // Student-scoped runs always use the student's own class.
+  classId?: string;
 }
 
+export interface AnalyzeGuardianPreview {
+  guardianName: string;
+  language: string;
+  usedFallback: boolean;
+  subject: string;
+  // Rendered plain-text guardian note, exactly as it would be sent.
+  text: string;
+}
+
+export interface AnalyzeStudentPreview {
+  studentId: string;
+  status: "rendered" | "analysis_failed" | "insights_failed";
+  usedFallback: boolean;
+  subject?: string;
+  // Rendered plain-text email body, exactly as it would be sent.
+  text?: string;
+  // One note per opted-in guardian; omitted when none opted in.
+  guardians?: AnalyzeGuardianPreview[];
+  error?: string;
+}
+
+export interface AnalyzeTeacherPreview {
+  status: "rendered" | "summary_failed";
+  usedFallback: boolean;
+  subject?: string;
+  text?: string;
+  error?: string;
+}
+
+export interface AnalyzePreview {
+  students: AnalyzeStudentPreview[];
+  // Omitted for student-scoped runs and when no analysis succeeded.
+  teacher?: AnalyzeTeacherPreview;
+}
+
+export type RunStatus = "queued" | "running" | "completed" | "failed";
+
 export interface AnalyzeResponse {
   runId: string;
-  status: "queued" | "running" | "completed" | "failed";
+  status: RunStatus;
+  // Only present for dry runs; the runId is not recorded in history.
+  preview?: AnalyzePreview;
+}
+
+export interface RunStudentProgress {
+  studentId: string;
+  // Per-student outcome as recorded in history (e.g. “sent”, “insights_failed”).
+  status: string;
+  usedFallback: boolean;
+}
+
+export interface RunStatusResponse {
+  runId: string;
+  status: RunStatus;
+  classId?: string;
+  // Request details are only known for runs queued by this server process (not scheduled/older runs).
+  scope?: "all" | "student";
+  studentId?: string;
+  dryRun?: boolean;
+  queuedAt?: string;
+  startedAt?: string;
+  completedAt?: string;
+  // Final run status from history (e.g. “completed”, “no_valid_students”) once the run has finished.
+  outcome?: string;
+  progress: {
+    // Valid students in scope; 0 until the pipeline has loaded the roster.
+    total: number;
+    processed: number;
+    students: RunStudentProgress[];
+  };
+  // Only present for finished dry runs.
+  preview?: AnalyzePreview;
+  error?: string;
 }
 
 export interface TokenUsage {
@@ -75,27 +206,223 @@ export interface StudentProfile {
   name: string;
   // Included for convenience in demos; may be omitted depending on backend configuration.
   email?: string;
+  // Class the student belongs to (each student belongs to exactly one class).
+  classId: string;
+  // Preferred language for the student's messages, when set on the student record.
+  language?: string;
 }
 
 export interface StudentListResponse {
   students: StudentProfile[];
 }
 
+// Full student record as stored by the backend (mirrors `Student` in src/types.ts).
+export interface StudentRecord {
+  id: string;
+  name: string;
+  email: string;
+  grades: Array<{ subject: string; score: number }>;
+  // 1..10
+  participationScore: number;
+  // 0..100
+  assignmentCompletionRate: number;
+  teacherNotes: string;
+  performanceTrend: "improving" | "stable" | "declining";
+  lastAssessmentDate: string;
+  // Optional dated history used for computed trends.
+  assessments?: Array<{ subject: string; score: number; date: string }>;
+  // Optional family contacts; only guardians with `optIn: true` receive guardian notes.
+  guardians?: GuardianContact[];
+  // Language tag such as "es" for the student's messages and student chat; defaults to the email locale.
+  language?: string;
+}
+
+export interface GuardianContact {
+  name: string;
+  email: string;
+  // Language tag such as "es" or "pt-BR"; defaults to the deployment's email locale.
+  language?: string;
+  optIn: boolean;
+}
+
+// Body for POST/PUT /v1/students (PATCH accepts any subset of fields except `id`).
+// `classId` is only read on POST (optional when only one class is configured); updates keep the student's class.
+export type StudentRecordRequest = StudentRecord & { classId?: string };
+
+export interface StudentRecordResponse {
+  student: StudentRecord;
+  classId: string;
+}
+
+export interface StudentImportResponse {
+  classId: string;
+  // The class students file that was imported.
+  source: string;
+  imported: number;
+  created: number;
+  updated: number;
+  // Validation errors for skipped records (located by array index or CSV row/column).
+  errors: string[];
+}
+
 export interface HistoryRun {
   runId: string;
+  classId: string;
   status: string;
   startedAt: string;
   completedAt?: string;
   studentCount: number;
   validStudentCount: number;
+  // How model-written insights (student, guardian, teacher) turned out; absent when the run generated none.
+  insights?: HistoryRunInsights;
+}
+
+export interface HistoryRunInsights {
+  // Insight sets produced, whether from the model or the fallback.
+  generated: number;
+  // Accepted only after re-asking the model with the validation errors.
+  repaired: number;
+  // Replaced by deterministic fallback insights.
+  fallbacks: number;
+  // fallbacks / generated, rounded to three decimals.
+  fallbackRate: number;
 }
 
 export interface HistoryResponse {
   runs: HistoryRun[];
 }
 
+export interface HistoryStudentOutcome {
+  studentId: string;
+  // Display name when the student is still in the roster.
+  studentName?: string;
+  // Per-student outcome (e.g. “sent”, “delivery_failed”, “analysis_failed”, “insights_failed”).
+  status: string;
+  // True when the LLM output was invalid and deterministic fallback insights were used.
+  usedFallback: boolean;
+  // Why the fallback was used: "invalid_output", "model_error", or "circuit_open". Absent without a fallback.
+  fallbackReason?: string;
+  error?: string;
+  emailSubject?: string;
+  createdAt: string;
+  // Email attempts made (retries included); absent when no email was sent.
+  deliveryAttempts?: number;
+  deliveredAt?: string;
+}
+
+export interface HistoryGuardianOutcome {
+  studentId: string;
+  guardianName: string;
+  guardianEmail: string;
+  // Language of the note that was sent.
+  language: string;
+  // "sent" or "delivery_failed".
+  status: string;
+  usedFallback: boolean;
+  error?: string;
+  emailSubject?: string;
+  createdAt: string;
+  deliveryAttempts?: number;
+  deliveredAt?: string;
+}
+
+export interface HistoryTeacherOutcome {
+  // Teacher summary outcome (e.g. “sent”, “delivery_failed”, “summary_failed”).
+  status: string;
+  usedFallback: boolean;
+  error?: string;
+  emailSubject?: string;
+  createdAt: string;
+  deliveryAttempts?: number;
+  deliveredAt?: string;
+}
+
+export interface HistoryRunDetailResponse {
+  run: HistoryRun;
+  students: HistoryStudentOutcome[];
+  // Notes sent to opted-in guardians (including those sent when a draft from this run was approved).
+  guardians?: HistoryGuardianOutcome[];
+  // Omitted for student-scoped runs and runs that stopped before the summary step.
+  teacher?: HistoryTeacherOutcome;
+}
+
+// Draft lifecycle: pending_review → approved → sent (or delivery_failed when the email could not be delivered),
+// or pending_review → rejected / superseded (a newer run's draft for the same student replaces it).
+export type DraftStatus = "pending_review" | "approved" | "sent" | "delivery_failed" | "rejected" | "superseded";
+
+// Structured insights for one student (mirrors `StudentInsights` in src/types.ts); this is what teachers edit.
+export interface StudentInsightsRecord {
+  positiveObservation: string;
+  // 1–3 items
+  strengths: string[];
+  // 1–2 items
+  improvementAreas: string[];
+  // 2–3 items
+  strategies: string[];
+  nextStepGoal: string;
+  encouragement: string;
+}
+
+export interface StudentDraft {
+  draftId: string;
+  runId: string;
+  classId: string;
+  studentId: string;
+  // Display name when the student is still in the roster.
+  studentName?: string;
+  status: DraftStatus;
+  // True when the LLM output was invalid and deterministic fallback insights were used.
+  usedFallback: boolean;
+  subject?: string;
+  // Rendered message body, re-rendered after each edit.
+  text: string;
+  insights: StudentInsightsRecord;
+  createdAt: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  // Reason given when the draft was rejected.
+  reviewNote?: string;
+  editCount: number;
+  // Notes for opted-in guardians (one per language), sent when the draft is approved.
+  guardianNotes?: Array<{ language: string; usedFallback: boolean; text: string }>;
+  // Transport error when delivery of the approved draft failed.
+  error?: string;
+  deliveryAttempts?: number;
+  deliveredAt?: string;
+}
+
+export interface StudentDraftListResponse {
+  // Newest first.
+  drafts: StudentDraft[];
+}
+
+export interface StudentDraftEdit {
+  userId: string;
+  // Line diff of the rendered message: "  " unchanged, "- " removed, "+ " added.
+  diff: string;
+  createdAt: string;
+}
+
+export interface StudentDraftDetailResponse {
+  draft: StudentDraft;
+  // Oldest first.
+  edits: StudentDraftEdit[];
+}
+
+// Body for PATCH /v1/drafts/{id}: any subset of insight fields; the result must still satisfy the insights contract.
+export interface StudentDraftEditRequest {
+  insights: Partial<StudentInsightsRecord>;
+}
+
+// Optional body for POST /v1/drafts/{id}/reject.
+export interface StudentDraftRejectRequest {
+  reason?: string;
+}
+
 export interface ApiConfigResponse {
-  // Safe model name (no secrets).
+  // Model API in use: "openai", "anthropic", "ollama", or "mock" (scripted responses, for offline runs).
+  llmProvider: "openai" | "anthropic" | "ollama" | "mock";
+  // Safe model name of the configured provider (no secrets); the name predates other providers.
   openAiModel: string;
   scheduleCron?: string;
   scheduleIntervalMin: number;
@@ -104,13 +431,70 @@ export interface ApiConfigResponse {
   memoryHistoryLimit: number;
   studentsJsonPath: string;
   teacherRulesPath?: string;
+  // Classes file; when unset the single “default” class uses the paths above.
+  classesPath?: string;
+  riskPolicyPath?: string;
   historyDbPath: string;
   emailOutDir?: string;
+  // "file" (log + optional local artifacts) or "smtp"; SMTP host and credentials are never exposed.
+  emailTransport: "file" | "smtp";
+  // Directory of teacher email template overrides; unset means the built-in templates.
+  emailTemplatesDir?: string;
+  // Locale used to pick email templates (e.g. "en", "es", "pt-br").
+  emailLocale: string;
+  // When true, runs store student messages as drafts that a teacher approves before delivery.
+  reviewStudentMessages: boolean;
   apiHost: string;
   apiPort: number;
   apiCorsOrigin: string;
 }
 
+export interface ClassSummary {
+  id: string;
+  name: string;
+  studentCount: number;
+  teacherEmail: string;
+  scheduleCron?: string;
+  scheduleIntervalMin: number;
+}
+
+export interface ClassListResponse {
+  // Admins see every class; teachers only the classes they teach.
+  classes: ClassSummary[];
+}
+
+export interface SourceStatus {
+  // "users", or "students:<classId>" / "teacherRules:<classId>".
+  name: string;
+  path: string;
+  // When content was last applied successfully (startup load or hot reload).
+  lastLoadedAt?: string;
+  // When the most recent hot-reload attempt ran.
+  lastCheckedAt?: string;
+  // Validation/parse errors from the most recent attempt.
+  errorCount: number;
+  errors: string[];
+  // True when the latest edit was rejected and the previous copy is still in use.
+  usingLastGood: boolean;
+}
+
+export interface SourceStatusResponse {
+  // False when WATCH_SOURCES=false (sources are then only loaded at startup).
+  watching: boolean;
+  sources: SourceStatus[];
+}
+
+export interface SessionResponse {
+  userId: string;
+  role: UserRole;
+  // Student sessions: the only student this caller can access.
+  studentId?: string;
+  // Teacher sessions: the classes taught and the students on their rosters (empty for other roles).
+  classIds: string[];
+  studentIds: string[];
+  expiresAt: string;
+}
+
 export interface ApiError {
   // Human-readable, UI-displayable error summary.
   error: string;
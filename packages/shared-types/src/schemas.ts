@@ -12,9 +12,9 @@ import { z } from "zod";
  * - The backend also does basic validation, but validating early improves error messages and avoids noisy logs.
  */
 export const chatRequestSchema = z.object({
-  // Optional but useful for grouping a chat session.
-  sessionId: z.string().min(1).optional(),
-  // Required: identifies the caller in the demo (not authentication).
+  // Optional: continues a stored conversation (the backend creates one when omitted or new).
+  sessionId: z.string().regex(/^[A-Za-z0-9_-]{1,128}$/).optional(),
+  // Required: identifies the caller (informational; the bearer token decides identity).
   userId: z.string().min(1),
   // Role is a closed set so backends can enforce behavior.
   role: z.enum(["student", "teacher", "admin"]),
@@ -29,7 +29,17 @@ export const chatRequestSchema = z.object({
 export const chatResponseSchema = z.object({
   // Reply must be a non-empty string so the UI can render without special casing.
   reply: z.string().min(1),
+  sessionId: z.string().min(1),
   memoryUpdated: z.boolean(),
+  memoryChanges: z
+    .array(
+      z.object({
+        field: z.enum(["goals", "accommodations", "strengths", "improvementAreas"]),
+        action: z.enum(["add", "remove"]),
+        value: z.string().min(1),
+      }),
+    )
+    .optional(),
   runId: z.string().min(1).optional(),
   usage: z
     .object({
@@ -41,18 +51,92 @@ export const chatResponseSchema = z.object({
     .optional(),
 });
 
+const chatSessionSummarySchema = z.object({
+  sessionId: z.string().min(1),
+  role: z.enum(["student", "teacher", "admin"]),
+  studentId: z.string().min(1).optional(),
+  title: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  messageCount: z.number().nonnegative(),
+});
+
+export const chatSessionListResponseSchema = z.object({
+  sessions: z.array(chatSessionSummarySchema),
+});
+
+export const chatSessionDetailResponseSchema = z.object({
+  session: chatSessionSummarySchema,
+  messages: z.array(z.object({
+    role: z.enum(["user", "assistant"]),
+    content: z.string(),
+    createdAt: z.string(),
+  })),
+});
+
 export const analyzeRequestSchema = z.object({
   scope: z.enum(["all", "student"]).optional(),
   studentId: z.string().min(1).optional(),
   dryRun: z.boolean().optional(),
+  classId: z.string().min(1).optional(),
+});
+
+export const analyzePreviewSchema = z.object({
+  students: z.array(
+    z.object({
+      studentId: z.string().min(1),
+      status: z.enum(["rendered", "analysis_failed", "insights_failed"]),
+      usedFallback: z.boolean(),
+      subject: z.string().optional(),
+      text: z.string().optional(),
+      error: z.string().optional(),
+    }),
+  ),
+  teacher: z
+    .object({
+      status: z.enum(["rendered", "summary_failed"]),
+      usedFallback: z.boolean(),
+      subject: z.string().optional(),
+      text: z.string().optional(),
+      error: z.string().optional(),
+    })
+    .optional(),
 });
 
 export const analyzeResponseSchema = z.object({
   runId: z.string().min(1),
   status: z.enum(["queued", "running", "completed", "failed"]),
+  // Only present for dry runs.
+  preview: analyzePreviewSchema.optional(),
+});
+
+export const runStatusResponseSchema = z.object({
+  runId: z.string().min(1),
+  status: z.enum(["queued", "running", "completed", "failed"]),
+  scope: z.enum(["all", "student"]).optional(),
+  studentId: z.string().min(1).optional(),
+  dryRun: z.boolean().optional(),
+  queuedAt: z.string().optional(),
+  startedAt: z.string().optional(),
+  completedAt: z.string().optional(),
+  outcome: z.string().optional(),
+  progress: z.object({
+    total: z.number().nonnegative(),
+    processed: z.number().nonnegative(),
+    students: z.array(
+      z.object({
+        studentId: z.string().min(1),
+        status: z.string().min(1),
+        usedFallback: z.boolean(),
+      }),
+    ),
+  }),
+  preview: analyzePreviewSchema.optional(),
+  error: z.string().optional(),
 });
 
 export const configResponseSchema = z.object({
+  llmProvider: z.enum(["openai", "anthropic", "ollama", "mock"]),
   openAiModel: z.string().min(1),
   scheduleCron: z.string().optional(),
   scheduleIntervalMin: z.number().positive(),
@@ -60,8 +144,14 @@ export const configResponseSchema = z.object({
   memoryHistoryLimit: z.number().positive(),
   studentsJsonPath: z.string().min(1),
   teacherRulesPath: z.string().optional(),
+  classesPath: z.string().optional(),
+  riskPolicyPath: z.string().optional(),
   historyDbPath: z.string().min(1),
   emailOutDir: z.string().optional(),
+  emailTransport: z.enum(["file", "smtp"]),
+  emailTemplatesDir: z.string().optional(),
+  emailLocale: z.string().min(1),
+  reviewStudentMessages: z.boolean(),
   apiHost: z.string().min(1),
   apiPort: z.number().positive(),
   apiCorsOrigin: z.string().min(1),
@@ -72,9 +162,148 @@ export const studentProfileSchema = z.object({
   name: z.string().min(1),
   // Email is optional because the backend might choose to omit it in some deployments.
   email: z.string().email().optional(),
+  classId: z.string().min(1),
+  language: z.string().min(1).optional(),
 });
 
 export const studentListResponseSchema = z.object({
   // List is allowed to be empty if the backend can’t load students (UI will fall back to manual id entry).
   students: z.array(studentProfileSchema),
 });
+
+// Language/locale tag such as "es" or "pt-BR" (same pattern as the backend validator).
+const languageTagSchema = z.string().regex(/^[A-Za-z]{2,3}(?:[-_][A-Za-z0-9]{2,8})*$/);
+
+// Mirrors the backend validator (src/validator.ts) so the UI can reject bad edits before sending them.
+export const studentRecordSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  email: z.string().email(),
+  grades: z.array(z.object({
+    subject: z.string().min(1),
+    score: z.number().min(0).max(100),
+  })).min(1),
+  participationScore: z.number().min(1).max(10),
+  assignmentCompletionRate: z.number().min(0).max(100),
+  teacherNotes: z.string(),
+  performanceTrend: z.enum(["improving", "stable", "declining"]),
+  lastAssessmentDate: z.string().min(1),
+  assessments: z.array(z.object({
+    subject: z.string().min(1),
+    score: z.number().min(0).max(100),
+    date: z.string().min(1),
+  })).optional(),
+  guardians: z.array(z.object({
+    name: z.string().min(1),
+    email: z.string().email(),
+    language: languageTagSchema.optional(),
+    // Missing means "not opted in", as in the backend validator.
+    optIn: z.boolean().optional(),
+  })).optional(),
+  language: languageTagSchema.optional(),
+});
+
+export const studentRecordResponseSchema = z.object({
+  student: studentRecordSchema,
+  classId: z.string().min(1),
+});
+
+export const studentImportResponseSchema = z.object({
+  classId: z.string().min(1),
+  source: z.string().min(1),
+  imported: z.number().nonnegative(),
+  created: z.number().nonnegative(),
+  updated: z.number().nonnegative(),
+  errors: z.array(z.string()),
+});
+
+// Mirrors the insight contract in src/insights.ts (list sizes, lengths) so edits can be checked before sending.
+const studentInsightsSchema = z.object({
+  positiveObservation: z.string().trim().min(1).max(220),
+  strengths: z.array(z.string().trim().min(1)).min(1).max(3),
+  improvementAreas: z.array(z.string().trim().min(1)).min(1).max(2),
+  strategies: z.array(z.string().trim().min(1)).min(2).max(3),
+  nextStepGoal: z.string().trim().min(1).max(200),
+  encouragement: z.string().trim().min(1).max(200),
+});
+
+const studentDraftSchema = z.object({
+  draftId: z.string().min(1),
+  runId: z.string().min(1),
+  classId: z.string().min(1),
+  studentId: z.string().min(1),
+  studentName: z.string().optional(),
+  status: z.enum(["pending_review", "approved", "sent", "delivery_failed", "rejected", "superseded"]),
+  usedFallback: z.boolean(),
+  subject: z.string().optional(),
+  text: z.string(),
+  insights: studentInsightsSchema,
+  createdAt: z.string(),
+  reviewedBy: z.string().optional(),
+  reviewedAt: z.string().optional(),
+  reviewNote: z.string().optional(),
+  editCount: z.number().nonnegative(),
+  guardianNotes: z.array(z.object({
+    language: z.string().min(1),
+    usedFallback: z.boolean(),
+    text: z.string(),
+  })).optional(),
+  error: z.string().optional(),
+  deliveryAttempts: z.number().int().positive().optional(),
+  deliveredAt: z.string().optional(),
+});
+
+export const studentDraftListResponseSchema = z.object({
+  drafts: z.array(studentDraftSchema),
+});
+
+export const studentDraftDetailResponseSchema = z.object({
+  draft: studentDraftSchema,
+  edits: z.array(z.object({
+    userId: z.string().min(1),
+    diff: z.string(),
+    createdAt: z.string(),
+  })),
+});
+
+export const studentDraftEditRequestSchema = z.object({
+  // Unknown keys are rejected so a typo doesn't silently become a no-op edit.
+  insights: studentInsightsSchema.partial().strict(),
+});
+
+export const studentDraftRejectRequestSchema = z.object({
+  reason: z.string().max(500).optional(),
+});
+
+export const sourceStatusResponseSchema = z.object({
+  watching: z.boolean(),
+  sources: z.array(z.object({
+    name: z.string().min(1),
+    path: z.string().min(1),
+    lastLoadedAt: z.string().optional(),
+    lastCheckedAt: z.string().optional(),
+    errorCount: z.number().nonnegative(),
+    errors: z.array(z.string()),
+    usingLastGood: z.boolean(),
+  })),
+});
+
+export const classListResponseSchema = z.object({
+  classes: z.array(z.object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    studentCount: z.number().nonnegative(),
+    teacherEmail: z.string().email(),
+    scheduleCron: z.string().optional(),
+    scheduleIntervalMin: z.number().positive(),
+  })),
+});
+
+export const sessionResponseSchema = z.object({
+  userId: z.string().min(1),
+  role: z.enum(["student", "teacher", "admin"]),
+  studentId: z.string().min(1).optional(),
+  classIds: z.array(z.string()),
+  studentIds: z.array(z.string()),
+  expiresAt: z.string(),
+});
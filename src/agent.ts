@@ -1,7 +1,31 @@
-import { ChatOpenAI } from "@langchain/openai";
 import { ChatPromptTemplate } from "@langchain/core/prompts";
-import type { AppConfig, StudentAnalysis, TeacherSummary, TeacherPreferences } from "./types.ts";
+import type { BaseMessage } from "@langchain/core/messages";
+import type {
+  AppConfig,
+  StudentAnalysis,
+  StudentInsights,
+  TeacherInsights,
+  TeacherPreferences,
+  TeacherSummary,
+} from "./types.ts";
 import type { Logger } from "./logger.ts";
+import {
+  analysisForPrompt,
+  parseStudentInsights,
+  parseTeacherInsights,
+  STUDENT_INSIGHTS_FORMAT,
+  TEACHER_INSIGHTS_FORMAT,
+} from "./insights.ts";
+import { languageName, preferredLocale } from "./message_catalog.ts";
+import {
+  CircuitBreaker,
+  completeStructured,
+  createLlmProvider,
+  type LlmProvider,
+  type LlmResponseFormat,
+  type StructuredResult,
+  toLlmMessages,
+} from "./llm_provider.ts";
 
 /**
  * “Batch insights” LLM agent (no memory).
@@ -12,32 +36,45 @@ import type { Logger } from "./logger.ts";
  * Why structured JSON:
  * - It lets us validate the output deterministically (`src/insights.ts`).
  * - It keeps message rendering stable and avoids hallucinated formatting.
+ * - The schema goes to the model API as native structured output (unless `LLM_STRUCTURED_OUTPUT=false`), and
+ *   invalid output is re-asked once with the validation errors before the caller falls back.
  *
  * Why this agent exists separately from chat:
  * - Batch mode optimizes for machine-parseable, contract-driven output.
  * - Chat mode optimizes for conversational UX and role-based boundaries.
+ *
+ * Student insights are written in the student's preferred language and the teacher summary in `EMAIL_LOCALE`.
+ * The model API comes from `LLM_PROVIDER` (see `src/llm_provider.ts`).
  */
-function createModel(config: AppConfig) {
-  const modelConfig = {
-    openAIApiKey: config.openAiApiKey,
-    modelName: config.openAiModel,
-    // Slightly higher temperature than chat can yield more variety in suggestions,
-    // but we still rely on JSON validation and fallbacks for correctness.
-    temperature: 0.8,
-    configuration: config.openAiBaseUrl
-      ? { baseURL: config.openAiBaseUrl }
-      : undefined,
-  };
+type ValidationResult<T> = { ok: true; value: T } | { ok: false; errors: string[] };
 
-  // ChatOpenAI is a LangChain wrapper; it normalizes request/response shapes for OpenAI-like APIs.
-  return new ChatOpenAI(modelConfig);
-}
+// Slightly higher temperature than chat can yield more variety in suggestions,
+// but we still rely on JSON validation and fallbacks for correctness.
+const TEMPERATURE = 0.8;
 
 /**
  * Build an LLM agent that turns structured analysis into personalized insights.
  */
-export function createAgent(config: AppConfig, logger: Logger, preferences?: TeacherPreferences) {
-  const model = createModel(config);
+export function createAgent(
+  config: AppConfig,
+  logger: Logger,
+  preferences?: TeacherPreferences,
+  provider: LlmProvider = createLlmProvider(config, logger),
+) {
+  // `src/main.ts` builds this agent for each run, so an open breaker never carries over to the next run.
+  const breaker = new CircuitBreaker(config.llm.circuitBreakerThreshold, logger);
+  // Both prompts share one call: request the schema (unless structured output is switched off), validate, and
+  // re-ask at most once. Never throws; a failed call comes back as a result with the reason.
+  const generate = <T>(
+    messages: BaseMessage[],
+    responseFormat: LlmResponseFormat,
+    parse: (raw: string) => ValidationResult<T>,
+  ) =>
+    completeStructured(provider, {
+      messages: toLlmMessages(messages),
+      temperature: TEMPERATURE,
+      responseFormat: config.llm.structuredOutput === false ? undefined : responseFormat,
+    }, parse, breaker);
   // We pass preferences as JSON text for consistency and to reduce prompt ambiguity.
   const teacherRulesJson = preferences ? JSON.stringify(preferences, null, 2) : "None";
 
@@ -45,7 +82,7 @@ export function createAgent(config: AppConfig, logger: Logger, preferences?: Tea
   const studentPrompt = ChatPromptTemplate.fromMessages([
     [
       "system",
-      "You are an educational coach writing for a student. Use a warm, encouraging, growth-mindset tone grounded in the analysis and teacher notes. Return ONLY valid JSON with these fields: positiveObservation (string), strengths (array of 1-3 strings), improvementAreas (array of 1-2 strings), strategies (array of 2-3 strings), nextStepGoal (string), encouragement (string). Avoid raw scores, sensitive labels, or mention of JSON.",
+      "You are an educational coach writing for a student. Use a warm, encouraging, growth-mindset tone grounded in the analysis and teacher notes. Return ONLY valid JSON with these fields: positiveObservation (string), strengths (array of 1-3 strings), improvementAreas (array of 1-2 strings), strategies (array of 2-3 strings), nextStepGoal (string), encouragement (string). Write every string value in {language}. Avoid raw scores, sensitive labels, or mention of JSON.",
     ],
     [
       "human",
@@ -58,7 +95,7 @@ export function createAgent(config: AppConfig, logger: Logger, preferences?: Tea
   const teacherPrompt = ChatPromptTemplate.fromMessages([
     [
       "system",
-      "You are an educational coach preparing a class summary for the teacher. Use a supportive, solution-oriented tone. Return ONLY valid JSON with fields: classOverview (string), strengths (array of 1-4 strings), attentionNeeded (array of objects with name and reason), nextSteps (array of 2-4 strings). Avoid raw scores or shaming language.",
+      "You are an educational coach preparing a class summary for the teacher. Use a supportive, solution-oriented tone. Return ONLY valid JSON with fields: classOverview (string), strengths (array of 1-4 strings), attentionNeeded (array of objects with name and reason), nextSteps (array of 2-4 strings). Avoid raw scores or shaming language. Base each attentionNeeded reason on that student's riskFactors from the summary. Write every string value in {language}.",
     ],
     [
       "human",
@@ -67,24 +104,23 @@ export function createAgent(config: AppConfig, logger: Logger, preferences?: Tea
   ]);
 
   return {
-    async generateStudentInsights(analysis: StudentAnalysis): Promise<string> {
-      const analysisJson = JSON.stringify(analysis, null, 2);
+    async generateStudentInsights(analysis: StudentAnalysis): Promise<StructuredResult<StudentInsights>> {
+      const analysisJson = JSON.stringify(analysisForPrompt(analysis), null, 2);
       // Logging uses studentId so you can correlate LLM failures with specific records.
       logger.debug("Generating student insights", { studentId: analysis.student.id });
-      // `pipe(model)` builds a runnable chain: template → model.
-      const chain = studentPrompt.pipe(model);
-      // Chain invocation substitutes variables into the prompt and calls the model.
-      const response = await chain.invoke({ analysisJson, teacherRulesJson });
-      // We return raw text; downstream parsing/validation decides whether to accept it.
-      return response.content.toString();
+      // Formatting substitutes variables into the prompt; the provider then calls the model.
+      const language = languageName(preferredLocale(analysis.student.language, config.emailLocale));
+      const messages = await studentPrompt.formatMessages({ language, analysisJson, teacherRulesJson });
+      // We return the validated result; the pipeline decides what to do when it is not ok.
+      return await generate(messages, STUDENT_INSIGHTS_FORMAT, parseStudentInsights);
     },
 
-    async generateTeacherSummary(summary: TeacherSummary): Promise<string> {
+    async generateTeacherSummary(summary: TeacherSummary): Promise<StructuredResult<TeacherInsights>> {
       const summaryJson = JSON.stringify(summary, null, 2);
       logger.debug("Generating teacher summary");
-      const chain = teacherPrompt.pipe(model);
-      const response = await chain.invoke({ summaryJson, teacherRulesJson });
-      return response.content.toString();
+      const language = languageName(config.emailLocale);
+      const messages = await teacherPrompt.formatMessages({ language, summaryJson, teacherRulesJson });
+      return await generate(messages, TEACHER_INSIGHTS_FORMAT, parseTeacherInsights);
     },
   };
 }
@@ -1,8 +1,35 @@
-import { ChatOpenAI } from "@langchain/openai";
 import { ChatPromptTemplate } from "@langchain/core/prompts";
-import type { AppConfig, StudentAnalysis, TeacherSummary, TeacherPreferences } from "./types.ts";
+import type {
+  AppConfig,
+  GuardianInsights,
+  StudentAnalysis,
+  StudentInsights,
+  TeacherInsights,
+  TeacherPreferences,
+  TeacherSummary,
+} from "./types.ts";
 import type { Logger } from "./logger.ts";
 import type { StudentMemory, TeacherMemory } from "./memory_store.ts";
+import {
+  analysisForPrompt,
+  GUARDIAN_INSIGHTS_FORMAT,
+  GUARDIAN_INSIGHTS_PROMPT,
+  parseGuardianInsights,
+  parseStudentInsights,
+  parseTeacherInsights,
+  STUDENT_INSIGHTS_FORMAT,
+  TEACHER_INSIGHTS_FORMAT,
+} from "./insights.ts";
+import { languageName, preferredLocale } from "./message_catalog.ts";
+import {
+  CircuitBreaker,
+  completeStructured,
+  createLlmProvider,
+  type LlmProvider,
+  type LlmResponseFormat,
+  type StructuredResult,
+  toLlmMessages,
+} from "./llm_provider.ts";
 
 /**
  * “Batch insights” agent with memory injection.
@@ -15,29 +42,28 @@ import type { StudentMemory, TeacherMemory } from "./memory_store.ts";
  * - Raw memory files can grow or contain fields not relevant to the current prompt.
  * - Passing only the “decision-driving” parts (summary/strengths/goals) keeps tokens down and reduces noise.
  *
+ * Output language: student insights are written in the student's preferred language, guardian notes in the
+ * guardian's, and the teacher summary in `EMAIL_LOCALE`. JSON field names stay English either way.
+ *
+ * The model API comes from `LLM_PROVIDER` (see `src/llm_provider.ts`). Each prompt's contract also goes to the
+ * API as a structured-output schema, and invalid output is re-asked once before the caller falls back.
+ *
  * This agent is used by:
  * - `src/main_with_memory.ts` (memory-mode scheduler)
  * - `src/run_with_tool.ts` (tool-first scheduler)
  */
-function createModel(config: AppConfig) {
-  // Centralized model configuration so temperature and endpoint are consistent.
-  const modelConfig = {
-    openAIApiKey: config.openAiApiKey,
-    modelName: config.openAiModel,
-    // Slightly lower temperature keeps JSON output more reliable.
-    temperature: 0.7,
-    configuration: config.openAiBaseUrl
-      ? { baseURL: config.openAiBaseUrl }
-      : undefined,
-  };
+type ValidationResult<T> = { ok: true; value: T } | { ok: false; errors: string[] };
 
-  // LangChain wrapper handles API calls and retries internally.
-  return new ChatOpenAI(modelConfig);
-}
+// Slightly lower temperature keeps JSON output more reliable.
+const TEMPERATURE = 0.7;
 
 function reduceStudentMemory(memory?: StudentMemory): Record<string, unknown> | "None" {
   // Only pass minimal memory fields to keep prompts short and focused.
-  if (!memory || (!memory.summary && memory.strengths.length === 0 && memory.goals.length === 0)) {
+  if (
+    !memory ||
+    (!memory.summary && memory.strengths.length === 0 && memory.goals.length === 0 &&
+      memory.accommodations.length === 0)
+  ) {
     return "None";
   }
   // Summarize to reduce token usage and avoid prompt bloat.
@@ -48,6 +74,8 @@ function reduceStudentMemory(memory?: StudentMemory): Record<string, unknown> |
     strengths: memory.strengths,
     improvementAreas: memory.improvementAreas,
     goals: memory.goals,
+    // Teacher-stated supports, so suggested strategies don't contradict them.
+    accommodations: memory.accommodations,
     lastUpdated: memory.lastUpdated,
   };
 }
@@ -74,8 +102,26 @@ export function createAgentWithMemory(
   config: AppConfig,
   logger: Logger,
   preferences?: TeacherPreferences,
+  // Injectable so tests and offline runs can swap in the mock provider.
+  provider: LlmProvider = createLlmProvider(config, logger),
 ) {
-  const model = createModel(config);
+  // Pipelines create one agent per run, so this breaker stops model calls for the rest of one run only.
+  const breaker = new CircuitBreaker(config.llm.circuitBreakerThreshold, logger);
+  // Every prompt goes through the same call: format the template, request the schema (unless structured output
+  // is switched off), validate, and re-ask at most once. Model failures come back as results with the reason.
+  const generate = async <T>(
+    prompt: ChatPromptTemplate,
+    variables: Record<string, string>,
+    responseFormat: LlmResponseFormat,
+    parse: (raw: string) => ValidationResult<T>,
+  ): Promise<StructuredResult<T>> => {
+    const messages = await prompt.formatMessages(variables);
+    return await completeStructured(provider, {
+      messages: toLlmMessages(messages),
+      temperature: TEMPERATURE,
+      responseFormat: config.llm.structuredOutput === false ? undefined : responseFormat,
+    }, parse, breaker);
+  };
   // Preferences are injected as JSON to keep prompt structure consistent.
   const teacherRulesJson = preferences ? JSON.stringify(preferences, null, 2) : "None";
 
@@ -83,7 +129,7 @@ export function createAgentWithMemory(
   const studentPrompt = ChatPromptTemplate.fromMessages([
     [
       "system",
-      "You are an educational coach writing for a student. Use a warm, encouraging, growth-mindset tone grounded in analysis and memory. Return ONLY valid JSON with fields: positiveObservation (string), strengths (array of 1-3 strings), improvementAreas (array of 1-2 strings), strategies (array of 2-3 strings), nextStepGoal (string), encouragement (string). Avoid raw scores or mention of JSON.",
+      "You are an educational coach writing for a student. Use a warm, encouraging, growth-mindset tone grounded in analysis and memory. Return ONLY valid JSON with fields: positiveObservation (string), strengths (array of 1-3 strings), improvementAreas (array of 1-2 strings), strategies (array of 2-3 strings), nextStepGoal (string), encouragement (string). Write every string value in {language}. Avoid raw scores or mention of JSON.",
     ],
     [
       "human",
@@ -99,7 +145,7 @@ export function createAgentWithMemory(
   const teacherPrompt = ChatPromptTemplate.fromMessages([
     [
       "system",
-      "You are an educational coach preparing a class summary for the teacher. Use a supportive, solution-oriented tone and reference memory where relevant. Return ONLY valid JSON with fields: classOverview (string), strengths (array of 1-4 strings), attentionNeeded (array of objects with name and reason), nextSteps (array of 2-4 strings). Avoid raw scores or shaming language.",
+      "You are an educational coach preparing a class summary for the teacher. Use a supportive, solution-oriented tone and reference memory where relevant. Return ONLY valid JSON with fields: classOverview (string), strengths (array of 1-4 strings), attentionNeeded (array of objects with name and reason), nextSteps (array of 2-4 strings). Avoid raw scores or shaming language. Base each attentionNeeded reason on that student's riskFactors from the summary. Write every string value in {language}.",
     ],
     [
       "human",
@@ -108,29 +154,62 @@ export function createAgentWithMemory(
     ],
   ]);
 
+  // Guardian notes use their own prompt (see `src/insights.ts`), with the same inputs as the student prompt.
+  const guardianPrompt = ChatPromptTemplate.fromMessages([
+    ["system", GUARDIAN_INSIGHTS_PROMPT.system],
+    ["human", GUARDIAN_INSIGHTS_PROMPT.human],
+  ]);
+
   return {
-    async generateStudentInsights(analysis: StudentAnalysis, memory?: StudentMemory): Promise<string> {
-      const analysisJson = JSON.stringify(analysis, null, 2);
+    async generateStudentInsights(
+      analysis: StudentAnalysis,
+      memory?: StudentMemory,
+    ): Promise<StructuredResult<StudentInsights>> {
+      const analysisJson = JSON.stringify(analysisForPrompt(analysis), null, 2);
       // Memory is reduced before serialization to keep prompt small.
       const memoryJson = JSON.stringify(reduceStudentMemory(memory), null, 2);
-      logger.debug("Generating student insights with memory", { studentId: analysis.student.id });
-      // Pipe prompt into model so we can invoke with structured variables.
-      const chain = studentPrompt.pipe(model);
-      const response = await chain.invoke({ analysisJson, memoryJson, teacherRulesJson });
-      // Return raw text; downstream parsing validates JSON.
-      return response.content.toString();
+      const language = languageName(preferredLocale(analysis.student.language, config.emailLocale));
+      logger.debug("Generating student insights with memory", { studentId: analysis.student.id, language });
+      // Return the validated result; the pipeline falls back when it is not ok.
+      return await generate(
+        studentPrompt,
+        { language, analysisJson, memoryJson, teacherRulesJson },
+        STUDENT_INSIGHTS_FORMAT,
+        parseStudentInsights,
+      );
+    },
+
+    async generateGuardianInsights(
+      analysis: StudentAnalysis,
+      language: string,
+      memory?: StudentMemory,
+    ): Promise<StructuredResult<GuardianInsights>> {
+      const analysisJson = JSON.stringify(analysisForPrompt(analysis), null, 2);
+      const memoryJson = JSON.stringify(reduceStudentMemory(memory), null, 2);
+      logger.debug("Generating guardian insights", { studentId: analysis.student.id, language });
+      return await generate(
+        guardianPrompt,
+        { language: languageName(language), analysisJson, memoryJson, teacherRulesJson },
+        GUARDIAN_INSIGHTS_FORMAT,
+        parseGuardianInsights,
+      );
     },
 
-    async generateTeacherSummary(summary: TeacherSummary, memory?: TeacherMemory): Promise<string> {
+    async generateTeacherSummary(
+      summary: TeacherSummary,
+      memory?: TeacherMemory,
+    ): Promise<StructuredResult<TeacherInsights>> {
       const summaryJson = JSON.stringify(summary, null, 2);
       // Memory is reduced before serialization to keep prompt small.
       const memoryJson = JSON.stringify(reduceTeacherMemory(memory), null, 2);
       logger.debug("Generating teacher summary with memory");
-      // Same chain pattern for teacher summary.
-      const chain = teacherPrompt.pipe(model);
-      const response = await chain.invoke({ summaryJson, memoryJson, teacherRulesJson });
-      // Return raw text; downstream parsing validates JSON.
-      return response.content.toString();
+      // Return the validated result; the pipeline falls back when it is not ok.
+      return await generate(
+        teacherPrompt,
+        { language: languageName(config.emailLocale), summaryJson, memoryJson, teacherRulesJson },
+        TEACHER_INSIGHTS_FORMAT,
+        parseTeacherInsights,
+      );
     },
   };
 }
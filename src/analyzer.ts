@@ -1,4 +1,18 @@
-import type { Student, StudentAnalysis, StudentMetrics, TeacherSummary } from "./types.ts";
+import type {
+  Assessment,
+  Grade,
+  PerformanceTrend,
+  RiskFactor,
+  RiskLevel,
+  RiskOperator,
+  RiskPolicy,
+  RiskRule,
+  Student,
+  StudentAnalysis,
+  StudentMetrics,
+  SubjectTrend,
+  TeacherSummary,
+} from "./types.ts";
 
 /**
  * Deterministic analysis engine.
@@ -30,32 +44,260 @@ function bottomN<T>(items: T[], n: number, score: (item: T) => number): T[] {
   return [...items].sort((a, b) => score(a) - score(b)).slice(0, n);
 }
 
-function determineRisk(metrics: StudentMetrics, trend: Student["performanceTrend"]): StudentAnalysis["riskLevel"] {
-  // This risk model is intentionally simple and explainable:
-  // - “high” triggers when any strong negative signal is present
-  // - “medium” triggers on softer thresholds
-  // - otherwise “low”
-  //
-  // Why thresholds exist at all:
-  // - The LLM prompt expects “what to focus on”; coarse bucketing helps teacher triage and summarization.
-  if (metrics.averageScore < 70 || metrics.participationScore <= 4 || metrics.assignmentCompletionRate < 70 || trend === "declining") {
-    return "high";
+// A slope of 2+ points per 30 days (either direction) counts as a real trend rather than noise.
+const TREND_SLOPE_THRESHOLD = 2;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function leastSquaresSlope(points: Array<{ x: number; y: number }>): number {
+  // Ordinary least squares; a zero x-variance (all on one day) means “no measurable change”.
+  if (points.length < 2) return 0;
+  const meanX = points.reduce((acc, point) => acc + point.x, 0) / points.length;
+  const meanY = points.reduce((acc, point) => acc + point.y, 0) / points.length;
+  let numerator = 0;
+  let denominator = 0;
+  for (const point of points) {
+    numerator += (point.x - meanX) * (point.y - meanY);
+    denominator += (point.x - meanX) ** 2;
+  }
+  return denominator === 0 ? 0 : numerator / denominator;
+}
+
+function classifySlope(slope: number): PerformanceTrend {
+  if (slope >= TREND_SLOPE_THRESHOLD) return "improving";
+  if (slope <= -TREND_SLOPE_THRESHOLD) return "declining";
+  return "stable";
+}
+
+/**
+ * Compute per-subject trends from dated assessments.
+ *
+ * Subjects with fewer than two assessments are skipped: one data point has no direction. Subjects are matched
+ * ignoring case and surrounding spaces, as risk rules and roster import do, and reported under the first label seen.
+ */
+export function computeSubjectTrends(assessments: Assessment[]): SubjectTrend[] {
+  const bySubject = new Map<string, { subject: string; entries: Assessment[] }>();
+  for (const assessment of assessments) {
+    const key = assessment.subject.trim().toLowerCase();
+    const group = bySubject.get(key) ?? { subject: assessment.subject.trim(), entries: [] };
+    group.entries.push(assessment);
+    bySubject.set(key, group);
+  }
+
+  const trends: SubjectTrend[] = [];
+  for (const { subject, entries } of bySubject.values()) {
+    if (entries.length < 2) continue;
+    // Sort by date so “recent delta” and slope direction are well-defined.
+    const sorted = [...entries].sort((a, b) => Date.parse(a.date) - Date.parse(b.date));
+    const origin = Date.parse(sorted[0].date);
+    // x is measured in 30-day units so the slope reads as “points per month”.
+    const slope = leastSquaresSlope(
+      sorted.map((entry) => ({ x: (Date.parse(entry.date) - origin) / MS_PER_DAY / 30, y: entry.score })),
+    );
+    const latest = sorted[sorted.length - 1];
+    const previous = sorted[sorted.length - 2];
+    const slopePer30Days = Math.round(slope * 100) / 100;
+    trends.push({
+      subject,
+      assessmentCount: sorted.length,
+      slopePer30Days,
+      recentDelta: Math.round((latest.score - previous.score) * 100) / 100,
+      latestScore: latest.score,
+      latestDate: latest.date,
+      trend: classifySlope(slopePer30Days),
+    });
+  }
+  return trends;
+}
+
+function resolveTrend(
+  student: Student,
+  subjectTrends: SubjectTrend[],
+): Pick<StudentAnalysis, "trend" | "trendSource"> {
+  // The hand-entered label is only a fallback: it is often stale, and it feeds straight into risk.
+  if (subjectTrends.length === 0) {
+    return { trend: student.performanceTrend, trendSource: "reported" };
+  }
+  // Each subject counts equally so one heavily-assessed subject doesn't dominate the overall direction.
+  const meanSlope = subjectTrends.reduce((acc, trend) => acc + trend.slopePer30Days, 0) / subjectTrends.length;
+  return { trend: classifySlope(meanSlope), trendSource: "assessments" };
+}
+
+/**
+ * Built-in risk policy, used when no policy file is configured.
+ *
+ * It reproduces the original fixed thresholds: any “strong” signal (weight 4) makes a student high risk,
+ * while “soft” signals (weight 1) can only ever add up to medium.
+ *
+ * Why thresholds exist at all:
+ * - The LLM prompt expects “what to focus on”; coarse bucketing helps teacher triage and summarization.
+ */
+export const DEFAULT_RISK_POLICY: RiskPolicy = {
+  rules: [
+    { id: "average-below-70", signal: "averageScore", operator: "lt", value: 70, weight: 4 },
+    { id: "participation-at-most-4", signal: "participationScore", operator: "lte", value: 4, weight: 4 },
+    { id: "completion-below-70", signal: "assignmentCompletionRate", operator: "lt", value: 70, weight: 4 },
+    { id: "trend-declining", signal: "trend", operator: "eq", value: "declining", weight: 4 },
+    { id: "average-below-80", signal: "averageScore", operator: "lt", value: 80, weight: 1 },
+    { id: "participation-at-most-6", signal: "participationScore", operator: "lte", value: 6, weight: 1 },
+    { id: "completion-below-85", signal: "assignmentCompletionRate", operator: "lt", value: 85, weight: 1 },
+  ],
+  levels: { high: 4, medium: 1 },
+  attentionRules: [
+    { id: "attention-average-below-75", signal: "averageScore", operator: "lt", value: 75, weight: 0 },
+    { id: "attention-completion-below-80", signal: "assignmentCompletionRate", operator: "lt", value: 80, weight: 0 },
+    { id: "attention-trend-declining", signal: "trend", operator: "eq", value: "declining", weight: 0 },
+  ],
+};
+
+// The subset of analysis inputs that risk rules can look at.
+interface RiskInput {
+  averageScore: number;
+  participationScore: number;
+  assignmentCompletionRate: number;
+  grades: Grade[];
+  trend: PerformanceTrend;
+}
+
+function compare(observed: number | string, operator: RiskOperator, threshold: number | string): boolean {
+  if (operator === "eq") return observed === threshold;
+  // Ordering operators only make sense for numbers; mixed types never match.
+  if (typeof observed !== "number" || typeof threshold !== "number") return false;
+  if (operator === "lt") return observed < threshold;
+  if (operator === "lte") return observed <= threshold;
+  if (operator === "gt") return observed > threshold;
+  return observed >= threshold;
+}
+
+function ruleMatches(rule: RiskRule, input: RiskInput): boolean {
+  if (rule.signal === "trend") {
+    return compare(input.trend, rule.operator, rule.value);
+  }
+  if (rule.signal === "subjectScore") {
+    // Per-subject thresholds: a subject-less rule matches when any single grade crosses the line.
+    const subject = rule.subject?.toLowerCase();
+    return input.grades
+      .filter((grade) => subject === undefined || grade.subject.toLowerCase() === subject)
+      .some((grade) => compare(grade.score, rule.operator, rule.value));
+  }
+  return compare(input[rule.signal], rule.operator, rule.value);
+}
+
+const OPERATOR_PHRASES: Record<RiskOperator, string> = {
+  lt: "below",
+  lte: "at or below",
+  gt: "above",
+  gte: "at or above",
+  eq: "equal to",
+};
+
+const SEVERITY_RANK: Record<RiskLevel, number> = { high: 2, medium: 1, low: 0 };
+
+function describeFactor(
+  rule: RiskRule,
+  observed: number | PerformanceTrend,
+  subject: string | undefined,
+): string {
+  // Reasons are phrased for teachers, so each signal keeps its natural unit.
+  const phrase = OPERATOR_PHRASES[rule.operator];
+  if (rule.signal === "trend") return `Performance trend is ${observed}`;
+  if (rule.signal === "averageScore") {
+    return `Overall average is ${(observed as number).toFixed(1)}, ${phrase} ${rule.value}`;
+  }
+  if (rule.signal === "participationScore") {
+    return `Participation score is ${observed}/10, ${phrase} ${rule.value}`;
+  }
+  if (rule.signal === "assignmentCompletionRate") {
+    return `Assignment completion is ${observed}%, ${phrase} ${rule.value}%`;
+  }
+  return `${subject} score is ${observed}, ${phrase} ${rule.value}`;
+}
+
+function factorsForRule(rule: RiskRule, input: RiskInput, policy: RiskPolicy): RiskFactor[] {
+  // Severity mirrors how much the rule alone contributes toward the policy's level cut-offs.
+  const severity: RiskLevel = rule.weight >= policy.levels.high
+    ? "high"
+    : rule.weight >= policy.levels.medium
+    ? "medium"
+    : "low";
+  const build = (observed: number | PerformanceTrend, subject?: string): RiskFactor => ({
+    ruleId: rule.id,
+    signal: rule.signal,
+    ...(subject ? { subject } : {}),
+    observed,
+    operator: rule.operator,
+    threshold: rule.value,
+    severity,
+    reason: describeFactor(rule, observed, subject),
+  });
+
+  if (rule.signal === "trend") {
+    return compare(input.trend, rule.operator, rule.value) ? [build(input.trend)] : [];
+  }
+  if (rule.signal === "subjectScore") {
+    // One factor per offending grade so the reason names the actual subject.
+    const subject = rule.subject?.toLowerCase();
+    return input.grades
+      .filter((grade) => subject === undefined || grade.subject.toLowerCase() === subject)
+      .filter((grade) => compare(grade.score, rule.operator, rule.value))
+      .map((grade) => build(grade.score, grade.subject));
   }
-  if (metrics.averageScore < 80 || metrics.participationScore <= 6 || metrics.assignmentCompletionRate < 85) {
-    return "medium";
+  const observed = input[rule.signal];
+  return compare(observed, rule.operator, rule.value) ? [build(observed)] : [];
+}
+
+function buildRiskFactors(policy: RiskPolicy, input: RiskInput): RiskFactor[] {
+  // Overlapping rules (e.g. “average below 70” and “below 80”) describe the same signal;
+  // keep only the most severe factor per signal/subject so reasons don't repeat themselves.
+  const bySignal = new Map<string, RiskFactor>();
+  for (const rule of [...policy.rules, ...policy.attentionRules]) {
+    for (const factor of factorsForRule(rule, input, policy)) {
+      const key = `${factor.signal}:${factor.subject?.toLowerCase() ?? ""}`;
+      const existing = bySignal.get(key);
+      if (!existing || SEVERITY_RANK[factor.severity] > SEVERITY_RANK[existing.severity]) {
+        bySignal.set(key, factor);
+      }
+    }
   }
-  return "low";
+  return [...bySignal.values()].sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
+}
+
+function evaluateRisk(
+  policy: RiskPolicy,
+  input: RiskInput,
+): Pick<StudentAnalysis, "riskLevel" | "riskScore" | "riskRuleIds"> {
+  // Explainable by construction: the level is a pure function of which rules matched.
+  const matched = policy.rules.filter((rule) => ruleMatches(rule, input));
+  const riskScore = Math.round(matched.reduce((acc, rule) => acc + rule.weight, 0) * 100) / 100;
+  const riskLevel = riskScore >= policy.levels.high
+    ? "high"
+    : riskScore >= policy.levels.medium
+    ? "medium"
+    : "low";
+  return { riskLevel, riskScore, riskRuleIds: matched.map((rule) => rule.id) };
 }
 
 /**
  * Analyze a student record into structured performance insights.
  */
-export function analyzeStudent(student: Student): StudentAnalysis {
+export function analyzeStudent(student: Student, policy: RiskPolicy = DEFAULT_RISK_POLICY): StudentAnalysis {
   // Convert grade entries into an average signal used by most thresholds.
   const averageScore = average(student.grades.map((grade) => grade.score));
   // Top/bottom subjects are kept small (2) to keep prompt context compact.
   const highestSubjects = topN(student.grades, 2, (grade) => grade.score);
   const lowestSubjects = bottomN(student.grades, 2, (grade) => grade.score);
+  // Trend comes from dated assessment history when there is enough of it.
+  const subjectTrends = computeSubjectTrends(student.assessments ?? []);
+  const { trend, trendSource } = resolveTrend(student, subjectTrends);
+  const riskInput: RiskInput = {
+    averageScore,
+    participationScore: student.participationScore,
+    assignmentCompletionRate: student.assignmentCompletionRate,
+    grades: student.grades,
+    trend,
+  };
+  const attentionRuleIds = policy.attentionRules
+    .filter((rule) => ruleMatches(rule, riskInput))
+    .map((rule) => rule.id);
 
   const metrics: StudentMetrics = {
     averageScore,
@@ -64,7 +306,7 @@ export function analyzeStudent(student: Student): StudentAnalysis {
     participationScore: student.participationScore,
     assignmentCompletionRate: student.assignmentCompletionRate,
     // `needsAttention` is a “quick filter” used for teacher summary generation.
-    needsAttention: averageScore < 75 || student.assignmentCompletionRate < 80 || student.performanceTrend === "declining",
+    needsAttention: attentionRuleIds.length > 0,
   };
 
   // These arrays become “deterministic prompt hints” and also drive fallback insights.
@@ -75,21 +317,28 @@ export function analyzeStudent(student: Student): StudentAnalysis {
   if (averageScore >= 85) strengths.push("Strong overall academic performance");
   if (student.participationScore >= 8) strengths.push("Consistent class participation");
   if (student.assignmentCompletionRate >= 90) strengths.push("High assignment completion rate");
-  if (student.performanceTrend === "improving") strengths.push("Recent performance trend is improving");
+  if (trend === "improving") strengths.push("Recent performance trend is improving");
 
   // Improvement rules bias toward actionability: what can be changed next.
   if (averageScore < 75) improvementAreas.push("Overall grade average needs improvement");
   if (student.participationScore <= 6) improvementAreas.push("Increase class participation");
   if (student.assignmentCompletionRate < 85) improvementAreas.push("Improve assignment completion rate");
-  if (student.performanceTrend === "declining") improvementAreas.push("Address recent performance decline");
+  if (trend === "declining") improvementAreas.push("Address recent performance decline");
+  // Name subjects that are sliding so the decline is actionable even when the overall trend is stable.
+  const decliningSubjects = subjectTrends.filter((subjectTrend) => subjectTrend.trend === "declining");
+  if (decliningSubjects.length > 0) {
+    const subjects = decliningSubjects.map((subjectTrend) => subjectTrend.subject).join(", ");
+    improvementAreas.push(`Reverse the recent decline in: ${subjects}`);
+  }
   if (lowestSubjects.length > 0) {
     // Converting subjects to a comma list keeps this single improvement area compact.
     const subjects = lowestSubjects.map((grade) => grade.subject).join(", ");
     improvementAreas.push(`Focus on weaker subjects: ${subjects}`);
   }
 
-  // Convert metrics/trend into a coarse bucket used by teacher triage.
-  const riskLevel = determineRisk(metrics, student.performanceTrend);
+  // Convert metrics/trend into a coarse bucket used by teacher triage, via the configured policy.
+  const { riskLevel, riskScore, riskRuleIds } = evaluateRisk(policy, riskInput);
+  const riskFactors = buildRiskFactors(policy, riskInput);
 
   return {
     student,
@@ -97,6 +346,13 @@ export function analyzeStudent(student: Student): StudentAnalysis {
     strengths,
     improvementAreas,
     riskLevel,
+    riskScore,
+    riskRuleIds,
+    attentionRuleIds,
+    riskFactors,
+    trend,
+    trendSource,
+    subjectTrends,
   };
 }
 
@@ -111,13 +367,19 @@ export function buildTeacherSummary(analyses: StudentAnalysis[]): TeacherSummary
   // Keep top list short for readability in summary messages.
   const topStudents = sortedByAverage.slice(0, 3).map((analysis) => analysis.student.name);
   // Attention list combines explicit needsAttention + high risk, so teachers get a concise check-in roster.
+  // Each entry carries its risk factors so prompts and fallbacks can explain *why* a student is listed.
   const attentionNeeded = analyses
     .filter((analysis) => analysis.metrics.needsAttention || analysis.riskLevel === "high")
-    .map((analysis) => analysis.student.name);
+    .map((analysis) => ({
+      studentId: analysis.student.id,
+      name: analysis.student.name,
+      riskLevel: analysis.riskLevel,
+      riskFactors: analysis.riskFactors,
+    }));
 
   const notes: string[] = [];
   // Notes are designed to be “lightweight aggregations” that inform teacher messaging.
-  const declining = analyses.filter((analysis) => analysis.student.performanceTrend === "declining").length;
+  const declining = analyses.filter((analysis) => analysis.trend === "declining").length;
   if (declining > 0) notes.push(`${declining} student(s) show a declining trend.`);
   const strongCompletion = analyses.filter((analysis) => analysis.metrics.assignmentCompletionRate >= 90).length;
   if (strongCompletion > 0) notes.push(`${strongCompletion} student(s) have 90%+ assignment completion.`);
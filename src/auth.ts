@@ -0,0 +1,264 @@
+import type { UserRole } from "../packages/shared-types/src/contracts.ts";
+import type { Logger } from "./logger.ts";
+
+/**
+ * Session tokens and access rules for the API server.
+ *
+ * Why this exists:
+ * - `ChatRequest.role`/`userId` come from the browser, so they can't decide what data a caller sees.
+ * - Tokens are local HS256 JWTs signed with `AUTH_SECRET` (no external identity provider).
+ * - A token only names a user; the role and classes come from the users file (and the roster from the store)
+ *   at request time, so editing either takes effect without reissuing tokens.
+ *
+ * Access model:
+ * - student: only its own `studentId`
+ * - teacher: only its classes (`classIds`) and the students on those class rosters
+ * - admin: every route, but chat stays system-only (enforced in the chat handler)
+ */
+type ValidationResult<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+export interface AuthUser {
+  id: string;
+  role: UserRole;
+  // Student users: the student record this user is.
+  studentId?: string;
+  // Teacher users: the classes this user teaches.
+  classIds?: string[];
+}
+
+export interface SessionClaims {
+  // User id from the users file.
+  sub: string;
+  // Role at issue time; must still match the users file when the token is used.
+  role: UserRole;
+  iat: number;
+  exp: number;
+}
+
+export interface Session {
+  userId: string;
+  role: UserRole;
+  studentId?: string;
+  // Teacher sessions: the classes taught and the students on their rosters (resolved per request).
+  classIds: string[];
+  studentIds: string[];
+  expiresAt: string;
+}
+
+// Resolves the students currently on the given classes' rosters.
+export type RosterLookup = (classIds: string[]) => string[];
+
+const ROLES: UserRole[] = ["student", "teacher", "admin"];
+const encoder = new TextEncoder();
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => binary += String.fromCharCode(byte));
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function base64UrlDecode(value: string) {
+  const padded = value.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(value.length / 4) * 4, "=");
+  return Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+}
+
+function importKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  );
+}
+
+/**
+ * Sign a session token for a user. `now` is injectable for tests.
+ */
+export async function signSessionToken(
+  user: { id: string; role: UserRole },
+  secret: string,
+  ttlSeconds: number,
+  now = Date.now(),
+): Promise<string> {
+  const iat = Math.floor(now / 1000);
+  const claims: SessionClaims = { sub: user.id, role: user.role, iat, exp: iat + Math.floor(ttlSeconds) };
+  const header = base64UrlEncode(encoder.encode(JSON.stringify({ alg: "HS256", typ: "JWT" })));
+  const payload = base64UrlEncode(encoder.encode(JSON.stringify(claims)));
+  const signature = await crypto.subtle.sign("HMAC", await importKey(secret), encoder.encode(`${header}.${payload}`));
+  return `${header}.${payload}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verify a token's signature and expiry and return its claims.
+ */
+export async function verifySessionToken(
+  token: string,
+  secret: string,
+  now = Date.now(),
+): Promise<ValidationResult<SessionClaims>> {
+  const parts = token.split(".");
+  if (parts.length !== 3) return { ok: false, errors: ["Malformed token"] };
+  const [header, payload, signature] = parts;
+
+  try {
+    const headerValue = JSON.parse(new TextDecoder().decode(base64UrlDecode(header))) as Record<string, unknown>;
+    // Pinning the algorithm rules out "alg: none" and algorithm-confusion tokens.
+    if (headerValue.alg !== "HS256") return { ok: false, errors: ["Unsupported token algorithm"] };
+
+    // `subtle.verify` compares in constant time, unlike comparing signature strings.
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await importKey(secret),
+      base64UrlDecode(signature),
+      encoder.encode(`${header}.${payload}`),
+    );
+    if (!valid) return { ok: false, errors: ["Invalid token signature"] };
+
+    const claims = JSON.parse(new TextDecoder().decode(base64UrlDecode(payload))) as Record<string, unknown>;
+    const role = ROLES.find((item) => item === claims.role);
+    if (typeof claims.sub !== "string" || !claims.sub || !role) {
+      return { ok: false, errors: ["Token is missing sub or role"] };
+    }
+    if (typeof claims.exp !== "number" || typeof claims.iat !== "number") {
+      return { ok: false, errors: ["Token is missing iat or exp"] };
+    }
+    if (claims.exp * 1000 <= now) return { ok: false, errors: ["Token expired"] };
+    return { ok: true, value: { sub: claims.sub, role, iat: claims.iat, exp: claims.exp } };
+  } catch {
+    // Bad base64 or JSON in any segment.
+    return { ok: false, errors: ["Malformed token"] };
+  }
+}
+
+/**
+ * Validate the users file. Invalid entries are dropped and reported in `errors`.
+ */
+export function validateAuthUsers(value: unknown): { users: AuthUser[]; errors: string[] } {
+  const errors: string[] = [];
+  const list = typeof value === "object" && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>).users
+    : undefined;
+  if (!Array.isArray(list)) {
+    return { users: [], errors: ["Users file must be an object with a users array"] };
+  }
+
+  const users: AuthUser[] = [];
+  const seen = new Set<string>();
+  list.forEach((item, index) => {
+    const label = `users[${index}]`;
+    if (typeof item !== "object" || item === null || Array.isArray(item)) {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+    const record = item as Record<string, unknown>;
+    const id = typeof record.id === "string" ? record.id.trim() : "";
+    const role = ROLES.find((entry) => entry === record.role);
+    if (!id) errors.push(`${label}.id must be a non-empty string`);
+    if (!role) errors.push(`${label}.role must be one of ${ROLES.join(", ")}`);
+    if (!id || !role) return;
+    if (seen.has(id)) {
+      errors.push(`${label}.id "${id}" is duplicated`);
+      return;
+    }
+
+    if (role === "student") {
+      if (typeof record.studentId !== "string" || !record.studentId.trim()) {
+        errors.push(`${label}.studentId is required for student users`);
+        return;
+      }
+      users.push({ id, role, studentId: record.studentId.trim() });
+    } else if (role === "teacher") {
+      const classIds = record.classIds;
+      if (!Array.isArray(classIds) || !classIds.every((entry) => typeof entry === "string")) {
+        errors.push(`${label}.classIds must be an array of strings for teacher users`);
+        return;
+      }
+      users.push({ id, role, classIds: classIds.map((entry) => entry.trim()).filter(Boolean) });
+    } else {
+      users.push({ id, role });
+    }
+    seen.add(id);
+  });
+  return { users, errors };
+}
+
+/**
+ * Read and validate the users file, returning errors instead of throwing (used by hot reload).
+ */
+export async function readAuthUsers(path: string): Promise<{ users: AuthUser[]; errors: string[] }> {
+  try {
+    return validateAuthUsers(JSON.parse(await Deno.readTextFile(path)) as unknown);
+  } catch (error) {
+    return { users: [], errors: [error instanceof Error ? error.message : String(error)] };
+  }
+}
+
+/**
+ * Load the users file at startup. A missing or broken file means nobody can sign in (fail closed).
+ */
+export async function loadAuthUsers(path: string, logger: Logger): Promise<Map<string, AuthUser>> {
+  const { users, errors } = await readAuthUsers(path);
+  if (errors.length > 0) {
+    logger.warn("Users file validation warnings", { path, errors });
+  }
+  logger.info("Users loaded", { path, count: users.length });
+  return new Map(users.map((user) => [user.id, user]));
+}
+
+/**
+ * Resolve the caller's session from the `Authorization: Bearer <token>` header.
+ */
+export async function authenticate(
+  request: Request,
+  secret: string,
+  users: Map<string, AuthUser>,
+  rosterOf: RosterLookup,
+  now = Date.now(),
+): Promise<ValidationResult<Session>> {
+  const header = request.headers.get("authorization") ?? "";
+  const match = header.match(/^Bearer\s+(\S+)$/i);
+  if (!match) return { ok: false, errors: ["Missing bearer token"] };
+
+  const verified = await verifySessionToken(match[1], secret, now);
+  if (!verified.ok) return verified;
+
+  const user = users.get(verified.value.sub);
+  // A role change in the users file invalidates older tokens instead of silently widening them.
+  if (!user || user.role !== verified.value.role) {
+    return { ok: false, errors: ["Unknown user for token"] };
+  }
+  return {
+    ok: true,
+    value: {
+      userId: user.id,
+      role: user.role,
+      ...(user.studentId ? { studentId: user.studentId } : {}),
+      classIds: user.classIds ?? [],
+      // Rosters change through the API and hot reload, so they are looked up rather than stored in the token.
+      studentIds: user.classIds ? rosterOf(user.classIds) : [],
+      expiresAt: new Date(verified.value.exp * 1000).toISOString(),
+    },
+  };
+}
+
+export function hasRole(session: Session, ...roles: UserRole[]): boolean {
+  return roles.includes(session.role);
+}
+
+/**
+ * Whether the session may read or act on a whole class (runs, history, class roster changes).
+ */
+export function canAccessClass(session: Session, classId: string): boolean {
+  if (session.role === "admin") return true;
+  return session.role === "teacher" && session.classIds.includes(classId);
+}
+
+/**
+ * Whether the session may read or act on a student's data.
+ */
+export function canAccessStudent(session: Session, studentId: string): boolean {
+  if (session.role === "admin") return true;
+  if (session.role === "teacher") return session.studentIds.includes(studentId);
+  return session.studentId === studentId;
+}
@@ -1,7 +1,9 @@
-import { ChatOpenAI } from "@langchain/openai";
-import { ChatPromptTemplate } from "@langchain/core/prompts";
+import { ChatPromptTemplate, MessagesPlaceholder } from "@langchain/core/prompts";
+import { AIMessage, HumanMessage } from "@langchain/core/messages";
+import { type MemoryUpdate, parseMemoryUpdates } from "./memory_updates.ts";
 import type { AppConfig, TeacherPreferences } from "./types.ts";
 import type { Logger } from "./logger.ts";
+import { createLlmProvider, type LlmProvider, toLlmMessages, type TokenUsage } from "./llm_provider.ts";
 
 /**
  * Role-aware chat agent used by the HTTP API server (`src/http_server.ts`).
@@ -10,20 +12,30 @@ import type { Logger } from "./logger.ts";
  * - Chat output is free-form text (not strict JSON), optimized for interactive UX.
  * - Prompts enforce role boundaries (student vs teacher vs admin) to reduce accidental data leakage.
  * - Token usage is extracted (best-effort) so the UI can show session totals and estimated spend.
+ * - Recent turns of the conversation are replayed between the system prompt and the new message, so
+ *   follow-ups like “what about math?” resolve. Memory/rules stay on the latest message only.
+ * - Student replies are written in the student's preferred language; teacher and admin replies answer in the
+ *   language of the message. A student who writes in another language gets a reply in that language.
+ * - Teacher messages also go through a separate, low-temperature extraction prompt that pulls out durable
+ *   facts (goals, accommodations, ...) for the student's memory; see `src/memory_updates.ts`.
+ * - Calls go through an `LlmProvider` (`src/llm_provider.ts`), so chat runs on any configured model API.
  */
+export interface ChatTurn {
+  role: "user" | "assistant";
+  content: string;
+}
+
 export interface ChatContext {
   role: "student" | "teacher" | "admin";
   message: string;
   memorySummary?: string;
   teacherRules?: TeacherPreferences;
   studentName?: string;
+  // Language name (e.g. "Spanish") student replies are written in unless the student writes in another one.
+  language?: string;
   systemSummary?: string;
-}
-
-export interface TokenUsage {
-  inputTokens: number;
-  outputTokens: number;
-  totalTokens: number;
+  // Earlier turns of this conversation, oldest first (already windowed by the caller).
+  history?: ChatTurn[];
 }
 
 export interface ChatReply {
@@ -31,32 +43,37 @@ export interface ChatReply {
   usage?: TokenUsage;
 }
 
-function createModel(config: AppConfig) {
-  const modelConfig = {
-    openAIApiKey: config.openAiApiKey,
-    modelName: config.openAiModel,
-    // Keep chat fairly stable and helpful; a mid temperature avoids robotic outputs without getting too random.
-    temperature: 0.7,
-    configuration: config.openAiBaseUrl
-      ? { baseURL: config.openAiBaseUrl }
-      : undefined,
-  };
+// Streaming output: text deltas in order, then one closing chunk with the complete reply.
+export type ChatStreamChunk =
+  | { type: "delta"; text: string }
+  | { type: "done"; reply: ChatReply };
 
-  return new ChatOpenAI(modelConfig);
+export interface MemoryExtraction {
+  updates: MemoryUpdate[];
+  usage?: TokenUsage;
 }
 
+// Keep chat fairly stable and helpful; a mid temperature avoids robotic outputs without getting too random.
+const REPLY_TEMPERATURE = 0.7;
+// Extraction should be repeatable: the same message should yield the same memory change.
+const EXTRACTION_TEMPERATURE = 0;
+
 /**
  * Simple chat agent for the API server (non-scheduled).
  */
-export function createChatAgent(config: AppConfig, logger: Logger) {
-  const model = createModel(config);
+export function createChatAgent(
+  config: AppConfig,
+  logger: Logger,
+  provider: LlmProvider = createLlmProvider(config, logger),
+) {
 
   // Student prompt: direct-to-student language, and explicit instruction to avoid raw grades.
   const studentPrompt = ChatPromptTemplate.fromMessages([
     [
       "system",
-      "You are an educational assistant writing directly to a student. Be supportive, specific, and concise. Always refer to the student by name (use the provided name). Do not include sign-offs, signatures, or placeholders like \"[Your Name]\". Use memory context if provided, but do not mention it explicitly. Avoid raw grades or private data.",
+      "You are an educational assistant writing directly to a student. Be supportive, specific, and concise. Always refer to the student by name (use the provided name). Do not include sign-offs, signatures, or placeholders like \"[Your Name]\". Use memory context if provided, but do not mention it explicitly. Avoid raw grades or private data. Reply in {language} unless the student writes in a different language; then reply in theirs.",
     ],
+    new MessagesPlaceholder("history"),
     [
       "human",
       // We include role/name/memory/rules as plain text so the model has the full context it needs for tone and scope.
@@ -68,8 +85,9 @@ export function createChatAgent(config: AppConfig, logger: Logger) {
   const teacherPrompt = ChatPromptTemplate.fromMessages([
     [
       "system",
-      "You are an educational assistant writing directly to a teacher about a student. Provide student-focused guidance and classroom coaching strategies, and address the teacher (not the student). Avoid second-person pronouns like \"you\" or \"your\". Always refer to the student by name (use the provided name) in third person. Do not include sign-offs, signatures, or placeholders like \"[Your Name]\". Use memory context if provided, but do not mention it explicitly. Avoid raw grades or private data. Do not discuss system configuration or run status. Format the response with these labeled sections:\n- Student Overview\n- Strengths\n- Growth Areas\n- Next Steps\n- In-class Strategy\n- Family/Guardian Note (optional)",
+      "You are an educational assistant writing directly to a teacher about a student. Provide student-focused guidance and classroom coaching strategies, and address the teacher (not the student). Avoid second-person pronouns like \"you\" or \"your\". Always refer to the student by name (use the provided name) in third person. Do not include sign-offs, signatures, or placeholders like \"[Your Name]\". Use memory context if provided, but do not mention it explicitly. Avoid raw grades or private data. Do not discuss system configuration or run status. Reply in the language of the teacher's message. Format the response with these labeled sections:\n- Student Overview\n- Strengths\n- Growth Areas\n- Next Steps\n- In-class Strategy\n- Family/Guardian Note (optional)",
     ],
+    new MessagesPlaceholder("history"),
     [
       "human",
       "Student Name: {studentName}\nMemory Summary: {memorySummary}\nTeacher Preferences: {teacherRules}\n\nTeacher Message: {message}",
@@ -80,99 +98,110 @@ export function createChatAgent(config: AppConfig, logger: Logger) {
   const adminPrompt = ChatPromptTemplate.fromMessages([
     [
       "system",
-      "You are a system operations assistant for the educational agent. Only discuss system health, configuration, scheduling, and recent run status. Do not discuss individual students or student performance. If asked about students, explain that admin access is limited to system status.",
+      "You are a system operations assistant for the educational agent. Only discuss system health, configuration, scheduling, and recent run status. Do not discuss individual students or student performance. If asked about students, explain that admin access is limited to system status. Reply in the language of the user's message.",
     ],
+    new MessagesPlaceholder("history"),
     [
       "human",
       "System Summary: {systemSummary}\n\nUser Message: {message}",
     ],
   ]);
 
+  // Extraction prompt: only explicit, lasting statements count; advice requests and questions yield no updates.
+  const memoryExtractionPrompt = ChatPromptTemplate.fromMessages([
+    [
+      "system",
+      "You maintain a student's record for their teacher. From the teacher's latest message, extract only explicit, lasting facts or instructions about the student: goals, accommodations (supports such as extended time or preferential seating), strengths, and focus areas (improvementAreas), or the removal of an existing one. Ignore questions, requests for advice, and one-off remarks. Keep each value a short phrase without the student's name. Return ONLY valid JSON: {{\"updates\": [{{\"field\": \"goals\" | \"accommodations\" | \"strengths\" | \"improvementAreas\", \"action\": \"add\" | \"remove\", \"value\": string}}]}}. Return {{\"updates\": []}} when the message states nothing durable.",
+    ],
+    new MessagesPlaceholder("history"),
+    [
+      "human",
+      "Student Name: {studentName}\nCurrent Memory: {memorySummary}\n\nTeacher Message: {message}",
+    ],
+  ]);
+
+  // Select the prompt for the role and build the variables it expects.
+  const prepare = (context: ChatContext) => {
+    // Normalize optional strings so prompts get explicit "None"/"Unknown" instead of empty text.
+    const memorySummary = context.memorySummary?.trim() || "None";
+    const teacherRules = context.teacherRules
+      ? JSON.stringify(context.teacherRules, null, 2)
+      : "None";
+    const studentName = context.studentName?.trim() || "Unknown";
+    const language = context.language?.trim() || "English";
+    const systemSummary = context.systemSummary?.trim() || "None";
+
+    // Select the correct prompt template for the role.
+    const prompt = context.role === "admin"
+      ? adminPrompt
+      : context.role === "teacher"
+      ? teacherPrompt
+      : studentPrompt;
+
+    const variables = {
+      role: context.role,
+      studentName,
+      language,
+      memorySummary,
+      teacherRules,
+      systemSummary,
+      history: (context.history ?? []).map((turn) =>
+        turn.role === "assistant" ? new AIMessage(turn.content) : new HumanMessage(turn.content)
+      ),
+      message: context.message,
+    };
+    return { prompt, variables };
+  };
+
   return {
     async reply(context: ChatContext): Promise<ChatReply> {
-      // Normalize optional strings so prompts get explicit "None"/"Unknown" instead of empty text.
-      const memorySummary = context.memorySummary?.trim() || "None";
-      const teacherRules = context.teacherRules
-        ? JSON.stringify(context.teacherRules, null, 2)
-        : "None";
-      const studentName = context.studentName?.trim() || "Unknown";
-      const systemSummary = context.systemSummary?.trim() || "None";
-
-      // Select the correct prompt template for the role, then attach the model.
-      const chain = (
-        context.role === "admin"
-          ? adminPrompt
-          : context.role === "teacher"
-          ? teacherPrompt
-          : studentPrompt
-      ).pipe(model);
-      logger.debug("Generating chat reply", { role: context.role });
-
-      // Invoke the chain with the variables expected by the chosen prompt template.
-      const response = await chain.invoke({
-        role: context.role,
-        studentName,
-        memorySummary,
-        teacherRules,
-        systemSummary,
-        message: context.message,
-      });
-      return {
-        content: response.content.toString(),
-        // Token usage extraction is best-effort because different providers/versions shape metadata differently.
-        usage: extractTokenUsage(response),
-      };
+      const { prompt, variables } = prepare(context);
+      logger.debug("Generating chat reply", { role: context.role, historyTurns: context.history?.length ?? 0 });
+
+      // Fill the chosen prompt template with its variables, then send the messages to the model.
+      const messages = toLlmMessages(await prompt.formatMessages(variables));
+      // Usage is best-effort: it is only present when the provider reports it.
+      return await provider.complete({ messages, temperature: REPLY_TEMPERATURE });
     },
-  };
-}
 
-function extractTokenUsage(response: unknown): TokenUsage | undefined {
-  // LangChain’s response objects can vary by provider/version; we search common metadata shapes.
-  if (!response || typeof response !== "object") return undefined;
-  const record = response as Record<string, unknown>;
-  return (
-    normalizeUsage(record.usage_metadata) ??
-    normalizeUsage(record.response_metadata) ??
-    normalizeUsage((record.response_metadata as Record<string, unknown> | undefined)?.usage) ??
-    normalizeUsage((record.response_metadata as Record<string, unknown> | undefined)?.tokenUsage) ??
-    normalizeUsage((record.response_metadata as Record<string, unknown> | undefined)?.usage_metadata) ??
-    normalizeUsage(record.additional_kwargs) ??
-    normalizeUsage((record.additional_kwargs as Record<string, unknown> | undefined)?.usage) ??
-    normalizeUsage((record.additional_kwargs as Record<string, unknown> | undefined)?.usage_metadata)
-  );
-}
+    /**
+     * Stream the reply as text deltas, then finish with the full reply and usage.
+     *
+     * Same prompts as `reply`; only the delivery differs, so the UI can render long answers as they arrive.
+     */
+    async *stream(context: ChatContext): AsyncGenerator<ChatStreamChunk> {
+      const { prompt, variables } = prepare(context);
+      logger.debug("Streaming chat reply", { role: context.role, historyTurns: context.history?.length ?? 0 });
 
-function normalizeUsage(value: unknown): TokenUsage | undefined {
-  if (!value || typeof value !== "object") return undefined;
-  const record = value as Record<string, unknown>;
-  // Different APIs use different field names. We accept several common ones.
-  const inputTokens =
-    readNumber(record.input_tokens) ??
-    readNumber(record.prompt_tokens) ??
-    readNumber(record.promptTokens) ??
-    readNumber(record.inputTokens);
-  const outputTokens =
-    readNumber(record.output_tokens) ??
-    readNumber(record.completion_tokens) ??
-    readNumber(record.completionTokens) ??
-    readNumber(record.outputTokens);
-  const totalTokens =
-    readNumber(record.total_tokens) ??
-    readNumber(record.totalTokens);
-  if (inputTokens === undefined && outputTokens === undefined && totalTokens === undefined) {
-    return undefined;
-  }
-  // If partial data is present, we treat missing counts as 0 and compute totals conservatively.
-  const safeInput = inputTokens ?? 0;
-  const safeOutput = outputTokens ?? 0;
-  return {
-    inputTokens: safeInput,
-    outputTokens: safeOutput,
-    totalTokens: totalTokens ?? safeInput + safeOutput,
-  };
-}
+      const messages = toLlmMessages(await prompt.formatMessages(variables));
+      for await (const chunk of provider.stream({ messages, temperature: REPLY_TEMPERATURE })) {
+        yield chunk.type === "delta" ? chunk : { type: "done", reply: chunk.response };
+      }
+    },
 
-function readNumber(value: unknown): number | undefined {
-  // Guard against NaN and infinity: they would poison cost calculations and UI totals.
-  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+    /**
+     * Extract memory updates stated in a teacher message.
+     *
+     * Never throws: a failed call or invalid JSON just means no updates, since the reply itself still succeeded.
+     */
+    async extractMemoryUpdates(context: ChatContext): Promise<MemoryExtraction> {
+      if (context.role !== "teacher") return { updates: [] };
+      const { variables } = prepare(context);
+      try {
+        const messages = toLlmMessages(await memoryExtractionPrompt.formatMessages(variables));
+        const { content, usage } = await provider.complete({ messages, temperature: EXTRACTION_TEMPERATURE });
+        const parsed = parseMemoryUpdates(content);
+        if (!parsed.ok) {
+          logger.warn("Memory update extraction returned invalid JSON", { errors: parsed.errors });
+          return { updates: [], usage };
+        }
+        return { updates: parsed.value, usage };
+      } catch (error) {
+        logger.warn("Memory update extraction failed", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return { updates: [] };
+      }
+    },
+  };
 }
@@ -0,0 +1,153 @@
+import { EMAIL_PATTERN } from "./validator.ts";
+import { loadTeacherRules } from "./rules.ts";
+import { loadEmailTemplates } from "./email_templates.ts";
+import type { AppConfig, ClassConfig } from "./types.ts";
+import type { Logger } from "./logger.ts";
+
+/**
+ * Class (section) definitions for multi-class deployments.
+ *
+ * Why this exists:
+ * - One deployment serves several sections, each with its own roster, teacher preferences, email templates,
+ *   teacher email, memory namespace, and schedule, instead of one server copy per section.
+ * - Without a classes file, the existing single-class env settings become one class with id `default`,
+ *   whose memory files keep the original (un-namespaced) layout.
+ *
+ * Class ids end up in memory paths and SQLite rows, so they are restricted to a safe slug.
+ */
+export const DEFAULT_CLASS_ID = "default";
+
+const CLASS_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/;
+
+/**
+ * The implicit class built from the single-class env settings.
+ */
+export function defaultClass(config: AppConfig): ClassConfig {
+  return {
+    id: DEFAULT_CLASS_ID,
+    name: "Default class",
+    studentsJsonPath: config.studentsJsonPath,
+    studentsCsvMappingPath: config.studentsCsvMappingPath,
+    teacherRulesPath: config.teacherRulesPath,
+    teacherRules: config.teacherRules,
+    emailTemplatesDir: config.emailTemplatesDir,
+    teacherEmail: config.teacherEmail,
+    scheduleCron: config.scheduleCron,
+    scheduleIntervalMin: config.scheduleIntervalMin,
+  };
+}
+
+function optionalString(record: Record<string, unknown>, key: string): string | undefined {
+  const value = record[key];
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Validate a parsed classes file. Invalid classes are dropped and reported in `errors`.
+ *
+ * Omitted teacher email and schedule fall back to the env defaults so a classes file can stay short.
+ */
+export function validateClasses(
+  value: unknown,
+  defaults: Pick<AppConfig, "teacherEmail" | "scheduleIntervalMin">,
+): { classes: ClassConfig[]; errors: string[] } {
+  const list = typeof value === "object" && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>).classes
+    : undefined;
+  if (!Array.isArray(list)) {
+    return { classes: [], errors: ["Classes file must be an object with a classes array"] };
+  }
+
+  const errors: string[] = [];
+  const classes: ClassConfig[] = [];
+  const seen = new Set<string>();
+  list.forEach((item, index) => {
+    const label = `classes[${index}]`;
+    if (typeof item !== "object" || item === null || Array.isArray(item)) {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+    const record = item as Record<string, unknown>;
+    const before = errors.length;
+
+    const id = typeof record.id === "string" ? record.id.trim() : "";
+    if (!CLASS_ID_PATTERN.test(id)) {
+      errors.push(`${label}.id must be 1-64 letters, digits, "-" or "_"`);
+    } else if (seen.has(id)) {
+      errors.push(`${label}.id "${id}" is duplicated`);
+    }
+    const studentsJsonPath = optionalString(record, "studentsJsonPath");
+    if (!studentsJsonPath) errors.push(`${label}.studentsJsonPath must be a non-empty string`);
+    const teacherEmail = optionalString(record, "teacherEmail") ?? defaults.teacherEmail;
+    if (!EMAIL_PATTERN.test(teacherEmail)) errors.push(`${label}.teacherEmail must be a valid address`);
+    const interval = record.scheduleIntervalMin;
+    if (interval !== undefined && (typeof interval !== "number" || !Number.isFinite(interval) || interval <= 0)) {
+      errors.push(`${label}.scheduleIntervalMin must be a positive number`);
+    }
+    if (errors.length > before || !studentsJsonPath) return;
+
+    seen.add(id);
+    classes.push({
+      id,
+      name: optionalString(record, "name") ?? id,
+      studentsJsonPath,
+      studentsCsvMappingPath: optionalString(record, "studentsCsvMappingPath"),
+      teacherRulesPath: optionalString(record, "teacherRulesPath"),
+      // Omitted means the deployment-wide `EMAIL_TEMPLATES_DIR` (applied in `loadClasses`).
+      emailTemplatesDir: optionalString(record, "emailTemplatesDir"),
+      teacherEmail,
+      scheduleCron: optionalString(record, "scheduleCron"),
+      scheduleIntervalMin: typeof interval === "number" ? interval : defaults.scheduleIntervalMin,
+    });
+  });
+  return { classes, errors };
+}
+
+/**
+ * Load the configured classes (and each class's teacher rules and email templates).
+ *
+ * Throws when a classes file is configured but yields no valid class: running with no classes
+ * would silently stop every scheduled run.
+ */
+export async function loadClasses(config: AppConfig, logger: Logger): Promise<ClassConfig[]> {
+  if (!config.classesPath) {
+    const fallback = defaultClass(config);
+    fallback.teacherRules ??= await loadTeacherRules(config.teacherRulesPath, logger);
+    fallback.emailTemplates = await loadEmailTemplates(fallback.emailTemplatesDir, logger);
+    return [fallback];
+  }
+
+  const data = await Deno.readTextFile(config.classesPath);
+  const { classes, errors } = validateClasses(JSON.parse(data) as unknown, config);
+  if (errors.length > 0) {
+    logger.warn("Classes file validation warnings", { path: config.classesPath, errors });
+  }
+  if (classes.length === 0) {
+    throw new Error(`No valid classes in ${config.classesPath}`);
+  }
+  for (const klass of classes) {
+    klass.teacherRules = await loadTeacherRules(klass.teacherRulesPath, logger);
+    klass.emailTemplatesDir ??= config.emailTemplatesDir;
+    klass.emailTemplates = await loadEmailTemplates(klass.emailTemplatesDir, logger);
+  }
+  logger.info("Classes loaded", { path: config.classesPath, classes: classes.map((klass) => klass.id) });
+  return classes;
+}
+
+/**
+ * Pick the class a run or request targets.
+ *
+ * With a single class the id may be omitted; with several it is required so nothing runs against the wrong roster.
+ */
+export function resolveClass(config: AppConfig, classId?: string): ClassConfig {
+  const classes = config.classes ?? [defaultClass(config)];
+  if (classId === undefined) {
+    if (classes.length === 1) return classes[0];
+    throw new Error("classId is required when more than one class is configured");
+  }
+  const klass = classes.find((entry) => entry.id === classId);
+  if (!klass) {
+    throw new Error(`Unknown classId: ${classId}`);
+  }
+  return klass;
+}
@@ -0,0 +1,111 @@
+import { parseStudentInsights } from "./insights.ts";
+import type { StudentInsights } from "./types.ts";
+
+/**
+ * Teacher review of student messages before delivery.
+ *
+ * Why this exists:
+ * - Runs store each student's insights as a `pending_review` draft instead of emailing right away; a teacher
+ *   edits, approves, or rejects it through the API, and only approval delivers the email and updates memory.
+ * - Teachers edit the structured insights (not the rendered text), so an approved goal is also the goal
+ *   written to memory, and an edit goes through the same validation as model output.
+ * - Every edit is kept as a line diff of the rendered message, so the audit trail shows exactly what a
+ *   teacher changed in what the model wrote.
+ */
+type ValidationResult<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+// Draft lifecycle: pending_review → approved → sent (or delivery_failed when the email could not be delivered,
+// and back to approved when a teacher retries it), or pending_review → rejected / superseded (a newer run).
+export const DRAFT_STATUSES = [
+  "pending_review",
+  "approved",
+  "sent",
+  "delivery_failed",
+  "rejected",
+  "superseded",
+] as const;
+export type DraftStatus = typeof DRAFT_STATUSES[number];
+
+// An approved draft whose delivery started longer ago than this has stalled (the process stopped mid-send).
+export const STALLED_DELIVERY_MS = 10 * 60 * 1000;
+
+const INSIGHT_FIELDS: Array<keyof StudentInsights> = [
+  "positiveObservation",
+  "strengths",
+  "improvementAreas",
+  "strategies",
+  "nextStepGoal",
+  "encouragement",
+];
+
+/**
+ * Whether an approved draft's delivery may be retried: always after `delivery_failed`, and for a draft still at
+ * `approved` only once its delivery has stalled, so a retry never races a send that is still in progress.
+ */
+export function canRetryDelivery(
+  draft: { status: DraftStatus; deliveryStartedAt?: string; reviewedAt?: string },
+  now: number,
+): boolean {
+  if (draft.status === "delivery_failed") return true;
+  if (draft.status !== "approved") return false;
+  // Drafts approved before delivery start times were stored fall back to their approval time.
+  const startedAt = Date.parse(draft.deliveryStartedAt ?? draft.reviewedAt ?? "");
+  return Number.isNaN(startedAt) || now - startedAt >= STALLED_DELIVERY_MS;
+}
+
+/**
+ * Merge a teacher's edit (any subset of insight fields) into a draft and re-validate the result.
+ */
+export function applyDraftEdit(current: StudentInsights, changes: unknown): ValidationResult<StudentInsights> {
+  if (typeof changes !== "object" || changes === null || Array.isArray(changes)) {
+    return { ok: false, errors: ["insights must be an object"] };
+  }
+  const record = changes as Record<string, unknown>;
+  const unknownFields = Object.keys(record).filter((key) => !INSIGHT_FIELDS.includes(key as keyof StudentInsights));
+  if (unknownFields.length > 0) {
+    return { ok: false, errors: unknownFields.map((key) => `insights.${key} is not an editable field`) };
+  }
+  if (Object.keys(record).length === 0) {
+    return { ok: false, errors: ["insights must change at least one field"] };
+  }
+  // Same contract (lengths, list sizes) as model output, so rendering and memory never see an out-of-range draft.
+  return parseStudentInsights(JSON.stringify({ ...current, ...record }));
+}
+
+/**
+ * Line diff of two texts: unchanged lines start with "  ", removed with "- ", added with "+ ".
+ *
+ * Both texts can be read back from the diff, which is what an audit needs; messages are short, so the
+ * quadratic longest-common-subsequence table is fine.
+ */
+export function diffLines(before: string, after: string): string {
+  const a = before.split("\n");
+  const b = after.split("\n");
+  // lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..].
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push(`  ${a[i]}`);
+      i += 1;
+      j += 1;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push(`- ${a[i]}`);
+      i += 1;
+    } else {
+      lines.push(`+ ${b[j]}`);
+      j += 1;
+    }
+  }
+  while (i < a.length) lines.push(`- ${a[i++]}`);
+  while (j < b.length) lines.push(`+ ${b[j++]}`);
+  return lines.join("\n");
+}
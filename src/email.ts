@@ -1,120 +1,332 @@
 import { join } from "@std/path";
-import type { AppConfig, Student } from "./types.ts";
+import type {
+  AppConfig,
+  EmailTemplateSet,
+  EmailTransportName,
+  Guardian,
+  GuardianInsights,
+  MessageBlock,
+  SmtpConfig,
+  Student,
+  StudentInsights,
+  TeacherInsights,
+} from "./types.ts";
 import type { Logger } from "./logger.ts";
+import { createSmtpTransport, SmtpError } from "./smtp.ts";
+import { buildMimeMessage, createMessageId } from "./mime.ts";
+import { retryDelayMs } from "./retry.ts";
+import { renderEmailTemplate, renderMessageHtml, type RichText } from "./email_templates.ts";
+import { guardianMessageBlocks, renderMessageText, studentMessageBlocks, teacherMessageBlocks } from "./insights.ts";
 
 /**
- * “Email” rendering + local delivery simulation.
+ * Email rendering + delivery.
  *
  * Why email exists in this demo:
  * - It represents a typical output channel for scheduled insights (daily/weekly student updates, teacher digests).
- * - In a workshop environment, we don’t want to integrate a real email provider, so we simulate delivery by:
- *   - logging metadata and content
- *   - optionally writing a `.txt` file to `EMAIL_OUT_DIR` for easy inspection
- *
- * Important: nothing here sends real email. Production delivery would plug into this boundary.
+ * - Delivery goes through an `EmailTransport`, chosen by `EMAIL_TRANSPORT`:
+ *   - "file" (default): log metadata and content, and optionally write an `.eml` file to `EMAIL_OUT_DIR` that
+ *     opens in any mail client. Nothing leaves the machine, which is what workshops want.
+ *   - "smtp": relay through a real mail server (see `src/smtp.ts`).
+ * - `sendEmail` retries failed attempts with exponential backoff and returns an `EmailDelivery` instead of
+ *   throwing, so callers can record a failed delivery next to the message rather than losing the message.
+ * - Both transports send the same RFC 5322 message (`src/mime.ts`), with one Message-ID kept across retries
+ *   so a receiver can drop a duplicate when an accepted message was retried anyway.
+ * - Subjects and bodies come from templates (`src/email_templates.ts`) that teachers can override per locale.
+ *   Student and guardian emails use the recipient's preferred language; `EmailRenderOptions.locale` is the
+ *   default for recipients without one (and the teacher's language).
  */
 export interface EmailContent {
   to: string;
+  // Recipient display name for the To header.
+  toName?: string;
   subject: string;
   text: string;
   html: string;
+  // Ties the message to its history rows (sent as `X-Edu-*` headers).
+  context?: EmailContext;
+  // Full Message-ID (`<id@domain>`); `sendEmail` assigns one before the first attempt so retries reuse it.
+  messageId?: string;
+}
+
+export interface EmailContext {
+  runId: string;
+  classId: string;
+  studentId?: string;
+}
+
+/**
+ * Which templates render an email: a class's overrides (see `src/email_templates.ts`) and the default locale.
+ */
+export interface EmailRenderOptions {
+  templates?: EmailTemplateSet;
+  locale?: string;
+}
+
+function messageContent(blocks: MessageBlock[]): RichText {
+  return { text: renderMessageText(blocks), html: renderMessageHtml(blocks) };
 }
 
-export function buildStudentEmail(student: Student, insights: string): EmailContent {
-  // Personalize subject to make the artifact “feel real” and to be easy to scan in the output folder.
-  const subject = `Your learning update and next steps, ${student.name}`;
-  // Trim to avoid trailing whitespace from LLM outputs affecting formatting.
-  const trimmedInsights = insights.trim();
-  // Plain text is built as a list for readability and to avoid manual newline bugs.
-  const text = [
-    `Hi ${student.name},`,
-    "",
-    "Here is a supportive summary of your recent progress, plus a few next steps:",
-    "",
-    trimmedInsights,
-    "",
-    "You can do this. Pick one focus to try this week and build from there.",
-    "Your Educational Assistant",
-  ].join("\n");
-  // HTML version is a minimal translation of the plain text; it’s not trying to be a full template engine.
-  const html = `
-    <p>Hi ${student.name},</p>
-    <p>Here is a supportive summary of your recent progress, plus a few next steps:</p>
-    <p>${trimmedInsights.replace(/\n/g, "<br />")}</p>
-    <p>You can do this. Pick one focus to try this week and build from there.<br />Your Educational Assistant</p>
-  `;
+export function buildStudentEmail(
+  student: Student,
+  insights: StudentInsights,
+  context?: EmailContext,
+  options: EmailRenderOptions = {},
+): EmailContent {
+  const locale = student.language ?? options.locale;
+  // The subject is personalized to make the artifact “feel real” and easy to scan in the output folder.
+  const { subject, text, html } = renderEmailTemplate(
+    "student_update",
+    { studentName: student.name, message: messageContent(studentMessageBlocks(insights, locale)) },
+    { locale, overrides: options.templates },
+  );
 
   return {
     to: student.email,
+    toName: student.name,
+    subject,
+    text,
+    html,
+    context: context && { ...context, studentId: student.id },
+  };
+}
+
+/**
+ * A guardian note about `student`, in the guardian's preferred language when a template exists for it.
+ */
+export function buildGuardianEmail(
+  guardian: Guardian,
+  student: Student,
+  insights: GuardianInsights,
+  context?: EmailContext,
+  options: EmailRenderOptions = {},
+): EmailContent {
+  const locale = guardian.language ?? options.locale;
+  const { subject, text, html } = renderEmailTemplate(
+    "guardian_update",
+    {
+      guardianName: guardian.name,
+      studentName: student.name,
+      message: messageContent(guardianMessageBlocks(insights, locale)),
+    },
+    { locale, overrides: options.templates },
+  );
+
+  return {
+    to: guardian.email,
+    toName: guardian.name,
     subject,
     text,
     html,
+    // The student id header ties the note to the student's history rows, like the student's own email.
+    context: context && { ...context, studentId: student.id },
   };
 }
 
-export function buildTeacherEmail(teacherEmail: string, summary: string): EmailContent {
-  // Teacher summaries are class-level, so we keep a stable subject.
-  const subject = "Class performance summary";
-  const text = `Hello,\n\n${summary}\n\nBest,\nEducational Assistant`;
-  const html = `
-    <p>Hello,</p>
-    <p>${summary.replace(/\n/g, "<br />")}</p>
-    <p>Best,<br />Educational Assistant</p>
-  `;
+export function buildTeacherEmail(
+  teacherEmail: string,
+  insights: TeacherInsights,
+  context?: EmailContext,
+  options: EmailRenderOptions = {},
+): EmailContent {
+  const { subject, text, html } = renderEmailTemplate(
+    "teacher_summary",
+    { summary: messageContent(teacherMessageBlocks(insights, options.locale)) },
+    { locale: options.locale, overrides: options.templates },
+  );
 
   return {
     to: teacherEmail,
     subject,
     text,
     html,
+    context,
   };
 }
 
 /**
- * Simulate email delivery locally by logging and optionally writing to disk.
+ * Where a transport put the message: the saved file (file sink only) and the server's acceptance reply (SMTP).
  */
-export async function sendEmail(
-  config: AppConfig,
-  email: EmailContent,
-  logger: Logger,
-): Promise<string | null> {
-  // Log metadata at info level; content is debug to avoid flooding logs.
-  logger.info("Local email generated", { to: email.to, subject: email.subject });
-  logger.debug("Local email content", { text: email.text });
-
-  // When no out dir is configured, this becomes a “log-only” sink.
-  if (!config.emailOutDir) {
-    return null;
+export interface EmailReceipt {
+  path: string | null;
+  response?: string;
+}
+
+/**
+ * A way of getting one email out of the process. `send` throws when the message was not accepted; an
+ * `SmtpError` marked `permanent` is not retried.
+ */
+export interface EmailTransport {
+  readonly name: EmailTransportName;
+  send(email: EmailContent): Promise<EmailReceipt>;
+}
+
+/**
+ * Outcome of `sendEmail`, after retries. Stored with the message row in history.
+ */
+export interface EmailDelivery {
+  status: "delivered" | "failed";
+  transport: EmailTransportName;
+  // Attempts made, including the successful one.
+  attempts: number;
+  // Saved artifact path (file sink with `EMAIL_OUT_DIR`), otherwise null.
+  path: string | null;
+  deliveredAt?: string;
+  // Last attempt's error when delivery failed.
+  error?: string;
+}
+
+/**
+ * Read transport settings from the environment (shared by every entry point's `loadConfig`).
+ */
+export function loadEmailTransportConfig(): Pick<
+  AppConfig,
+  "emailTransport" | "smtp" | "emailMaxAttempts" | "emailRetryBaseMs"
+> {
+  const transport = (Deno.env.get("EMAIL_TRANSPORT") || "file").toLowerCase();
+  if (transport !== "file" && transport !== "smtp") {
+    throw new Error(`EMAIL_TRANSPORT must be "file" or "smtp" (got "${transport}")`);
+  }
+  const emailMaxAttempts = parsePositiveInteger(Deno.env.get("EMAIL_MAX_ATTEMPTS"), 3);
+  const emailRetryBaseMs = parsePositiveInteger(Deno.env.get("EMAIL_RETRY_BASE_MS"), 2000);
+  if (transport === "file") {
+    return { emailTransport: "file", emailMaxAttempts, emailRetryBaseMs };
   }
 
-  // Make a filename-safe recipient token so the output directory remains browsable.
-  const safeRecipient = email.to.replace(/[^a-zA-Z0-9._-]/g, "_");
-  // Timestamp is included so files sort by time and avoid collisions across runs.
-  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-  // Store the plain text output in a mail-like format for debugging and readability.
-  const output = [
-    `From: ${config.emailFrom}`,
-    `To: ${email.to}`,
-    `Subject: ${email.subject}`,
-    "",
-    email.text,
-    "",
-  ].join("\n");
-
-  try {
-    // Create the output directory if needed; this keeps the demo “one command to run”.
-    await Deno.mkdir(config.emailOutDir, { recursive: true });
-    // Use createNew + UUID suffix to avoid overwriting even when runs occur in the same second.
-    const path = await writeUniqueEmailFile(config.emailOutDir, `${timestamp}-${safeRecipient}`, output);
-    logger.info("Local email saved", { path });
-    return path;
-  } catch (error) {
-    logger.error("Failed to save local email", {
-      error: error instanceof Error ? error.message : String(error),
-    });
+  // A half-configured relay should stop startup, not fail every email of every run.
+  const host = Deno.env.get("SMTP_HOST");
+  if (!host) {
+    throw new Error("SMTP_HOST is required when EMAIL_TRANSPORT=smtp");
   }
+  const security = (Deno.env.get("SMTP_SECURITY") || "starttls").toLowerCase();
+  if (security !== "starttls" && security !== "tls" && security !== "none") {
+    throw new Error(`SMTP_SECURITY must be "starttls", "tls", or "none" (got "${security}")`);
+  }
+  const authMethod = Deno.env.get("SMTP_AUTH_METHOD")?.toLowerCase() || undefined;
+  if (authMethod !== undefined && authMethod !== "plain" && authMethod !== "login") {
+    throw new Error(`SMTP_AUTH_METHOD must be "plain" or "login" (got "${authMethod}")`);
+  }
+  const smtp: SmtpConfig = {
+    host,
+    port: parsePositiveInteger(Deno.env.get("SMTP_PORT"), security === "tls" ? 465 : 587),
+    security,
+    username: Deno.env.get("SMTP_USER") || undefined,
+    password: Deno.env.get("SMTP_PASSWORD") || undefined,
+    authMethod,
+    heloName: Deno.env.get("SMTP_HELO_NAME") || "localhost",
+    timeoutMs: parsePositiveInteger(Deno.env.get("SMTP_TIMEOUT_MS"), 30_000),
+  };
+  return { emailTransport: "smtp", smtp, emailMaxAttempts, emailRetryBaseMs };
+}
+
+function parsePositiveInteger(value: string | undefined, fallback: number): number {
+  if (!value) return fallback;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Build the transport selected by config.
+ */
+export function createEmailTransport(config: AppConfig, logger: Logger): EmailTransport {
+  if (config.emailTransport === "smtp") {
+    if (!config.smtp) {
+      throw new Error("SMTP transport selected without SMTP settings");
+    }
+    return createSmtpTransport(config.smtp, config.emailFrom, logger);
+  }
+  return createFileTransport(config, logger);
+}
+
+/**
+ * The local sink: log the email and, when `emailOutDir` is set, save it as an `.eml` artifact.
+ */
+export function createFileTransport(config: AppConfig, logger: Logger): EmailTransport {
+  return {
+    name: "file",
+    async send(email: EmailContent): Promise<EmailReceipt> {
+      // Log metadata at info level; content is debug to avoid flooding logs.
+      logger.info("Local email generated", { to: email.to, subject: email.subject });
+      logger.debug("Local email content", { text: email.text });
+
+      // When no out dir is configured, this becomes a “log-only” sink.
+      if (!config.emailOutDir) {
+        return { path: null };
+      }
+
+      // Make a filename-safe recipient token so the output directory remains browsable.
+      const safeRecipient = email.to.replace(/[^a-zA-Z0-9._-]/g, "_");
+      // Timestamp is included so files sort by time and avoid collisions across runs.
+      const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+      // The exact message an SMTP relay would receive, so mail clients can open or re-import it.
+      const output = buildMimeMessage(email, {
+        from: config.emailFrom,
+        messageId: email.messageId ?? createMessageId(config.emailFrom),
+      });
+
+      // Create the output directory if needed; this keeps the demo “one command to run”.
+      await Deno.mkdir(config.emailOutDir, { recursive: true });
+      // Use createNew + UUID suffix to avoid overwriting even when runs occur in the same second.
+      const path = await writeUniqueEmailFile(config.emailOutDir, `${timestamp}-${safeRecipient}`, output);
+      logger.info("Local email saved", { path });
+      return { path };
+    },
+  };
+}
 
-  return null;
+/**
+ * Send through `transport`, retrying failures with exponential backoff. Never throws.
+ */
+export async function deliverEmail(
+  transport: EmailTransport,
+  email: EmailContent,
+  retry: { maxAttempts: number; baseDelayMs: number },
+  logger: Logger,
+): Promise<EmailDelivery> {
+  let error = "";
+  for (let attempt = 1; attempt <= retry.maxAttempts; attempt += 1) {
+    try {
+      const receipt = await transport.send(email);
+      return {
+        status: "delivered",
+        transport: transport.name,
+        attempts: attempt,
+        path: receipt.path,
+        deliveredAt: new Date().toISOString(),
+      };
+    } catch (caught) {
+      error = caught instanceof Error ? caught.message : String(caught);
+      // A rejected address or bad credentials will be rejected again; don't hammer the relay.
+      const permanent = caught instanceof SmtpError && caught.permanent;
+      if (permanent || attempt === retry.maxAttempts) {
+        logger.error("Email delivery failed", { to: email.to, transport: transport.name, attempts: attempt, error });
+        return { status: "failed", transport: transport.name, attempts: attempt, path: null, error };
+      }
+      const delayMs = retryDelayMs(attempt, retry.baseDelayMs);
+      logger.warn("Email delivery attempt failed; retrying", {
+        to: email.to,
+        transport: transport.name,
+        attempt,
+        delayMs,
+        error,
+      });
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+  // Only reachable with maxAttempts < 1.
+  return { status: "failed", transport: transport.name, attempts: 0, path: null, error: error || "No attempts made" };
+}
+
+/**
+ * Deliver an email with the configured transport and retry policy.
+ */
+export function sendEmail(config: AppConfig, email: EmailContent, logger: Logger): Promise<EmailDelivery> {
+  return deliverEmail(
+    createEmailTransport(config, logger),
+    // Fixed before the first attempt so every retry sends the same Message-ID.
+    { ...email, messageId: email.messageId ?? createMessageId(config.emailFrom) },
+    { maxAttempts: config.emailMaxAttempts, baseDelayMs: config.emailRetryBaseMs },
+    logger,
+  );
 }
 
 async function writeUniqueEmailFile(dir: string, baseName: string, contents: string): Promise<string> {
@@ -124,7 +336,7 @@ async function writeUniqueEmailFile(dir: string, baseName: string, contents: str
   // Retry loop exists because we use createNew, and a collision is theoretically possible.
   for (let attempt = 0; attempt < 5; attempt += 1) {
     const uniqueSuffix = crypto.randomUUID();
-    const fileName = `${baseName}-${uniqueSuffix}.txt`;
+    const fileName = `${baseName}-${uniqueSuffix}.eml`;
     const path = join(dir, fileName);
 
     try {
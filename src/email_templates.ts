@@ -0,0 +1,333 @@
+import { join } from "@std/path";
+import type { Logger } from "./logger.ts";
+import type { EmailTemplate, EmailTemplateId, EmailTemplateSet, MessageBlock } from "./types.ts";
+
+/**
+ * Email templates: subject, plain-text body, and HTML body per template and locale.
+ *
+ * Why this exists:
+ * - Wording around the generated message (greeting, sign-off, subject) is a school decision, not code, so a
+ *   teacher can override any part of it with a JSON file instead of editing `email.ts`.
+ * - Values are HTML-escaped automatically in HTML bodies. Student names and model output are untrusted text;
+ *   a name like `<b>Ava</b>` must show up literally, not as markup.
+ * - The generated message is inserted as structured content: real `<ul>` lists in HTML, `- item` lines in text.
+ *
+ * Templates use `{{name}}` placeholders. Each template accepts a fixed set of names and requires its body
+ * placeholder in both bodies, so an override can't silently drop the message it wraps.
+ *
+ * Override files live in a templates directory as `<template>.<locale>.json` (e.g. `student_update.es.json`)
+ * with any of `subject`, `text`, and `html`. A missing field falls back along the locale chain
+ * (`pt-br` → `pt` → `en`); at each locale an override wins over the built-in template. Built-ins exist for
+ * English and Spanish, so a Spanish reader keeps a Spanish greeting even when only English is overridden.
+ */
+// Pre-rendered content for both bodies; `html` is already escaped.
+export interface RichText {
+  text: string;
+  html: string;
+}
+
+export type TemplateValues = Record<string, string | RichText>;
+
+export const DEFAULT_LOCALE = "en";
+
+export const EMAIL_TEMPLATE_IDS: EmailTemplateId[] = ["student_update", "teacher_summary", "guardian_update"];
+
+// Placeholders each template accepts; the first is the body placeholder that both bodies must contain.
+const TEMPLATE_PLACEHOLDERS: Record<EmailTemplateId, string[]> = {
+  student_update: ["message", "studentName"],
+  teacher_summary: ["summary"],
+  guardian_update: ["message", "studentName", "guardianName"],
+};
+
+export const DEFAULT_EMAIL_TEMPLATES: Record<EmailTemplateId, Record<string, EmailTemplate>> = {
+  student_update: {
+    es: {
+      subject: "Tu resumen de aprendizaje y próximos pasos, {{studentName}}",
+      text: [
+        "Hola, {{studentName}}:",
+        "",
+        "Aquí tienes un resumen de tu progreso reciente y algunos próximos pasos:",
+        "",
+        "{{message}}",
+        "",
+        "Tú puedes. Elige un enfoque para esta semana y avanza desde ahí.",
+        "Tu asistente educativo",
+      ].join("\n"),
+      html: [
+        "<p>Hola, {{studentName}}:</p>",
+        "<p>Aquí tienes un resumen de tu progreso reciente y algunos próximos pasos:</p>",
+        "{{message}}",
+        "<p>Tú puedes. Elige un enfoque para esta semana y avanza desde ahí.<br />Tu asistente educativo</p>",
+      ].join("\n"),
+    },
+    en: {
+      subject: "Your learning update and next steps, {{studentName}}",
+      text: [
+        "Hi {{studentName}},",
+        "",
+        "Here is a supportive summary of your recent progress, plus a few next steps:",
+        "",
+        "{{message}}",
+        "",
+        "You can do this. Pick one focus to try this week and build from there.",
+        "Your Educational Assistant",
+      ].join("\n"),
+      html: [
+        "<p>Hi {{studentName}},</p>",
+        "<p>Here is a supportive summary of your recent progress, plus a few next steps:</p>",
+        "{{message}}",
+        "<p>You can do this. Pick one focus to try this week and build from there.<br />" +
+        "Your Educational Assistant</p>",
+      ].join("\n"),
+    },
+  },
+  teacher_summary: {
+    en: {
+      // Teacher summaries are class-level, so the subject stays stable.
+      subject: "Class performance summary",
+      text: ["Hello,", "", "{{summary}}", "", "Best,", "Educational Assistant"].join("\n"),
+      html: ["<p>Hello,</p>", "{{summary}}", "<p>Best,<br />Educational Assistant</p>"].join("\n"),
+    },
+    es: {
+      subject: "Resumen del rendimiento de la clase",
+      text: ["Hola:", "", "{{summary}}", "", "Saludos,", "Asistente educativo"].join("\n"),
+      html: ["<p>Hola:</p>", "{{summary}}", "<p>Saludos,<br />Asistente educativo</p>"].join("\n"),
+    },
+  },
+  guardian_update: {
+    en: {
+      subject: "An update on {{studentName}}'s learning",
+      text: [
+        "Dear {{guardianName}},",
+        "",
+        "Here is a short update on how {{studentName}} is doing in class:",
+        "",
+        "{{message}}",
+        "",
+        "Thank you for your support at home.",
+        "Your Educational Assistant",
+      ].join("\n"),
+      html: [
+        "<p>Dear {{guardianName}},</p>",
+        "<p>Here is a short update on how {{studentName}} is doing in class:</p>",
+        "{{message}}",
+        "<p>Thank you for your support at home.<br />Your Educational Assistant</p>",
+      ].join("\n"),
+    },
+    es: {
+      subject: "Novedades sobre el aprendizaje de {{studentName}}",
+      text: [
+        "Estimado/a {{guardianName}}:",
+        "",
+        "Le compartimos una breve actualización sobre cómo le va a {{studentName}} en clase:",
+        "",
+        "{{message}}",
+        "",
+        "Gracias por su apoyo en casa.",
+        "Su asistente educativo",
+      ].join("\n"),
+      html: [
+        "<p>Estimado/a {{guardianName}}:</p>",
+        "<p>Le compartimos una breve actualización sobre cómo le va a {{studentName}} en clase:</p>",
+        "{{message}}",
+        "<p>Gracias por su apoyo en casa.<br />Su asistente educativo</p>",
+      ].join("\n"),
+    },
+  },
+};
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z][A-Za-z0-9_]*)\s*\}\}/g;
+const TEMPLATE_FILE_PATTERN =
+  /^(student_update|teacher_summary|guardian_update)\.([A-Za-z]{2,3}(?:-[A-Za-z0-9]{2,8})*)\.json$/;
+const TEMPLATE_FIELDS: (keyof EmailTemplate)[] = ["subject", "text", "html"];
+
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+/**
+ * Lower-case a locale tag and normalize `_` to `-` (`pt_BR` → `pt-br`).
+ */
+export function normalizeLocale(locale: string): string {
+  return locale.trim().replace(/_/g, "-").toLowerCase();
+}
+
+/**
+ * Locales to try, most specific first, always ending with the default: `pt-br` → `["pt-br", "pt", "en"]`.
+ */
+export function localeChain(locale: string | undefined): string[] {
+  const chain: string[] = [];
+  const parts = normalizeLocale(locale ?? "").split("-").filter(Boolean);
+  for (let length = parts.length; length > 0; length -= 1) {
+    chain.push(parts.slice(0, length).join("-"));
+  }
+  if (!chain.includes(DEFAULT_LOCALE)) chain.push(DEFAULT_LOCALE);
+  return chain;
+}
+
+/**
+ * Render message blocks as HTML: paragraphs, and headed lists as real `<ul>` lists. All text is escaped.
+ */
+export function renderMessageHtml(blocks: MessageBlock[]): string {
+  return blocks.map((block) => {
+    if (block.kind === "paragraph") return `<p>${escapeHtml(block.text)}</p>`;
+    const items = block.items.map((item) => `  <li>${escapeHtml(item)}</li>`);
+    return [`<p><strong>${escapeHtml(block.heading)}</strong></p>`, "<ul>", ...items, "</ul>"].join("\n");
+  }).join("\n");
+}
+
+/**
+ * Fill `{{name}}` placeholders. In "html" mode plain values are escaped and rich values use their HTML form.
+ *
+ * Unknown names render as empty: validation rejects them in override files, so they only come from code.
+ */
+export function renderTemplate(template: string, values: TemplateValues, mode: "text" | "html"): string {
+  return template.replace(PLACEHOLDER_PATTERN, (_, name: string) => {
+    const value = values[name];
+    if (value === undefined) return "";
+    if (typeof value !== "string") return mode === "html" ? value.html : value.text;
+    return mode === "html" ? escapeHtml(value) : value;
+  });
+}
+
+/**
+ * Pick each field from the first locale in the chain that has it, preferring an override at each locale.
+ */
+export function resolveEmailTemplate(
+  id: EmailTemplateId,
+  locale: string | undefined,
+  overrides?: EmailTemplateSet,
+): EmailTemplate {
+  const chain = localeChain(locale);
+  const pick = (field: keyof EmailTemplate): string => {
+    for (const candidate of chain) {
+      const value = overrides?.[id][candidate]?.[field] ?? DEFAULT_EMAIL_TEMPLATES[id][candidate]?.[field];
+      if (value !== undefined) return value;
+    }
+    return DEFAULT_EMAIL_TEMPLATES[id][DEFAULT_LOCALE][field];
+  };
+  return { subject: pick("subject"), text: pick("text"), html: pick("html") };
+}
+
+/**
+ * Resolve and render a template into an email's subject and bodies.
+ */
+export function renderEmailTemplate(
+  id: EmailTemplateId,
+  values: TemplateValues,
+  options: { locale?: string; overrides?: EmailTemplateSet } = {},
+): EmailTemplate {
+  const template = resolveEmailTemplate(id, options.locale, options.overrides);
+  return {
+    // Subjects are header text: rendered like the text body, then kept to one line.
+    subject: renderTemplate(template.subject, values, "text").replace(/\s*[\r\n]+\s*/g, " ").trim(),
+    text: renderTemplate(template.text, values, "text").trim(),
+    html: renderTemplate(template.html, values, "html").trim(),
+  };
+}
+
+/**
+ * Validate one parsed override file. Every problem is reported so a teacher can fix the file in one pass.
+ */
+export function validateEmailTemplate(
+  id: EmailTemplateId,
+  value: unknown,
+): { template?: Partial<EmailTemplate>; errors: string[] } {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return { errors: ["Email template must be a JSON object"] };
+  }
+  const record = value as Record<string, unknown>;
+  const errors: string[] = [];
+  for (const key of Object.keys(record)) {
+    if (!TEMPLATE_FIELDS.includes(key as keyof EmailTemplate)) {
+      errors.push(`${key} is not a template field (use subject, text, or html)`);
+    }
+  }
+
+  const [bodyPlaceholder] = TEMPLATE_PLACEHOLDERS[id];
+  const template: Partial<EmailTemplate> = {};
+  for (const field of TEMPLATE_FIELDS) {
+    const fieldValue = record[field];
+    if (fieldValue === undefined) continue;
+    if (typeof fieldValue !== "string" || !fieldValue.trim()) {
+      errors.push(`${field} must be a non-empty string`);
+      continue;
+    }
+    const names = [...fieldValue.matchAll(PLACEHOLDER_PATTERN)].map((match) => match[1]);
+    for (const name of new Set(names)) {
+      if (!TEMPLATE_PLACEHOLDERS[id].includes(name)) {
+        errors.push(`${field} uses unknown placeholder {{${name}}}`);
+      }
+    }
+    if (field === "subject" && names.includes(bodyPlaceholder)) {
+      errors.push(`subject cannot use {{${bodyPlaceholder}}}`);
+    }
+    if (field !== "subject" && !names.includes(bodyPlaceholder)) {
+      errors.push(`${field} must include {{${bodyPlaceholder}}}`);
+    }
+    template[field] = fieldValue;
+  }
+  return errors.length > 0 ? { errors } : { template, errors };
+}
+
+function emptyTemplateSet(): EmailTemplateSet {
+  return { student_update: {}, teacher_summary: {}, guardian_update: {} };
+}
+
+/**
+ * Load override files from `dir`. Invalid files are skipped (with a warning) so the built-ins stay in use.
+ *
+ * Returns an empty set when no directory is configured; a configured but missing directory is a warning.
+ */
+export async function loadEmailTemplates(dir: string | undefined, logger: Logger): Promise<EmailTemplateSet> {
+  const templates = emptyTemplateSet();
+  if (!dir) return templates;
+
+  let entries: Deno.DirEntry[];
+  try {
+    entries = await Array.fromAsync(Deno.readDir(dir));
+  } catch (error) {
+    logger.warn("Email templates directory not readable; using built-in templates", {
+      dir,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return templates;
+  }
+
+  // Sorted so the load log (and any warnings) read the same on every start.
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    if (!entry.isFile || !entry.name.endsWith(".json")) continue;
+    const match = entry.name.match(TEMPLATE_FILE_PATTERN);
+    if (!match) {
+      logger.warn("Ignoring email template file with an unknown name", { dir, file: entry.name });
+      continue;
+    }
+    const path = join(dir, entry.name);
+    const id = match[1] as EmailTemplateId;
+    try {
+      const { template, errors } = validateEmailTemplate(id, JSON.parse(await Deno.readTextFile(path)));
+      if (!template) {
+        logger.warn("Email template rejected; using built-in", { path, errors });
+        continue;
+      }
+      templates[id][normalizeLocale(match[2])] = template;
+    } catch (error) {
+      logger.warn("Failed to read email template; using built-in", {
+        path,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const loaded = EMAIL_TEMPLATE_IDS.flatMap((id) => Object.keys(templates[id]).map((locale) => `${id}.${locale}`));
+  logger.info("Email templates loaded", { dir, templates: loaded });
+  return templates;
+}
@@ -1,44 +1,99 @@
 import { load } from "@std/dotenv";
-import { createChatAgent } from "./chat_agent.ts";
+import {
+  type ChatContext,
+  type ChatReply,
+  type ChatStreamChunk,
+  createChatAgent,
+} from "./chat_agent.ts";
+import type { TokenUsage } from "./llm_provider.ts";
 import { createLogger } from "./logger.ts";
-import { loadTeacherRules } from "./rules.ts";
+import { readTeacherRules } from "./rules.ts";
+import { loadRiskPolicy } from "./risk_policy.ts";
+import { AnalysisJobQueue } from "./job_queue.ts";
 import { HistoryStore } from "./storage.ts";
-import { loadStudentMemory, loadTeacherMemory } from "./memory_store.ts";
-import { loadConfig, runOnce, type ToolConfig } from "./run_with_tool.ts";
-import { validateStudents } from "./validator.ts";
+import { loadStudentMemory, loadTeacherMemory, saveStudentMemory } from "./memory_store.ts";
+import { applyMemoryUpdates, describeMemoryUpdate, type MemoryUpdate } from "./memory_updates.ts";
+import { deliverGuardianNotes, deliverStudentMessage, loadConfig, runOnce, type ToolConfig } from "./run_with_tool.ts";
+import { applyDraftEdit, canRetryDelivery, diffLines, DRAFT_STATUSES } from "./drafts.ts";
+import { renderGuardianMessage, renderStudentMessage } from "./insights.ts";
+import { languageName, preferredLocale } from "./message_catalog.ts";
+import { validateStudent } from "./validator.ts";
+import { importRosterFile, reloadRosterFile } from "./student_roster.ts";
+import { SourceWatcher } from "./source_watcher.ts";
+import { loadClasses, resolveClass } from "./classes.ts";
+import {
+  authenticate,
+  type AuthUser,
+  canAccessClass,
+  canAccessStudent,
+  hasRole,
+  loadAuthUsers,
+  readAuthUsers,
+  type Session,
+} from "./auth.ts";
 import type {
   AnalyzeRequest,
   AnalyzeResponse,
   ApiError,
   ChatRequest,
   ChatResponse,
+  ChatSessionDetailResponse,
+  ChatSessionListResponse,
+  ClassListResponse,
   HistoryResponse,
+  HistoryRunDetailResponse,
   ApiConfigResponse,
+  RunStatus,
+  RunStatusResponse,
+  SessionResponse,
+  SourceStatusResponse,
+  StudentDraft,
+  StudentDraftDetailResponse,
+  StudentDraftListResponse,
+  StudentImportResponse,
   StudentListResponse,
   StudentProfile,
+  StudentRecordResponse,
   StudentSummaryResponse,
 } from "../packages/shared-types/src/contracts.ts";
 import type { Logger } from "./logger.ts";
 import type { StudentMemory, TeacherMemory } from "./memory_store.ts";
+import type { ChatSessionEntry, StudentDraftEntry } from "./storage.ts";
+import type { ClassConfig, Student } from "./types.ts";
 
 /**
  * Deno HTTP API server for the agent.
  *
  * Responsibilities:
  * - Provide a stable HTTP boundary for the UI (and for operational tooling).
- * - Enforce role rules for chat requests (student vs teacher vs admin).
- * - Proxy-trigger the analysis pipeline (`runOnce`) without blocking the chat UI.
+ * - Authenticate every `/v1/*` request with a signed session token and enforce role/class/roster access
+ *   (see `src/auth.ts`); the browser-supplied `role`/`userId` are never trusted on their own.
+ * - Serve every configured class (see `src/classes.ts`); runs, history, and roster changes are scoped by classId.
+ * - Queue analysis runs (`runOnce`) in the background and report their progress, without blocking the chat UI.
  * - Serve “safe” configuration data to the UI (no secrets).
- * - Provide a student list for UI selection (id + name + email only).
+ * - Provide a student list for UI selection (id + name + email only) and roster CRUD backed by SQLite.
  * - Provide history/status information from SQLite.
+ * - Stream chat replies over Server-Sent Events (`POST /v1/chat/stream`) so long answers render as they arrive.
+ * - Persist chat turns per session in SQLite and replay recent turns to the model, so follow-ups keep context
+ *   and the UI can restore conversations.
+ * - Hot-reload each class's students file and teacher rules when they change (see `src/source_watcher.ts`).
  *
  * Important design choice:
  * - The Next.js UI talks to this server through API proxy routes, so the browser never needs OpenAI keys.
  */
-interface ServerConfig extends ToolConfig {
+export interface ServerConfig extends ToolConfig {
   apiHost: string;
   apiPort: number;
   apiCorsOrigin: string;
+  // Watch the students file and teacher rules for changes (disable where file events are unreliable).
+  watchSources: boolean;
+  // Earlier exchanges (question + reply) replayed to the model on each chat turn.
+  chatHistoryTurns: number;
+  // HMAC secret for session tokens (required; at least 32 characters).
+  authSecret: string;
+  authUsersPath: string;
+  // Loaded at startup and swapped on hot reload, like `teacherRules`.
+  authUsers: Map<string, AuthUser>;
 }
 
 async function loadServerConfig(): Promise<ServerConfig> {
@@ -55,12 +110,28 @@ async function loadServerConfig(): Promise<ServerConfig> {
   const apiHost = Deno.env.get("API_HOST") ?? "0.0.0.0";
   const apiPort = parseNumber(Deno.env.get("API_PORT"), 8000);
   const apiCorsOrigin = Deno.env.get("API_CORS_ORIGIN") ?? "*";
+  const watchSources = (Deno.env.get("WATCH_SOURCES") ?? "true").toLowerCase() !== "false";
+  const chatHistoryTurns = parseNumber(Deno.env.get("CHAT_HISTORY_TURNS"), 6);
+  // There is no anonymous mode: without a secret every student's data would be readable.
+  const authSecret = Deno.env.get("AUTH_SECRET");
+  if (!authSecret) {
+    throw new Error("Missing required environment variable: AUTH_SECRET");
+  }
+  if (authSecret.length < 32) {
+    throw new Error("AUTH_SECRET must be at least 32 characters");
+  }
+  const authUsersPath = Deno.env.get("AUTH_USERS_PATH") ?? "users.json";
 
   return {
     ...baseConfig,
     apiHost,
     apiPort,
     apiCorsOrigin,
+    watchSources,
+    chatHistoryTurns,
+    authSecret,
+    authUsersPath,
+    authUsers: new Map(),
   };
 }
 
@@ -72,7 +143,7 @@ function parseNumber(value: string | undefined, fallback: number): number {
   return parsed;
 }
 
-function jsonResponse(data: unknown, status = 200, headers?: HeadersInit) {
+function jsonResponse<T>(data: T, status = 200, headers?: HeadersInit) {
   // Pretty-print JSON responses so they’re human-friendly during demos and curl usage.
   return new Response(JSON.stringify(data, null, 2), {
     status,
@@ -101,8 +172,8 @@ function withCors(response: Response, origin: string | null): Response {
   if (!origin) return response;
   const headers = new Headers(response.headers);
   headers.set("access-control-allow-origin", origin);
-  headers.set("access-control-allow-methods", "GET,POST,OPTIONS");
-  headers.set("access-control-allow-headers", "content-type");
+  headers.set("access-control-allow-methods", "GET,POST,PUT,PATCH,DELETE,OPTIONS");
+  headers.set("access-control-allow-headers", "content-type,authorization");
   headers.set("access-control-max-age", "86400");
   return new Response(response.body, {
     status: response.status,
@@ -120,14 +191,20 @@ async function parseJson(request: Request): Promise<unknown> {
   }
 }
 
+const CHAT_SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
 function isChatRequest(value: unknown): value is ChatRequest {
   // Minimal shape validation: for stricter validation, the UI uses Zod and the server enforces role rules.
   if (!value || typeof value !== "object") return false;
   const record = value as Record<string, unknown>;
   const role = record.role;
   const isRole = role === "student" || role === "teacher" || role === "admin";
+  // Session ids are client-chosen, so they are kept to a safe, bounded alphabet.
+  const isSessionId = record.sessionId === undefined
+    || (typeof record.sessionId === "string" && CHAT_SESSION_ID_PATTERN.test(record.sessionId));
   return typeof record.userId === "string"
     && isRole
+    && isSessionId
     && typeof record.message === "string";
 }
 
@@ -138,6 +215,7 @@ function isAnalyzeRequest(value: unknown): value is AnalyzeRequest {
   if (record.scope && record.scope !== "all" && record.scope !== "student") return false;
   if (record.studentId && typeof record.studentId !== "string") return false;
   if (record.dryRun && typeof record.dryRun !== "boolean") return false;
+  if (record.classId !== undefined && typeof record.classId !== "string") return false;
   return true;
 }
 
@@ -150,6 +228,7 @@ function buildStudentMemorySummary(memory: StudentMemory): string {
       ? `Focus: ${memory.improvementAreas.join(", ")}`
       : "",
     memory.goals.length ? `Goals: ${memory.goals.join(", ")}` : "",
+    memory.accommodations.length ? `Accommodations: ${memory.accommodations.join(", ")}` : "",
   ].filter(Boolean);
   return parts.join(" | ");
 }
@@ -181,61 +260,140 @@ function computeUsageCost(
   return Number(cost.toFixed(6));
 }
 
-async function loadStudentsIndex(
-  studentsJsonPath: string,
-  logger: Logger,
-): Promise<{ list: StudentProfile[]; map: Map<string, StudentProfile> }> {
-  try {
-    // This reads the same file used by batch analysis; we validate and then project to a safe “UI list” shape.
-    const raw = await Deno.readTextFile(studentsJsonPath);
-    const parsed = JSON.parse(raw) as unknown;
-    const validation = validateStudents(parsed);
-    const list = validation.valid.map((student) => ({
+function sumUsage(a: TokenUsage | undefined, b: TokenUsage | undefined): TokenUsage | undefined {
+  // Either call may have reported no usage; only the ones that did are added up.
+  if (!a || !b) return a ?? b;
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+  };
+}
+
+export type StudentsIndex = { list: StudentProfile[]; map: Map<string, StudentProfile> };
+
+function listClasses(config: ServerConfig): ClassConfig[] {
+  return config.classes ?? [resolveClass(config)];
+}
+
+export function buildStudentsIndex(config: ServerConfig, store: HistoryStore): StudentsIndex {
+  // Built per request from SQLite so roster edits are visible immediately (no restart, no cache to invalidate).
+  // Only configured classes are listed: students of a class removed from the classes file drop out of the API.
+  const list = listClasses(config).flatMap((klass) =>
+    store.listStudents(klass.id).map((student) => ({
       id: student.id,
       name: student.name,
       email: student.email,
-    }));
-    if (validation.errors.length > 0) {
-      // Warnings instead of errors because we can still serve the valid subset.
-      logger.warn("Student list validation warnings", {
-        count: validation.errors.length,
+      classId: klass.id,
+      ...(student.language ? { language: student.language } : {}),
+    }))
+  );
+  const map = new Map(list.map((student) => [student.id, student]));
+  return { list, map };
+}
+
+async function seedStudents(config: ServerConfig, store: HistoryStore, logger: Logger) {
+  // Each class's students file only seeds that class once; after that, the API owns the roster.
+  for (const klass of listClasses(config)) {
+    if (store.getLatestRosterImport(klass.id)) continue;
+    try {
+      await importRosterFile(klass, store, logger);
+    } catch (error) {
+      // Serve with an empty roster rather than refusing to start; students can still be added via the API.
+      logger.warn("Failed to seed student roster", {
+        classId: klass.id,
+        error: error instanceof Error ? error.message : String(error),
       });
     }
-    const map = new Map(list.map((student) => [student.id, student]));
-    return { list, map };
-  } catch (error) {
-    logger.warn("Failed to load student list for chat personalization", {
-      error: error instanceof Error ? error.message : String(error),
-    });
-    return { list: [], map: new Map() };
   }
 }
 
 function buildSystemSummary(config: ServerConfig, store: HistoryStore): string {
   // Admin chat uses this to answer “what’s running and how is it doing?” without exposing student data.
-  const schedule = config.scheduleCron
-    ? `Cron: ${config.scheduleCron}`
-    : `Interval: ${config.scheduleIntervalMin} min`;
+  // Each class runs on its own schedule (see `buildClassList`), so the global one alone would misreport them.
+  const classes = listClasses(config).map((klass) =>
+    `${klass.id} (${klass.scheduleCron ? `cron ${klass.scheduleCron}` : `every ${klass.scheduleIntervalMin} min`})`
+  );
   const recentRuns = store.listRuns(5);
   const latest = recentRuns[0];
   const latestSummary = latest
-    ? `Last run ${latest.status} at ${latest.startedAt} (${latest.validStudentCount}/${latest.studentCount} valid).`
+    ? `Last run (${latest.classId}) ${latest.status} at ${latest.startedAt} (${latest.validStudentCount}/${latest.studentCount} valid).`
     : "No runs recorded yet.";
   return [
-    `Model: ${config.openAiModel}`,
-    `Schedule: ${schedule}`,
+    `Model: ${config.llm.model} (${config.llm.provider})`,
+    `Classes and schedules: ${classes.join(", ")}`,
     `History DB: ${config.historyDbPath}`,
     latestSummary,
   ].join(" | ");
 }
 
-async function handleChat(
+const encoder = new TextEncoder();
+
+function sseEvent(event: string, data: unknown): Uint8Array {
+  // One SSE frame: a named event with a single-line JSON payload (JSON.stringify never emits raw newlines).
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Relay a streamed chat reply as SSE: `delta` events with text, then `done` with the `ChatResponse`
+ * (or `error` if generation fails after the stream has started).
+ */
+function streamChatResponse(
+  chunks: AsyncGenerator<ChatStreamChunk>,
+  finish: (reply: ChatReply) => Promise<ChatResponse>,
+  logger: Logger,
+): Response {
+  let cancelled = false;
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        for await (const chunk of chunks) {
+          // Leaving the loop closes the generator, which stops reading from the model.
+          if (cancelled) return;
+          controller.enqueue(
+            chunk.type === "delta"
+              ? sseEvent("delta", { text: chunk.text })
+              : sseEvent("done", await finish(chunk.reply)),
+          );
+        }
+      } catch (error) {
+        logger.error("Chat stream failed", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        // Headers are already sent, so the failure is reported in-band.
+        if (!cancelled) controller.enqueue(sseEvent("error", { error: "Chat request failed" } satisfies ApiError));
+      }
+      if (!cancelled) controller.close();
+    },
+    cancel() {
+      // The client went away; the partial reply is not stored.
+      cancelled = true;
+    },
+  });
+  return new Response(body, {
+    headers: {
+      "content-type": "text/event-stream",
+      "cache-control": "no-cache",
+      // Stops reverse proxies (e.g. nginx) from buffering the stream.
+      "x-accel-buffering": "no",
+    },
+  });
+}
+
+/**
+ * `POST /v1/chat` and `/v1/chat/stream` for an authenticated session.
+ *
+ * Exported (with `buildStudentsIndex`) so tests can drive a full chat turn against the mock LLM provider.
+ */
+export async function handleChat(
   request: Request,
   config: ServerConfig,
   logger: Logger,
   agent: ReturnType<typeof createChatAgent>,
-  studentsIndex: { list: StudentProfile[]; map: Map<string, StudentProfile> },
+  studentsIndex: StudentsIndex,
   store: HistoryStore,
+  session: Session,
+  stream = false,
 ): Promise<Response> {
   let payload: unknown;
   try {
@@ -248,7 +406,13 @@ async function handleChat(
     return jsonResponse<ApiError>({ error: "Invalid chat request" }, 400);
   }
 
-  const { role, message, studentId, userId } = payload;
+  const { role, message } = payload;
+  // The session decides identity; a payload claiming another role is rejected rather than downgraded.
+  if (role !== session.role) {
+    return jsonResponse<ApiError>({ error: "Role does not match session" }, 403);
+  }
+  // Students always chat as themselves, so their studentId defaults to (and must equal) the session's.
+  const studentId = role === "student" ? payload.studentId ?? session.studentId : payload.studentId;
 
   // Enforce role boundaries early, before any memory or student lookups happen.
   if (role === "admin" && studentId) {
@@ -258,11 +422,27 @@ async function handleChat(
     );
   }
 
+  // A session belongs to one user and one subject; replaying another student's turns would leak context.
+  const sessionId = payload.sessionId ?? crypto.randomUUID();
+  const chatSession = store.getChatSession(sessionId);
+  if (chatSession && chatSession.userId !== session.userId) {
+    // Same answer as `handleChatSessionDetail`, so session ids can't be probed through chat either.
+    return jsonResponse<ApiError>({ error: "Chat session not found" }, 404);
+  }
+  if (chatSession && (chatSession.role !== role || chatSession.studentId !== studentId)) {
+    return jsonResponse<ApiError>(
+      { error: "Chat session is about a different student; start a new session" },
+      400,
+    );
+  }
+
   try {
     let memorySummary: string | undefined;
     let studentName: string | undefined;
     let systemSummary: string | undefined;
-    let teacherRules = config.teacherRules;
+    // Teacher preferences belong to the student's class.
+    const profile = studentId ? studentsIndex.map.get(studentId) : undefined;
+    let teacherRules = profile ? resolveClass(config, profile.classId).teacherRules : undefined;
 
     if (role === "admin") {
       systemSummary = buildSystemSummary(config, store);
@@ -274,7 +454,9 @@ async function handleChat(
           400,
         );
       }
-      const profile = studentsIndex.map.get(studentId);
+      if (!canAccessStudent(session, studentId)) {
+        return jsonResponse<ApiError>({ error: "Student is not on this teacher's roster" }, 403);
+      }
       if (!profile) {
         return jsonResponse<ApiError>(
           { error: "Unknown studentId for teacher request" },
@@ -282,48 +464,95 @@ async function handleChat(
         );
       }
       // Teacher mode uses student memory (not teacher memory) because the question is student-focused.
-      const studentMemory = await loadStudentMemory(config.memoryDir, studentId, logger);
+      const studentMemory = await loadStudentMemory(config.memoryDir, profile.classId, studentId, logger);
       memorySummary = buildStudentMemorySummary(studentMemory);
       studentName = profile.name;
     } else {
-      // Student role uses either an explicit studentId or (fallback) the userId as the key.
-      // This lets a simplified UI send userId-only if it maps 1:1 with student IDs.
-      const id = studentId ?? userId;
-      const profile = studentsIndex.map.get(id);
+      const id = studentId ?? "";
+      if (!canAccessStudent(session, id)) {
+        return jsonResponse<ApiError>({ error: "Students can only chat about themselves" }, 403);
+      }
       if (!profile) {
         return jsonResponse<ApiError>(
           { error: "Unknown studentId for student request" },
           400,
         );
       }
-      const studentMemory = await loadStudentMemory(config.memoryDir, id, logger);
+      const studentMemory = await loadStudentMemory(config.memoryDir, profile.classId, id, logger);
       memorySummary = buildStudentMemorySummary(studentMemory);
       studentName = profile.name;
     }
 
-    // Delegate prompt selection and generation to `src/chat_agent.ts`.
-    const { content, usage } = await agent.reply({
+    // Only a window of recent turns is replayed, which keeps prompt size (and cost) bounded in long sessions.
+    const history = chatSession ? store.listChatTurns(sessionId, config.chatHistoryTurns * 2) : [];
+
+    const context: ChatContext = {
       role,
       message,
       memorySummary,
       teacherRules,
       studentName,
+      // Student replies default to the student's language; teacher and admin replies follow the message.
+      language: languageName(preferredLocale(profile?.language, config.emailLocale)),
       systemSummary,
-    });
-
-    // API response is a stable JSON shape shared with the UI (contracts live in packages/shared-types).
-    const response: ChatResponse = {
-      reply: content,
-      memoryUpdated: false,
+      history: history.map((turn) => ({ role: turn.role, content: turn.content })),
     };
-    const costUsd = computeUsageCost(usage, config);
-    if (usage) {
-      response.usage = {
-        ...usage,
-        ...(costUsd !== undefined ? { costUsd } : {}),
+
+    // Runs alongside the reply (teachers only; other roles resolve immediately with no updates).
+    const extraction = agent.extractMemoryUpdates(context);
+
+    // Shared by both delivery modes once the full reply is known.
+    const finish = async (reply: ChatReply): Promise<ChatResponse> => {
+      // A failed write only costs future context, so the reply is still returned.
+      store.appendChatTurns(
+        { sessionId, userId: session.userId, role, studentId },
+        [{ role: "user", content: message }, { role: "assistant", content: reply.content }],
+      );
+
+      const { updates, usage: extractionUsage } = await extraction;
+      let memoryChanges: MemoryUpdate[] = [];
+      if (updates.length > 0 && profile) {
+        // Re-read memory so a run that finished while the model was replying isn't overwritten.
+        const current = await loadStudentMemory(config.memoryDir, profile.classId, profile.id, logger);
+        const applied = applyMemoryUpdates(current, updates, {
+          author: session.userId,
+          historyLimit: config.memoryHistoryLimit,
+        });
+        memoryChanges = applied.changes;
+        if (memoryChanges.length > 0) {
+          await saveStudentMemory(config.memoryDir, profile.classId, applied.memory, logger);
+          logger.info("Memory updated from chat", {
+            studentId: profile.id,
+            userId: session.userId,
+            changes: memoryChanges.map(describeMemoryUpdate),
+          });
+        }
+      }
+
+      // API response is a stable JSON shape shared with the UI (contracts live in packages/shared-types).
+      const response: ChatResponse = {
+        reply: reply.content,
+        sessionId,
+        memoryUpdated: memoryChanges.length > 0,
+        ...(memoryChanges.length > 0 ? { memoryChanges } : {}),
       };
+      // Extraction is a second model call, so its tokens count toward this turn's usage and cost.
+      const usage = sumUsage(reply.usage, extractionUsage);
+      const costUsd = computeUsageCost(usage, config);
+      if (usage) {
+        response.usage = {
+          ...usage,
+          ...(costUsd !== undefined ? { costUsd } : {}),
+        };
+      }
+      return response;
+    };
+
+    // Delegate prompt selection and generation to `src/chat_agent.ts`.
+    if (stream) {
+      return streamChatResponse(agent.stream(context), finish, logger);
     }
-    return jsonResponse(response);
+    return jsonResponse(await finish(await agent.reply(context)));
   } catch (error) {
     logger.error("Chat request failed", {
       error: error instanceof Error ? error.message : String(error),
@@ -335,12 +564,46 @@ async function handleChat(
   }
 }
 
+function toChatSessionSummary(entry: ChatSessionEntry) {
+  return {
+    sessionId: entry.sessionId,
+    role: entry.role,
+    studentId: entry.studentId,
+    title: entry.title,
+    createdAt: entry.createdAt,
+    updatedAt: entry.updatedAt,
+    messageCount: entry.messageCount,
+  };
+}
+
+// `GET /v1/chat/sessions[/{id}]`; exported so tests can check that sessions stay private to their user.
+export function handleChatSessions(store: HistoryStore, session: Session, limit: number): Response {
+  // Only the caller's own sessions, and only about students they can still access (rosters change).
+  const sessions = store.listChatSessions(session.userId, limit)
+    .filter((entry) => !entry.studentId || canAccessStudent(session, entry.studentId))
+    .map(toChatSessionSummary);
+  return jsonResponse<ChatSessionListResponse>({ sessions });
+}
+
+export function handleChatSessionDetail(sessionId: string, store: HistoryStore, session: Session): Response {
+  const entry = store.getChatSession(sessionId);
+  // Other users' sessions are reported as missing rather than forbidden, so ids can't be probed.
+  if (
+    !entry || entry.userId !== session.userId ||
+    (entry.studentId !== undefined && !canAccessStudent(session, entry.studentId))
+  ) {
+    return jsonResponse<ApiError>({ error: "Chat session not found" }, 404);
+  }
+  const messages = store.listChatTurns(sessionId);
+  return jsonResponse<ChatSessionDetailResponse>({ session: toChatSessionSummary(entry), messages });
+}
+
 async function handleAnalyze(
   request: Request,
   config: ServerConfig,
-  logger: Logger,
-  store: HistoryStore,
-  state: { running: boolean; lastRunId?: string },
+  studentsIndex: StudentsIndex,
+  jobs: AnalysisJobQueue,
+  session: Session,
 ): Promise<Response> {
   let payload: unknown;
   try {
@@ -353,67 +616,700 @@ async function handleAnalyze(
     return jsonResponse<ApiError>({ error: "Invalid analysis request" }, 400);
   }
 
-  const { scope } = payload;
-  if (scope && scope !== "all") {
+  const { scope, studentId, dryRun } = payload;
+  let classId: string;
+  if (scope === "student") {
+    // Student-scoped runs reuse the full pipeline for one record, so the id must resolve up front.
+    if (!studentId) {
+      return jsonResponse<ApiError>(
+        { error: "Student-level analysis requires studentId" },
+        400,
+      );
+    }
+    if (!canAccessStudent(session, studentId)) {
+      return jsonResponse<ApiError>({ error: "Student is not on this teacher's roster" }, 403);
+    }
+    const profile = studentsIndex.map.get(studentId);
+    if (!profile) {
+      return jsonResponse<ApiError>(
+        { error: "Unknown studentId for analysis request" },
+        400,
+      );
+    }
+    // Student-scoped runs always use the student's own class (its rules, teacher, and memory namespace).
+    classId = profile.classId;
+  } else {
+    try {
+      classId = resolveClass(config, payload.classId).id;
+    } catch (error) {
+      return jsonResponse<ApiError>(
+        { error: "Invalid classId", detail: error instanceof Error ? error.message : String(error) },
+        400,
+      );
+    }
+    // Whole-class runs email every student and the class teacher, so only that class's teachers (or admins) may start them.
+    if (!canAccessClass(session, classId)) {
+      return jsonResponse<ApiError>({ error: "Class is not taught by this teacher" }, 403);
+    }
+  }
+
+  // Runs are queued and processed one at a time; callers poll `GET /v1/runs/{runId}` for progress.
+  const job = jobs.enqueue({
+    classId,
+    scope: scope ?? "all",
+    studentId: scope === "student" ? studentId : undefined,
+    dryRun: dryRun === true,
+  });
+  return jsonResponse<AnalyzeResponse>(
+    { runId: job.runId, status: job.status },
+    202,
+    { location: `/v1/runs/${job.runId}` },
+  );
+}
+
+/**
+ * `GET /v1/runs/{runId}`: a queued job's state, or a run known only from history. Exported so tests can check
+ * how stored runs are reported.
+ */
+export function handleRunStatus(
+  runId: string,
+  store: HistoryStore,
+  jobs: AnalysisJobQueue,
+  session: Session,
+): Response {
+  // Combine the in-memory job (queued/running/dry-run state) with durable progress from SQLite.
+  const job = jobs.get(runId);
+  const run = store.getRun(runId);
+  if (!job && !run) {
+    return jsonResponse<ApiError>({ error: "Run not found" }, 404);
+  }
+
+  // Teachers see runs of their own classes (student-scoped runs of their students are in those classes too).
+  const classId = run?.classId ?? job?.options.classId;
+  if (classId && !canAccessClass(session, classId)) {
+    return jsonResponse<ApiError>({ error: "Forbidden" }, 403);
+  }
+
+  const fullPreview = job?.result?.preview;
+  // Teachers see the run, but only their own students' rows and previews.
+  const preview = fullPreview
+    ? {
+      ...fullPreview,
+      students: fullPreview.students.filter((entry) => canAccessStudent(session, entry.studentId)),
+    }
+    : undefined;
+  // Dry runs never write history rows, so their per-student progress comes from the preview instead.
+  const students = job?.options.dryRun
+    ? (preview?.students ?? []).map((entry) => ({
+      studentId: entry.studentId,
+      status: entry.status,
+      usedFallback: entry.usedFallback,
+    }))
+    : store.listStudentMessages(runId)
+      .filter((entry) => canAccessStudent(session, entry.studentId))
+      .map((entry) => ({
+        studentId: entry.studentId,
+        status: entry.status,
+        usedFallback: entry.usedFallback,
+      }));
+
+  // Runs that are only in history (scheduled runs, or from before a restart) keep their stored status; a finished
+  // job is reported from its outcome the same way, so a failed single-student refresh reads as failed.
+  const status: RunStatus = job
+    ? job.status === "completed" && job.result ? toRunStatus(job.result.status) : job.status
+    : run
+    ? toRunStatus(run.status)
+    : "completed";
+  const outcome = job?.result?.status ?? (run && run.status !== "running" ? run.status : undefined);
+
+  const response: RunStatusResponse = {
+    runId,
+    status,
+    classId,
+    scope: job?.options.scope,
+    studentId: job?.options.studentId,
+    dryRun: job?.options.dryRun,
+    queuedAt: job?.queuedAt,
+    startedAt: run?.startedAt ?? job?.startedAt,
+    completedAt: run?.completedAt ?? job?.finishedAt,
+    outcome,
+    progress: {
+      total: run?.validStudentCount ?? fullPreview?.students.length ?? 0,
+      processed: students.length,
+      students,
+    },
+    ...(preview ? { preview } : {}),
+    ...(job?.error ? { error: job.error } : {}),
+  };
+  return jsonResponse(response);
+}
+
+// `runs.status` is "running", "failed" (the runner threw), or the outcome of a finished run ("completed",
+// "no_valid_students", ...). A single-student run stores its student's status, which counts as failed when the
+// message was neither sent nor drafted; every other outcome counts as completed.
+const FAILED_OUTCOMES = new Set(["failed", "insights_failed", "delivery_failed"]);
+
+function toRunStatus(stored: string): RunStatus {
+  if (stored === "running") return "running";
+  return FAILED_OUTCOMES.has(stored) ? "failed" : "completed";
+}
+
+async function handleHistory(
+  store: HistoryStore,
+  limit: number,
+  session: Session,
+  classId: string | null,
+): Promise<Response> {
+  // Admins see every class; teachers only theirs. `?classId=` narrows either to one class.
+  if (classId && !canAccessClass(session, classId)) {
+    return jsonResponse<ApiError>({ error: "Forbidden" }, 403);
+  }
+  const classIds = classId ? [classId] : hasRole(session, "admin") ? undefined : session.classIds;
+  // Return only the fields used by the UI; raw message blobs remain in the DB for debugging.
+  const runs = store.listRuns(limit, classIds).map((run) => ({
+    runId: run.runId,
+    classId: run.classId,
+    status: run.status,
+    startedAt: run.startedAt,
+    completedAt: run.completedAt,
+    studentCount: run.studentCount,
+    validStudentCount: run.validStudentCount,
+    insights: run.insights,
+  }));
+
+  return jsonResponse<HistoryResponse>({ runs });
+}
+
+// `GET /v1/history/{runId}`; exported so tests can check the per-student outcomes against recorded rows.
+export function handleHistoryDetail(
+  runId: string,
+  store: HistoryStore,
+  studentsIndex: StudentsIndex,
+  session: Session,
+): Response {
+  const run = store.getRun(runId);
+  if (!run) {
+    return jsonResponse<ApiError>({ error: "Run not found" }, 404);
+  }
+  if (!canAccessClass(session, run.classId)) {
+    return jsonResponse<ApiError>({ error: "Forbidden" }, 403);
+  }
+
+  // Per-student outcomes come straight from `student_messages`; analysis/insight blobs stay in the DB.
+  const students = store.listStudentMessages(runId)
+    .filter((entry) => canAccessStudent(session, entry.studentId))
+    .map((entry) => ({
+      studentId: entry.studentId,
+      studentName: studentsIndex.map.get(entry.studentId)?.name,
+      status: entry.status,
+      usedFallback: entry.usedFallback,
+      fallbackReason: entry.fallbackReason,
+      error: entry.error,
+      emailSubject: entry.emailSubject,
+      createdAt: entry.createdAt,
+      deliveryAttempts: entry.deliveryAttempts,
+      deliveredAt: entry.deliveredAt,
+    }));
+  const guardians = store.listGuardianMessages(runId)
+    .filter((entry) => canAccessStudent(session, entry.studentId))
+    .map((entry) => ({
+      studentId: entry.studentId,
+      guardianName: entry.guardianName,
+      guardianEmail: entry.guardianEmail,
+      language: entry.language,
+      status: entry.status,
+      usedFallback: entry.usedFallback,
+      error: entry.error,
+      emailSubject: entry.emailSubject,
+      createdAt: entry.createdAt,
+      deliveryAttempts: entry.deliveryAttempts,
+      deliveredAt: entry.deliveredAt,
+    }));
+  const teacherMessage = store.getTeacherMessage(runId);
+
+  const response: HistoryRunDetailResponse = {
+    run: {
+      runId: run.runId,
+      classId: run.classId,
+      status: run.status,
+      startedAt: run.startedAt,
+      completedAt: run.completedAt,
+      studentCount: run.studentCount,
+      validStudentCount: run.validStudentCount,
+      insights: run.insights,
+    },
+    students,
+    ...(guardians.length > 0 ? { guardians } : {}),
+    ...(teacherMessage
+      ? {
+        teacher: {
+          status: teacherMessage.status,
+          usedFallback: teacherMessage.usedFallback,
+          error: teacherMessage.error,
+          emailSubject: teacherMessage.emailSubject,
+          createdAt: teacherMessage.createdAt,
+          deliveryAttempts: teacherMessage.deliveryAttempts,
+          deliveredAt: teacherMessage.deliveredAt,
+        },
+      }
+      : {}),
+  };
+  return jsonResponse(response);
+}
+
+function toStudentDraft(entry: StudentDraftEntry, studentsIndex: StudentsIndex): StudentDraft {
+  return {
+    draftId: entry.id,
+    runId: entry.runId,
+    classId: entry.classId,
+    studentId: entry.studentId,
+    studentName: studentsIndex.map.get(entry.studentId)?.name,
+    status: entry.status,
+    usedFallback: entry.usedFallback,
+    subject: entry.emailSubject,
+    text: entry.messageText,
+    insights: entry.insights,
+    createdAt: entry.createdAt,
+    reviewedBy: entry.reviewedBy,
+    reviewedAt: entry.reviewedAt,
+    reviewNote: entry.reviewNote,
+    editCount: entry.editCount,
+    // Reviewed together with the student's message and sent to opted-in guardians on approval.
+    guardianNotes: entry.guardianNotes?.map((note) => ({
+      language: note.language,
+      usedFallback: note.usedFallback,
+      text: renderGuardianMessage(note.insights, note.language),
+    })),
+    error: entry.error,
+    deliveryAttempts: entry.deliveryAttempts,
+    deliveredAt: entry.deliveredAt,
+  };
+}
+
+function draftDetailResponse(draftId: string, store: HistoryStore, studentsIndex: StudentsIndex): Response {
+  const draft = store.getDraft(draftId);
+  if (!draft) {
+    return jsonResponse<ApiError>({ error: "Draft not found" }, 404);
+  }
+  return jsonResponse<StudentDraftDetailResponse>({
+    draft: toStudentDraft(draft, studentsIndex),
+    edits: store.listDraftEdits(draftId),
+  });
+}
+
+function handleDrafts(
+  store: HistoryStore,
+  studentsIndex: StudentsIndex,
+  session: Session,
+  params: URLSearchParams,
+): Response {
+  // Same scoping as history: admins see every class, teachers theirs, `?classId=` narrows to one.
+  const classId = params.get("classId");
+  if (classId && !canAccessClass(session, classId)) {
+    return jsonResponse<ApiError>({ error: "Forbidden" }, 403);
+  }
+  // The review queue is the common case, so pending drafts are the default; `status=all` lists every draft.
+  const statusParam = params.get("status") ?? "pending_review";
+  const status = DRAFT_STATUSES.find((entry) => entry === statusParam);
+  if (!status && statusParam !== "all") {
     return jsonResponse<ApiError>(
-      { error: "Student-level analysis is not supported yet" },
+      { error: "Invalid status", detail: `Expected one of ${[...DRAFT_STATUSES, "all"].join(", ")}` },
       400,
     );
   }
+  const classIds = classId ? [classId] : hasRole(session, "admin") ? undefined : session.classIds;
+  const limit = parseNumber(params.get("limit") ?? undefined, 50);
+  const drafts = store.listDrafts(classIds, status, limit).map((entry) => toStudentDraft(entry, studentsIndex));
+  return jsonResponse<StudentDraftListResponse>({ drafts });
+}
 
-  // Simple in-process concurrency guard to prevent overlapping runs from stepping on shared artifacts.
-  if (state.running) {
-    return jsonResponse<AnalyzeResponse>(
-      { runId: state.lastRunId ?? "unknown", status: "running" },
+/**
+ * Edit, approve, or reject a draft. Only pending drafts change; anything else is a 409 so a stale
+ * review screen can't act on a draft someone else already handled.
+ */
+async function handleDraftAction(
+  request: Request,
+  draftId: string,
+  action: "edit" | "approve" | "reject",
+  config: ServerConfig,
+  store: HistoryStore,
+  studentsIndex: StudentsIndex,
+  session: Session,
+  logger: Logger,
+): Promise<Response> {
+  const draft = store.getDraft(draftId);
+  if (!draft) {
+    return jsonResponse<ApiError>({ error: "Draft not found" }, 404);
+  }
+  if (!canAccessClass(session, draft.classId)) {
+    return jsonResponse<ApiError>({ error: "Forbidden" }, 403);
+  }
+  const notPending = () =>
+    jsonResponse<ApiError>({ error: "Draft is not pending review", detail: `Draft is ${draft.status}` }, 409);
+  if (draft.status !== "pending_review") {
+    return notPending();
+  }
+
+  if (action === "edit") {
+    let payload: unknown;
+    try {
+      payload = await parseJson(request);
+    } catch {
+      return jsonResponse<ApiError>({ error: "Invalid JSON payload" }, 400);
+    }
+    const changes = typeof payload === "object" && payload !== null
+      ? (payload as Record<string, unknown>).insights
+      : undefined;
+    const edited = applyDraftEdit(draft.insights, changes);
+    if (!edited.ok) {
+      return jsonResponse<ApiError>({ error: "Invalid draft edit", detail: edited.errors.join("; ") }, 400);
+    }
+    // Re-rendered with the headings of the student's language, like the run that created the draft.
+    const locale = preferredLocale(store.getStudent(draft.studentId)?.language, config.emailLocale);
+    const messageText = renderStudentMessage(edited.value, locale);
+    // An edit that renders the same message (e.g. only whitespace) changes nothing worth auditing.
+    if (messageText !== draft.messageText) {
+      const diff = diffLines(draft.messageText, messageText);
+      if (!store.editDraft(draftId, { insights: edited.value, messageText, userId: session.userId, diff })) {
+        return notPending();
+      }
+      logger.info("Draft edited", { draftId, userId: session.userId });
+    }
+    return draftDetailResponse(draftId, store, studentsIndex);
+  }
+
+  if (action === "reject") {
+    // The body is optional; a reason helps whoever looks at the history later.
+    let reason: string | undefined;
+    const body = await request.text();
+    if (body.trim()) {
+      let payload: unknown;
+      try {
+        payload = JSON.parse(body);
+      } catch {
+        return jsonResponse<ApiError>({ error: "Invalid JSON payload" }, 400);
+      }
+      const value = typeof payload === "object" && payload !== null
+        ? (payload as Record<string, unknown>).reason
+        : undefined;
+      if (value !== undefined && typeof value !== "string") {
+        return jsonResponse<ApiError>({ error: "Invalid reject request", detail: "reason must be a string" }, 400);
+      }
+      reason = value?.trim().slice(0, 500) || undefined;
+    }
+    if (!store.reviewDraft(draftId, "rejected", session.userId, reason)) {
+      return notPending();
+    }
+    logger.info("Draft rejected", { draftId, userId: session.userId });
+    return draftDetailResponse(draftId, store, studentsIndex);
+  }
+
+  // Approval delivers to the student as the roster has them now (name/email may have changed since the run).
+  const student = store.getStudent(draft.studentId);
+  if (!student) {
+    return jsonResponse<ApiError>({ error: "Student is no longer on the roster" }, 409);
+  }
+  // Claiming the draft first means a second, concurrent approval gets a 409 instead of a second email.
+  if (!store.reviewDraft(draftId, "approved", session.userId)) {
+    return notPending();
+  }
+  const failed = await deliverApprovedDraft(config, store, draft, student, logger);
+  if (failed) return failed;
+  logger.info("Draft approved and sent", { draftId, userId: session.userId });
+  return draftDetailResponse(draftId, store, studentsIndex);
+}
+
+/**
+ * `POST /v1/drafts/{id}/retry`: deliver an approved draft again after `delivery_failed`, or after its delivery
+ * stalled at `approved` (the process stopped mid-send). A recent `approved` draft may still be sending, so it is
+ * a 409 until `STALLED_DELIVERY_MS` has passed. Exported so tests can drive a retry against a real store.
+ */
+export async function handleDraftRetry(
+  draftId: string,
+  config: ServerConfig,
+  store: HistoryStore,
+  studentsIndex: StudentsIndex,
+  session: Session,
+  logger: Logger,
+): Promise<Response> {
+  const draft = store.getDraft(draftId);
+  if (!draft) {
+    return jsonResponse<ApiError>({ error: "Draft not found" }, 404);
+  }
+  if (!canAccessClass(session, draft.classId)) {
+    return jsonResponse<ApiError>({ error: "Forbidden" }, 403);
+  }
+  if (!canRetryDelivery(draft, Date.now())) {
+    return jsonResponse<ApiError>(
+      { error: "Draft delivery cannot be retried", detail: `Draft is ${draft.status}` },
       409,
     );
   }
+  const student = store.getStudent(draft.studentId);
+  if (!student) {
+    return jsonResponse<ApiError>({ error: "Student is no longer on the roster" }, 409);
+  }
+  // Compare-and-set on the draft as read, so a concurrent retry gets a 409 instead of a second email.
+  if (!store.claimDraftRetry(draft)) {
+    return jsonResponse<ApiError>({ error: "Draft delivery cannot be retried", detail: "Draft changed" }, 409);
+  }
+  const failed = await deliverApprovedDraft(config, store, draft, student, logger);
+  if (failed) return failed;
+  logger.info("Draft delivery retried and sent", { draftId, userId: session.userId });
+  return draftDetailResponse(draftId, store, studentsIndex);
+}
+
+/**
+ * Email a claimed (`approved`) draft, record the outcome, and send its guardian notes. Returns an error response
+ * when delivery failed, or undefined once the draft is `sent`.
+ */
+async function deliverApprovedDraft(
+  config: ServerConfig,
+  store: HistoryStore,
+  draft: StudentDraftEntry,
+  student: Student,
+  logger: Logger,
+): Promise<Response | undefined> {
+  try {
+    const { subject, delivery } = await deliverStudentMessage(
+      config,
+      draft.classId,
+      draft.runId,
+      student,
+      draft.insights,
+      logger,
+    );
+    // Sent, or delivery_failed with the transport's error once retries are exhausted.
+    store.recordDraftDelivery(draft.id, subject, delivery);
+    if (delivery.status === "failed") {
+      return jsonResponse<ApiError>({ error: "Failed to deliver approved draft", detail: delivery.error }, 502);
+    }
+    // Guardian outcomes are recorded per guardian; a failed note doesn't undo the student's delivery.
+    await deliverGuardianNotes(config, store, draft.classId, draft.runId, student, draft.guardianNotes ?? [], logger);
+  } catch (error) {
+    // The draft stays "approved" (not sent), which history shows as-is and `retry` picks up once it has stalled.
+    logger.error("Failed to deliver approved draft", {
+      draftId: draft.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return jsonResponse<ApiError>({ error: "Failed to deliver approved draft" }, 500);
+  }
+  return undefined;
+}
+
+function createSourceWatcher(config: ServerConfig, store: HistoryStore, logger: Logger): SourceWatcher {
+  const sources = new SourceWatcher(logger);
+  for (const klass of listClasses(config)) {
+    // The students file re-imports into SQLite only when every record is valid; otherwise the stored roster stays.
+    sources.register(`students:${klass.id}`, klass.studentsJsonPath, async () => {
+      const result = await reloadRosterFile(klass, store, logger);
+      return { ok: result.applied, errors: result.errors };
+    }, { lastLoadedAt: store.getLatestRosterImport(klass.id)?.importedAt });
+
+    const teacherRulesPath = klass.teacherRulesPath;
+    if (teacherRulesPath) {
+      // Swapping `klass.teacherRules` is enough: chat and queued runs read it on every use.
+      sources.register(`teacherRules:${klass.id}`, teacherRulesPath, async () => {
+        const { rules, errors } = await readTeacherRules(teacherRulesPath);
+        if (!rules || errors.length > 0) return { ok: false, errors };
+        klass.teacherRules = rules;
+        return { ok: true, errors: [] };
+      }, { lastLoadedAt: klass.teacherRules ? new Date().toISOString() : undefined });
+    }
+  }
+
+  // Users only swap in when the whole file is valid, so a typo can't lock everyone out mid-edit.
+  sources.register("users", config.authUsersPath, async () => {
+    const { users, errors } = await readAuthUsers(config.authUsersPath);
+    if (errors.length > 0) return { ok: false, errors };
+    config.authUsers = new Map(users.map((user) => [user.id, user]));
+    return { ok: true, errors: [] };
+  }, { lastLoadedAt: config.authUsers.size > 0 ? new Date().toISOString() : undefined });
 
-  state.running = true;
+  if (config.watchSources) sources.start();
+  return sources;
+}
+
+function invalidStudentResponse(errors: string[]): Response {
+  // Field-level errors come straight from `validateStudent`, so the UI can show exactly what to fix.
+  return jsonResponse<ApiError>(
+    { error: "Invalid student record", detail: errors.join("; ") },
+    400,
+  );
+}
+
+/**
+ * `POST /v1/students`, `PUT`/`PATCH`/`DELETE /v1/students/{id}`: roster edits. Role checks happen in the router;
+ * exported so tests can exercise the conflict and immutable-field rules against a real store.
+ */
+export async function handleCreateStudent(
+  request: Request,
+  config: ServerConfig,
+  store: HistoryStore,
+  session: Session,
+): Promise<Response> {
+  let payload: unknown;
+  try {
+    payload = await parseJson(request);
+  } catch {
+    return jsonResponse<ApiError>({ error: "Invalid JSON payload" }, 400);
+  }
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+    return jsonResponse<ApiError>({ error: "Student payload must be an object" }, 400);
+  }
+
+  // `classId` picks the roster; it isn't part of the stored student record.
+  const { classId: requestedClassId, ...record } = payload as Record<string, unknown>;
+  if (requestedClassId !== undefined && typeof requestedClassId !== "string") {
+    return jsonResponse<ApiError>({ error: "classId must be a string" }, 400);
+  }
+  let classId: string;
+  try {
+    classId = resolveClass(config, requestedClassId).id;
+  } catch (error) {
+    return jsonResponse<ApiError>(
+      { error: "Invalid classId", detail: error instanceof Error ? error.message : String(error) },
+      400,
+    );
+  }
+  if (!canAccessClass(session, classId)) {
+    return jsonResponse<ApiError>({ error: "Forbidden" }, 403);
+  }
+
+  const result = validateStudent(record, 0);
+  if (!result.ok) return invalidStudentResponse(result.errors);
+  // Ids are keys for memory files and history rows, so creating over an existing id is a conflict, not an update.
+  if (store.getStudent(result.value.id)) {
+    return jsonResponse<ApiError>({ error: "Student already exists" }, 409);
+  }
+  if (!store.saveStudent(result.value, classId)) {
+    return jsonResponse<ApiError>({ error: "Failed to save student" }, 500);
+  }
+  return jsonResponse<StudentRecordResponse>(
+    { student: result.value, classId },
+    201,
+    { location: `/v1/students/${encodeURIComponent(result.value.id)}` },
+  );
+}
+
+export async function handleUpdateStudent(
+  request: Request,
+  studentId: string,
+  store: HistoryStore,
+  mode: "replace" | "merge",
+): Promise<Response> {
+  const existing = store.getStudent(studentId);
+  const classId = store.getStudentClassId(studentId);
+  if (!existing || !classId) {
+    return jsonResponse<ApiError>({ error: "Student not found" }, 404);
+  }
+
+  let payload: unknown;
+  try {
+    payload = await parseJson(request);
+  } catch {
+    return jsonResponse<ApiError>({ error: "Invalid JSON payload" }, 400);
+  }
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+    return jsonResponse<ApiError>({ error: "Student payload must be an object" }, 400);
+  }
+
+  const record = payload as Record<string, unknown>;
+  // The id is the record's identity; renaming would orphan memory files and history rows.
+  if (record.id !== undefined && record.id !== studentId) {
+    return jsonResponse<ApiError>({ error: "Student id cannot be changed" }, 400);
+  }
+  // Moving a student would split its memory and history across classes.
+  if (record.classId !== undefined && record.classId !== classId) {
+    return jsonResponse<ApiError>({ error: "Student class cannot be changed" }, 400);
+  }
+  delete record.classId;
+  // PUT replaces the whole record; PATCH merges top-level fields into the stored one.
+  const candidate: Record<string, unknown> = mode === "merge"
+    ? { ...(existing as unknown as Record<string, unknown>), ...record, id: studentId }
+    : { ...record, id: studentId };
+
+  const result = validateStudent(candidate, 0);
+  if (!result.ok) return invalidStudentResponse(result.errors);
+  if (!store.saveStudent(result.value, classId)) {
+    return jsonResponse<ApiError>({ error: "Failed to save student" }, 500);
+  }
+  return jsonResponse<StudentRecordResponse>({ student: result.value, classId });
+}
+
+export function handleDeleteStudent(studentId: string, store: HistoryStore): Response {
+  // Memory files and history rows are kept: they are the audit trail for past runs.
+  if (!store.deleteStudent(studentId)) {
+    return jsonResponse<ApiError>({ error: "Student not found" }, 404);
+  }
+  return new Response(null, { status: 204 });
+}
+
+async function handleImportStudents(
+  klass: ClassConfig,
+  store: HistoryStore,
+  logger: Logger,
+): Promise<Response> {
   try {
-    // `runOnce` is the full pipeline from `src/run_with_tool.ts`.
-    const runId = await runOnce(config, store);
-    state.lastRunId = runId;
-    return jsonResponse<AnalyzeResponse>({ runId, status: "completed" });
+    // Re-import upserts valid file records; students added via the API and absent from the file are kept.
+    const result = await importRosterFile(klass, store, logger);
+    return jsonResponse<StudentImportResponse>(result);
   } catch (error) {
-    logger.error("Analysis run failed", {
+    logger.error("Student import failed", {
       error: error instanceof Error ? error.message : String(error),
     });
-    return jsonResponse<AnalyzeResponse>(
-      { runId: state.lastRunId ?? "unknown", status: "failed" },
+    return jsonResponse<ApiError>(
+      { error: "Student import failed", detail: error instanceof Error ? error.message : String(error) },
       500,
     );
-  } finally {
-    state.running = false;
   }
 }
 
-async function handleHistory(store: HistoryStore, limit: number): Promise<Response> {
-  // Return only the fields used by the UI; raw message blobs remain in the DB for debugging.
-  const runs = store.listRuns(limit).map((run) => ({
-    runId: run.runId,
-    status: run.status,
-    startedAt: run.startedAt,
-    completedAt: run.completedAt,
-    studentCount: run.studentCount,
-    validStudentCount: run.validStudentCount,
-  }));
+function buildClassList(config: ServerConfig, store: HistoryStore, session: Session): ClassListResponse {
+  // Teacher emails and schedules are operational settings, so students don't get this list.
+  const classes = listClasses(config)
+    .filter((klass) => canAccessClass(session, klass.id))
+    .map((klass) => ({
+      id: klass.id,
+      name: klass.name,
+      studentCount: store.listStudents(klass.id).length,
+      teacherEmail: klass.teacherEmail,
+      scheduleCron: klass.scheduleCron,
+      scheduleIntervalMin: klass.scheduleIntervalMin,
+    }));
+  return { classes };
+}
 
-  return jsonResponse<HistoryResponse>({ runs });
+/**
+ * `GET /v1/config`: safe runtime settings for teachers and admins. Students get a 403, since the response names
+ * server paths and the model in use. Exported so tests can check the role gate.
+ */
+export function handleConfig(config: ServerConfig, session: Session): Response {
+  if (!hasRole(session, "teacher", "admin")) {
+    return jsonResponse<ApiError>({ error: "Forbidden" }, 403);
+  }
+  return jsonResponse<ApiConfigResponse>(buildConfigResponse(config));
 }
 
 function buildConfigResponse(config: ServerConfig): ApiConfigResponse {
-  // This is “safe config”: it intentionally omits secrets like OPENAI_API_KEY.
+  // This is “safe config”: it intentionally omits secrets like OPENAI_API_KEY and provider endpoints.
   return {
-    openAiModel: config.openAiModel,
+    llmProvider: config.llm.provider,
+    openAiModel: config.llm.model,
     scheduleCron: config.scheduleCron,
     scheduleIntervalMin: config.scheduleIntervalMin,
     memoryDir: config.memoryDir,
     memoryHistoryLimit: config.memoryHistoryLimit,
     studentsJsonPath: config.studentsJsonPath,
     teacherRulesPath: config.teacherRulesPath,
+    classesPath: config.classesPath,
+    riskPolicyPath: config.riskPolicyPath,
     historyDbPath: config.historyDbPath,
     emailOutDir: config.emailOutDir,
+    emailTransport: config.emailTransport,
+    emailTemplatesDir: config.emailTemplatesDir,
+    emailLocale: config.emailLocale,
+    reviewStudentMessages: config.reviewStudentMessages,
     apiHost: config.apiHost,
     apiPort: config.apiPort,
     apiCorsOrigin: config.apiCorsOrigin,
@@ -426,9 +1322,13 @@ async function handleStudentSummary(
   logger: Logger,
   store: HistoryStore,
 ): Promise<Response> {
+  const classId = store.getStudentClassId(studentId);
+  if (!classId) {
+    return jsonResponse<ApiError>({ error: "Student not found" }, 404);
+  }
   // This endpoint is designed for UI/debugging; it returns current memory and the latest stored insights.
-  const memory = await loadStudentMemory(config.memoryDir, studentId, logger);
-  const latest = store.getLatestStudentInsights(studentId);
+  const memory = await loadStudentMemory(config.memoryDir, classId, studentId, logger);
+  const latest = store.getLatestStudentInsights(classId, studentId);
 
   const payload: StudentSummaryResponse = {
     studentId,
@@ -443,15 +1343,29 @@ async function handleStudentSummary(
 async function main() {
   const config = await loadServerConfig();
   const logger = createLogger(config.logLevel);
-  // Teacher rules are optional, but loading them once avoids repeated disk reads on each request.
-  config.teacherRules = await loadTeacherRules(config.teacherRulesPath, logger);
+  // Each class's teacher rules are loaded once here, avoiding repeated disk reads on each request.
+  config.classes = await loadClasses(config, logger);
+  config.riskPolicy = await loadRiskPolicy(config.riskPolicyPath, logger);
+  config.authUsers = await loadAuthUsers(config.authUsersPath, logger);
 
   const chatAgent = createChatAgent(config, logger);
-  // Build a student index once so chat requests can quickly resolve studentId → name.
-  const studentsIndex = await loadStudentsIndex(config.studentsJsonPath, logger);
   const store = new HistoryStore(config.historyDbPath, logger);
-  // `state` is kept in-memory because this demo server runs as a single process.
-  const state = { running: false as boolean, lastRunId: undefined as string | undefined };
+  // The roster lives in SQLite; the students file seeds it on first start.
+  await seedStudents(config, store, logger);
+  const sources = createSourceWatcher(config, store, logger);
+  // The job queue is kept in-memory because this demo server runs as a single process.
+  const jobs = new AnalysisJobQueue(async (runId, options) => {
+    try {
+      // `runOnce` is the full pipeline from `src/run_with_tool.ts`.
+      return await runOnce(config, store, { ...options, runId });
+    } catch (error) {
+      // Close the history row so a crashed run doesn't stay "running" forever.
+      if (!options.dryRun) {
+        store.finishRun(runId, "failed");
+      }
+      throw error;
+    }
+  }, logger);
 
   logger.info("Starting API server", {
     host: config.apiHost,
@@ -475,41 +1389,209 @@ async function main() {
         );
       }
 
-      if (request.method === "POST" && url.pathname === "/v1/chat") {
+      // Everything under /v1 needs a session; role and roster checks follow per route.
+      const auth = await authenticate(
+        request,
+        config.authSecret,
+        config.authUsers,
+        (classIds) => classIds.flatMap((classId) => store.listStudents(classId).map((student) => student.id)),
+      );
+      if (!auth.ok) {
+        return withCors(
+          jsonResponse<ApiError>({ error: "Unauthorized", detail: auth.errors.join("; ") }, 401),
+          origin,
+        );
+      }
+      const session = auth.value;
+      const forbidden = () => withCors(jsonResponse<ApiError>({ error: "Forbidden" }, 403), origin);
+
+      if (request.method === "GET" && url.pathname === "/v1/session") {
+        return withCors(jsonResponse<SessionResponse>(session), origin);
+      }
+
+      if (request.method === "POST" && (url.pathname === "/v1/chat" || url.pathname === "/v1/chat/stream")) {
         const response = await handleChat(
           request,
           config,
           logger,
           chatAgent,
-          studentsIndex,
+          buildStudentsIndex(config, store),
           store,
+          session,
+          url.pathname === "/v1/chat/stream",
         );
         return withCors(response, origin);
       }
 
+      if (request.method === "GET" && url.pathname === "/v1/chat/sessions") {
+        const limit = parseNumber(url.searchParams.get("limit") ?? undefined, 25);
+        return withCors(handleChatSessions(store, session, limit), origin);
+      }
+
+      if (request.method === "GET" && url.pathname.startsWith("/v1/chat/sessions/")) {
+        const sessionId = decodeURIComponent(url.pathname.replace("/v1/chat/sessions/", ""));
+        if (!sessionId) {
+          return withCors(
+            jsonResponse<ApiError>({ error: "Session id required" }, 400),
+            origin,
+          );
+        }
+        return withCors(handleChatSessionDetail(sessionId, store, session), origin);
+      }
+
       if (request.method === "POST" && url.pathname === "/v1/analyze") {
-        const response = await handleAnalyze(request, config, logger, store, state);
+        if (!hasRole(session, "teacher", "admin")) return forbidden();
+        const response = await handleAnalyze(request, config, buildStudentsIndex(config, store), jobs, session);
         return withCors(response, origin);
       }
 
+      if (request.method === "GET" && url.pathname.startsWith("/v1/runs/")) {
+        if (!hasRole(session, "teacher", "admin")) return forbidden();
+        const runId = decodeURIComponent(url.pathname.replace("/v1/runs/", ""));
+        if (!runId) {
+          return withCors(
+            jsonResponse<ApiError>({ error: "Run id required" }, 400),
+            origin,
+          );
+        }
+        return withCors(handleRunStatus(runId, store, jobs, session), origin);
+      }
+
       if (request.method === "GET" && url.pathname === "/v1/history") {
+        if (!hasRole(session, "teacher", "admin")) return forbidden();
         const limit = parseNumber(url.searchParams.get("limit") ?? undefined, 25);
-        const response = await handleHistory(store, limit);
+        const response = await handleHistory(store, limit, session, url.searchParams.get("classId"));
         return withCors(response, origin);
       }
 
-      if (request.method === "GET" && url.pathname === "/v1/config") {
-        const response = jsonResponse<ApiConfigResponse>(buildConfigResponse(config));
+      if (request.method === "GET" && url.pathname.startsWith("/v1/history/")) {
+        if (!hasRole(session, "teacher", "admin")) return forbidden();
+        const runId = decodeURIComponent(url.pathname.replace("/v1/history/", ""));
+        if (!runId) {
+          return withCors(
+            jsonResponse<ApiError>({ error: "Run id required" }, 400),
+            origin,
+          );
+        }
+        return withCors(handleHistoryDetail(runId, store, buildStudentsIndex(config, store), session), origin);
+      }
+
+      if (request.method === "GET" && url.pathname === "/v1/drafts") {
+        if (!hasRole(session, "teacher", "admin")) return forbidden();
+        return withCors(handleDrafts(store, buildStudentsIndex(config, store), session, url.searchParams), origin);
+      }
+
+      if (url.pathname.startsWith("/v1/drafts/")) {
+        if (!hasRole(session, "teacher", "admin")) return forbidden();
+        // `/v1/drafts/{id}` (GET, PATCH) or `/v1/drafts/{id}/approve|reject|retry` (POST).
+        const [rawId, action, ...rest] = url.pathname.replace("/v1/drafts/", "").split("/");
+        const draftId = decodeURIComponent(rawId);
+        if (!draftId || rest.length > 0) {
+          return withCors(jsonResponse<ApiError>({ error: "Not found" }, 404), origin);
+        }
+        const studentsIndex = buildStudentsIndex(config, store);
+        if (request.method === "GET" && action === undefined) {
+          const draft = store.getDraft(draftId);
+          if (draft && !canAccessClass(session, draft.classId)) return forbidden();
+          return withCors(draftDetailResponse(draftId, store, studentsIndex), origin);
+        }
+        if (request.method === "POST" && action === "retry") {
+          const response = await handleDraftRetry(draftId, config, store, studentsIndex, session, logger);
+          return withCors(response, origin);
+        }
+        const draftAction = request.method === "PATCH" && action === undefined
+          ? "edit"
+          : request.method === "POST" && (action === "approve" || action === "reject")
+          ? action
+          : undefined;
+        if (draftAction) {
+          const response = await handleDraftAction(
+            request,
+            draftId,
+            draftAction,
+            config,
+            store,
+            studentsIndex,
+            session,
+            logger,
+          );
+          return withCors(response, origin);
+        }
+      }
+
+      if (request.method === "GET" && url.pathname === "/v1/admin/sources") {
+        if (!hasRole(session, "admin")) return forbidden();
+        const response = jsonResponse<SourceStatusResponse>({
+          watching: config.watchSources,
+          sources: sources.list(),
+        });
         return withCors(response, origin);
       }
 
+      if (request.method === "GET" && url.pathname === "/v1/classes") {
+        if (!hasRole(session, "teacher", "admin")) return forbidden();
+        return withCors(jsonResponse<ClassListResponse>(buildClassList(config, store, session)), origin);
+      }
+
+      if (request.method === "GET" && url.pathname === "/v1/config") {
+        return withCors(handleConfig(config, session), origin);
+      }
+
       if (request.method === "GET" && url.pathname === "/v1/students") {
+        // Each role sees only the students it may access (a student sees just itself).
         const response = jsonResponse<StudentListResponse>({
-          students: studentsIndex.list,
+          students: buildStudentsIndex(config, store).list.filter((student) => canAccessStudent(session, student.id)),
         });
         return withCors(response, origin);
       }
 
+      if (request.method === "POST" && url.pathname === "/v1/students") {
+        // Teachers may add students to their own classes; the class check happens once the body is parsed.
+        if (!hasRole(session, "teacher", "admin")) return forbidden();
+        const response = await handleCreateStudent(request, config, store, session);
+        return withCors(response, origin);
+      }
+
+      if (request.method === "POST" && url.pathname === "/v1/students/import") {
+        if (!hasRole(session, "admin")) return forbidden();
+        let klass: ClassConfig;
+        try {
+          klass = resolveClass(config, url.searchParams.get("classId") ?? undefined);
+        } catch (error) {
+          return withCors(
+            jsonResponse<ApiError>(
+              { error: "Invalid classId", detail: error instanceof Error ? error.message : String(error) },
+              400,
+            ),
+            origin,
+          );
+        }
+        const response = await handleImportStudents(klass, store, logger);
+        return withCors(response, origin);
+      }
+
+      if (
+        (request.method === "PUT" || request.method === "PATCH" || request.method === "DELETE") &&
+        url.pathname.startsWith("/v1/students/")
+      ) {
+        const studentId = decodeURIComponent(url.pathname.replace("/v1/students/", ""));
+        if (!studentId) {
+          return withCors(
+            jsonResponse<ApiError>({ error: "Student id required" }, 400),
+            origin,
+          );
+        }
+        // Teachers may edit their own students' records; deleting is an admin roster change.
+        const allowed = request.method === "DELETE"
+          ? hasRole(session, "admin")
+          : hasRole(session, "teacher", "admin") && canAccessStudent(session, studentId);
+        if (!allowed) return forbidden();
+        const response = request.method === "DELETE"
+          ? handleDeleteStudent(studentId, store)
+          : await handleUpdateStudent(request, studentId, store, request.method === "PUT" ? "replace" : "merge");
+        return withCors(response, origin);
+      }
+
       if (request.method === "GET" && url.pathname.startsWith("/v1/students/")) {
         const studentId = decodeURIComponent(url.pathname.replace("/v1/students/", ""));
         if (!studentId) {
@@ -518,6 +1600,7 @@ async function main() {
             origin,
           );
         }
+        if (!canAccessStudent(session, studentId)) return forbidden();
         const response = await handleStudentSummary(studentId, config, logger, store);
         return withCors(response, origin);
       }
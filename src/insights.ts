@@ -1,4 +1,15 @@
-import type { StudentAnalysis, StudentInsights, TeacherInsights, TeacherSummary, TeacherPreferences } from "./types.ts";
+import type {
+  GuardianInsights,
+  InsightStats,
+  MessageBlock,
+  StudentAnalysis,
+  StudentInsights,
+  TeacherInsights,
+  TeacherPreferences,
+  TeacherSummary,
+} from "./types.ts";
+import { localizeAnalysisPhrase, messageCatalog } from "./message_catalog.ts";
+import type { JsonObjectSchema, JsonSchema, LlmResponseFormat, StructuredResult } from "./llm_provider.ts";
 
 /**
  * LLM output handling: parse, validate, render, and fall back.
@@ -15,6 +26,17 @@ import type { StudentAnalysis, StudentInsights, TeacherInsights, TeacherSummary,
  * 4) If validation fails, produce deterministic fallback insights from `StudentAnalysis` / `TeacherSummary`.
  *
  * The intent is graceful degradation: the pipeline can still produce useful coaching output even when the LLM fails.
+ *
+ * The `*_INSIGHTS_FORMAT` schemas describe the same contracts for the model API's native structured output, so
+ * most replies are valid JSON to begin with; the parsers still check everything the schema cannot (trimmed,
+ * non-empty, length caps) and stay tolerant of prose for prompt-only providers.
+ *
+ * Guardian notes follow the same pattern, and their prompt lives here too: a family-facing message has stricter
+ * content rules (no scores, no teacher notes) than the student one, and those rules belong next to the contract
+ * that enforces the shape.
+ *
+ * Headings and fallback wording come from the reader's language catalog (`src/message_catalog.ts`); the `locale`
+ * parameters below default to English.
  */
 type ValidationResult<T> = { ok: true; value: T } | { ok: false; errors: string[] };
 
@@ -56,6 +78,103 @@ function extractJsonObject(text: string): string | null {
   return text.slice(start, end + 1);
 }
 
+// A schema whose fields are exactly the keys of `T`, so a field added to an insights type must be added here too.
+type ObjectSchemaFor<T> = JsonObjectSchema & {
+  properties: Record<keyof T & string, JsonSchema>;
+  required: (keyof T & string)[];
+};
+
+const text = (description: string): JsonSchema => ({ type: "string", description });
+// Item limits match the parsers' `normalizeStringArray` bounds.
+const textList = (minItems: number, maxItems: number, description: string): JsonSchema => ({
+  type: "array",
+  items: { type: "string" },
+  minItems,
+  maxItems,
+  description,
+});
+
+const STUDENT_INSIGHTS_SCHEMA: ObjectSchemaFor<StudentInsights> = {
+  type: "object",
+  properties: {
+    positiveObservation: text("One specific, encouraging observation"),
+    strengths: textList(1, 3, "What the student does well"),
+    improvementAreas: textList(1, 2, "Where to focus next"),
+    strategies: textList(2, 3, "Concrete things to try"),
+    nextStepGoal: text("One achievable goal for the coming week"),
+    encouragement: text("A closing line of encouragement"),
+  },
+  required: ["positiveObservation", "strengths", "improvementAreas", "strategies", "nextStepGoal", "encouragement"],
+  additionalProperties: false,
+};
+
+const TEACHER_INSIGHTS_SCHEMA: ObjectSchemaFor<TeacherInsights> = {
+  type: "object",
+  properties: {
+    classOverview: text("Short overview of the class"),
+    strengths: textList(1, 4, "What is going well across the class"),
+    attentionNeeded: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: { name: text("Student name"), reason: text("Why, based on the student's riskFactors") },
+        required: ["name", "reason"],
+        additionalProperties: false,
+      },
+      description: "Students who need attention (may be empty)",
+    },
+    nextSteps: textList(2, 4, "Suggested next steps for the teacher"),
+  },
+  required: ["classOverview", "strengths", "attentionNeeded", "nextSteps"],
+  additionalProperties: false,
+};
+
+const GUARDIAN_INSIGHTS_SCHEMA: ObjectSchemaFor<GuardianInsights> = {
+  type: "object",
+  properties: {
+    summary: text("How the student is doing, without scores or labels"),
+    highlights: textList(1, 3, "Things going well"),
+    homeSupport: textList(1, 3, "Concrete, low-effort ways to help at home"),
+    closing: text("Closing line inviting the family to contact the teacher"),
+  },
+  required: ["summary", "highlights", "homeSupport", "closing"],
+  additionalProperties: false,
+};
+
+export const STUDENT_INSIGHTS_FORMAT: LlmResponseFormat = {
+  name: "student_insights",
+  description: "Personalized insights for one student",
+  schema: STUDENT_INSIGHTS_SCHEMA,
+};
+
+export const TEACHER_INSIGHTS_FORMAT: LlmResponseFormat = {
+  name: "teacher_insights",
+  description: "Class summary for the teacher",
+  schema: TEACHER_INSIGHTS_SCHEMA,
+};
+
+export const GUARDIAN_INSIGHTS_FORMAT: LlmResponseFormat = {
+  name: "guardian_insights",
+  description: "Note for a student's parent or guardian",
+  schema: GUARDIAN_INSIGHTS_SCHEMA,
+};
+
+/**
+ * Count one insight set in the run's stats (see `InsightStats`).
+ */
+export function tallyInsights(stats: InsightStats, result: StructuredResult<unknown>) {
+  stats.generated += 1;
+  if (!result.ok) stats.fallbacks += 1;
+  else if (result.repaired) stats.repaired += 1;
+}
+
+/**
+ * Share of insight sets that fell back, rounded to three decimals (0 when nothing was generated).
+ */
+export function insightFallbackRate(stats: InsightStats): number {
+  return stats.generated > 0 ? Math.round((stats.fallbacks / stats.generated) * 1000) / 1000 : 0;
+}
+
 /**
  * Parse and validate student insights JSON returned by the LLM.
  */
@@ -197,49 +316,148 @@ export function parseTeacherInsights(raw: string): ValidationResult<TeacherInsig
 }
 
 /**
- * Render structured student insights into a plain-text message.
+ * Prompt for guardian notes (used by `createAgentWithMemory`). Variables: `language` (a language name such as
+ * "Spanish"), `analysisJson`, `memoryJson`, `teacherRulesJson`.
  */
-export function renderStudentMessage(insights: StudentInsights): string {
-  // Rendering is intentionally deterministic so the stored “email output” is consistent across runs.
+export const GUARDIAN_INSIGHTS_PROMPT = {
+  system:
+    "You are an educational coach writing a short note to a student's parent or guardian. Use plain, warm, jargon-free language and write in the requested language. Describe progress without raw scores, grades, risk labels, or quotes from teacher notes, and never mention other students. Return ONLY valid JSON with fields: summary (string), highlights (array of 1-3 strings), homeSupport (array of 1-3 concrete, low-effort ways to help at home), closing (string inviting the family to contact the teacher with questions).",
+  human:
+    "Language: {language}\n\nStudent analysis JSON:\n{analysisJson}\n\nStudent memory JSON:\n{memoryJson}\n\nTeacher preferences JSON:\n{teacherRulesJson}\n\nReturn ONLY the JSON object.",
+};
+
+/**
+ * The analysis as sent to the model: guardian contacts are other people's personal data and never prompt input.
+ */
+export function analysisForPrompt(analysis: StudentAnalysis): StudentAnalysis {
+  const { guardians: _guardians, ...student } = analysis.student;
+  return { ...analysis, student };
+}
+
+/**
+ * Parse and validate guardian note JSON returned by the LLM.
+ */
+export function parseGuardianInsights(raw: string): ValidationResult<GuardianInsights> {
+  const jsonCandidate = extractJsonObject(raw);
+  if (!jsonCandidate) {
+    return { ok: false, errors: ["No JSON object found in response"] };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonCandidate);
+  } catch {
+    return { ok: false, errors: ["Invalid JSON in response"] };
+  }
+
+  if (typeof parsed !== "object" || parsed === null) {
+    return { ok: false, errors: ["Response JSON must be an object"] };
+  }
+
+  const record = parsed as Record<string, unknown>;
+  const summary = safeString(record.summary, 240);
+  const closing = safeString(record.closing, 200);
+  const highlightsResult = normalizeStringArray(record.highlights, 1, 3, "highlights");
+  const homeSupportResult = normalizeStringArray(record.homeSupport, 1, 3, "homeSupport");
+
+  const errors: string[] = [];
+  if (!summary) errors.push("summary must be a non-empty string");
+  if (!closing) errors.push("closing must be a non-empty string");
+  if (!highlightsResult.ok) errors.push(...highlightsResult.errors);
+  if (!homeSupportResult.ok) errors.push(...homeSupportResult.errors);
+
+  if (errors.length > 0 || !highlightsResult.ok || !homeSupportResult.ok) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    value: {
+      summary: summary as string,
+      highlights: highlightsResult.value,
+      homeSupport: homeSupportResult.value,
+      closing: closing as string,
+    },
+  };
+}
+
+/**
+ * Structured student message: the single source for both the plain-text message and the HTML email body.
+ */
+export function studentMessageBlocks(insights: StudentInsights, locale?: string): MessageBlock[] {
+  const { student } = messageCatalog(locale);
   return [
-    insights.positiveObservation,
-    "",
-    "Strengths:",
-    ...insights.strengths.map((item) => `- ${item}`),
-    "",
-    "Focus areas:",
-    ...insights.improvementAreas.map((item) => `- ${item}`),
-    "",
-    "Try this:",
-    ...insights.strategies.map((item) => `- ${item}`),
-    "",
-    `Next step goal: ${insights.nextStepGoal}`,
-    "",
-    insights.encouragement,
-  ].join("\n");
+    { kind: "paragraph", text: insights.positiveObservation },
+    { kind: "list", heading: student.strengths, items: insights.strengths },
+    { kind: "list", heading: student.focusAreas, items: insights.improvementAreas },
+    { kind: "list", heading: student.tryThis, items: insights.strategies },
+    { kind: "paragraph", text: student.nextStepGoal(insights.nextStepGoal) },
+    { kind: "paragraph", text: insights.encouragement },
+  ];
 }
 
 /**
- * Render structured teacher insights into a plain-text summary.
+ * Structured teacher summary (see `studentMessageBlocks`).
  */
-export function renderTeacherMessage(insights: TeacherInsights): string {
+export function teacherMessageBlocks(insights: TeacherInsights, locale?: string): MessageBlock[] {
+  const { teacher } = messageCatalog(locale);
   // Provide an explicit “none” row so the teacher message still reads well without special-casing in templates.
-  const attentionLines = insights.attentionNeeded.length > 0
-    ? insights.attentionNeeded.map((item) => `- ${item.name}: ${item.reason}`)
-    : ["- No students flagged for immediate attention."];
+  const attention = insights.attentionNeeded.length > 0
+    ? insights.attentionNeeded.map((item) => `${item.name}: ${item.reason}`)
+    : [teacher.noAttention];
+
+  return [
+    { kind: "paragraph", text: insights.classOverview },
+    { kind: "list", heading: teacher.strengths, items: insights.strengths },
+    { kind: "list", heading: teacher.attentionNeeded, items: attention },
+    { kind: "list", heading: teacher.nextSteps, items: insights.nextSteps },
+  ];
+}
 
+/**
+ * Structured guardian note (see `studentMessageBlocks`).
+ */
+export function guardianMessageBlocks(insights: GuardianInsights, locale?: string): MessageBlock[] {
+  const { guardian } = messageCatalog(locale);
   return [
-    insights.classOverview,
-    "",
-    "Class strengths:",
-    ...insights.strengths.map((item) => `- ${item}`),
-    "",
-    "Students needing attention:",
-    ...attentionLines,
-    "",
-    "Next steps (next week):",
-    ...insights.nextSteps.map((item) => `- ${item}`),
-  ].join("\n");
+    { kind: "paragraph", text: insights.summary },
+    { kind: "list", heading: guardian.highlights, items: insights.highlights },
+    { kind: "list", heading: guardian.homeSupport, items: insights.homeSupport },
+    { kind: "paragraph", text: insights.closing },
+  ];
+}
+
+/**
+ * Plain-text form of message blocks: blank lines between blocks, lists as `- item` lines under their heading.
+ */
+export function renderMessageText(blocks: MessageBlock[]): string {
+  return blocks
+    .map((block) =>
+      block.kind === "paragraph" ? block.text : [block.heading, ...block.items.map((item) => `- ${item}`)].join("\n")
+    )
+    .join("\n\n");
+}
+
+/**
+ * Render structured student insights into a plain-text message.
+ */
+export function renderStudentMessage(insights: StudentInsights, locale?: string): string {
+  // Rendering is intentionally deterministic so the stored “email output” is consistent across runs.
+  return renderMessageText(studentMessageBlocks(insights, locale));
+}
+
+/**
+ * Render structured teacher insights into a plain-text summary.
+ */
+export function renderTeacherMessage(insights: TeacherInsights, locale?: string): string {
+  return renderMessageText(teacherMessageBlocks(insights, locale));
+}
+
+/**
+ * Render a guardian note into plain text.
+ */
+export function renderGuardianMessage(insights: GuardianInsights, locale?: string): string {
+  return renderMessageText(guardianMessageBlocks(insights, locale));
 }
 
 /**
@@ -248,29 +466,31 @@ export function renderTeacherMessage(insights: TeacherInsights): string {
 export function buildFallbackStudentInsights(
   analysis: StudentAnalysis,
   preferences?: TeacherPreferences,
+  locale?: string,
 ): StudentInsights {
+  const catalog = messageCatalog(locale);
+  const text = catalog.studentFallback;
+  const localize = (phrase: string) => localizeAnalysisPhrase(phrase, catalog);
   // Fallback logic is deliberately simple: derive actionable coaching based on deterministic signals.
-  const strengths = analysis.strengths.length > 0
-    ? analysis.strengths
-    : ["You're making steady progress across your classes."];
+  const strengths = analysis.strengths.length > 0 ? analysis.strengths.map(localize) : [text.steadyProgress];
   const improvementAreas = analysis.improvementAreas.length > 0
-    ? analysis.improvementAreas.slice(0, 2)
-    : ["Keep building consistency with assignments and review routines."];
+    ? analysis.improvementAreas.slice(0, 2).map(localize)
+    : [text.buildConsistency];
 
   const strategies: string[] = [];
   // Strategy selection is “if signal, add a tactic”. This keeps fallbacks explainable and stable.
   if (analysis.metrics.assignmentCompletionRate < 85) {
-    strategies.push("Use a checklist and finish assignments 24 hours before the deadline.");
+    strategies.push(text.useChecklist);
   }
   if (analysis.metrics.participationScore <= 6) {
-    strategies.push("Prepare one question or comment before class and share it.");
+    strategies.push(text.prepareQuestion);
   }
   if (analysis.metrics.averageScore < 75) {
-    strategies.push("Set a 20-minute daily review block and summarize notes in your own words.");
+    strategies.push(text.dailyReview);
   }
   if (analysis.metrics.lowestSubjects.length > 0) {
     const subjects = analysis.metrics.lowestSubjects.map((grade) => grade.subject).join(", ");
-    strategies.push(`Spend extra practice time on ${subjects} with short, focused sessions.`);
+    strategies.push(text.practiceSubjects(subjects));
   }
 
   // Teacher preferences can “nudge” fallbacks toward classroom-aligned routines.
@@ -281,12 +501,11 @@ export function buildFallbackStudentInsights(
 
   // Ensure we always provide at least two strategies, even if none of the signals triggered.
   while (strategies.length < 2) {
-    strategies.push("Ask for quick feedback from your teacher on one recent assignment.");
+    strategies.push(text.askForFeedback);
   }
 
   // Prefer a teacher-provided class goal as the next-step goal when available (keeps messaging consistent).
-  const goal = preferences?.classGoals?.[0]?.trim() ||
-    "Choose one focus area and practice it three times this week.";
+  const goal = preferences?.classGoals?.[0]?.trim() || text.defaultGoal;
 
   return {
     positiveObservation: strengths[0],
@@ -294,7 +513,53 @@ export function buildFallbackStudentInsights(
     improvementAreas,
     strategies: strategies.slice(0, 3),
     nextStepGoal: goal,
-    encouragement: "Small steps add up—keep going, and reach out if you need support.",
+    encouragement: text.encouragement,
+  };
+}
+
+/**
+ * Generate a deterministic fallback guardian note from the same signals as the student fallback.
+ */
+export function buildFallbackGuardianInsights(
+  analysis: StudentAnalysis,
+  preferences?: TeacherPreferences,
+  locale?: string,
+): GuardianInsights {
+  const catalog = messageCatalog(locale);
+  const text = catalog.guardianFallback;
+  const name = analysis.student.name;
+  // Trend wording stays general on purpose: families get direction, not scores or risk labels.
+  const summary = analysis.trend === "improving"
+    ? text.improving(name)
+    : analysis.trend === "declining"
+    ? text.declining(name)
+    : text.stable(name);
+  const highlights = analysis.strengths.length > 0
+    ? analysis.strengths.slice(0, 3).map((phrase) => localizeAnalysisPhrase(phrase, catalog))
+    : [text.steadyProgress(name)];
+
+  const homeSupport: string[] = [];
+  if (analysis.metrics.assignmentCompletionRate < 85) {
+    homeSupport.push(text.checkAssignments);
+  }
+  if (analysis.metrics.lowestSubjects.length > 0) {
+    const subjects = analysis.metrics.lowestSubjects.map((grade) => grade.subject).join(", ");
+    homeSupport.push(text.explainSubjects(name, subjects));
+  }
+  // A teacher class goal gives families the same target the classroom is working toward.
+  const goal = preferences?.classGoals?.[0]?.trim();
+  if (goal && homeSupport.length < 3) {
+    homeSupport.push(text.classGoal(goal));
+  }
+  if (homeSupport.length === 0) {
+    homeSupport.push(text.regularRoutine);
+  }
+
+  return {
+    summary,
+    highlights,
+    homeSupport: homeSupport.slice(0, 3),
+    closing: text.closing,
   };
 }
 
@@ -304,16 +569,20 @@ export function buildFallbackStudentInsights(
 export function buildFallbackTeacherInsights(
   summary: TeacherSummary,
   preferences?: TeacherPreferences,
+  locale?: string,
 ): TeacherInsights {
+  const text = messageCatalog(locale).teacherFallback;
   // Teacher fallbacks emphasize actionable classroom steps over individual student details.
   const strengths = summary.topStudents.length > 0
-    ? [`Top performers this cycle: ${summary.topStudents.join(", ")}.`]
-    : ["Several students are maintaining steady performance."];
-
-  // Provide a generic reason in fallback mode; the deterministic analyzer does not produce per-student “reasons”.
-  const attentionNeeded = summary.attentionNeeded.map((name) => ({
-    name,
-    reason: "Flagged for additional check-ins based on recent trends.",
+    ? [text.topPerformers(summary.topStudents.join(", "))]
+    : [text.steadyPerformance];
+
+  // Reasons come from the analyzer's risk factors, in the reader's language; the top two keep each line short.
+  const attentionNeeded = summary.attentionNeeded.map((entry) => ({
+    name: entry.name,
+    reason: entry.riskFactors.length > 0
+      ? `${entry.riskFactors.slice(0, 2).map((factor) => text.riskReason(factor)).join("; ")}.`
+      : text.flaggedForCheckIns,
   }));
 
   const nextSteps: string[] = [];
@@ -323,12 +592,12 @@ export function buildFallbackTeacherInsights(
     if (nextSteps.length < 2) nextSteps.push(item);
   });
   if (nextSteps.length < 2) {
-    nextSteps.push("Plan one small-group session for students needing support.");
-    nextSteps.push("Highlight one success story to reinforce growth mindset.");
+    nextSteps.push(text.smallGroupSession);
+    nextSteps.push(text.successStory);
   }
 
   return {
-    classOverview: `Class average is ${summary.classAverage.toFixed(1)}. Overall trends are stable with a few students needing additional attention.`,
+    classOverview: text.classOverview(summary.classAverage),
     strengths,
     attentionNeeded,
     nextSteps: nextSteps.slice(0, 4),
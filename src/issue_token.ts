@@ -0,0 +1,55 @@
+import { load } from "@std/dotenv";
+import { readAuthUsers, signSessionToken } from "./auth.ts";
+
+/**
+ * CLI: issue a session token for a user in the users file.
+ *
+ * Usage: `deno task token <userId> [ttlHours]`
+ *
+ * Why a CLI instead of a login endpoint:
+ * - There is no password store or identity provider; whoever can read `AUTH_SECRET` already
+ *   administers the server, so issuing tokens is an operator task.
+ * - The user must exist in the users file, so a typo can't mint a token nobody can use.
+ */
+async function main() {
+  try {
+    await load({ export: true, allowEmptyValues: true });
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) {
+      throw error;
+    }
+  }
+
+  const [userId, ttlArg] = Deno.args;
+  if (!userId) {
+    console.error("Usage: deno task token <userId> [ttlHours]");
+    Deno.exit(1);
+  }
+
+  const secret = Deno.env.get("AUTH_SECRET");
+  if (!secret) {
+    throw new Error("Missing required environment variable: AUTH_SECRET");
+  }
+  const usersPath = Deno.env.get("AUTH_USERS_PATH") ?? "users.json";
+  const ttlHours = Number(ttlArg ?? Deno.env.get("AUTH_TOKEN_TTL_HOURS") ?? 12);
+  if (!Number.isFinite(ttlHours) || ttlHours <= 0) {
+    throw new Error("Token TTL must be a positive number of hours");
+  }
+
+  const { users, errors } = await readAuthUsers(usersPath);
+  errors.forEach((error) => console.error(`Users file: ${error}`));
+  const user = users.find((entry) => entry.id === userId);
+  if (!user) {
+    console.error(`Unknown user "${userId}" in ${usersPath}`);
+    Deno.exit(1);
+  }
+
+  console.log(await signSessionToken(user, secret, ttlHours * 3600));
+}
+
+if (import.meta.main) {
+  main().catch((error) => {
+    console.error("Failed to issue token", error);
+    Deno.exit(1);
+  });
+}
@@ -0,0 +1,120 @@
+import type { Logger } from "./logger.ts";
+import type { RunOptions, RunResult } from "./run_with_tool.ts";
+
+/**
+ * In-process queue for analysis runs triggered through the API.
+ *
+ * Why a queue (instead of a simple “running” flag):
+ * - A full class run can take minutes, so HTTP callers get a runId immediately and poll for progress.
+ * - Overlapping requests are accepted and processed one after another instead of being rejected,
+ *   which keeps shared artifacts (memory files, email output) from being written by two runs at once.
+ *
+ * What this queue is (and isn’t):
+ * - It lives in memory and is scoped to one server process; durable progress lives in `HistoryStore`.
+ * - Finished jobs are kept for a bounded window so polling clients can read the final state
+ *   (including dry-run previews, which are never written to SQLite).
+ */
+export type JobStatus = "queued" | "running" | "completed" | "failed";
+
+export interface AnalysisJob {
+  runId: string;
+  status: JobStatus;
+  options: RunOptions;
+  queuedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  // Set when the job finished: the pipeline result (status + optional dry-run preview).
+  result?: RunResult;
+  // Set when the runner threw; the run is reported as failed.
+  error?: string;
+}
+
+export type JobRunner = (runId: string, options: RunOptions) => Promise<RunResult>;
+
+export class AnalysisJobQueue {
+  #jobs = new Map<string, AnalysisJob>();
+  #pending: string[] = [];
+  #active = false;
+  #runner: JobRunner;
+  #logger: Logger;
+  #retainLimit: number;
+
+  constructor(runner: JobRunner, logger: Logger, retainLimit = 100) {
+    this.#runner = runner;
+    this.#logger = logger;
+    this.#retainLimit = retainLimit;
+  }
+
+  /**
+   * Queue a run and return its job record right away; processing starts on the next tick.
+   */
+  enqueue(options: RunOptions): AnalysisJob {
+    const job: AnalysisJob = {
+      runId: crypto.randomUUID(),
+      status: "queued",
+      options,
+      queuedAt: new Date().toISOString(),
+    };
+    this.#jobs.set(job.runId, job);
+    this.#pending.push(job.runId);
+    this.#logger.info("Analysis job queued", {
+      runId: job.runId,
+      position: this.#pending.length,
+    });
+    // Drain asynchronously so the caller can respond before the pipeline starts.
+    queueMicrotask(() => this.#drain());
+    return job;
+  }
+
+  get(runId: string): AnalysisJob | undefined {
+    return this.#jobs.get(runId);
+  }
+
+  // Number of jobs waiting behind the active one.
+  get pendingCount(): number {
+    return this.#pending.length;
+  }
+
+  async #drain() {
+    // Only one drain loop runs at a time; later enqueues are picked up by the active loop.
+    if (this.#active) return;
+    this.#active = true;
+    try {
+      while (this.#pending.length > 0) {
+        const runId = this.#pending.shift() as string;
+        const job = this.#jobs.get(runId);
+        if (!job) continue;
+        await this.#process(job);
+        this.#prune();
+      }
+    } finally {
+      this.#active = false;
+    }
+  }
+
+  async #process(job: AnalysisJob) {
+    job.status = "running";
+    job.startedAt = new Date().toISOString();
+    try {
+      job.result = await this.#runner(job.runId, job.options);
+      job.status = "completed";
+    } catch (error) {
+      job.status = "failed";
+      job.error = error instanceof Error ? error.message : String(error);
+      this.#logger.error("Analysis job failed", { runId: job.runId, error: job.error });
+    } finally {
+      job.finishedAt = new Date().toISOString();
+    }
+  }
+
+  #prune() {
+    // Drop the oldest finished jobs once the retention window is exceeded (Map preserves insertion order).
+    const finished = [...this.#jobs.values()].filter((job) =>
+      job.status === "completed" || job.status === "failed"
+    );
+    const excess = finished.length - this.#retainLimit;
+    for (let index = 0; index < excess; index += 1) {
+      this.#jobs.delete(finished[index].runId);
+    }
+  }
+}
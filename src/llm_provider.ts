@@ -0,0 +1,1043 @@
+import { ChatOpenAI } from "@langchain/openai";
+import type { BaseMessage } from "@langchain/core/messages";
+import type { AppConfig, InsightFallbackReason, LlmConfig, LlmProviderName } from "./types.ts";
+import type { Logger } from "./logger.ts";
+import { retryDelayMs } from "./retry.ts";
+
+/**
+ * Provider-agnostic access to chat models.
+ *
+ * Why one interface:
+ * - The batch agents and the chat agent only need "send these messages, get text (and token usage) back",
+ *   either whole or streamed. Everything provider-specific (auth headers, request shape, streaming format,
+ *   where usage is reported) lives in one adapter per API instead of in each agent.
+ * - Prompts stay LangChain `ChatPromptTemplate`s; agents format them and hand the messages to a provider.
+ *
+ * Adapters:
+ * - "openai": OpenAI and OpenAI-compatible APIs through LangChain's `ChatOpenAI` (`OPENAI_BASE_URL` for proxies).
+ * - "anthropic": the Anthropic Messages API (`/v1/messages`), streamed as Server-Sent Events.
+ * - "ollama": a local Ollama-style server (`/api/chat`), streamed as newline-delimited JSON.
+ * - "mock": replays canned responses from a script, so the pipeline and chat run offline and deterministically
+ *   (tests, demos, CI). See `MockLlmScript`.
+ *
+ * Adapters throw `LlmError` with the HTTP status when one is known, so callers can tell a rate limit or outage
+ * from a rejected request. `createLlmProvider` wraps the adapter so every whole-response call has a timeout and
+ * retries rate limits, server errors, and timeouts with exponential backoff (`withRetryPolicy`). Streams are not
+ * retried: their deltas have already reached the reader.
+ *
+ * Structured output: a request with a `responseFormat` asks for one JSON object matching a schema, using each
+ * API's native mechanism (OpenAI `json_schema` response format, an Anthropic tool the model must call, Ollama's
+ * `format`). `completeStructured` validates the result and re-asks once with the validation errors.
+ *
+ * Batch runs add a `CircuitBreaker`: after enough consecutive failed calls, the rest of the run stops calling
+ * the model and falls back straight away instead of waiting out every student's timeouts and retries.
+ *
+ * With `LLM_REQUESTS_PER_MINUTE` / `LLM_TOKENS_PER_MINUTE` set, every attempt (retries included) also waits for
+ * room under those limits (`RateLimiter`), which keeps parallel student processing from tripping the provider's
+ * own rate limits.
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface LlmMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+/**
+ * The JSON Schema subset used for structured output; every adapter's native mechanism accepts it as is.
+ */
+export type JsonSchema =
+  | { type: "string"; description?: string }
+  | { type: "array"; items: JsonSchema; minItems?: number; maxItems?: number; description?: string }
+  | JsonObjectSchema;
+
+export interface JsonObjectSchema {
+  type: "object";
+  properties: Record<string, JsonSchema>;
+  required: string[];
+  additionalProperties: false;
+  description?: string;
+}
+
+export interface LlmResponseFormat {
+  // Schema (OpenAI) or tool (Anthropic) name: letters, digits, underscores.
+  name: string;
+  description: string;
+  schema: JsonObjectSchema;
+}
+
+export interface LlmRequest {
+  messages: LlmMessage[];
+  temperature: number;
+  // Ask for one JSON object matching this schema; the response `content` is then that object's JSON text.
+  responseFormat?: LlmResponseFormat;
+  // Cancels the HTTP request (set by the timeout in `withRetryPolicy`).
+  signal?: AbortSignal;
+}
+
+export interface LlmResponse {
+  content: string;
+  usage?: TokenUsage;
+}
+
+// Streaming output: text deltas in order, then one closing chunk with the complete response.
+export type LlmStreamChunk =
+  | { type: "delta"; text: string }
+  | { type: "done"; response: LlmResponse };
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  readonly model: string;
+  complete(request: LlmRequest): Promise<LlmResponse>;
+  stream(request: LlmRequest): AsyncGenerator<LlmStreamChunk>;
+}
+
+type ValidationResult<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+// A validated structured result; `repaired` means it only passed after the re-ask. A failure says why, so the
+// pipeline can record the reason with the fallback it uses instead.
+export type StructuredResult<T> =
+  | { ok: true; value: T; repaired: boolean }
+  | { ok: false; errors: string[]; reason: InsightFallbackReason };
+
+export class LlmError extends Error {
+  // HTTP status from the provider, or 0 when the failure happened below HTTP (network, bad stream, script).
+  readonly status: number;
+
+  constructor(message: string, status = 0) {
+    super(message);
+    this.name = "LlmError";
+    this.status = status;
+  }
+}
+
+// A call that got no response within the configured timeout; retried like a server error.
+export class LlmTimeoutError extends LlmError {
+  constructor(timeoutMs: number) {
+    super(`Model call timed out after ${timeoutMs} ms`);
+    this.name = "LlmTimeoutError";
+  }
+}
+
+const ANTHROPIC_DEFAULT_BASE_URL = "https://api.anthropic.com";
+const ANTHROPIC_DEFAULT_MODEL = "claude-3-5-sonnet-latest";
+const ANTHROPIC_VERSION = "2023-06-01";
+// Output cap sent with every request (the Anthropic Messages API requires one); insights and chat replies stay
+// well under it. Rate limiting counts it toward a call's tokens until the reply reports the real count.
+const MAX_OUTPUT_TOKENS = 2048;
+const OLLAMA_DEFAULT_BASE_URL = "http://127.0.0.1:11434";
+const OLLAMA_DEFAULT_MODEL = "llama3.1";
+// Call policy defaults (`LLM_TIMEOUT_MS`, `LLM_MAX_ATTEMPTS`, `LLM_RETRY_BASE_MS`, `LLM_CIRCUIT_BREAKER_THRESHOLD`).
+const DEFAULT_TIMEOUT_MS = 60_000;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_RETRY_BASE_MS = 1000;
+const DEFAULT_CIRCUIT_BREAKER_THRESHOLD = 3;
+
+/**
+ * Read the provider settings from the environment (shared by every entry point's `loadConfig`).
+ */
+export function loadLlmConfig(): LlmConfig {
+  const provider = (Deno.env.get("LLM_PROVIDER") || "openai").toLowerCase();
+  // A missing key should stop startup, not fail every model call of every run.
+  const requireEnv = (key: string) => {
+    const value = Deno.env.get(key);
+    if (!value) {
+      throw new Error(`${key} is required when LLM_PROVIDER=${provider}`);
+    }
+    return value;
+  };
+  // Settings every provider shares: output mode and call policy.
+  const common = {
+    structuredOutput: (Deno.env.get("LLM_STRUCTURED_OUTPUT") ?? "true").toLowerCase() !== "false",
+    timeoutMs: parsePositiveInteger(Deno.env.get("LLM_TIMEOUT_MS"), DEFAULT_TIMEOUT_MS),
+    maxAttempts: parsePositiveInteger(Deno.env.get("LLM_MAX_ATTEMPTS"), DEFAULT_MAX_ATTEMPTS),
+    retryBaseMs: parsePositiveInteger(Deno.env.get("LLM_RETRY_BASE_MS"), DEFAULT_RETRY_BASE_MS),
+    circuitBreakerThreshold: parsePositiveInteger(
+      Deno.env.get("LLM_CIRCUIT_BREAKER_THRESHOLD"),
+      DEFAULT_CIRCUIT_BREAKER_THRESHOLD,
+    ),
+    requestsPerMinute: parsePositiveInteger(Deno.env.get("LLM_REQUESTS_PER_MINUTE"), undefined),
+    tokensPerMinute: parsePositiveInteger(Deno.env.get("LLM_TOKENS_PER_MINUTE"), undefined),
+  };
+  switch (provider) {
+    case "openai":
+      return {
+        provider,
+        model: Deno.env.get("OPENAI_MODEL") || "gpt-4",
+        apiKey: requireEnv("OPENAI_API_KEY"),
+        baseUrl: Deno.env.get("OPENAI_BASE_URL") || undefined,
+        ...common,
+      };
+    case "anthropic":
+      return {
+        provider,
+        model: Deno.env.get("ANTHROPIC_MODEL") || ANTHROPIC_DEFAULT_MODEL,
+        apiKey: requireEnv("ANTHROPIC_API_KEY"),
+        baseUrl: Deno.env.get("ANTHROPIC_BASE_URL") || undefined,
+        ...common,
+      };
+    case "ollama":
+      return {
+        provider,
+        model: Deno.env.get("OLLAMA_MODEL") || OLLAMA_DEFAULT_MODEL,
+        baseUrl: Deno.env.get("OLLAMA_BASE_URL") || undefined,
+        ...common,
+      };
+    case "mock":
+      return { provider, model: "mock", mockScriptPath: requireEnv("LLM_MOCK_SCRIPT"), ...common };
+    default:
+      throw new Error(`LLM_PROVIDER must be "openai", "anthropic", "ollama", or "mock" (got "${provider}")`);
+  }
+}
+
+function parsePositiveInteger<T extends number | undefined>(value: string | undefined, fallback: T): number | T {
+  if (!value) return fallback;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Build the provider selected by config, with the configured timeout and retry policy, and the rate limits when
+ * any are set. The limits belong to the API account, not to one run: every provider for the same account shares
+ * one `RateLimiter` (see `sharedRateLimiter`), so overlapping class runs and chat turns draw on the same budget.
+ */
+export function createLlmProvider(config: AppConfig, logger: Logger): LlmProvider {
+  const llm = config.llm;
+  logger.debug("Creating LLM provider", { provider: llm.provider, model: llm.model });
+  const limited = llm.requestsPerMinute !== undefined || llm.tokensPerMinute !== undefined;
+  return withRetryPolicy(createAdapter(llm), llm, logger, limited ? sharedRateLimiter(llm) : undefined);
+}
+
+// Process-wide limiters, one per account and limit pair. Agents build a provider per run (and chat has its own),
+// so a limiter created with each provider would give every run the whole budget.
+const rateLimiters = new Map<string, RateLimiter>();
+
+/**
+ * The limiter shared by every provider for this account (provider, endpoint, and key) and these limits.
+ */
+export function sharedRateLimiter(llm: LlmConfig): RateLimiter {
+  const key = JSON.stringify([llm.provider, llm.baseUrl, llm.apiKey, llm.requestsPerMinute, llm.tokensPerMinute]);
+  let limiter = rateLimiters.get(key);
+  if (!limiter) {
+    limiter = new RateLimiter(llm);
+    rateLimiters.set(key, limiter);
+  }
+  return limiter;
+}
+
+function createAdapter(llm: LlmConfig): LlmProvider {
+  switch (llm.provider) {
+    case "anthropic":
+      return createAnthropicProvider(llm);
+    case "ollama":
+      return createOllamaProvider(llm);
+    case "mock":
+      if (!llm.mockScriptPath) {
+        throw new Error("Mock LLM provider selected without a script path");
+      }
+      return createMockLlmProvider(loadMockScript(llm.mockScriptPath));
+    default:
+      return createOpenAiProvider(llm);
+  }
+}
+
+/**
+ * Rate limits, server errors, and timeouts are usually over by the next attempt; anything else (a bad key, a
+ * rejected request, a network failure) will fail the same way again.
+ */
+export function isRetryableLlmError(error: unknown): boolean {
+  return error instanceof LlmTimeoutError ||
+    (error instanceof LlmError && (error.status === 429 || error.status >= 500));
+}
+
+/**
+ * Give each `complete` call a timeout and retry retryable failures, waiting `retryBaseMs`, then twice that, and so
+ * on (the same capped backoff as email delivery). The last error is thrown once attempts run out.
+ *
+ * With a `limiter`, every attempt waits for room under the rate limits first: a retry after a 429 or 5xx is
+ * another request to the provider and counts as one. The wait happens before the attempt's timeout starts.
+ * Streams wait once, since they are not retried.
+ */
+export function withRetryPolicy(
+  provider: LlmProvider,
+  policy: Pick<LlmConfig, "timeoutMs" | "maxAttempts" | "retryBaseMs">,
+  logger: Logger,
+  limiter?: RateLimiter,
+): LlmProvider {
+  const timeoutMs = policy.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxAttempts = policy.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const retryBaseMs = policy.retryBaseMs ?? DEFAULT_RETRY_BASE_MS;
+
+  return {
+    name: provider.name,
+    model: provider.model,
+    async complete(request) {
+      for (let attempt = 1;; attempt += 1) {
+        const settle = await limiter?.acquire(estimateTokens(request));
+        try {
+          const response = await withTimeout(timeoutMs, (signal) => provider.complete({ ...request, signal }));
+          if (settle && response.usage) settle(response.usage.totalTokens);
+          return response;
+        } catch (error) {
+          if (attempt >= maxAttempts || !isRetryableLlmError(error)) throw error;
+          const delayMs = retryDelayMs(attempt, retryBaseMs);
+          logger.warn("Model call failed; retrying", {
+            provider: provider.name,
+            attempt,
+            delayMs,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          await new Promise((resolve) => setTimeout(resolve, delayMs));
+        }
+      }
+    },
+    async *stream(request) {
+      const settle = await limiter?.acquire(estimateTokens(request));
+      for await (const chunk of provider.stream(request)) {
+        if (settle && chunk.type === "done" && chunk.response.usage) settle(chunk.response.usage.totalTokens);
+        yield chunk;
+      }
+    },
+  };
+}
+
+// Race the call against a timer, and abort the request when the timer wins so the connection is not left open.
+// The race covers adapters that ignore the signal.
+async function withTimeout<T>(timeoutMs: number, run: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => {
+      const error = new LlmTimeoutError(timeoutMs);
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+  try {
+    return await Promise.race([run(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Sliding one-minute window over the calls made through one provider. `acquire` waits until one more request,
+ * and its estimated tokens, fit under the limits, then counts the call; the returned function replaces the
+ * estimate with the real usage once the reply says how many tokens it took.
+ *
+ * A single call larger than the token limit still goes out once the window is empty, rather than never.
+ */
+export class RateLimiter {
+  #requestsPerMinute: number | undefined;
+  #tokensPerMinute: number | undefined;
+  #windowMs: number;
+  #calls: { at: number; tokens: number }[] = [];
+
+  constructor(limits: Pick<LlmConfig, "requestsPerMinute" | "tokensPerMinute">, windowMs = 60_000) {
+    this.#requestsPerMinute = limits.requestsPerMinute;
+    this.#tokensPerMinute = limits.tokensPerMinute;
+    this.#windowMs = windowMs;
+  }
+
+  async acquire(estimatedTokens: number): Promise<(tokens: number) => void> {
+    for (;;) {
+      const now = Date.now();
+      this.#calls = this.#calls.filter((call) => now - call.at < this.#windowMs);
+      const waitMs = this.#waitMs(now, estimatedTokens);
+      if (waitMs === 0) {
+        // Counted before the call starts, so calls waiting at the same time cannot all take the same room.
+        const call = { at: now, tokens: estimatedTokens };
+        this.#calls.push(call);
+        return (tokens) => {
+          call.tokens = tokens;
+        };
+      }
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+    }
+  }
+
+  // How long until enough of the oldest calls leave the window; 0 when the call fits now.
+  #waitMs(now: number, tokens: number): number {
+    let expire = 0;
+    if (this.#requestsPerMinute !== undefined && this.#calls.length >= this.#requestsPerMinute) {
+      expire = this.#calls.length - this.#requestsPerMinute + 1;
+    }
+    if (this.#tokensPerMinute !== undefined) {
+      let used = this.#calls.reduce((sum, call) => sum + call.tokens, 0);
+      let dropped = 0;
+      while (dropped < this.#calls.length && used + tokens > this.#tokensPerMinute) {
+        used -= this.#calls[dropped].tokens;
+        dropped += 1;
+      }
+      expire = Math.max(expire, dropped);
+    }
+    return expire === 0 ? 0 : Math.max(1, this.#calls[expire - 1].at + this.#windowMs - now);
+  }
+}
+
+// The prompt (roughly four characters per token for English prose) plus the longest reply the request allows,
+// since the token limit covers both; only used until the reply reports the real count.
+export function estimateTokens(request: LlmRequest): number {
+  const characters = request.messages.reduce((sum, message) => sum + message.content.length, 0);
+  return Math.ceil(characters / 4) + MAX_OUTPUT_TOKENS;
+}
+
+/**
+ * Counts consecutive failed model calls and opens after `threshold` of them; once open, it stays open. A batch
+ * agent holds one per run, so the next run tries the model again.
+ *
+ * Invalid output is not a failure here: the model answered, and the re-ask and fallback handle it.
+ */
+export class CircuitBreaker {
+  #threshold: number;
+  #logger: Logger;
+  #consecutiveFailures = 0;
+  #open = false;
+
+  constructor(threshold: number | undefined, logger: Logger) {
+    this.#threshold = threshold ?? DEFAULT_CIRCUIT_BREAKER_THRESHOLD;
+    this.#logger = logger;
+  }
+
+  get open(): boolean {
+    return this.#open;
+  }
+
+  recordSuccess() {
+    this.#consecutiveFailures = 0;
+  }
+
+  recordFailure() {
+    this.#consecutiveFailures += 1;
+    if (!this.#open && this.#consecutiveFailures >= this.#threshold) {
+      this.#open = true;
+      this.#logger.warn("Model failed repeatedly; using fallbacks for the rest of the run", {
+        consecutiveFailures: this.#consecutiveFailures,
+      });
+    }
+  }
+}
+
+/**
+ * Request a structured result and validate it with `parse`. Invalid output gets one re-ask: the conversation
+ * continues with the model's reply and the validation errors, which fixes most near-misses (a missing field, an
+ * array one item short) for the cost of one more call.
+ *
+ * Never throws: a failed call (after the provider's retries) comes back as `model_error`, and with an open
+ * `breaker` the model is not called at all (`circuit_open`). Either way the caller falls back.
+ *
+ * A model that rejects the schema itself (HTTP 400, e.g. an OpenAI model without `json_schema` support) is asked
+ * again without it; when that works, the provider gets prompt-only requests from then on.
+ */
+export async function completeStructured<T>(
+  provider: LlmProvider,
+  request: LlmRequest,
+  parse: (raw: string) => ValidationResult<T>,
+  breaker?: CircuitBreaker,
+): Promise<StructuredResult<T>> {
+  if (breaker?.open) {
+    return { ok: false, reason: "circuit_open", errors: ["Model calls stopped for this run after repeated failures"] };
+  }
+  let first: LlmResponse;
+  try {
+    ({ request, response: first } = await completeWithSchemaFallback(provider, request));
+  } catch (error) {
+    breaker?.recordFailure();
+    return { ok: false, reason: "model_error", errors: [error instanceof Error ? error.message : String(error)] };
+  }
+  breaker?.recordSuccess();
+  const parsed = parse(first.content);
+  if (parsed.ok) {
+    return { ok: true, value: parsed.value, repaired: false };
+  }
+
+  const retry: LlmRequest = {
+    ...request,
+    messages: [
+      ...request.messages,
+      // Some APIs reject empty turns, and an empty reply is itself worth pointing out.
+      { role: "assistant", content: first.content.trim() || "(empty reply)" },
+      { role: "user", content: repairInstruction(parsed.errors) },
+    ],
+  };
+  let second: LlmResponse;
+  try {
+    second = await provider.complete(retry);
+  } catch (error) {
+    breaker?.recordFailure();
+    return {
+      ok: false,
+      reason: "model_error",
+      errors: [...parsed.errors, `Re-ask failed: ${error instanceof Error ? error.message : String(error)}`],
+    };
+  }
+  breaker?.recordSuccess();
+  const reparsed = parse(second.content);
+  return reparsed.ok
+    ? { ok: true, value: reparsed.value, repaired: true }
+    : { ok: false, reason: "invalid_output", errors: reparsed.errors };
+}
+
+// Providers whose model answered prompt-only after rejecting a schema request (see `completeStructured`).
+const promptOnlyProviders = new WeakSet<LlmProvider>();
+
+// Returns the request that was answered, so a re-ask continues without the schema too.
+async function completeWithSchemaFallback(provider: LlmProvider, request: LlmRequest) {
+  if (promptOnlyProviders.has(provider)) {
+    request = withoutResponseFormat(request);
+  }
+  try {
+    return { request, response: await provider.complete(request) };
+  } catch (error) {
+    if (!request.responseFormat || !(error instanceof LlmError) || error.status !== 400) throw error;
+    const promptOnly = withoutResponseFormat(request);
+    const response = await provider.complete(promptOnly);
+    promptOnlyProviders.add(provider);
+    return { request: promptOnly, response };
+  }
+}
+
+function withoutResponseFormat(request: LlmRequest): LlmRequest {
+  const { responseFormat: _responseFormat, ...rest } = request;
+  return rest;
+}
+
+function repairInstruction(errors: string[]): string {
+  return [
+    "Your previous reply failed validation:",
+    ...errors.map((error) => `- ${error}`),
+    "",
+    "Return ONLY the corrected JSON object, with every required field.",
+  ].join("\n");
+}
+
+/**
+ * Convert formatted LangChain prompt messages into provider messages.
+ */
+export function toLlmMessages(messages: BaseMessage[]): LlmMessage[] {
+  return messages.map((message) => {
+    const type = message._getType();
+    return {
+      role: type === "system" ? "system" : type === "ai" ? "assistant" : "user",
+      content: typeof message.content === "string" ? message.content : JSON.stringify(message.content),
+    };
+  });
+}
+
+// `[type, content]` pairs rather than message classes, which `ChatOpenAI` accepts whatever core version it uses.
+function toLangChainMessages(messages: LlmMessage[]): [string, string][] {
+  return messages.map((message) => [
+    message.role === "system" ? "system" : message.role === "assistant" ? "ai" : "human",
+    message.content,
+  ]);
+}
+
+function toLlmError(error: unknown, label: string): LlmError {
+  if (error instanceof LlmError) return error;
+  // The OpenAI SDK (under LangChain) attaches the HTTP status to its errors.
+  const status = (error as { status?: unknown } | undefined)?.status;
+  return new LlmError(
+    `${label} request failed: ${error instanceof Error ? error.message : String(error)}`,
+    typeof status === "number" ? status : 0,
+  );
+}
+
+/**
+ * Constructor fields for one `ChatOpenAI` client. Exported so tests can check them.
+ *
+ * `maxRetries: 0` turns off LangChain's own retries (six by default, with backoff on 429 and 5xx): retries belong
+ * to `withRetryPolicy`, and a second layer inside each attempt would ignore `LLM_MAX_ATTEMPTS` and keep retrying
+ * until the attempt's timeout.
+ */
+export function openAiClientFields(config: LlmConfig, temperature: number) {
+  return {
+    openAIApiKey: config.apiKey,
+    modelName: config.model,
+    temperature,
+    maxTokens: MAX_OUTPUT_TOKENS,
+    maxRetries: 0,
+    // Ask for usage on streamed responses too, so streaming chat still reports tokens and cost.
+    streamUsage: true,
+    configuration: config.baseUrl ? { baseURL: config.baseUrl } : undefined,
+  };
+}
+
+/**
+ * OpenAI and OpenAI-compatible APIs, through LangChain's `ChatOpenAI`.
+ */
+export function createOpenAiProvider(config: LlmConfig): LlmProvider {
+  // `ChatOpenAI` fixes the temperature at construction, so keep one client per temperature in use.
+  const clients = new Map<number, ChatOpenAI>();
+  const client = (temperature: number) => {
+    let model = clients.get(temperature);
+    if (!model) {
+      model = new ChatOpenAI(openAiClientFields(config, temperature));
+      clients.set(temperature, model);
+    }
+    return model;
+  };
+
+  return {
+    name: "openai",
+    model: config.model,
+    async complete(request) {
+      // Not `strict`: strict mode rejects schemas with array size limits, and the caller validates anyway.
+      const options = {
+        signal: request.signal,
+        ...(request.responseFormat
+          ? {
+            response_format: {
+              type: "json_schema" as const,
+              json_schema: {
+                name: request.responseFormat.name,
+                description: request.responseFormat.description,
+                schema: request.responseFormat.schema,
+              },
+            },
+          }
+          : {}),
+      };
+      try {
+        const response = await client(request.temperature).invoke(toLangChainMessages(request.messages), options);
+        return {
+          content: response.content.toString(),
+          // Token usage extraction is best-effort because different providers/versions shape metadata differently.
+          usage: extractTokenUsage(response),
+        };
+      } catch (error) {
+        throw toLlmError(error, "OpenAI API");
+      }
+    },
+    async *stream(request) {
+      let content = "";
+      // Chunks are merged as they arrive because usage metadata only shows up on the last chunk(s).
+      let aggregate: Awaited<ReturnType<ChatOpenAI["invoke"]>> | undefined;
+      try {
+        for await (const chunk of await client(request.temperature).stream(toLangChainMessages(request.messages))) {
+          aggregate = aggregate ? aggregate.concat(chunk) : chunk;
+          const text = chunk.content.toString();
+          if (text) {
+            content += text;
+            yield { type: "delta", text };
+          }
+        }
+      } catch (error) {
+        throw toLlmError(error, "OpenAI API");
+      }
+      yield { type: "done", response: { content, usage: extractTokenUsage(aggregate) } };
+    },
+  };
+}
+
+async function postJson(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  label: string,
+  signal?: AbortSignal,
+) {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: { "content-type": "application/json", ...headers },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    throw toLlmError(error, label);
+  }
+  if (!response.ok) {
+    // A short excerpt of the error body is enough to diagnose a bad key or model name from the logs.
+    const detail = (await response.text().catch(() => "")).trim().slice(0, 200);
+    throw new LlmError(`${label} returned HTTP ${response.status}${detail ? `: ${detail}` : ""}`, response.status);
+  }
+  return response;
+}
+
+async function* readLines(body: ReadableStream<Uint8Array> | null): AsyncGenerator<string> {
+  if (!body) return;
+  let buffer = "";
+  // Leaving this loop early (the consumer stopped reading) cancels the response body.
+  for await (const text of body.pipeThrough(new TextDecoderStream())) {
+    buffer += text;
+    let newline = buffer.indexOf("\n");
+    while (newline !== -1) {
+      yield buffer.slice(0, newline).replace(/\r$/, "");
+      buffer = buffer.slice(newline + 1);
+      newline = buffer.indexOf("\n");
+    }
+  }
+  if (buffer) yield buffer;
+}
+
+function parseJsonLine<T>(line: string, label: string): T {
+  try {
+    return JSON.parse(line) as T;
+  } catch {
+    throw new LlmError(`${label} sent an invalid stream event: ${line.slice(0, 80)}`);
+  }
+}
+
+function endpoint(baseUrl: string, path: string): string {
+  return `${baseUrl.replace(/\/+$/, "")}${path}`;
+}
+
+interface AnthropicMessageResponse {
+  content?: { type: string; text?: string; input?: unknown }[];
+  usage?: Record<string, unknown>;
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  message?: { usage?: { input_tokens?: number } };
+  delta?: { type?: string; text?: string; partial_json?: string };
+  usage?: { output_tokens?: number };
+  error?: { message?: string };
+}
+
+/**
+ * The Anthropic Messages API.
+ *
+ * System messages move to the top-level `system` field; the remaining turns already alternate user/assistant
+ * because every prompt ends with the user's message.
+ *
+ * The Messages API has no JSON response mode, so a `responseFormat` becomes the one tool the model must call;
+ * the tool call's input is the structured result.
+ */
+export function createAnthropicProvider(config: LlmConfig): LlmProvider {
+  const url = endpoint(config.baseUrl ?? ANTHROPIC_DEFAULT_BASE_URL, "/v1/messages");
+  const headers = { "x-api-key": config.apiKey ?? "", "anthropic-version": ANTHROPIC_VERSION };
+  const body = (request: LlmRequest, stream: boolean) => {
+    const system = request.messages
+      .filter((message) => message.role === "system")
+      .map((message) => message.content)
+      .join("\n\n");
+    return {
+      model: config.model,
+      max_tokens: MAX_OUTPUT_TOKENS,
+      temperature: request.temperature,
+      ...(system ? { system } : {}),
+      messages: request.messages
+        .filter((message) => message.role !== "system")
+        .map((message) => ({ role: message.role, content: message.content })),
+      ...(request.responseFormat
+        ? {
+          tools: [{
+            name: request.responseFormat.name,
+            description: request.responseFormat.description,
+            input_schema: request.responseFormat.schema,
+          }],
+          tool_choice: { type: "tool", name: request.responseFormat.name },
+        }
+        : {}),
+      ...(stream ? { stream: true } : {}),
+    };
+  };
+
+  return {
+    name: "anthropic",
+    model: config.model,
+    async complete(request) {
+      const response = await postJson(url, headers, body(request, false), "Anthropic API", request.signal);
+      const data = await response.json() as AnthropicMessageResponse;
+      const blocks = data.content ?? [];
+      const toolUse = request.responseFormat ? blocks.find((block) => block.type === "tool_use") : undefined;
+      const content = toolUse
+        ? JSON.stringify(toolUse.input ?? {})
+        : blocks
+          .filter((block) => block.type === "text")
+          .map((block) => block.text ?? "")
+          .join("");
+      return { content, usage: normalizeUsage(data.usage) };
+    },
+    async *stream(request) {
+      const response = await postJson(url, headers, body(request, true), "Anthropic API", request.signal);
+      let content = "";
+      // Input tokens arrive with `message_start`, output tokens with the closing `message_delta`.
+      const usage: Record<string, number | undefined> = {};
+      for await (const line of readLines(response.body)) {
+        if (!line.startsWith("data:")) continue;
+        const event = parseJsonLine<AnthropicStreamEvent>(line.slice(5).trim(), "Anthropic API");
+        if (event.type === "message_start") {
+          usage.input_tokens = event.message?.usage?.input_tokens;
+        } else if (event.type === "content_block_delta") {
+          // Tool input (structured output) streams as JSON fragments instead of text.
+          const text = event.delta?.type === "input_json_delta" ? event.delta.partial_json : event.delta?.text;
+          if (!text) continue;
+          content += text;
+          yield { type: "delta", text };
+        } else if (event.type === "message_delta") {
+          usage.output_tokens = event.usage?.output_tokens;
+        } else if (event.type === "error") {
+          throw new LlmError(`Anthropic API stream failed: ${event.error?.message ?? "unknown error"}`);
+        }
+      }
+      yield { type: "done", response: { content, usage: normalizeUsage(usage) } };
+    },
+  };
+}
+
+interface OllamaChatResponse {
+  message?: { content?: string };
+  done?: boolean;
+  error?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+function ollamaUsage(response: OllamaChatResponse): TokenUsage | undefined {
+  return normalizeUsage({ input_tokens: response.prompt_eval_count, output_tokens: response.eval_count });
+}
+
+/**
+ * A local Ollama-style server (`POST /api/chat`), for running without a hosted API.
+ */
+export function createOllamaProvider(config: LlmConfig): LlmProvider {
+  const url = endpoint(config.baseUrl ?? OLLAMA_DEFAULT_BASE_URL, "/api/chat");
+  // Local servers need no key; one set here is passed on for servers behind an authenticating proxy.
+  const headers: Record<string, string> = config.apiKey ? { authorization: `Bearer ${config.apiKey}` } : {};
+  const body = (request: LlmRequest, stream: boolean) => ({
+    model: config.model,
+    messages: request.messages,
+    stream,
+    options: { temperature: request.temperature, num_predict: MAX_OUTPUT_TOKENS },
+    // Ollama takes the JSON schema itself as the output format.
+    ...(request.responseFormat ? { format: request.responseFormat.schema } : {}),
+  });
+
+  return {
+    name: "ollama",
+    model: config.model,
+    async complete(request) {
+      const response = await postJson(url, headers, body(request, false), "Ollama API", request.signal);
+      const data = await response.json() as OllamaChatResponse;
+      return { content: data.message?.content ?? "", usage: ollamaUsage(data) };
+    },
+    async *stream(request) {
+      const response = await postJson(url, headers, body(request, true), "Ollama API", request.signal);
+      let content = "";
+      let usage: TokenUsage | undefined;
+      for await (const line of readLines(response.body)) {
+        if (!line.trim()) continue;
+        const chunk = parseJsonLine<OllamaChatResponse>(line, "Ollama API");
+        if (chunk.error) {
+          throw new LlmError(`Ollama API stream failed: ${chunk.error}`);
+        }
+        const text = chunk.message?.content;
+        if (text) {
+          content += text;
+          yield { type: "delta", text };
+        }
+        // Only the final line (`done: true`) carries the token counts.
+        if (chunk.done) usage = ollamaUsage(chunk);
+      }
+      yield { type: "done", response: { content, usage } };
+    },
+  };
+}
+
+/**
+ * A canned response for the mock provider.
+ */
+export interface MockLlmResponse {
+  // Text the request must contain (all message contents joined); omitted to match any request.
+  match?: string;
+  // Reply text.
+  content?: string;
+  // Fail with this message instead of replying, e.g. to exercise fallbacks; `status` mimics an HTTP status.
+  error?: string;
+  status?: number;
+  // Replay this entry at most this many times (default: every time it matches).
+  times?: number;
+  // Wait this long before replying or failing, e.g. to exercise `LLM_TIMEOUT_MS`.
+  delayMs?: number;
+  usage?: TokenUsage;
+}
+
+/**
+ * A mock provider script (`LLM_MOCK_SCRIPT`), e.g.
+ * `{"responses": [{"match": "parent or guardian", "content": "{...}"}, {"content": "Hello!"}]}`.
+ *
+ * Each request gets the first entry that matches and has uses left, so entries go from specific to general.
+ * Matching on request text rather than call order keeps replays stable when calls are added or reordered.
+ */
+export interface MockLlmScript {
+  responses: MockLlmResponse[];
+}
+
+export interface MockLlmProvider extends LlmProvider {
+  // Every request received, oldest first (for assertions in tests).
+  readonly requests: LlmRequest[];
+}
+
+export function parseMockScript(raw: unknown): ValidationResult<MockLlmScript> {
+  if (!raw || typeof raw !== "object" || !Array.isArray((raw as { responses?: unknown }).responses)) {
+    return { ok: false, errors: ["Mock script must be an object with a responses array"] };
+  }
+  const errors: string[] = [];
+  const responses: MockLlmResponse[] = [];
+  (raw as { responses: unknown[] }).responses.forEach((value, index) => {
+    const label = `responses[${index}]`;
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+    const entry = value as Record<string, unknown>;
+    const optionalString = (key: string) => {
+      if (entry[key] !== undefined && typeof entry[key] !== "string") errors.push(`${label}.${key} must be a string`);
+    };
+    optionalString("match");
+    optionalString("content");
+    optionalString("error");
+    if ((entry.content === undefined) === (entry.error === undefined)) {
+      errors.push(`${label} needs exactly one of content or error`);
+    }
+    if (entry.status !== undefined && !Number.isInteger(entry.status)) {
+      errors.push(`${label}.status must be an integer`);
+    }
+    if (entry.times !== undefined && !(Number.isInteger(entry.times) && (entry.times as number) > 0)) {
+      errors.push(`${label}.times must be a positive integer`);
+    }
+    if (entry.delayMs !== undefined && !(Number.isInteger(entry.delayMs) && (entry.delayMs as number) >= 0)) {
+      errors.push(`${label}.delayMs must be a non-negative integer`);
+    }
+    const usage = entry.usage === undefined ? undefined : normalizeUsage(entry.usage);
+    if (entry.usage !== undefined && !usage) {
+      errors.push(`${label}.usage must include inputTokens, outputTokens, or totalTokens`);
+    }
+    responses.push({
+      match: entry.match as string | undefined,
+      content: entry.content as string | undefined,
+      error: entry.error as string | undefined,
+      status: entry.status as number | undefined,
+      times: entry.times as number | undefined,
+      delayMs: entry.delayMs as number | undefined,
+      usage,
+    });
+  });
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: { responses } };
+}
+
+function loadMockScript(path: string): MockLlmScript {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(Deno.readTextFileSync(path));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to read LLM mock script ${path}: ${reason}`);
+  }
+  const parsed = parseMockScript(raw);
+  if (!parsed.ok) {
+    throw new Error(`Invalid LLM mock script ${path}: ${parsed.errors.join("; ")}`);
+  }
+  return parsed.value;
+}
+
+/**
+ * Replay canned responses. Streaming splits the reply into word-sized deltas, the same way every time.
+ */
+export function createMockLlmProvider(script: MockLlmScript): MockLlmProvider {
+  const usesLeft = script.responses.map((entry) => entry.times ?? Infinity);
+  const requests: LlmRequest[] = [];
+
+  const respond = async (request: LlmRequest): Promise<LlmResponse> => {
+    requests.push(request);
+    const text = request.messages.map((message) => message.content).join("\n");
+    const index = script.responses.findIndex((entry, position) =>
+      usesLeft[position] > 0 && (entry.match === undefined || text.includes(entry.match))
+    );
+    if (index === -1) {
+      throw new LlmError("Mock LLM script has no response for this request");
+    }
+    usesLeft[index] -= 1;
+    const entry = script.responses[index];
+    if (entry.delayMs) {
+      await delay(entry.delayMs, request.signal);
+    }
+    if (entry.error !== undefined) {
+      throw new LlmError(entry.error, entry.status ?? 0);
+    }
+    return { content: entry.content ?? "", ...(entry.usage ? { usage: entry.usage } : {}) };
+  };
+
+  return {
+    name: "mock",
+    model: "mock",
+    requests,
+    complete: respond,
+    async *stream(request) {
+      const response = await respond(request);
+      for (const text of response.content.match(/\S+\s*|\s+/g) ?? []) {
+        yield { type: "delta", text };
+      }
+      yield { type: "done", response };
+    },
+  };
+}
+
+// A timer that stops early when the request is aborted, so a timed-out mock call leaves nothing pending.
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+function extractTokenUsage(response: unknown): TokenUsage | undefined {
+  // LangChain’s response objects can vary by provider/version; we search common metadata shapes.
+  if (!response || typeof response !== "object") return undefined;
+  const record = response as Record<string, unknown>;
+  return (
+    normalizeUsage(record.usage_metadata) ??
+    normalizeUsage(record.response_metadata) ??
+    normalizeUsage((record.response_metadata as Record<string, unknown> | undefined)?.usage) ??
+    normalizeUsage((record.response_metadata as Record<string, unknown> | undefined)?.tokenUsage) ??
+    normalizeUsage((record.response_metadata as Record<string, unknown> | undefined)?.usage_metadata) ??
+    normalizeUsage(record.additional_kwargs) ??
+    normalizeUsage((record.additional_kwargs as Record<string, unknown> | undefined)?.usage) ??
+    normalizeUsage((record.additional_kwargs as Record<string, unknown> | undefined)?.usage_metadata)
+  );
+}
+
+function normalizeUsage(value: unknown): TokenUsage | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const record = value as Record<string, unknown>;
+  // Different APIs use different field names. We accept several common ones.
+  const inputTokens =
+    readNumber(record.input_tokens) ??
+    readNumber(record.prompt_tokens) ??
+    readNumber(record.promptTokens) ??
+    readNumber(record.inputTokens);
+  const outputTokens =
+    readNumber(record.output_tokens) ??
+    readNumber(record.completion_tokens) ??
+    readNumber(record.completionTokens) ??
+    readNumber(record.outputTokens);
+  const totalTokens =
+    readNumber(record.total_tokens) ??
+    readNumber(record.totalTokens);
+  if (inputTokens === undefined && outputTokens === undefined && totalTokens === undefined) {
+    return undefined;
+  }
+  // If partial data is present, we treat missing counts as 0 and compute totals conservatively.
+  const safeInput = inputTokens ?? 0;
+  const safeOutput = outputTokens ?? 0;
+  return {
+    inputTokens: safeInput,
+    outputTokens: safeOutput,
+    totalTokens: totalTokens ?? safeInput + safeOutput,
+  };
+}
+
+function readNumber(value: unknown): number | undefined {
+  // Guard against NaN and infinity: they would poison cost calculations and UI totals.
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
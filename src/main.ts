@@ -1,20 +1,26 @@
 import { load } from "@std/dotenv";
 import { analyzeStudent, buildTeacherSummary } from "./analyzer.ts";
 import { createAgent } from "./agent.ts";
-import { buildStudentEmail, buildTeacherEmail, sendEmail } from "./email.ts";
+import { buildStudentEmail, buildTeacherEmail, loadEmailTransportConfig, sendEmail } from "./email.ts";
+import { loadLlmConfig } from "./llm_provider.ts";
+import { DEFAULT_LOCALE, normalizeLocale } from "./email_templates.ts";
+import { preferredLocale } from "./message_catalog.ts";
 import { createLogger } from "./logger.ts";
 import {
   buildFallbackStudentInsights,
   buildFallbackTeacherInsights,
-  parseStudentInsights,
-  parseTeacherInsights,
+  insightFallbackRate,
   renderStudentMessage,
-  renderTeacherMessage,
+  tallyInsights,
 } from "./insights.ts";
 import { loadTeacherRules } from "./rules.ts";
+import { loadRiskPolicy } from "./risk_policy.ts";
 import { HistoryStore } from "./storage.ts";
 import { validateStudents } from "./validator.ts";
-import type { AppConfig, Student } from "./types.ts";
+import { loadRoster } from "./student_roster.ts";
+import { loadClasses } from "./classes.ts";
+import { DEFAULT_STUDENT_CONCURRENCY, runWorkerPool } from "./worker_pool.ts";
+import type { AppConfig, ClassConfig, InsightStats, Student } from "./types.ts";
 
 /**
  * Scheduler entry point (no memory, no tool-first validation).
@@ -22,9 +28,11 @@ import type { AppConfig, Student } from "./types.ts";
  * This file represents the “baseline” pipeline:
  * - validate input
  * - deterministic analysis
+ * - process several students at once (`runWorkerPool`), recording them in roster order
  * - call LLM for structured JSON insights
- * - validate/parse insights and fall back when needed
- * - render + write outputs
+ * - validate/parse insights (re-asking once) and fall back when needed
+ * - render + write outputs (or, with REVIEW_STUDENT_MESSAGES on, store student messages as drafts that the
+ *   API server delivers once a teacher approves them)
  * - record history in SQLite
  *
  * In this repo, the default `deno task start` runs `src/run_with_tool.ts` instead, which includes
@@ -39,48 +47,55 @@ async function loadConfig(): Promise<AppConfig> {
     }
   }
 
-  const openAiApiKey = requireEnv("OPENAI_API_KEY");
-  const openAiModel = Deno.env.get("OPENAI_MODEL") ?? "gpt-4";
-  const openAiBaseUrl = Deno.env.get("OPENAI_BASE_URL") ?? undefined;
+  // Provider, model, and credentials; throws when the selected provider is missing its key.
+  const llm = loadLlmConfig();
   const openAiPriceInputPer1K = parseOptionalNumber(Deno.env.get("OPENAI_PRICE_INPUT_PER_1K"));
   const openAiPriceOutputPer1K = parseOptionalNumber(Deno.env.get("OPENAI_PRICE_OUTPUT_PER_1K"));
   const emailFrom = Deno.env.get("EMAIL_FROM") ?? "Edu Assistant <noreply@local>";
   const teacherEmail = Deno.env.get("TEACHER_EMAIL") ?? "teacher@example.com";
   const emailOutDir = Deno.env.get("EMAIL_OUT_DIR") ?? undefined;
+  // Transport (file sink or SMTP) and retry policy; throws on a half-configured SMTP relay.
+  const emailTransportConfig = loadEmailTransportConfig();
+  // Template overrides (`<template>.<locale>.json`) and the locale used to pick them.
+  const emailTemplatesDir = Deno.env.get("EMAIL_TEMPLATES_DIR") || undefined;
+  const emailLocale = normalizeLocale(Deno.env.get("EMAIL_LOCALE") || DEFAULT_LOCALE);
   const historyDbPath = Deno.env.get("HISTORY_DB_PATH") ?? "data/history.db";
   const teacherRulesPath = Deno.env.get("TEACHER_RULES_PATH") ?? undefined;
+  const riskPolicyPath = Deno.env.get("RISK_POLICY_PATH") ?? undefined;
   const studentsJsonPath = Deno.env.get("STUDENTS_JSON_PATH") ?? "students.json";
+  const studentsCsvMappingPath = Deno.env.get("STUDENTS_CSV_MAPPING_PATH") ?? undefined;
+  const classesPath = Deno.env.get("CLASSES_PATH") || undefined;
   const scheduleCron = Deno.env.get("SCHEDULE_CRON") ?? undefined;
   const scheduleIntervalMin = parseNumber(Deno.env.get("SCHEDULE_INTERVAL_MIN"), 30);
+  const studentConcurrency = parseNumber(Deno.env.get("STUDENT_CONCURRENCY"), DEFAULT_STUDENT_CONCURRENCY);
   const logLevel = (Deno.env.get("LOG_LEVEL") ?? "info") as AppConfig["logLevel"];
+  // Same default as the tool-first runner: nothing reaches students without a teacher seeing it first.
+  const reviewStudentMessages = (Deno.env.get("REVIEW_STUDENT_MESSAGES") ?? "true").toLowerCase() !== "false";
 
   return {
-    openAiApiKey,
-    openAiModel,
-    openAiBaseUrl,
+    llm,
     openAiPriceInputPer1K,
     openAiPriceOutputPer1K,
     emailFrom,
     teacherEmail,
     emailOutDir,
+    ...emailTransportConfig,
+    emailTemplatesDir,
+    emailLocale,
     historyDbPath,
     teacherRulesPath,
+    riskPolicyPath,
+    studentConcurrency,
     scheduleCron,
     scheduleIntervalMin,
     studentsJsonPath,
+    studentsCsvMappingPath,
+    classesPath,
     logLevel,
+    reviewStudentMessages,
   };
 }
 
-function requireEnv(key: string): string {
-  // Fail fast on missing required settings so we don’t start a scheduler that can never succeed.
-  const value = Deno.env.get(key);
-  if (!value) {
-    throw new Error(`Missing required environment variable: ${key}`);
-  }
-  return value;
-}
-
 function parseNumber(value: string | undefined, fallback: number): number {
   // Numeric env parsing is defensive to avoid NaN schedules.
   if (!value) return fallback;
@@ -101,14 +116,14 @@ function parseOptionalNumber(value: string | undefined): number | undefined {
 }
 
 async function loadStudents(
-  path: string,
+  klass: ClassConfig,
+  store: HistoryStore,
   logger: ReturnType<typeof createLogger>,
 ): Promise<{ students: Student[]; totalCount: number }> {
   try {
-    // Read raw file → parse JSON → validate → return only valid records.
-    const data = await Deno.readTextFile(path);
-    const parsed = JSON.parse(data) as unknown;
-    const { valid, errors } = validateStudents(parsed);
+    // Read the roster (seeded from the JSON/CSV file on first use) → validate → return only valid records.
+    const { data: parsed, locate } = await loadRoster(klass, store, logger);
+    const { valid, errors } = validateStudents(parsed, locate);
     const totalCount = Array.isArray(parsed) ? parsed.length : 0;
 
     if (errors.length > 0) {
@@ -128,17 +143,19 @@ async function loadStudents(
 /**
  * Run a single analysis + email cycle.
  */
-async function runOnce(config: AppConfig, store: HistoryStore) {
+async function runOnce(config: AppConfig, klass: ClassConfig, store: HistoryStore) {
   const logger = createLogger(config.logLevel);
-  logger.info("Starting analysis cycle");
+  logger.info("Starting analysis cycle", { classId: klass.id });
   const runId = crypto.randomUUID();
   const startedAt = new Date().toISOString();
+  const emailOptions = { templates: klass.emailTemplates, locale: config.emailLocale };
 
-  const { students, totalCount } = await loadStudents(config.studentsJsonPath, logger);
+  const { students, totalCount } = await loadStudents(klass, store, logger);
   logger.info("Loaded student data", { count: students.length });
   // Record the run start as soon as we have counts so partial runs are visible.
   store.startRun({
     runId,
+    classId: klass.id,
     startedAt,
     studentCount: totalCount,
     validStudentCount: students.length,
@@ -150,73 +167,107 @@ async function runOnce(config: AppConfig, store: HistoryStore) {
     return;
   }
 
-  const agent = createAgent(config, logger, config.teacherRules);
+  const agent = createAgent(config, logger, klass.teacherRules);
   const analyses: ReturnType<typeof analyzeStudent>[] = [];
+  const insightStats: InsightStats = { generated: 0, repaired: 0, fallbacks: 0 };
 
-  for (const student of students) {
+  // Students are processed in parallel; the returned steps record them in roster order.
+  await runWorkerPool(students, config.studentConcurrency, async (student) => {
     let analysis: ReturnType<typeof analyzeStudent>;
     try {
       // Deterministic analysis can’t fail for valid input, but we isolate anyway to keep runs resilient.
-      analysis = analyzeStudent(student);
-      analyses.push(analysis);
+      analysis = analyzeStudent(student, config.riskPolicy);
     } catch (error) {
       logger.error("Failed to analyze student", {
         studentId: student.id,
         error: error instanceof Error ? error.message : String(error),
       });
-      store.recordStudentMessage({
-        runId,
-        studentId: student.id,
-        status: "analysis_failed",
-        error: error instanceof Error ? error.message : String(error),
-        usedFallback: false,
-      });
-      continue;
+      return () =>
+        store.recordStudentMessage({
+          runId,
+          classId: klass.id,
+          studentId: student.id,
+          status: "analysis_failed",
+          error: error instanceof Error ? error.message : String(error),
+          usedFallback: false,
+        });
     }
 
     try {
-      // Batch agent returns raw text; parsing/validation determines whether to accept or fall back.
-      const rawInsights = await agent.generateStudentInsights(analysis);
-      const parsed = parseStudentInsights(rawInsights);
+      // Batch agent returns validated insights or the validation errors; on errors we fall back.
+      const parsed = await agent.generateStudentInsights(analysis);
+      tallyInsights(insightStats, parsed);
       const usedFallback = !parsed.ok;
+      const fallbackReason = parsed.ok ? undefined : parsed.reason;
       if (!parsed.ok) {
-        logger.warn("Student insights JSON invalid; using fallback", {
+        logger.warn("Student insights unavailable; using fallback", {
           studentId: analysis.student.id,
+          reason: parsed.reason,
           errors: parsed.errors,
         });
       }
-      const insights = parsed.ok
-        ? parsed.value
-        : buildFallbackStudentInsights(analysis, config.teacherRules);
-      const message = renderStudentMessage(insights);
-      const email = buildStudentEmail(analysis.student, message);
-      const emailPath = await sendEmail(config, email, logger);
-      // Persist per-student artifacts to the DB even if some students fail later.
-      store.recordStudentMessage({
-        runId,
-        studentId: analysis.student.id,
-        analysis,
-        insights,
-        emailSubject: email.subject,
-        emailPath,
-        status: "sent",
-        usedFallback,
-      });
+      const locale = preferredLocale(analysis.student.language, config.emailLocale);
+      const insights = parsed.ok ? parsed.value : buildFallbackStudentInsights(analysis, klass.teacherRules, locale);
+      const email = buildStudentEmail(analysis.student, insights, { runId, classId: klass.id }, emailOptions);
+
+      if (config.reviewStudentMessages) {
+        // Drafts are delivered by the API server on approval (`deliverStudentMessage`), like tool-first runs.
+        return () => {
+          analyses.push(analysis);
+          store.supersedeDrafts(klass.id, analysis.student.id);
+          store.recordStudentMessage({
+            runId,
+            classId: klass.id,
+            studentId: analysis.student.id,
+            analysis,
+            insights,
+            emailSubject: email.subject,
+            messageText: renderStudentMessage(insights, locale),
+            status: "pending_review",
+            usedFallback,
+            fallbackReason,
+          });
+        };
+      }
+
+      const delivery = await sendEmail(config, email, logger);
+      return () => {
+        analyses.push(analysis);
+        // Persist per-student artifacts to the DB even if some students fail later.
+        store.recordStudentMessage({
+          runId,
+          classId: klass.id,
+          studentId: analysis.student.id,
+          analysis,
+          insights,
+          emailSubject: email.subject,
+          emailPath: delivery.path,
+          delivery,
+          status: delivery.status === "delivered" ? "sent" : "delivery_failed",
+          error: delivery.error,
+          usedFallback,
+          fallbackReason,
+        });
+      };
     } catch (error) {
       logger.error("Failed to process student", {
         studentId: analysis.student.id,
         error: error instanceof Error ? error.message : String(error),
       });
-      store.recordStudentMessage({
-        runId,
-        studentId: analysis.student.id,
-        analysis,
-        status: "insights_failed",
-        error: error instanceof Error ? error.message : String(error),
-        usedFallback: false,
-      });
+      return () => {
+        analyses.push(analysis);
+        store.recordStudentMessage({
+          runId,
+          classId: klass.id,
+          studentId: analysis.student.id,
+          analysis,
+          status: "insights_failed",
+          error: error instanceof Error ? error.message : String(error),
+          usedFallback: false,
+        });
+      };
     }
-  }
+  });
 
   if (analyses.length === 0) {
     logger.warn("No successful analyses; skipping teacher summary");
@@ -227,25 +278,27 @@ async function runOnce(config: AppConfig, store: HistoryStore) {
   try {
     // Teacher summary aggregates the deterministic analyses, then asks the LLM to produce structured guidance.
     const teacherSummary = buildTeacherSummary(analyses);
-    const rawSummary = await agent.generateTeacherSummary(teacherSummary);
-    const parsed = parseTeacherInsights(rawSummary);
+    const parsed = await agent.generateTeacherSummary(teacherSummary);
+    tallyInsights(insightStats, parsed);
     const usedFallback = !parsed.ok;
     if (!parsed.ok) {
-      logger.warn("Teacher summary JSON invalid; using fallback", { errors: parsed.errors });
+      logger.warn("Teacher summary unavailable; using fallback", { reason: parsed.reason, errors: parsed.errors });
     }
     const insights = parsed.ok
       ? parsed.value
-      : buildFallbackTeacherInsights(teacherSummary, config.teacherRules);
-    const message = renderTeacherMessage(insights);
-    const teacherEmail = buildTeacherEmail(config.teacherEmail, message);
-    const emailPath = await sendEmail(config, teacherEmail, logger);
+      : buildFallbackTeacherInsights(teacherSummary, klass.teacherRules, config.emailLocale);
+    const teacherEmail = buildTeacherEmail(klass.teacherEmail, insights, { runId, classId: klass.id }, emailOptions);
+    const delivery = await sendEmail(config, teacherEmail, logger);
     store.recordTeacherMessage({
       runId,
+      classId: klass.id,
       summary: teacherSummary,
       insights,
       emailSubject: teacherEmail.subject,
-      emailPath,
-      status: "sent",
+      emailPath: delivery.path,
+      delivery,
+      status: delivery.status === "delivered" ? "sent" : "delivery_failed",
+      error: delivery.error,
       usedFallback,
     });
   } catch (error) {
@@ -254,6 +307,7 @@ async function runOnce(config: AppConfig, store: HistoryStore) {
     });
     store.recordTeacherMessage({
       runId,
+      classId: klass.id,
       summary: buildTeacherSummary(analyses),
       status: "summary_failed",
       error: error instanceof Error ? error.message : String(error),
@@ -261,43 +315,51 @@ async function runOnce(config: AppConfig, store: HistoryStore) {
     });
   }
 
-  store.finishRun(runId, "completed");
-  logger.info("Analysis cycle completed");
+  store.finishRun(runId, "completed", insightStats);
+  logger.info("Analysis cycle completed", {
+    insights: { ...insightStats, fallbackRate: insightFallbackRate(insightStats) },
+  });
 }
 
 async function main() {
   // Config is loaded once so scheduler ticks are deterministic and fast.
   const config = await loadConfig();
   const logger = createLogger(config.logLevel);
-  logger.info("Local email simulation enabled");
+  logger.info("Email transport configured", { transport: config.emailTransport });
 
   // Teacher preferences are optional; if missing, the system still runs.
   config.teacherRules = await loadTeacherRules(config.teacherRulesPath, logger);
+  config.riskPolicy = await loadRiskPolicy(config.riskPolicyPath, logger);
   // Open the SQLite history store once for the lifetime of the process.
   const store = new HistoryStore(config.historyDbPath, logger);
+  // Each class runs on its own schedule with its own roster, rules, teacher email, and memory.
+  const classes = await loadClasses(config, logger);
 
-  // Wrap runOnce so we can safely schedule it repeatedly.
-  const scheduleRun = () => {
-    runOnce(config, store).catch((error) => {
-      logger.error("Scheduled run failed", {
-        error: error instanceof Error ? error.message : String(error),
+  logger.info("Starting scheduler", { classes: classes.map((klass) => klass.id) });
+  for (const klass of classes) {
+    // Wrap runOnce so we can safely schedule it repeatedly.
+    const scheduleRun = () => {
+      runOnce(config, klass, store).catch((error) => {
+        logger.error("Scheduled run failed", {
+          classId: klass.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
       });
-    });
-  };
+    };
 
-  logger.info("Starting scheduler");
-  // Run immediately so you don’t have to wait for the first interval/cron tick.
-  scheduleRun();
+    // Run immediately so you don’t have to wait for the first interval/cron tick.
+    scheduleRun();
 
-  if (config.scheduleCron) {
-    // Cron takes precedence when provided.
-    Deno.cron("student-analysis", config.scheduleCron, scheduleRun);
-    logger.info("Cron schedule configured", { cron: config.scheduleCron });
-  } else {
-    // Interval fallback is simple and keeps the demo easy to reason about.
-    const intervalMs = config.scheduleIntervalMin * 60 * 1000;
-    setInterval(scheduleRun, intervalMs);
-    logger.info("Interval schedule configured", { minutes: config.scheduleIntervalMin });
+    if (klass.scheduleCron) {
+      // Cron takes precedence when provided.
+      Deno.cron(`student-analysis-${klass.id}`, klass.scheduleCron, scheduleRun);
+      logger.info("Cron schedule configured", { classId: klass.id, cron: klass.scheduleCron });
+    } else {
+      // Interval fallback is simple and keeps the demo easy to reason about.
+      const intervalMs = klass.scheduleIntervalMin * 60 * 1000;
+      setInterval(scheduleRun, intervalMs);
+      logger.info("Interval schedule configured", { classId: klass.id, minutes: klass.scheduleIntervalMin });
+    }
   }
 }
 
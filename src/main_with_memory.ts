@@ -1,18 +1,24 @@
 import { load } from "@std/dotenv";
 import { analyzeStudent, buildTeacherSummary } from "./analyzer.ts";
-import { buildStudentEmail, buildTeacherEmail, sendEmail } from "./email.ts";
+import { buildStudentEmail, buildTeacherEmail, loadEmailTransportConfig, sendEmail } from "./email.ts";
+import { loadLlmConfig } from "./llm_provider.ts";
+import { DEFAULT_LOCALE, normalizeLocale } from "./email_templates.ts";
+import { preferredLocale } from "./message_catalog.ts";
 import { createLogger } from "./logger.ts";
 import {
   buildFallbackStudentInsights,
   buildFallbackTeacherInsights,
-  parseStudentInsights,
-  parseTeacherInsights,
+  insightFallbackRate,
   renderStudentMessage,
-  renderTeacherMessage,
+  tallyInsights,
 } from "./insights.ts";
 import { loadTeacherRules } from "./rules.ts";
+import { loadRiskPolicy } from "./risk_policy.ts";
 import { HistoryStore } from "./storage.ts";
 import { validateStudents } from "./validator.ts";
+import { loadRoster } from "./student_roster.ts";
+import { loadClasses } from "./classes.ts";
+import { DEFAULT_STUDENT_CONCURRENCY, runWorkerPool } from "./worker_pool.ts";
 import {
   loadStudentMemory,
   loadTeacherMemory,
@@ -24,7 +30,7 @@ import {
   updateTeacherMemory,
 } from "./memory_store.ts";
 import { createAgentWithMemory } from "./agent_with_memory.ts";
-import type { AppConfig, Student } from "./types.ts";
+import type { AppConfig, ClassConfig, InsightStats, Student } from "./types.ts";
 
 /**
  * Scheduler entry point (memory-aware, no tool-first validation).
@@ -33,6 +39,10 @@ import type { AppConfig, Student } from "./types.ts";
  * - Loads per-student and teacher memory files from disk.
  * - Injects compact memory context into LLM prompts via `createAgentWithMemory(...)`.
  * - Updates memory after successful insight generation and writes immutable per-run archives.
+ * - With REVIEW_STUDENT_MESSAGES on, stores student messages as drafts instead; the API server emails them and
+ *   updates memory once a teacher approves (`deliverStudentMessage`).
+ * - Shares the bounded student pool (`runWorkerPool`); each student's memory file is only touched by the worker
+ *   handling that student, so parallel students never write the same file.
  *
  * In this repo, the default `deno task start` runs `src/run_with_tool.ts`, which is also memory-aware,
  * but adds an explicit LangChain tool validation step at the start of each run.
@@ -55,58 +65,64 @@ async function loadConfig(): Promise<MemoryConfig> {
     }
   }
 
-  // Core LLM configuration that controls the model and endpoint.
-  const openAiApiKey = requireEnv("OPENAI_API_KEY");
-  const openAiModel = Deno.env.get("OPENAI_MODEL") ?? "gpt-4";
-  const openAiBaseUrl = Deno.env.get("OPENAI_BASE_URL") ?? undefined;
+  // Provider, model, and credentials; throws when the selected provider is missing its key.
+  const llm = loadLlmConfig();
   const openAiPriceInputPer1K = parseOptionalNumber(Deno.env.get("OPENAI_PRICE_INPUT_PER_1K"));
   const openAiPriceOutputPer1K = parseOptionalNumber(Deno.env.get("OPENAI_PRICE_OUTPUT_PER_1K"));
-  // Email simulation configuration used by the local email sink.
+  // Email configuration (sender, teacher recipient, file sink, transport).
   const emailFrom = Deno.env.get("EMAIL_FROM") ?? "Edu Assistant <noreply@local>";
   const teacherEmail = Deno.env.get("TEACHER_EMAIL") ?? "teacher@example.com";
   const emailOutDir = Deno.env.get("EMAIL_OUT_DIR") ?? undefined;
+  // Transport (file sink or SMTP) and retry policy; throws on a half-configured SMTP relay.
+  const emailTransportConfig = loadEmailTransportConfig();
+  // Template overrides (`<template>.<locale>.json`) and the locale used to pick them.
+  const emailTemplatesDir = Deno.env.get("EMAIL_TEMPLATES_DIR") || undefined;
+  const emailLocale = normalizeLocale(Deno.env.get("EMAIL_LOCALE") || DEFAULT_LOCALE);
   // History and personalization configuration (SQLite + optional rules).
   const historyDbPath = Deno.env.get("HISTORY_DB_PATH") ?? "data/history.db";
   const teacherRulesPath = Deno.env.get("TEACHER_RULES_PATH") ?? undefined;
+  const riskPolicyPath = Deno.env.get("RISK_POLICY_PATH") ?? undefined;
   // Data inputs and scheduling configuration for repeated runs.
   const studentsJsonPath = Deno.env.get("STUDENTS_JSON_PATH") ?? "students.json";
+  const studentsCsvMappingPath = Deno.env.get("STUDENTS_CSV_MAPPING_PATH") ?? undefined;
+  const classesPath = Deno.env.get("CLASSES_PATH") || undefined;
   const scheduleCron = Deno.env.get("SCHEDULE_CRON") ?? undefined;
   const scheduleIntervalMin = parseNumber(Deno.env.get("SCHEDULE_INTERVAL_MIN"), 30);
+  const studentConcurrency = parseNumber(Deno.env.get("STUDENT_CONCURRENCY"), DEFAULT_STUDENT_CONCURRENCY);
   const logLevel = (Deno.env.get("LOG_LEVEL") ?? "info") as AppConfig["logLevel"];
   // Memory files configuration for per-student and teacher snapshots.
   const memoryDir = Deno.env.get("MEMORY_DIR") ?? "memory";
   const memoryHistoryLimit = parseNumber(Deno.env.get("MEMORY_HISTORY_LIMIT"), 5);
+  // Same default as the tool-first runner: nothing reaches students without a teacher seeing it first.
+  const reviewStudentMessages = (Deno.env.get("REVIEW_STUDENT_MESSAGES") ?? "true").toLowerCase() !== "false";
 
   // Return a fully populated config object for the run loop.
   return {
-    openAiApiKey,
-    openAiModel,
-    openAiBaseUrl,
+    llm,
     openAiPriceInputPer1K,
     openAiPriceOutputPer1K,
     emailFrom,
     teacherEmail,
     emailOutDir,
+    ...emailTransportConfig,
+    emailTemplatesDir,
+    emailLocale,
     historyDbPath,
     teacherRulesPath,
+    riskPolicyPath,
+    studentConcurrency,
     scheduleCron,
     scheduleIntervalMin,
     studentsJsonPath,
+    studentsCsvMappingPath,
+    classesPath,
     logLevel,
     memoryDir,
     memoryHistoryLimit,
+    reviewStudentMessages,
   };
 }
 
-function requireEnv(key: string): string {
-  // Explicitly fail fast when required env vars are missing.
-  const value = Deno.env.get(key);
-  if (!value) {
-    throw new Error(`Missing required environment variable: ${key}`);
-  }
-  return value;
-}
-
 function parseNumber(value: string | undefined, fallback: number): number {
   // Shared helper to parse numeric env vars with safe defaults.
   if (!value) return fallback;
@@ -127,15 +143,15 @@ function parseOptionalNumber(value: string | undefined): number | undefined {
 }
 
 async function loadStudents(
-  path: string,
+  klass: ClassConfig,
+  store: HistoryStore,
   logger: ReturnType<typeof createLogger>,
 ): Promise<{ students: Student[]; totalCount: number }> {
   try {
-    // Load the JSON file from disk.
-    const data = await Deno.readTextFile(path);
-    const parsed = JSON.parse(data) as unknown;
+    // Load the roster from the shared store (seeded from the JSON/CSV file on first use).
+    const { data: parsed, locate } = await loadRoster(klass, store, logger);
     // Validation returns only clean records and error details for logging.
-    const { valid, errors } = validateStudents(parsed);
+    const { valid, errors } = validateStudents(parsed, locate);
     const totalCount = Array.isArray(parsed) ? parsed.length : 0;
 
     if (errors.length > 0) {
@@ -155,18 +171,20 @@ async function loadStudents(
 /**
  * Run a single analysis + email cycle using memory files.
  */
-async function runOnce(config: MemoryConfig, store: HistoryStore) {
+async function runOnce(config: MemoryConfig, klass: ClassConfig, store: HistoryStore) {
   const logger = createLogger(config.logLevel);
-  logger.info("Starting analysis cycle (memory mode)");
+  logger.info("Starting analysis cycle (memory mode)", { classId: klass.id });
   // Track run-level metadata for history reporting.
   const runId = crypto.randomUUID();
   const startedAt = new Date().toISOString();
+  const emailOptions = { templates: klass.emailTemplates, locale: config.emailLocale };
 
-  const { students, totalCount } = await loadStudents(config.studentsJsonPath, logger);
+  const { students, totalCount } = await loadStudents(klass, store, logger);
   logger.info("Loaded student data", { count: students.length });
   // Start the history record early so the run is traceable even on failure.
   store.startRun({
     runId,
+    classId: klass.id,
     startedAt,
     studentCount: totalCount,
     validStudentCount: students.length,
@@ -179,105 +197,142 @@ async function runOnce(config: MemoryConfig, store: HistoryStore) {
   }
 
   // Memory-aware agent receives both teacher rules and student memory.
-  const agent = createAgentWithMemory(config, logger, config.teacherRules);
+  const agent = createAgentWithMemory(config, logger, klass.teacherRules);
   // Collect analyses for the teacher summary step.
   const analyses: ReturnType<typeof analyzeStudent>[] = [];
+  const insightStats: InsightStats = { generated: 0, repaired: 0, fallbacks: 0 };
 
-  for (const student of students) {
+  // Students run in parallel (bounded); each returned step records its student in roster order.
+  await runWorkerPool(students, config.studentConcurrency, async (student) => {
     let analysis: ReturnType<typeof analyzeStudent>;
     try {
       // Create deterministic metrics used by the LLM prompts.
-      analysis = analyzeStudent(student);
-      analyses.push(analysis);
+      analysis = analyzeStudent(student, config.riskPolicy);
     } catch (error) {
       logger.error("Failed to analyze student", {
         studentId: student.id,
         error: error instanceof Error ? error.message : String(error),
       });
-      store.recordStudentMessage({
-        runId,
-        studentId: student.id,
-        status: "analysis_failed",
-        error: error instanceof Error ? error.message : String(error),
-        usedFallback: false,
-      });
-      continue;
+      return () =>
+        store.recordStudentMessage({
+          runId,
+          classId: klass.id,
+          studentId: student.id,
+          status: "analysis_failed",
+          error: error instanceof Error ? error.message : String(error),
+          usedFallback: false,
+        });
     }
 
     try {
       // Load memory before LLM call so the prompt references prior context.
-      const studentMemory = await loadStudentMemory(config.memoryDir, student.id, logger);
-      // Call the LLM to generate structured JSON insights.
-      const rawInsights = await agent.generateStudentInsights(analysis, studentMemory);
-      const parsed = parseStudentInsights(rawInsights);
+      const studentMemory = await loadStudentMemory(config.memoryDir, klass.id, student.id, logger);
+      // Call the LLM to generate validated insights (re-asked once if invalid).
+      const parsed = await agent.generateStudentInsights(analysis, studentMemory);
+      tallyInsights(insightStats, parsed);
       const usedFallback = !parsed.ok;
+      const fallbackReason = parsed.ok ? undefined : parsed.reason;
       if (!parsed.ok) {
-        logger.warn("Student insights JSON invalid; using fallback", {
+        logger.warn("Student insights unavailable; using fallback", {
           studentId: analysis.student.id,
+          reason: parsed.reason,
           errors: parsed.errors,
         });
       }
 
       // Use deterministic fallback when the LLM returns invalid JSON.
-      const insights = parsed.ok
-        ? parsed.value
-        : buildFallbackStudentInsights(analysis, config.teacherRules);
-      // Render the structured insights into a readable message.
-      const message = renderStudentMessage(insights);
-      // Wrap the message in the student email template.
-      const email = buildStudentEmail(analysis.student, message);
-      // Send returns the saved email file path (or null).
-      const emailPath = await sendEmail(config, email, logger);
-
-      // Log the successful student message to history DB.
-      store.recordStudentMessage({
-        runId,
-        studentId: analysis.student.id,
-        analysis,
-        insights,
-        emailSubject: email.subject,
-        emailPath,
-        status: "sent",
-        usedFallback,
-      });
+      const locale = preferredLocale(analysis.student.language, config.emailLocale);
+      const insights = parsed.ok ? parsed.value : buildFallbackStudentInsights(analysis, klass.teacherRules, locale);
+      // Render the structured insights through the student email template.
+      const email = buildStudentEmail(analysis.student, insights, { runId, classId: klass.id }, emailOptions);
 
-      // Update the student's memory file based on final insights.
-      const updatedMemory = updateStudentMemory(
-        studentMemory,
-        analysis.student,
-        insights,
-        config.memoryHistoryLimit,
-      );
-      // Persist memory only after a successful insights flow.
-      await saveStudentMemory(config.memoryDir, updatedMemory, logger);
-      await saveStudentMemoryArchive(
-        config.memoryDir,
-        {
+      if (config.reviewStudentMessages) {
+        // The draft waits for a teacher; email and memory update happen on approval, through the API server.
+        return () => {
+          analyses.push(analysis);
+          store.supersedeDrafts(klass.id, analysis.student.id);
+          store.recordStudentMessage({
+            runId,
+            classId: klass.id,
+            studentId: analysis.student.id,
+            analysis,
+            insights,
+            emailSubject: email.subject,
+            messageText: renderStudentMessage(insights, locale),
+            status: "pending_review",
+            usedFallback,
+            fallbackReason,
+          });
+        };
+      }
+
+      // Send retries internally and reports the outcome (including the saved file path, if any).
+      const delivery = await sendEmail(config, email, logger);
+
+      // Memory records what the student was told, so an undelivered message leaves it untouched.
+      if (delivery.status !== "failed") {
+        // Update the student's memory file based on final insights.
+        const updatedMemory = updateStudentMemory(
+          studentMemory,
+          analysis.student,
+          insights,
+          config.memoryHistoryLimit,
+        );
+        // Persist memory only after a successful insights flow.
+        await saveStudentMemory(config.memoryDir, klass.id, updatedMemory, logger);
+        await saveStudentMemoryArchive(
+          config.memoryDir,
+          klass.id,
+          {
+            runId,
+            studentId: analysis.student.id,
+            createdAt: new Date().toISOString(),
+            summary: updatedMemory.summary,
+            strengths: updatedMemory.strengths,
+            improvementAreas: updatedMemory.improvementAreas,
+            goals: updatedMemory.goals,
+          },
+          logger,
+        );
+      }
+
+      return () => {
+        analyses.push(analysis);
+        // Log the student message and its delivery outcome to history DB.
+        store.recordStudentMessage({
           runId,
+          classId: klass.id,
           studentId: analysis.student.id,
-          createdAt: new Date().toISOString(),
-          summary: updatedMemory.summary,
-          strengths: updatedMemory.strengths,
-          improvementAreas: updatedMemory.improvementAreas,
-          goals: updatedMemory.goals,
-        },
-        logger,
-      );
+          analysis,
+          insights,
+          emailSubject: email.subject,
+          emailPath: delivery.path,
+          delivery,
+          status: delivery.status === "delivered" ? "sent" : "delivery_failed",
+          error: delivery.error,
+          usedFallback,
+          fallbackReason,
+        });
+      };
     } catch (error) {
       logger.error("Failed to process student", {
         studentId: analysis.student.id,
         error: error instanceof Error ? error.message : String(error),
       });
-      store.recordStudentMessage({
-        runId,
-        studentId: analysis.student.id,
-        analysis,
-        status: "insights_failed",
-        error: error instanceof Error ? error.message : String(error),
-        usedFallback: false,
-      });
+      return () => {
+        analyses.push(analysis);
+        store.recordStudentMessage({
+          runId,
+          classId: klass.id,
+          studentId: analysis.student.id,
+          analysis,
+          status: "insights_failed",
+          error: error instanceof Error ? error.message : String(error),
+          usedFallback: false,
+        });
+      };
     }
-  }
+  });
 
   if (analyses.length === 0) {
     logger.warn("No successful analyses; skipping teacher summary");
@@ -288,63 +343,69 @@ async function runOnce(config: MemoryConfig, store: HistoryStore) {
   try {
     const teacherSummary = buildTeacherSummary(analyses);
     // Teacher memory informs class-level suggestions.
-    const teacherMemory = await loadTeacherMemory(config.memoryDir, logger);
-    // Call the LLM to generate structured JSON for the teacher summary.
-    const rawSummary = await agent.generateTeacherSummary(teacherSummary, teacherMemory);
-    const parsed = parseTeacherInsights(rawSummary);
+    const teacherMemory = await loadTeacherMemory(config.memoryDir, klass.id, logger);
+    // Call the LLM to generate validated insights for the teacher summary (re-asked once if invalid).
+    const parsed = await agent.generateTeacherSummary(teacherSummary, teacherMemory);
+    tallyInsights(insightStats, parsed);
     const usedFallback = !parsed.ok;
     if (!parsed.ok) {
-      logger.warn("Teacher summary JSON invalid; using fallback", { errors: parsed.errors });
+      logger.warn("Teacher summary unavailable; using fallback", { reason: parsed.reason, errors: parsed.errors });
     }
 
     // Use deterministic fallback when the LLM returns invalid JSON.
     const insights = parsed.ok
       ? parsed.value
-      : buildFallbackTeacherInsights(teacherSummary, config.teacherRules);
-    // Render the structured summary into a readable report.
-    const message = renderTeacherMessage(insights);
-    // Wrap the report into the teacher email template.
-    const teacherEmail = buildTeacherEmail(config.teacherEmail, message);
-    // Send returns the saved email file path (or null).
-    const emailPath = await sendEmail(config, teacherEmail, logger);
-
-    // Log the teacher summary to history DB for auditability.
+      : buildFallbackTeacherInsights(teacherSummary, klass.teacherRules, config.emailLocale);
+    // Render the structured summary through the teacher email template.
+    const teacherEmail = buildTeacherEmail(klass.teacherEmail, insights, { runId, classId: klass.id }, emailOptions);
+    // Send retries internally and reports the outcome (including the saved file path, if any).
+    const delivery = await sendEmail(config, teacherEmail, logger);
+
+    // Log the teacher summary and its delivery outcome to history DB for auditability.
     store.recordTeacherMessage({
       runId,
+      classId: klass.id,
       summary: teacherSummary,
       insights,
       emailSubject: teacherEmail.subject,
-      emailPath,
-      status: "sent",
+      emailPath: delivery.path,
+      delivery,
+      status: delivery.status === "delivered" ? "sent" : "delivery_failed",
+      error: delivery.error,
       usedFallback,
     });
 
-    // Update the teacher memory file based on final summary insights.
-    const updatedTeacherMemory = updateTeacherMemory(
-      teacherMemory,
-      insights,
-      config.memoryHistoryLimit,
-    );
-    // Save teacher memory after a successful summary.
-    await saveTeacherMemory(config.memoryDir, updatedTeacherMemory, logger);
-    await saveTeacherMemoryArchive(
-      config.memoryDir,
-      {
-        runId,
-        createdAt: new Date().toISOString(),
-        summary: insights.classOverview,
-        strengths: insights.strengths,
-        attentionNeeded: insights.attentionNeeded,
-        nextSteps: insights.nextSteps,
-      },
-      logger,
-    );
+    // Only a summary that reached the teacher is remembered.
+    if (delivery.status === "delivered") {
+      // Update the teacher memory file based on final summary insights.
+      const updatedTeacherMemory = updateTeacherMemory(
+        teacherMemory,
+        insights,
+        config.memoryHistoryLimit,
+      );
+      // Save teacher memory after a successful summary.
+      await saveTeacherMemory(config.memoryDir, klass.id, updatedTeacherMemory, logger);
+      await saveTeacherMemoryArchive(
+        config.memoryDir,
+        klass.id,
+        {
+          runId,
+          createdAt: new Date().toISOString(),
+          summary: insights.classOverview,
+          strengths: insights.strengths,
+          attentionNeeded: insights.attentionNeeded,
+          nextSteps: insights.nextSteps,
+        },
+        logger,
+      );
+    }
   } catch (error) {
     logger.error("Failed to send teacher summary", {
       error: error instanceof Error ? error.message : String(error),
     });
     store.recordTeacherMessage({
       runId,
+      classId: klass.id,
       summary: buildTeacherSummary(analyses),
       status: "summary_failed",
       error: error instanceof Error ? error.message : String(error),
@@ -352,42 +413,50 @@ async function runOnce(config: MemoryConfig, store: HistoryStore) {
     });
   }
 
-  store.finishRun(runId, "completed");
-  logger.info("Analysis cycle completed");
+  store.finishRun(runId, "completed", insightStats);
+  logger.info("Analysis cycle completed", {
+    insights: { ...insightStats, fallbackRate: insightFallbackRate(insightStats) },
+  });
 }
 
 async function main() {
   const config = await loadConfig();
   const logger = createLogger(config.logLevel);
-  logger.info("Local email simulation enabled (memory mode)");
+  logger.info("Email transport configured (memory mode)", { transport: config.emailTransport });
 
   // Preferences are loaded once and passed into the LLM prompt.
   config.teacherRules = await loadTeacherRules(config.teacherRulesPath, logger);
+  config.riskPolicy = await loadRiskPolicy(config.riskPolicyPath, logger);
   // Initialize SQLite history storage for auditability.
   const store = new HistoryStore(config.historyDbPath, logger);
+  // Each class runs on its own schedule with its own roster, rules, teacher email, and memory.
+  const classes = await loadClasses(config, logger);
 
-  // Schedule runner keeps the process alive and logs failures per cycle.
-  const scheduleRun = () => {
-    runOnce(config, store).catch((error) => {
-      logger.error("Scheduled run failed", {
-        error: error instanceof Error ? error.message : String(error),
+  logger.info("Starting scheduler", { classes: classes.map((klass) => klass.id) });
+  for (const klass of classes) {
+    // Schedule runner keeps the process alive and logs failures per cycle.
+    const scheduleRun = () => {
+      runOnce(config, klass, store).catch((error) => {
+        logger.error("Scheduled run failed", {
+          classId: klass.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
       });
-    });
-  };
+    };
+
+    // Always run once at startup to avoid waiting for the first interval.
+    scheduleRun();
 
-  logger.info("Starting scheduler");
-  // Always run once at startup to avoid waiting for the first interval.
-  scheduleRun();
-
-  if (config.scheduleCron) {
-    // Cron schedule takes precedence if provided.
-    Deno.cron("student-analysis-memory", config.scheduleCron, scheduleRun);
-    logger.info("Cron schedule configured", { cron: config.scheduleCron });
-  } else {
-    // Interval schedule is a simple fallback when no cron is defined.
-    const intervalMs = config.scheduleIntervalMin * 60 * 1000;
-    setInterval(scheduleRun, intervalMs);
-    logger.info("Interval schedule configured", { minutes: config.scheduleIntervalMin });
+    if (klass.scheduleCron) {
+      // Cron schedule takes precedence if provided.
+      Deno.cron(`student-analysis-memory-${klass.id}`, klass.scheduleCron, scheduleRun);
+      logger.info("Cron schedule configured", { classId: klass.id, cron: klass.scheduleCron });
+    } else {
+      // Interval schedule is a simple fallback when no cron is defined.
+      const intervalMs = klass.scheduleIntervalMin * 60 * 1000;
+      setInterval(scheduleRun, intervalMs);
+      logger.info("Interval schedule configured", { classId: klass.id, minutes: klass.scheduleIntervalMin });
+    }
   }
 }
 
@@ -1,4 +1,5 @@
 import { join } from "@std/path";
+import { DEFAULT_CLASS_ID } from "./classes.ts";
 import type { Student, StudentInsights, TeacherInsights } from "./types.ts";
 import type { Logger } from "./logger.ts";
 
@@ -9,6 +10,8 @@ import type { Logger } from "./logger.ts";
  * - The system stores compact summaries per student and for the teacher/class.
  * - These memory snapshots are injected into prompts so advice can reference continuity across runs.
  * - Memory is stored as plain JSON on disk to keep the demo inspectable and easy to reset.
+ * - Each class has its own namespace (`memory/classes/{classId}/...`); the `default` class keeps the
+ *   original top-level layout so single-class installs keep their existing files.
  *
  * Key design constraints:
  * - Memory must stay small (it is prompt context).
@@ -21,18 +24,20 @@ export interface MemoryEntry {
   note: string;
 }
 
-// Per-student memory persisted as JSON under memory/students/{id}.json.
+// Per-student memory persisted as JSON under {classDir}/students/{id}.json.
 export interface StudentMemory {
   studentId: string;
   summary: string;
   strengths: string[];
   improvementAreas: string[];
   goals: string[];
+  // Teacher-stated supports (e.g. extended time). Only set from teacher chat; analysis runs never overwrite them.
+  accommodations: string[];
   lastUpdated: string;
   history: MemoryEntry[];
 }
 
-// Class-level memory persisted as memory/teacher.json.
+// Class-level memory persisted as {classDir}/teacher.json.
 export interface TeacherMemory {
   summary: string;
   classGoals: string[];
@@ -67,6 +72,7 @@ const DEFAULT_STUDENT_MEMORY: StudentMemory = {
   strengths: [],
   improvementAreas: [],
   goals: [],
+  accommodations: [],
   lastUpdated: "",
   history: [],
 };
@@ -85,11 +91,12 @@ const DEFAULT_TEACHER_MEMORY: TeacherMemory = {
  */
 export async function loadStudentMemory(
   memoryDir: string,
+  classId: string,
   studentId: string,
   logger: Logger,
 ): Promise<StudentMemory> {
-  // File path is deterministic by studentId so memory is stable across runs.
-  const path = studentMemoryPath(memoryDir, studentId);
+  // File path is deterministic by class + studentId so memory is stable across runs.
+  const path = studentMemoryPath(memoryDir, classId, studentId);
   try {
     // Parse existing memory file if present.
     const data = await Deno.readTextFile(path);
@@ -105,6 +112,7 @@ export async function loadStudentMemory(
       return { ...DEFAULT_STUDENT_MEMORY, studentId };
     }
     logger.warn("Failed to load student memory", {
+      classId,
       studentId,
       error: error instanceof Error ? error.message : String(error),
     });
@@ -117,18 +125,20 @@ export async function loadStudentMemory(
  */
 export async function saveStudentMemory(
   memoryDir: string,
+  classId: string,
   memory: StudentMemory,
   logger: Logger,
 ): Promise<void> {
   try {
     // Ensure the student memory folder exists before writing the file.
-    await Deno.mkdir(join(memoryDir, "students"), { recursive: true });
+    await Deno.mkdir(join(classMemoryDir(memoryDir, classId), "students"), { recursive: true });
     // File name is derived from studentId for easy lookup.
-    const path = studentMemoryPath(memoryDir, memory.studentId);
+    const path = studentMemoryPath(memoryDir, classId, memory.studentId);
     // Pretty-print JSON so humans can inspect and debug memory easily.
     await Deno.writeTextFile(path, JSON.stringify(memory, null, 2));
   } catch (error) {
     logger.warn("Failed to save student memory", {
+      classId,
       studentId: memory.studentId,
       error: error instanceof Error ? error.message : String(error),
     });
@@ -140,10 +150,11 @@ export async function saveStudentMemory(
  */
 export async function loadTeacherMemory(
   memoryDir: string,
+  classId: string,
   logger: Logger,
 ): Promise<TeacherMemory> {
   // Teacher memory is stored in a single file per class.
-  const path = teacherMemoryPath(memoryDir);
+  const path = teacherMemoryPath(memoryDir, classId);
   try {
     // Parse existing memory file if present.
     const data = await Deno.readTextFile(path);
@@ -156,6 +167,7 @@ export async function loadTeacherMemory(
       return { ...DEFAULT_TEACHER_MEMORY };
     }
     logger.warn("Failed to load teacher memory", {
+      classId,
       error: error instanceof Error ? error.message : String(error),
     });
     return { ...DEFAULT_TEACHER_MEMORY };
@@ -167,18 +179,20 @@ export async function loadTeacherMemory(
  */
 export async function saveTeacherMemory(
   memoryDir: string,
+  classId: string,
   memory: TeacherMemory,
   logger: Logger,
 ): Promise<void> {
   try {
-    // Ensure the memory directory exists before writing the file.
-    await Deno.mkdir(memoryDir, { recursive: true });
-    // Teacher memory uses a single, stable file path.
-    const path = teacherMemoryPath(memoryDir);
+    // Ensure the class memory directory exists before writing the file.
+    await Deno.mkdir(classMemoryDir(memoryDir, classId), { recursive: true });
+    // Teacher memory uses a single, stable file path per class.
+    const path = teacherMemoryPath(memoryDir, classId);
     // Pretty-print JSON for inspectability.
     await Deno.writeTextFile(path, JSON.stringify(memory, null, 2));
   } catch (error) {
     logger.warn("Failed to save teacher memory", {
+      classId,
       error: error instanceof Error ? error.message : String(error),
     });
   }
@@ -189,10 +203,11 @@ export async function saveTeacherMemory(
  */
 export async function saveStudentMemoryArchive(
   memoryDir: string,
+  classId: string,
   archive: StudentMemoryArchive,
   logger: Logger,
 ): Promise<string | null> {
-  const archiveDir = join(memoryDir, "archive");
+  const archiveDir = join(classMemoryDir(memoryDir, classId), "archive");
   const fileName = `run-${archive.runId}-student-${archive.studentId}.json`;
   const path = join(archiveDir, fileName);
 
@@ -214,10 +229,11 @@ export async function saveStudentMemoryArchive(
  */
 export async function saveTeacherMemoryArchive(
   memoryDir: string,
+  classId: string,
   archive: TeacherMemoryArchive,
   logger: Logger,
 ): Promise<string | null> {
-  const archiveDir = join(memoryDir, "archive");
+  const archiveDir = join(classMemoryDir(memoryDir, classId), "archive");
   const fileName = `run-${archive.runId}-teacher.json`;
   const path = join(archiveDir, fileName);
 
@@ -265,6 +281,8 @@ export function updateStudentMemory(
     improvementAreas: uniqueList(insights.improvementAreas, 3),
     // Keep recent goals so the agent can reference continuity over time.
     goals: uniqueList([insights.nextStepGoal, ...previous.goals], 3),
+    // Accommodations come from the teacher, not from insights, so they carry over unchanged.
+    accommodations: previous.accommodations,
     lastUpdated: now,
     // Cap the history list to a fixed number of entries.
     history: trimHistory([historyEntry, ...previous.history], historyLimit),
@@ -298,13 +316,18 @@ export function updateTeacherMemory(
   };
 }
 
-export function studentMemoryPath(memoryDir: string, studentId: string): string {
+export function classMemoryDir(memoryDir: string, classId: string): string {
+  // The default class stays at the top level so pre-multi-class memory files keep working.
+  return classId === DEFAULT_CLASS_ID ? memoryDir : join(memoryDir, "classes", classId);
+}
+
+export function studentMemoryPath(memoryDir: string, classId: string, studentId: string): string {
   // One JSON file per student keeps memory readable and easy to reset.
-  return join(memoryDir, "students", `${studentId}.json`);
+  return join(classMemoryDir(memoryDir, classId), "students", `${studentId}.json`);
 }
 
-export function teacherMemoryPath(memoryDir: string): string {
-  return join(memoryDir, "teacher.json");
+export function teacherMemoryPath(memoryDir: string, classId: string): string {
+  return join(classMemoryDir(memoryDir, classId), "teacher.json");
 }
 
 function uniqueList(items: string[], max: number): string[] {
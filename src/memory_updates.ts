@@ -0,0 +1,155 @@
+import type { ChatMemoryChange, MemoryField } from "../packages/shared-types/src/contracts.ts";
+import type { MemoryEntry, StudentMemory } from "./memory_store.ts";
+
+/**
+ * Memory updates stated by a teacher in chat (“Liam now has extended time on tests”, “set goal: read 20 min nightly”).
+ *
+ * Why this exists:
+ * - Analysis runs rewrite memory from grades, but some facts only the teacher knows; chat is where they say them.
+ * - The chat agent asks the model for candidate updates as JSON. That output is untrusted, so it is parsed and
+ *   bounded here before anything touches the memory file.
+ * - Applying is pure: it returns the new memory plus only the updates that actually changed something
+ *   (adding a goal that is already there is not a change), which is what the chat response reports.
+ */
+type ValidationResult<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+export type MemoryUpdate = ChatMemoryChange;
+
+export const MEMORY_FIELDS: MemoryField[] = ["goals", "accommodations", "strengths", "improvementAreas"];
+
+// Per-field caps keep memory small enough to stay prompt context (goals match the analysis-run cap).
+const FIELD_LIMITS: Record<MemoryField, number> = {
+  goals: 3,
+  accommodations: 6,
+  strengths: 3,
+  improvementAreas: 3,
+};
+
+const FIELD_LABELS: Record<MemoryField, string> = {
+  goals: "goal",
+  accommodations: "accommodation",
+  strengths: "strength",
+  improvementAreas: "focus area",
+};
+
+// One message rarely states more than a couple of durable facts; more suggests the model is over-extracting.
+const MAX_UPDATES = 5;
+
+function extractJsonObject(text: string): string | null {
+  // Same tolerance as insight parsing: models sometimes wrap JSON in prose or code fences.
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end === -1 || end <= start) return null;
+  return text.slice(start, end + 1);
+}
+
+/**
+ * Parse and validate the extraction output: `{ "updates": [{ field, action, value }] }`.
+ *
+ * Invalid entries fail the whole result, so a half-understood message never writes partial memory.
+ */
+export function parseMemoryUpdates(raw: string): ValidationResult<MemoryUpdate[]> {
+  const jsonCandidate = extractJsonObject(raw);
+  if (!jsonCandidate) {
+    return { ok: false, errors: ["No JSON object found in response"] };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonCandidate);
+  } catch {
+    return { ok: false, errors: ["Invalid JSON in response"] };
+  }
+
+  const list = typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)
+    ? (parsed as Record<string, unknown>).updates
+    : undefined;
+  if (!Array.isArray(list)) {
+    return { ok: false, errors: ["Response JSON must be an object with an updates array"] };
+  }
+
+  const errors: string[] = [];
+  const updates: MemoryUpdate[] = [];
+  list.forEach((item, index) => {
+    const label = `updates[${index}]`;
+    if (typeof item !== "object" || item === null || Array.isArray(item)) {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+    const record = item as Record<string, unknown>;
+    const field = MEMORY_FIELDS.find((entry) => entry === record.field);
+    const action = record.action === "add" || record.action === "remove" ? record.action : undefined;
+    const value = typeof record.value === "string" ? record.value.trim() : "";
+    if (!field) errors.push(`${label}.field must be one of ${MEMORY_FIELDS.join(", ")}`);
+    if (!action) errors.push(`${label}.action must be add or remove`);
+    if (!value) errors.push(`${label}.value must be a non-empty string`);
+    // Memory entries are short phrases; a long value is usually the model pasting the message back.
+    if (value.length > 180) errors.push(`${label}.value must be at most 180 characters`);
+    if (field && action && value && value.length <= 180) {
+      updates.push({ field, action, value });
+    }
+  });
+
+  if (updates.length > MAX_UPDATES) {
+    errors.push(`updates must include at most ${MAX_UPDATES} item(s)`);
+  }
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: updates };
+}
+
+function sameEntry(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Apply updates to a student's memory and record one history entry for them.
+ *
+ * Added items go first (newest is most relevant in prompts) and the oldest fall off at the field cap.
+ * Returns the memory unchanged and no changes when nothing in `updates` has an effect.
+ */
+export function applyMemoryUpdates(
+  previous: StudentMemory,
+  updates: MemoryUpdate[],
+  options: { author: string; historyLimit: number; now?: string },
+): { memory: StudentMemory; changes: MemoryUpdate[] } {
+  const memory: StudentMemory = {
+    ...previous,
+    goals: [...previous.goals],
+    accommodations: [...previous.accommodations],
+    strengths: [...previous.strengths],
+    improvementAreas: [...previous.improvementAreas],
+  };
+  const changes: MemoryUpdate[] = [];
+
+  for (const update of updates) {
+    const current = memory[update.field];
+    const exists = current.some((item) => sameEntry(item, update.value));
+    if (update.action === "add" && !exists) {
+      memory[update.field] = [update.value, ...current].slice(0, FIELD_LIMITS[update.field]);
+      changes.push(update);
+    } else if (update.action === "remove" && exists) {
+      memory[update.field] = current.filter((item) => !sameEntry(item, update.value));
+      changes.push(update);
+    }
+  }
+
+  if (changes.length === 0) {
+    return { memory: previous, changes };
+  }
+
+  const now = options.now ?? new Date().toISOString();
+  const historyEntry: MemoryEntry = {
+    date: now,
+    note: `Teacher chat (${options.author}): ${changes.map(describeMemoryUpdate).join("; ")}`,
+  };
+  memory.lastUpdated = now;
+  memory.history = [historyEntry, ...previous.history].slice(0, Math.max(0, options.historyLimit));
+  return { memory, changes };
+}
+
+/**
+ * Human-readable form of an update, e.g. `added accommodation "extended time on tests"`.
+ */
+export function describeMemoryUpdate(update: MemoryUpdate): string {
+  const verb = update.action === "add" ? "added" : "removed";
+  return `${verb} ${FIELD_LABELS[update.field]} "${update.value}"`;
+}
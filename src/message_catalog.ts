@@ -0,0 +1,275 @@
+import { DEFAULT_LOCALE, localeChain, normalizeLocale } from "./email_templates.ts";
+import type { PerformanceTrend, RiskFactor, RiskOperator } from "./types.ts";
+
+/**
+ * Localized wording for generated messages: section headings and the deterministic fallback text.
+ *
+ * Why this exists:
+ * - The model writes insights in the reader's language, but headings ("Strengths:") and fallbacks are code.
+ *   Without translations a Spanish-speaking family would get Spanish advice under English headings, or an
+ *   all-English message whenever the model output is rejected.
+ * - One catalog per language keeps every string a translator has to review in one place, instead of spread
+ *   across `insights.ts` and the analyzer.
+ *
+ * Catalogs resolve along the same chain as email templates (`pt-br` → `pt` → `en`). A language without a
+ * catalog gets English headings and fallbacks; generation still asks the model for that language.
+ *
+ * Analyzer strengths and improvement areas are English phrases that end up in fallback messages verbatim, so
+ * each catalog also translates them (`analysisPhrases`, plus `analysisPrefixes` for the ones ending in a list
+ * of subjects). Unknown phrases pass through unchanged. Risk factor reasons are rebuilt from the factor's
+ * fields (`riskReason`), since they carry the student's own numbers.
+ */
+export interface MessageCatalog {
+  student: {
+    strengths: string;
+    focusAreas: string;
+    tryThis: string;
+    nextStepGoal: (goal: string) => string;
+  };
+  teacher: {
+    strengths: string;
+    attentionNeeded: string;
+    nextSteps: string;
+    noAttention: string;
+  };
+  guardian: {
+    highlights: string;
+    homeSupport: string;
+  };
+  studentFallback: {
+    steadyProgress: string;
+    buildConsistency: string;
+    useChecklist: string;
+    prepareQuestion: string;
+    dailyReview: string;
+    practiceSubjects: (subjects: string) => string;
+    askForFeedback: string;
+    defaultGoal: string;
+    encouragement: string;
+  };
+  guardianFallback: {
+    improving: (name: string) => string;
+    declining: (name: string) => string;
+    stable: (name: string) => string;
+    steadyProgress: (name: string) => string;
+    checkAssignments: string;
+    explainSubjects: (name: string, subjects: string) => string;
+    classGoal: (goal: string) => string;
+    regularRoutine: string;
+    closing: string;
+  };
+  teacherFallback: {
+    topPerformers: (names: string) => string;
+    steadyPerformance: string;
+    flaggedForCheckIns: string;
+    riskReason: (factor: RiskFactor) => string;
+    smallGroupSession: string;
+    successStory: string;
+    classOverview: (average: number) => string;
+  };
+  analysisPhrases: Record<string, string>;
+  analysisPrefixes: Record<string, string>;
+}
+
+const EN: MessageCatalog = {
+  student: {
+    strengths: "Strengths:",
+    focusAreas: "Focus areas:",
+    tryThis: "Try this:",
+    nextStepGoal: (goal) => `Next step goal: ${goal}`,
+  },
+  teacher: {
+    strengths: "Class strengths:",
+    attentionNeeded: "Students needing attention:",
+    nextSteps: "Next steps (next week):",
+    noAttention: "No students flagged for immediate attention.",
+  },
+  guardian: {
+    highlights: "What is going well:",
+    homeSupport: "Ways to help at home:",
+  },
+  studentFallback: {
+    steadyProgress: "You're making steady progress across your classes.",
+    buildConsistency: "Keep building consistency with assignments and review routines.",
+    useChecklist: "Use a checklist and finish assignments 24 hours before the deadline.",
+    prepareQuestion: "Prepare one question or comment before class and share it.",
+    dailyReview: "Set a 20-minute daily review block and summarize notes in your own words.",
+    practiceSubjects: (subjects) => `Spend extra practice time on ${subjects} with short, focused sessions.`,
+    askForFeedback: "Ask for quick feedback from your teacher on one recent assignment.",
+    defaultGoal: "Choose one focus area and practice it three times this week.",
+    encouragement: "Small steps add up—keep going, and reach out if you need support.",
+  },
+  guardianFallback: {
+    improving: (name) => `${name} has been making good progress in class recently.`,
+    declining: (name) => `${name} has had a harder few weeks, and a little extra encouragement at home would help.`,
+    stable: (name) => `${name} is keeping a steady pace in class.`,
+    steadyProgress: (name) => `${name} is making steady progress across classes.`,
+    checkAssignments: "Check in together on upcoming assignments a day before they are due.",
+    explainSubjects: (name, subjects) => `Ask ${name} to explain one thing learned in ${subjects} this week.`,
+    classGoal: (goal) => `Talk about this class goal together: ${goal}`,
+    regularRoutine: "Set aside a short, regular time for homework and reading.",
+    closing: "Please reach out to the teacher with any questions.",
+  },
+  teacherFallback: {
+    topPerformers: (names) => `Top performers this cycle: ${names}.`,
+    steadyPerformance: "Several students are maintaining steady performance.",
+    flaggedForCheckIns: "Flagged for additional check-ins based on recent trends.",
+    // English is the analyzer's own wording.
+    riskReason: (factor) => factor.reason,
+    smallGroupSession: "Plan one small-group session for students needing support.",
+    successStory: "Highlight one success story to reinforce growth mindset.",
+    classOverview: (average) =>
+      `Class average is ${average.toFixed(1)}. ` +
+      "Overall trends are stable with a few students needing additional attention.",
+  },
+  // English is the analyzer's own wording.
+  analysisPhrases: {},
+  analysisPrefixes: {},
+};
+
+const ES_OPERATORS: Record<RiskOperator, string> = {
+  lt: "inferior a",
+  lte: "igual o inferior a",
+  gt: "superior a",
+  gte: "igual o superior a",
+  eq: "igual a",
+};
+
+const ES_TRENDS: Record<PerformanceTrend, string> = {
+  improving: "en aumento",
+  stable: "estable",
+  declining: "en descenso",
+};
+
+function describeRiskFactorEs(factor: RiskFactor): string {
+  // Mirrors the analyzer's `describeFactor`, with Spanish decimal commas.
+  const number = (value: number | string) => String(value).replace(".", ",");
+  const phrase = ES_OPERATORS[factor.operator];
+  const { observed, threshold } = factor;
+  if (factor.signal === "trend") {
+    return `La tendencia del rendimiento está ${ES_TRENDS[observed as PerformanceTrend] ?? observed}`;
+  }
+  if (factor.signal === "averageScore") {
+    return `El promedio general es ${number((observed as number).toFixed(1))}, ${phrase} ${number(threshold)}`;
+  }
+  if (factor.signal === "participationScore") {
+    return `La participación es ${number(observed)}/10, ${phrase} ${number(threshold)}`;
+  }
+  if (factor.signal === "assignmentCompletionRate") {
+    return `La entrega de tareas es del ${number(observed)} %, ${phrase} ${number(threshold)} %`;
+  }
+  return `La nota de ${factor.subject} es ${number(observed)}, ${phrase} ${number(threshold)}`;
+}
+
+const ES: MessageCatalog = {
+  student: {
+    strengths: "Fortalezas:",
+    focusAreas: "Áreas de enfoque:",
+    tryThis: "Prueba esto:",
+    nextStepGoal: (goal) => `Próxima meta: ${goal}`,
+  },
+  teacher: {
+    strengths: "Fortalezas del grupo:",
+    attentionNeeded: "Estudiantes que necesitan atención:",
+    nextSteps: "Próximos pasos (próxima semana):",
+    noAttention: "Ningún estudiante requiere atención inmediata.",
+  },
+  guardian: {
+    highlights: "Lo que va bien:",
+    homeSupport: "Formas de ayudar en casa:",
+  },
+  studentFallback: {
+    steadyProgress: "Estás avanzando de forma constante en tus clases.",
+    buildConsistency: "Sigue construyendo constancia con las tareas y los repasos.",
+    useChecklist: "Usa una lista de control y termina las tareas 24 horas antes de la fecha de entrega.",
+    prepareQuestion: "Prepara una pregunta o un comentario antes de clase y compártelo.",
+    dailyReview: "Dedica 20 minutos al día a repasar y resume tus apuntes con tus propias palabras.",
+    practiceSubjects: (subjects) => `Dedica tiempo extra a practicar ${subjects} en sesiones cortas y enfocadas.`,
+    askForFeedback: "Pide a tu docente un comentario breve sobre una tarea reciente.",
+    defaultGoal: "Elige un área de enfoque y practícala tres veces esta semana.",
+    encouragement: "Los pequeños pasos suman: sigue adelante y pide ayuda si la necesitas.",
+  },
+  guardianFallback: {
+    improving: (name) => `${name} ha avanzado bien en clase últimamente.`,
+    declining: (name) =>
+      `${name} ha tenido unas semanas más difíciles, y un poco de ánimo extra en casa le ayudaría.`,
+    stable: (name) => `${name} mantiene un ritmo constante en clase.`,
+    steadyProgress: (name) => `${name} avanza de forma constante en sus clases.`,
+    checkAssignments: "Revisen juntos las próximas tareas un día antes de la fecha de entrega.",
+    explainSubjects: (name, subjects) =>
+      `Pidan a ${name} que les explique algo que aprendió esta semana en ${subjects}.`,
+    classGoal: (goal) => `Conversen juntos sobre esta meta de la clase: ${goal}`,
+    regularRoutine: "Reserven un momento breve y regular para las tareas y la lectura.",
+    closing: "No duden en comunicarse con el docente si tienen preguntas.",
+  },
+  teacherFallback: {
+    topPerformers: (names) => `Mejores desempeños de este ciclo: ${names}.`,
+    steadyPerformance: "Varios estudiantes mantienen un desempeño constante.",
+    flaggedForCheckIns: "Señalado para seguimiento adicional según las tendencias recientes.",
+    riskReason: (factor) => describeRiskFactorEs(factor),
+    smallGroupSession: "Planificar una sesión en grupo pequeño para quienes necesitan apoyo.",
+    successStory: "Destacar un caso de éxito para reforzar la mentalidad de crecimiento.",
+    classOverview: (average) =>
+      `El promedio del grupo es ${average.toFixed(1).replace(".", ",")}. ` +
+      "Las tendencias generales son estables, con algunos estudiantes que necesitan atención adicional.",
+  },
+  analysisPhrases: {
+    "Strong overall academic performance": "Buen rendimiento académico general",
+    "Consistent class participation": "Participación constante en clase",
+    "High assignment completion rate": "Alta tasa de entrega de tareas",
+    "Recent performance trend is improving": "El rendimiento reciente va en aumento",
+    "Overall grade average needs improvement": "El promedio general necesita mejorar",
+    "Increase class participation": "Participar más en clase",
+    "Improve assignment completion rate": "Entregar más tareas a tiempo",
+    "Address recent performance decline": "Revertir la baja reciente en el rendimiento",
+  },
+  analysisPrefixes: {
+    "Reverse the recent decline in: ": "Revertir la baja reciente en: ",
+    "Focus on weaker subjects: ": "Reforzar las materias más débiles: ",
+  },
+};
+
+const CATALOGS: Record<string, MessageCatalog> = { en: EN, es: ES };
+
+/**
+ * The catalog for `locale`, following the locale chain down to English.
+ */
+export function messageCatalog(locale: string | undefined): MessageCatalog {
+  for (const candidate of localeChain(locale)) {
+    const catalog = CATALOGS[candidate];
+    if (catalog) return catalog;
+  }
+  return CATALOGS[DEFAULT_LOCALE];
+}
+
+/**
+ * Translate one analyzer strength or improvement area; unknown phrases are returned unchanged.
+ */
+export function localizeAnalysisPhrase(phrase: string, catalog: MessageCatalog): string {
+  const exact = catalog.analysisPhrases[phrase];
+  if (exact) return exact;
+  for (const [prefix, translated] of Object.entries(catalog.analysisPrefixes)) {
+    if (phrase.startsWith(prefix)) return `${translated}${phrase.slice(prefix.length)}`;
+  }
+  return phrase;
+}
+
+/**
+ * A person's message locale: their own preferred language, else the deployment default (`EMAIL_LOCALE`).
+ */
+export function preferredLocale(language: string | undefined, fallback: string): string {
+  return normalizeLocale(language || fallback);
+}
+
+/**
+ * English name of a language for prompts (`es` → "Spanish", `pt-br` → "Brazilian Portuguese").
+ *
+ * Models follow "write in Spanish" more reliably than "write in es". Unknown tags are passed through as-is.
+ */
+export function languageName(locale: string): string {
+  try {
+    return new Intl.DisplayNames(["en"], { type: "language" }).of(locale) ?? locale;
+  } catch {
+    return locale;
+  }
+}
@@ -0,0 +1,209 @@
+import type { EmailContent } from "./email.ts";
+
+/**
+ * RFC 5322 / MIME rendering of an `EmailContent`.
+ *
+ * Why this exists:
+ * - The file sink and the SMTP transport must produce the same bytes, so a saved `.eml` artifact is exactly
+ *   what a relay would have received and opens (or re-imports) in any mail client.
+ * - Messages are `multipart/alternative` (plain text first, HTML second), both parts quoted-printable, so the
+ *   whole message is 7-bit clean and needs no 8BITMIME/SMTPUTF8 support from the relay.
+ * - Non-ASCII display names and subjects (student names often have accents) become RFC 2047 encoded-words
+ *   instead of raw UTF-8 that older clients show as mojibake.
+ * - `X-Edu-*` headers carry the run/class/student ids, so any message can be traced back to its history row.
+ */
+export interface MimeOptions {
+  // Sender as configured (`Name <address>` or a bare address).
+  from: string;
+  // Full Message-ID including angle brackets (see `createMessageId`).
+  messageId: string;
+  date?: Date;
+  // Fixed boundary for reproducible output (tests); random otherwise.
+  boundary?: string;
+}
+
+const CRLF = "\r\n";
+// RFC 5322 recommends lines of at most 78 characters; QP and encoded-words have their own 76/75 limits.
+const MAX_HEADER_LINE = 78;
+const MAX_QP_LINE = 76;
+// "=?UTF-8?B?" + "?=" leaves 63 characters of base64 in a 75-character encoded-word: 45 bytes of UTF-8.
+const MAX_ENCODED_WORD_BYTES = 45;
+
+const DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+/**
+ * `Mon, 19 Oct 2026 18:46:40 +0000` (RFC 5322 section 3.3), always in UTC.
+ */
+export function formatRfc5322Date(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${DAYS[date.getUTCDay()]}, ${date.getUTCDate()} ${MONTHS[date.getUTCMonth()]} ${date.getUTCFullYear()} ` +
+    `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} +0000`;
+}
+
+/**
+ * Split `Name <address>` into its parts; a bare address has no name.
+ */
+export function parseAddress(value: string): { name?: string; address: string } {
+  const match = value.match(/^\s*(.*?)\s*<([^>]+)>\s*$/);
+  if (!match) return { address: value.trim() };
+  // Strip quotes a config value may already carry (`"Rivera, Ana" <...>`).
+  const name = match[1].replace(/^"(.*)"$/, "$1").replace(/\\(.)/g, "$1").trim();
+  return { name: name || undefined, address: match[2].trim() };
+}
+
+/**
+ * A globally unique Message-ID on the sender's domain, e.g. `<0b1c…@school.example>`.
+ */
+export function createMessageId(from: string): string {
+  const domain = parseAddress(from).address.split("@")[1] || "localhost";
+  return `<${crypto.randomUUID()}@${domain}>`;
+}
+
+function isAscii(text: string): boolean {
+  return /^[\x20-\x7e]*$/.test(text);
+}
+
+function base64(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary);
+}
+
+/**
+ * RFC 2047 encoded-words for non-ASCII header text. Words are split on character boundaries, so a
+ * multi-byte character is never cut in half.
+ */
+export function encodeHeaderText(text: string): string[] {
+  const encoder = new TextEncoder();
+  const words: string[] = [];
+  let current = "";
+  for (const char of text) {
+    if (current && encoder.encode(current + char).length > MAX_ENCODED_WORD_BYTES) {
+      words.push(`=?UTF-8?B?${base64(encoder.encode(current))}?=`);
+      current = "";
+    }
+    current += char;
+  }
+  if (current) words.push(`=?UTF-8?B?${base64(encoder.encode(current))}?=`);
+  return words;
+}
+
+/**
+ * `Display Name <address>` with the name quoted or encoded as needed.
+ */
+export function formatAddress(name: string | undefined, address: string): string {
+  name = name?.replace(/[\r\n]+/g, " ").trim();
+  if (!name) return address;
+  if (!isAscii(name)) return `${encodeHeaderText(name).join(" ")} <${address}>`;
+  // Specials (comma, period, @, …) are only allowed inside a quoted string.
+  if (/[()<>[\]:;@\\,."]/.test(name)) return `"${name.replace(/(["\\])/g, "\\$1")}" <${address}>`;
+  return `${name} <${address}>`;
+}
+
+/**
+ * Fold a header so no line exceeds 78 characters, breaking only at spaces (encoded-words are space-separated).
+ */
+function foldHeader(name: string, value: string): string {
+  const tokens = value.split(" ");
+  const lines: string[] = [];
+  let line = `${name}:`;
+  for (const token of tokens) {
+    if (line.length + 1 + token.length > MAX_HEADER_LINE && line.trim() !== `${name}:`) {
+      lines.push(line);
+      line = "";
+    }
+    line += ` ${token}`;
+  }
+  lines.push(line);
+  return lines.join(CRLF);
+}
+
+function headerText(text: string): string {
+  // Collapse newlines first: a header value must never be able to start a new header.
+  const flat = text.replace(/[\r\n]+/g, " ").trim();
+  return isAscii(flat) ? flat : encodeHeaderText(flat).join(" ");
+}
+
+/**
+ * Quoted-printable body encoding (RFC 2045 section 6.7) of UTF-8 text, with CRLF line breaks.
+ */
+export function encodeQuotedPrintable(text: string): string {
+  const encoder = new TextEncoder();
+  return text.replace(/\r\n?/g, "\n").split("\n").map((line) => {
+    let encoded = "";
+    for (const byte of encoder.encode(line)) {
+      // Printable ASCII except "=" stays as-is; everything else is =XX.
+      encoded += (byte >= 33 && byte <= 126 && byte !== 61) || byte === 32 || byte === 9
+        ? String.fromCharCode(byte)
+        : `=${byte.toString(16).toUpperCase().padStart(2, "0")}`;
+    }
+    // Trailing whitespace may be stripped in transit, so it is encoded.
+    encoded = encoded.replace(/[ \t]$/, (char) => (char === " " ? "=20" : "=09"));
+
+    // Soft line breaks ("=" at the end) keep lines within 76 characters without splitting an =XX escape.
+    const parts: string[] = [];
+    while (encoded.length > MAX_QP_LINE) {
+      let cut = MAX_QP_LINE - 1;
+      const escape = encoded.lastIndexOf("=", cut - 1);
+      if (escape > cut - 3) cut = escape;
+      parts.push(`${encoded.slice(0, cut)}=`);
+      encoded = encoded.slice(cut);
+    }
+    parts.push(encoded);
+    return parts.join(CRLF);
+  }).join(CRLF);
+}
+
+function htmlDocument(fragment: string): string {
+  return [
+    "<!DOCTYPE html>",
+    '<html><head><meta charset="utf-8"></head>',
+    `<body>${fragment.trim()}</body>`,
+    "</html>",
+  ].join("\n");
+}
+
+/**
+ * Render the full message (headers + multipart/alternative body) with CRLF line endings.
+ */
+export function buildMimeMessage(email: EmailContent, options: MimeOptions): string {
+  const from = parseAddress(options.from);
+  const boundary = options.boundary ?? `=_edu_${crypto.randomUUID().replace(/-/g, "")}`;
+  const headers = [
+    foldHeader("From", formatAddress(from.name, from.address)),
+    foldHeader("To", formatAddress(email.toName, email.to)),
+    foldHeader("Subject", headerText(email.subject)),
+    `Date: ${formatRfc5322Date(options.date ?? new Date())}`,
+    `Message-ID: ${options.messageId}`,
+    "MIME-Version: 1.0",
+  ];
+  if (email.context) {
+    // Ids go through `headerText` like the subject: a stray newline in one must not start a header of its own.
+    headers.push(
+      foldHeader("X-Edu-Run-Id", headerText(email.context.runId)),
+      foldHeader("X-Edu-Class-Id", headerText(email.context.classId)),
+    );
+    if (email.context.studentId) headers.push(foldHeader("X-Edu-Student-Id", headerText(email.context.studentId)));
+  }
+  headers.push(`Content-Type: multipart/alternative; boundary="${boundary}"`);
+
+  return [
+    ...headers,
+    "",
+    // Shown only by clients without MIME support.
+    "This is a multi-part message in MIME format.",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: quoted-printable",
+    "",
+    encodeQuotedPrintable(email.text),
+    `--${boundary}`,
+    "Content-Type: text/html; charset=utf-8",
+    "Content-Transfer-Encoding: quoted-printable",
+    "",
+    encodeQuotedPrintable(htmlDocument(email.html)),
+    `--${boundary}--`,
+    "",
+  ].join(CRLF);
+}
@@ -0,0 +1,16 @@
+/**
+ * Backoff shared by every retry loop in the agent (email delivery, model calls).
+ *
+ * Kept in its own module so the LLM layer and the email layer agree on the schedule without depending on
+ * each other.
+ */
+
+// Backoff is capped so a long retry chain can't stall a run for minutes per student.
+const MAX_RETRY_DELAY_MS = 30_000;
+
+/**
+ * Delay before retry number `attempt` (1 = first retry): base, 2×base, 4×base, … capped at 30 s.
+ */
+export function retryDelayMs(attempt: number, baseMs: number): number {
+  return Math.min(baseMs * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+}
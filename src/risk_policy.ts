@@ -0,0 +1,175 @@
+import { DEFAULT_RISK_POLICY } from "./analyzer.ts";
+import type { RiskOperator, RiskPolicy, RiskRule, RiskSignal } from "./types.ts";
+import type { Logger } from "./logger.ts";
+
+/**
+ * Risk policy loading + sanitization.
+ *
+ * Why this exists:
+ * - Each school uses different cut-offs for “needs attention” and risk levels.
+ * - The policy file is user-provided input (like `teacher_rules.json`); it may be missing, malformed, or partial.
+ * - We sanitize rule-by-rule so one bad entry doesn't disable the whole policy.
+ *
+ * How it’s used:
+ * - Loaded once at startup by the scheduler or API server.
+ * - Passed into `analyzeStudent(...)`; matched rule IDs are recorded on each `StudentAnalysis`.
+ */
+const SIGNALS: RiskSignal[] = [
+  "averageScore",
+  "participationScore",
+  "assignmentCompletionRate",
+  "subjectScore",
+  "trend",
+];
+const OPERATORS: RiskOperator[] = ["lt", "lte", "gt", "gte", "eq"];
+const TRENDS = ["improving", "stable", "declining"];
+
+function sanitizeRule(value: unknown, label: string, errors: string[]): RiskRule | undefined {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    errors.push(`${label} must be an object`);
+    return undefined;
+  }
+  const record = value as Record<string, unknown>;
+  const id = typeof record.id === "string" ? record.id.trim() : "";
+  const signal = SIGNALS.find((item) => item === record.signal);
+  const operator = OPERATORS.find((item) => item === record.operator);
+
+  if (!id) errors.push(`${label}.id must be a non-empty string`);
+  if (!signal) errors.push(`${label}.signal must be one of ${SIGNALS.join(", ")}`);
+  if (!operator) errors.push(`${label}.operator must be one of ${OPERATORS.join(", ")}`);
+  if (!id || !signal || !operator) return undefined;
+
+  // Trend rules compare labels; every other signal compares numbers.
+  let ruleValue: RiskRule["value"];
+  if (signal === "trend") {
+    if (operator !== "eq" || typeof record.value !== "string" || !TRENDS.includes(record.value)) {
+      errors.push(`${label} trend rules must use operator "eq" and a value of ${TRENDS.join(", ")}`);
+      return undefined;
+    }
+    ruleValue = record.value as RiskRule["value"];
+  } else {
+    if (typeof record.value !== "number" || !Number.isFinite(record.value)) {
+      errors.push(`${label}.value must be a finite number`);
+      return undefined;
+    }
+    ruleValue = record.value;
+  }
+
+  // Weight defaults to 1 so simple policies can omit it; negative weights would hide other signals.
+  const weight = record.weight === undefined ? 1 : record.weight;
+  if (typeof weight !== "number" || !Number.isFinite(weight) || weight < 0) {
+    errors.push(`${label}.weight must be a non-negative number`);
+    return undefined;
+  }
+
+  const subject = signal === "subjectScore" && typeof record.subject === "string" && record.subject.trim()
+    ? record.subject.trim()
+    : undefined;
+  const description = typeof record.description === "string" && record.description.trim()
+    ? record.description.trim()
+    : undefined;
+
+  return {
+    id,
+    signal,
+    operator,
+    value: ruleValue,
+    weight,
+    ...(subject ? { subject } : {}),
+    ...(description ? { description } : {}),
+  };
+}
+
+function sanitizeRules(value: unknown, label: string, errors: string[], seenIds: Set<string>): RiskRule[] | undefined {
+  // Missing lists fall back to the defaults; an explicit list is taken as-is (minus invalid entries).
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) {
+    errors.push(`${label} must be an array`);
+    return undefined;
+  }
+  const rules: RiskRule[] = [];
+  value.forEach((item, index) => {
+    const rule = sanitizeRule(item, `${label}[${index}]`, errors);
+    if (!rule) return;
+    // IDs must be unique across both lists, otherwise recorded rule IDs would be ambiguous.
+    if (seenIds.has(rule.id)) {
+      errors.push(`${label}[${index}].id "${rule.id}" is duplicated`);
+      return;
+    }
+    seenIds.add(rule.id);
+    rules.push(rule);
+  });
+  return rules;
+}
+
+/**
+ * Sanitize a parsed risk policy object. Invalid entries are dropped and reported in `errors`.
+ */
+export function sanitizeRiskPolicy(value: unknown): { policy: RiskPolicy; errors: string[] } {
+  const errors: string[] = [];
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return { policy: DEFAULT_RISK_POLICY, errors: ["Risk policy must be a JSON object"] };
+  }
+  const record = value as Record<string, unknown>;
+  const seenIds = new Set<string>();
+  const rules = sanitizeRules(record.rules, "rules", errors, seenIds) ?? DEFAULT_RISK_POLICY.rules;
+  const attentionRules = sanitizeRules(record.attentionRules, "attentionRules", errors, seenIds) ??
+    DEFAULT_RISK_POLICY.attentionRules;
+
+  // Level thresholds must be positive and ordered, otherwise “low” could never be reached.
+  const levelsRaw = (typeof record.levels === "object" && record.levels !== null
+    ? record.levels
+    : {}) as Record<string, unknown>;
+  let levels = DEFAULT_RISK_POLICY.levels;
+  if (record.levels !== undefined) {
+    const high = levelsRaw.high;
+    const medium = levelsRaw.medium;
+    if (
+      typeof high === "number" && typeof medium === "number" &&
+      Number.isFinite(high) && Number.isFinite(medium) &&
+      medium > 0 && high >= medium
+    ) {
+      levels = { high, medium };
+    } else {
+      errors.push("levels must include positive numbers with high >= medium");
+    }
+  }
+
+  return { policy: { rules, levels, attentionRules }, errors };
+}
+
+/**
+ * Load the risk policy from a JSON file, falling back to the built-in thresholds.
+ */
+export async function loadRiskPolicy(
+  path: string | undefined,
+  logger: Logger,
+): Promise<RiskPolicy> {
+  // Absent config means “use the built-in thresholds”, not an error.
+  if (!path) return DEFAULT_RISK_POLICY;
+
+  try {
+    const data = await Deno.readTextFile(path);
+    const { policy, errors } = sanitizeRiskPolicy(JSON.parse(data) as unknown);
+    if (errors.length > 0) {
+      // Partial policies are still usable; log what was dropped so the file can be fixed.
+      logger.warn("Risk policy validation warnings", { path, errors });
+    }
+    logger.info("Risk policy loaded", {
+      path,
+      rules: policy.rules.length,
+      attentionRules: policy.attentionRules.length,
+    });
+    return policy;
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      logger.warn("Risk policy file not found; using defaults", { path });
+      return DEFAULT_RISK_POLICY;
+    }
+    logger.error("Failed to load risk policy; using defaults", {
+      path,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return DEFAULT_RISK_POLICY;
+  }
+}
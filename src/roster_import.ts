@@ -0,0 +1,438 @@
+import { extname } from "@std/path";
+
+/**
+ * Student roster loading (JSON or SIS-exported CSV).
+ *
+ * Why this exists:
+ * - Grade exports usually come out of the SIS as CSV, while the pipeline expects `Student`-shaped records.
+ * - CSV layouts differ between schools: “wide” (one column per subject) and “long” (one row per grade).
+ * - Validation stays in `validateStudents(...)`; this module only reshapes cells into records and remembers
+ *   where every field came from, so validation errors can point at the exact row/column in the CSV.
+ *
+ * How it’s used:
+ * - `loadStudentPayload(...)` replaces the plain `JSON.parse(readTextFile(...))` in the entry points.
+ * - `.csv` paths are converted with the optional column mapping (`STUDENTS_CSV_MAPPING_PATH`); anything
+ *   else is parsed as JSON exactly like before.
+ */
+export type CsvLayout = "wide" | "long";
+
+// Student fields that map to a single CSV column.
+type StudentField =
+  | "id"
+  | "name"
+  | "email"
+  | "participationScore"
+  | "assignmentCompletionRate"
+  | "teacherNotes"
+  | "performanceTrend"
+  | "lastAssessmentDate";
+
+// Long layout only: the per-row grade columns.
+type GradeField = "subject" | "score" | "date";
+
+export interface CsvColumnMapping {
+  // Omit to auto-detect: “long” when both subject and score columns exist, otherwise “wide”.
+  layout?: CsvLayout;
+  // Field → CSV header. Unmapped fields default to a header with the same name (case-insensitive).
+  columns?: Partial<Record<StudentField | GradeField, string>>;
+  // Wide layout only: CSV header → subject label. Defaults to every column not used by `columns`.
+  subjects?: Record<string, string>;
+}
+
+// Turns a `validateStudents` error for record `index` into a message that points at the source.
+export type ErrorLocator = (index: number, error: string) => string;
+
+export interface StudentPayload {
+  // Raw records, still untrusted; always run them through `validateStudents(...)`.
+  data: unknown;
+  // Present for CSV input so validation errors reference rows/columns instead of array indexes.
+  locate?: ErrorLocator;
+}
+
+const STUDENT_FIELDS: StudentField[] = [
+  "id",
+  "name",
+  "email",
+  "participationScore",
+  "assignmentCompletionRate",
+  "teacherNotes",
+  "performanceTrend",
+  "lastAssessmentDate",
+];
+const GRADE_FIELDS: GradeField[] = ["subject", "score", "date"];
+const NUMERIC_FIELDS = new Set<string>(["participationScore", "assignmentCompletionRate"]);
+
+// Where one record's fields live in the CSV (rows are the 1-based lines they start on; 0-based column indexes).
+interface RecordSource {
+  row: number;
+  columns: Partial<Record<StudentField, number>>;
+  // grades[k] / assessments[k] → the row and columns they were read from.
+  grades: ItemSource[];
+  assessments: ItemSource[];
+}
+
+interface ItemSource {
+  row: number;
+  subjectColumn: number;
+  scoreColumn: number;
+  // Only set for assessments (long layout with a date column).
+  dateColumn?: number;
+}
+
+// One CSV record and the physical (1-based) line it starts on; a quoted newline makes a record span lines.
+export interface CsvRow {
+  line: number;
+  cells: string[];
+}
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, escaped quotes, CRLF or LF line endings).
+ *
+ * Rows keep the line they start on, so errors still point at the right line after blank lines or multi-line cells.
+ */
+export function parseCsv(text: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+  // Spreadsheet exports often start with a UTF-8 BOM, which would otherwise corrupt the first header.
+  const input = text.startsWith("\uFEFF") ? text.slice(1) : text;
+
+  for (let index = 0; index < input.length; index += 1) {
+    const char = input[index];
+    if (quoted) {
+      if (char === '"' && input[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        // A CRLF inside a quoted cell is one line break, counted at its "\n".
+        if (char === "\n" || (char === "\r" && input[index + 1] !== "\n")) line += 1;
+        field += char;
+      }
+      continue;
+    }
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[index + 1] === "\n") index += 1;
+      row.push(field);
+      rows.push({ line: rowLine, cells: row });
+      row = [];
+      field = "";
+      line += 1;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push({ line: rowLine, cells: row });
+  }
+  // Blank lines (typically a trailing newline) carry no data.
+  return rows.filter((entry) => entry.cells.some((cell) => cell.trim() !== ""));
+}
+
+function columnLetter(index: number): string {
+  // Spreadsheet-style column names (A, B, …, Z, AA, …) so errors match what teachers see.
+  let letters = "";
+  let remaining = index + 1;
+  while (remaining > 0) {
+    const offset = (remaining - 1) % 26;
+    letters = String.fromCharCode(65 + offset) + letters;
+    remaining = Math.floor((remaining - 1) / 26);
+  }
+  return letters;
+}
+
+function toNumber(value: string): number | string | undefined {
+  // Leave unparseable cells as strings so the validator reports them against the right column.
+  const trimmed = value.trim().replace(/%$/, "");
+  if (trimmed === "") return undefined;
+  const parsed = Number(trimmed);
+  return Number.isFinite(parsed) ? parsed : value;
+}
+
+function toCellValue(field: StudentField, value: string | undefined): unknown {
+  if (value === undefined) return undefined;
+  if (NUMERIC_FIELDS.has(field)) return toNumber(value);
+  if (field === "performanceTrend") return value.trim().toLowerCase();
+  if (field === "teacherNotes") return value.trim();
+  // Empty identity cells become “missing” so the validator's message is the usual one.
+  return value.trim() === "" ? undefined : value.trim();
+}
+
+/**
+ * Sanitize a parsed column mapping. Throws with every problem listed, since a bad mapping breaks the whole import.
+ */
+export function sanitizeCsvMapping(value: unknown): CsvColumnMapping {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error("CSV column mapping must be a JSON object");
+  }
+  const record = value as Record<string, unknown>;
+  const errors: string[] = [];
+  const mapping: CsvColumnMapping = {};
+
+  if (record.layout !== undefined) {
+    if (record.layout === "wide" || record.layout === "long") {
+      mapping.layout = record.layout;
+    } else {
+      errors.push('layout must be "wide" or "long"');
+    }
+  }
+
+  if (record.columns !== undefined) {
+    if (typeof record.columns !== "object" || record.columns === null || Array.isArray(record.columns)) {
+      errors.push("columns must be an object of field → header");
+    } else {
+      const columns: CsvColumnMapping["columns"] = {};
+      for (const [field, header] of Object.entries(record.columns as Record<string, unknown>)) {
+        const known = [...STUDENT_FIELDS, ...GRADE_FIELDS].find((item) => item === field);
+        if (!known) {
+          errors.push(`columns.${field} is not a known field`);
+        } else if (typeof header !== "string" || !header.trim()) {
+          errors.push(`columns.${field} must be a non-empty header name`);
+        } else {
+          columns[known] = header.trim();
+        }
+      }
+      mapping.columns = columns;
+    }
+  }
+
+  if (record.subjects !== undefined) {
+    // Accept a plain list of headers (subject = header) or an explicit header → subject map.
+    const subjects: Record<string, string> = {};
+    if (Array.isArray(record.subjects)) {
+      record.subjects.forEach((header, index) => {
+        if (typeof header === "string" && header.trim()) {
+          subjects[header.trim()] = header.trim();
+        } else {
+          errors.push(`subjects[${index}] must be a non-empty header name`);
+        }
+      });
+    } else if (typeof record.subjects === "object" && record.subjects !== null) {
+      for (const [header, subject] of Object.entries(record.subjects as Record<string, unknown>)) {
+        if (typeof subject === "string" && subject.trim()) {
+          subjects[header.trim()] = subject.trim();
+        } else {
+          errors.push(`subjects.${header} must be a non-empty subject name`);
+        }
+      }
+    } else {
+      errors.push("subjects must be an array of headers or an object of header → subject");
+    }
+    mapping.subjects = subjects;
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid CSV column mapping: ${errors.join("; ")}`);
+  }
+  return mapping;
+}
+
+function buildLocator(sources: RecordSource[], headers: string[]): ErrorLocator {
+  const describe = (row: number, column: number | undefined) =>
+    column === undefined ? `row ${row}` : `row ${row}, column ${columnLetter(column)} (${headers[column]})`;
+
+  return (index, error) => {
+    const source = sources[index];
+    if (!source) return `students[${index}]: ${error}`;
+    // Validator messages start with the field path, e.g. “grades[2].score must be …”.
+    const match = /^(\w+)(?:\[(\d+)\](?:\.(\w+))?)?/.exec(error);
+    const field = match?.[1];
+    const itemIndex = match?.[2] === undefined ? undefined : Number(match[2]);
+    const subField = match?.[3];
+
+    if ((field === "grades" || field === "assessments") && itemIndex !== undefined) {
+      const item = field === "grades" ? source.grades[itemIndex] : source.assessments[itemIndex];
+      if (item) {
+        const column = subField === "subject"
+          ? item.subjectColumn
+          : subField === "date"
+          ? item.dateColumn ?? item.scoreColumn
+          : item.scoreColumn;
+        return `${describe(item.row, column)}: ${error}`;
+      }
+    }
+    const column = field ? source.columns[field as StudentField] : undefined;
+    return `${describe(source.row, column)}: ${error}`;
+  };
+}
+
+/**
+ * Convert CSV text into raw student records plus a row/column-aware error locator.
+ */
+export function csvToStudentRecords(text: string, mapping: CsvColumnMapping = {}): Required<StudentPayload> {
+  const rows = parseCsv(text);
+  if (rows.length === 0) {
+    throw new Error("CSV roster is empty (expected a header row)");
+  }
+  const headers = rows[0].cells.map((header) => header.trim());
+  const headerIndex = new Map(headers.map((header, index) => [header.toLowerCase(), index]));
+
+  // Resolve each field to a column index; explicitly mapped headers must exist.
+  const resolve = (field: StudentField | GradeField): number | undefined => {
+    const mapped = mapping.columns?.[field];
+    const index = headerIndex.get((mapped ?? field).toLowerCase());
+    if (mapped && index === undefined) {
+      throw new Error(`CSV column "${mapped}" (mapped to ${field}) was not found in the header row`);
+    }
+    return index;
+  };
+  const fieldColumns: Partial<Record<StudentField, number>> = {};
+  for (const field of STUDENT_FIELDS) {
+    const index = resolve(field);
+    if (index !== undefined) fieldColumns[field] = index;
+  }
+  if (fieldColumns.id === undefined) {
+    throw new Error(`CSV roster needs a student id column (header "${mapping.columns?.id ?? "id"}")`);
+  }
+  const subjectColumn = resolve("subject");
+  const scoreColumn = resolve("score");
+  const dateColumn = resolve("date");
+
+  const layout = mapping.layout ??
+    (subjectColumn !== undefined && scoreColumn !== undefined ? "long" : "wide");
+  // Rows are numbered by the line they start on, which is what a teacher sees in an editor.
+  const dataRows = rows.slice(1).map(({ cells, line }) => ({ cells, row: line }));
+
+  // Identity/metric fields are read the same way in both layouts.
+  const readFields = (cells: string[]) => {
+    const record: Record<string, unknown> = {};
+    for (const field of STUDENT_FIELDS) {
+      const column = fieldColumns[field];
+      const value = column === undefined ? undefined : toCellValue(field, cells[column]);
+      if (value !== undefined) record[field] = value;
+    }
+    return record;
+  };
+
+  const records: Record<string, unknown>[] = [];
+  const sources: RecordSource[] = [];
+
+  if (layout === "wide") {
+    // Subject columns are either listed in the mapping or “everything that isn't a student field”.
+    const usedColumns = new Set(Object.values(fieldColumns));
+    const subjectColumns = mapping.subjects
+      ? Object.entries(mapping.subjects).map(([header, subject]) => {
+        const index = headerIndex.get(header.toLowerCase());
+        if (index === undefined) {
+          throw new Error(`CSV subject column "${header}" was not found in the header row`);
+        }
+        return { index, subject };
+      })
+      : headers
+        .map((header, index) => ({ index, subject: header }))
+        .filter((column) => !usedColumns.has(column.index) && column.subject !== "");
+
+    for (const { cells, row } of dataRows) {
+      const record = readFields(cells);
+      const source: RecordSource = { row, columns: fieldColumns, grades: [], assessments: [] };
+      // Blank subject cells mean “not taken”, not a zero score.
+      const grades = subjectColumns
+        .filter((column) => (cells[column.index] ?? "").trim() !== "")
+        .map((column) => {
+          source.grades.push({ row, subjectColumn: column.index, scoreColumn: column.index });
+          return { subject: column.subject, score: toNumber(cells[column.index]) };
+        });
+      record.grades = grades;
+      records.push(record);
+      sources.push(source);
+    }
+  } else {
+    if (subjectColumn === undefined || scoreColumn === undefined) {
+      throw new Error("Long CSV layout needs subject and score columns");
+    }
+    // Group rows by student id, keeping first-seen order; identity fields come from the first row.
+    const byId = new Map<string, {
+      record: Record<string, unknown>;
+      source: RecordSource;
+      // Subject (lowercase) → index into `grades` plus the date that grade was taken.
+      latest: Map<string, { gradeIndex: number; timestamp: number }>;
+    }>();
+    for (const { cells, row } of dataRows) {
+      const id = (cells[fieldColumns.id] ?? "").trim();
+      // Rows without an id can't be grouped; each becomes its own (invalid) record.
+      const key = id === "" ? `#${row}` : id;
+      let entry = byId.get(key);
+      if (!entry) {
+        entry = {
+          record: { ...readFields(cells), grades: [] },
+          source: { row, columns: { ...fieldColumns }, grades: [], assessments: [] },
+          latest: new Map(),
+        };
+        byId.set(key, entry);
+      }
+      const grades = entry.record.grades as Array<Record<string, unknown>>;
+      const subject = (cells[subjectColumn] ?? "").trim();
+      const score = toNumber(cells[scoreColumn] ?? "");
+      const date = dateColumn === undefined ? "" : (cells[dateColumn] ?? "").trim();
+      const timestamp = Date.parse(date);
+
+      if (dateColumn !== undefined && date !== "") {
+        // Dated rows also become assessment history for trend computation.
+        const assessments = (entry.record.assessments ??= []) as Array<Record<string, unknown>>;
+        assessments.push({ subject, score, date });
+        entry.source.assessments.push({ row, subjectColumn, scoreColumn, dateColumn });
+        // Without an explicit column, the newest assessment date is the best “last assessed” value.
+        const current = Date.parse(String(entry.record.lastAssessmentDate ?? ""));
+        if (fieldColumns.lastAssessmentDate === undefined && (Number.isNaN(current) || timestamp > current)) {
+          entry.record.lastAssessmentDate = date;
+          entry.source.columns.lastAssessmentDate = dateColumn;
+        }
+      }
+
+      // The newest dated score per subject is the current grade; undated rows are all kept as listed.
+      const previous = entry.latest.get(subject.toLowerCase());
+      if (previous && !Number.isNaN(timestamp)) {
+        if (timestamp >= previous.timestamp) {
+          grades[previous.gradeIndex] = { subject, score };
+          entry.source.grades[previous.gradeIndex] = { row, subjectColumn, scoreColumn };
+          previous.timestamp = timestamp;
+        }
+        continue;
+      }
+      if (!Number.isNaN(timestamp)) {
+        entry.latest.set(subject.toLowerCase(), { gradeIndex: grades.length, timestamp });
+      }
+      grades.push({ subject, score });
+      entry.source.grades.push({ row, subjectColumn, scoreColumn });
+    }
+    for (const { record, source } of byId.values()) {
+      records.push(record);
+      sources.push(source);
+    }
+  }
+
+  return { data: records, locate: buildLocator(sources, headers) };
+}
+
+/**
+ * Load a column mapping file for CSV rosters.
+ */
+export async function loadCsvMapping(path: string | undefined): Promise<CsvColumnMapping> {
+  // No mapping means “headers already use the Student field names”.
+  if (!path) return {};
+  const data = await Deno.readTextFile(path);
+  return sanitizeCsvMapping(JSON.parse(data) as unknown);
+}
+
+/**
+ * Read the student roster from JSON or CSV (chosen by file extension).
+ */
+export async function loadStudentPayload(path: string, csvMappingPath?: string): Promise<StudentPayload> {
+  const text = await Deno.readTextFile(path);
+  if (extname(path).toLowerCase() === ".csv") {
+    return csvToStudentRecords(text, await loadCsvMapping(csvMappingPath));
+  }
+  // Returning unknown keeps validation strict and centralizes trust decisions.
+  return { data: JSON.parse(text) as unknown };
+}
@@ -10,7 +10,7 @@ import type { Logger } from "./logger.ts";
  * - We sanitize aggressively so prompts don’t get junky data (empty strings, wrong types, etc).
  *
  * How it’s used:
- * - Loaded once at startup by the scheduler or API server.
+ * - Loaded once at startup by the scheduler or API server (the API server also reloads it when the file changes).
  * - Passed into chat and insight-generation prompts (and fallback selection) to keep guidance aligned.
  */
 function sanitizeStringArray(value: unknown): string[] | undefined {
@@ -32,6 +32,56 @@ function parseTone(value: unknown): TeacherPreferences["tone"] | undefined {
   return undefined;
 }
 
+/**
+ * Validate a parsed teacher rules object.
+ *
+ * The returned `rules` are always sanitized (so the startup path can stay lenient); `errors` lists every field
+ * that had the wrong type, which hot reload uses to reject a bad edit and keep the last good copy.
+ */
+export function validateTeacherRules(value: unknown): { rules?: TeacherPreferences; errors: string[] } {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return { errors: ["Teacher rules must be a JSON object"] };
+  }
+  const parsed = value as Record<string, unknown>;
+  const errors: string[] = [];
+  for (const key of ["classGoals", "focusAreas", "preferredStrategies"]) {
+    const field = parsed[key];
+    if (field !== undefined && (!Array.isArray(field) || field.some((item) => typeof item !== "string"))) {
+      errors.push(`${key} must be an array of strings`);
+    }
+  }
+  if (parsed.tone !== undefined && parseTone(parsed.tone) === undefined) {
+    errors.push("tone must be warm, neutral, or direct");
+  }
+  if (parsed.teacherNotes !== undefined && typeof parsed.teacherNotes !== "string") {
+    errors.push("teacherNotes must be a string");
+  }
+
+  // Build the typed preferences object using sanitizers. This avoids undefined behavior later.
+  const rules: TeacherPreferences = {
+    classGoals: sanitizeStringArray(parsed.classGoals),
+    focusAreas: sanitizeStringArray(parsed.focusAreas),
+    preferredStrategies: sanitizeStringArray(parsed.preferredStrategies),
+    tone: parseTone(parsed.tone),
+    teacherNotes: typeof parsed.teacherNotes === "string" ? parsed.teacherNotes.trim() : undefined,
+  };
+  return { rules, errors };
+}
+
+/**
+ * Read and validate a teacher rules file. Read and JSON errors are reported in `errors` instead of thrown.
+ */
+export async function readTeacherRules(
+  path: string,
+): Promise<{ rules?: TeacherPreferences; errors: string[] }> {
+  try {
+    const data = await Deno.readTextFile(path);
+    return validateTeacherRules(JSON.parse(data) as unknown);
+  } catch (error) {
+    return { errors: [error instanceof Error ? error.message : String(error)] };
+  }
+}
+
 /**
  * Load teacher preference rules from a JSON file.
  */
@@ -45,21 +95,16 @@ export async function loadTeacherRules(
   try {
     // Read/parse is deliberately wrapped so missing files or parse errors don’t crash the service.
     const data = await Deno.readTextFile(path);
-    const parsed = JSON.parse(data) as Record<string, unknown>;
+    const { rules, errors } = validateTeacherRules(JSON.parse(data) as unknown);
 
-    if (typeof parsed !== "object" || parsed === null) {
+    if (!rules) {
       logger.warn("Teacher rules file must be a JSON object", { path });
       return undefined;
     }
-
-    // Build the typed preferences object using sanitizers. This avoids undefined behavior later.
-    const rules: TeacherPreferences = {
-      classGoals: sanitizeStringArray(parsed.classGoals),
-      focusAreas: sanitizeStringArray(parsed.focusAreas),
-      preferredStrategies: sanitizeStringArray(parsed.preferredStrategies),
-      tone: parseTone(parsed.tone),
-      teacherNotes: typeof parsed.teacherNotes === "string" ? parsed.teacherNotes.trim() : undefined,
-    };
+    if (errors.length > 0) {
+      // Invalid fields are dropped by the sanitizers; the rest of the preferences still apply.
+      logger.warn("Teacher rules validation warnings", { path, errors });
+    }
 
     logger.info("Teacher rules loaded", { path });
     return rules;
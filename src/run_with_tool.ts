@@ -1,22 +1,37 @@
 import { load } from "@std/dotenv";
 import { validateStudentsTool } from "./tools/validate_students_tool.ts";
 import { validateStudents } from "./validator.ts";
+import { loadRoster } from "./student_roster.ts";
+import { loadClasses, resolveClass } from "./classes.ts";
 import { analyzeStudent, buildTeacherSummary } from "./analyzer.ts";
 import { createAgentWithMemory } from "./agent_with_memory.ts";
 import {
+  buildFallbackGuardianInsights,
   buildFallbackStudentInsights,
   buildFallbackTeacherInsights,
-  parseStudentInsights,
-  parseTeacherInsights,
+  insightFallbackRate,
   renderStudentMessage,
-  renderTeacherMessage,
+  tallyInsights,
 } from "./insights.ts";
-import { buildStudentEmail, buildTeacherEmail, sendEmail } from "./email.ts";
-import { createLogger } from "./logger.ts";
+import {
+  buildGuardianEmail,
+  buildStudentEmail,
+  buildTeacherEmail,
+  type EmailContent,
+  type EmailDelivery,
+  loadEmailTransportConfig,
+  sendEmail,
+} from "./email.ts";
+import { loadLlmConfig } from "./llm_provider.ts";
+import { DEFAULT_LOCALE, localeChain, normalizeLocale } from "./email_templates.ts";
+import { preferredLocale } from "./message_catalog.ts";
+import { createLogger, type Logger } from "./logger.ts";
 import { loadTeacherRules } from "./rules.ts";
-import { HistoryStore } from "./storage.ts";
+import { loadRiskPolicy } from "./risk_policy.ts";
+import { type GuardianMessageRecord, HistoryStore } from "./storage.ts";
 import {
   loadStudentMemory,
+  type StudentMemory,
   loadTeacherMemory,
   saveStudentMemory,
   saveStudentMemoryArchive,
@@ -25,22 +40,36 @@ import {
   updateStudentMemory,
   updateTeacherMemory,
 } from "./memory_store.ts";
-import type { AppConfig, Student } from "./types.ts";
+import type {
+  AppConfig,
+  ClassConfig,
+  Guardian,
+  GuardianNote,
+  InsightStats,
+  Student,
+  StudentAnalysis,
+  StudentInsights,
+  TeacherPreferences,
+} from "./types.ts";
+import { DEFAULT_STUDENT_CONCURRENCY, runWorkerPool } from "./worker_pool.ts";
 
 /**
  * Scheduled analysis pipeline (tool-first + memory-aware).
  *
  * What it does:
  * - Loads config from env
- * - Loads raw student JSON
+ * - Loads one class's roster (every class runs the same pipeline on its own schedule)
  * - Runs a LangChain “tool” validation call (for demonstrable tool-first workflows)
  * - Runs the native validator to filter valid students
  * - Computes deterministic analyses (pure logic)
+ * - Works on several students at once (`runWorkerPool`) and records them in roster order
  * - Calls the memory-aware LLM agent to produce structured JSON insights
  * - Validates LLM JSON; uses deterministic fallback if invalid
- * - Renders human-readable messages and writes local “email” artifacts
+ * - Renders human-readable messages and stores them as drafts for teacher review (or, with review off,
+ *   sends the emails through the configured transport and updates student memory right away)
+ * - Writes a family-facing note for guardians who opted in, sent with the student's message (or on approval)
  * - Persists an audit trail to SQLite
- * - Updates memory files and writes immutable per-run memory archives
+ * - Updates teacher memory and writes immutable per-run memory archives
  *
  * Why “tool-first”:
  * - In agentic systems, tools provide a structured, auditable step before an LLM acts on data.
@@ -64,58 +93,65 @@ export async function loadConfig(): Promise<ToolConfig> {
     }
   }
 
-  // LLM configuration (required to generate insights).
-  const openAiApiKey = requireEnv("OPENAI_API_KEY");
-  const openAiModel = Deno.env.get("OPENAI_MODEL") ?? "gpt-4";
-  const openAiBaseUrl = Deno.env.get("OPENAI_BASE_URL") ?? undefined;
+  // Provider, model, and credentials; throws when the selected provider is missing its key.
+  const llm = loadLlmConfig();
   const openAiPriceInputPer1K = parseOptionalNumber(Deno.env.get("OPENAI_PRICE_INPUT_PER_1K"));
   const openAiPriceOutputPer1K = parseOptionalNumber(Deno.env.get("OPENAI_PRICE_OUTPUT_PER_1K"));
-  // Email simulation configuration (local only).
+  // Email configuration (sender, teacher recipient, file sink, transport).
   const emailFrom = Deno.env.get("EMAIL_FROM") ?? "Edu Assistant <noreply@local>";
   const teacherEmail = Deno.env.get("TEACHER_EMAIL") ?? "teacher@example.com";
   const emailOutDir = Deno.env.get("EMAIL_OUT_DIR") ?? undefined;
+  // Transport (file sink or SMTP) and retry policy; throws on a half-configured SMTP relay.
+  const emailTransportConfig = loadEmailTransportConfig();
+  // Template overrides (`<template>.<locale>.json`) and the locale used to pick them.
+  const emailTemplatesDir = Deno.env.get("EMAIL_TEMPLATES_DIR") || undefined;
+  const emailLocale = normalizeLocale(Deno.env.get("EMAIL_LOCALE") || DEFAULT_LOCALE);
   // History + personalization inputs.
   const historyDbPath = Deno.env.get("HISTORY_DB_PATH") ?? "data/history.db";
   const teacherRulesPath = Deno.env.get("TEACHER_RULES_PATH") ?? undefined;
+  const riskPolicyPath = Deno.env.get("RISK_POLICY_PATH") ?? undefined;
   // Data input and scheduling config.
   const studentsJsonPath = Deno.env.get("STUDENTS_JSON_PATH") ?? "students.json";
+  const studentsCsvMappingPath = Deno.env.get("STUDENTS_CSV_MAPPING_PATH") ?? undefined;
+  const classesPath = Deno.env.get("CLASSES_PATH") || undefined;
   const scheduleCron = Deno.env.get("SCHEDULE_CRON") ?? undefined;
   const scheduleIntervalMin = parseNumber(Deno.env.get("SCHEDULE_INTERVAL_MIN"), 30);
+  // Students processed in parallel per run; model rate limits are part of `llm`.
+  const studentConcurrency = parseNumber(Deno.env.get("STUDENT_CONCURRENCY"), DEFAULT_STUDENT_CONCURRENCY);
   const logLevel = (Deno.env.get("LOG_LEVEL") ?? "info") as AppConfig["logLevel"];
   // Memory settings for tool-first mode.
   const memoryDir = Deno.env.get("MEMORY_DIR") ?? "memory";
   const memoryHistoryLimit = parseNumber(Deno.env.get("MEMORY_HISTORY_LIMIT"), 5);
+  // Review is on unless explicitly disabled: nothing reaches students without a teacher seeing it first.
+  const reviewStudentMessages = (Deno.env.get("REVIEW_STUDENT_MESSAGES") ?? "true").toLowerCase() !== "false";
 
   // Return a fully-populated config so the run loop can stay pure.
   return {
-    openAiApiKey,
-    openAiModel,
-    openAiBaseUrl,
+    llm,
     openAiPriceInputPer1K,
     openAiPriceOutputPer1K,
     emailFrom,
     teacherEmail,
     emailOutDir,
+    ...emailTransportConfig,
+    emailTemplatesDir,
+    emailLocale,
     historyDbPath,
     teacherRulesPath,
+    riskPolicyPath,
+    studentConcurrency,
     scheduleCron,
     scheduleIntervalMin,
     studentsJsonPath,
+    studentsCsvMappingPath,
+    classesPath,
     logLevel,
     memoryDir,
     memoryHistoryLimit,
+    reviewStudentMessages,
   };
 }
 
-function requireEnv(key: string): string {
-  // Ensure required config is present before the run starts.
-  const value = Deno.env.get(key);
-  if (!value) {
-    throw new Error(`Missing required environment variable: ${key}`);
-  }
-  return value;
-}
-
 function parseNumber(value: string | undefined, fallback: number): number {
   // Helper to make env parsing predictable and defensive.
   if (!value) return fallback;
@@ -135,22 +171,282 @@ function parseOptionalNumber(value: string | undefined): number | undefined {
   return parsed;
 }
 
-async function loadStudentsRaw(path: string): Promise<unknown> {
-  // Load the raw JSON so the validator tool sees the original structure.
-  const data = await Deno.readTextFile(path);
-  // Returning unknown keeps validation strict and centralizes trust decisions.
-  return JSON.parse(data) as unknown;
+/**
+ * Options for a single pipeline run.
+ */
+export interface RunOptions {
+  // Class to analyze; may be omitted when only one class is configured.
+  classId?: string;
+  // "all" analyzes the full roster; "student" refreshes one student and skips the teacher summary.
+  scope?: "all" | "student";
+  // Required when scope is "student"; matches `Student.id`.
+  studentId?: string;
+  // Compute analyses + insights and return rendered messages without writing emails, history, or memory.
+  dryRun?: boolean;
+  // Pre-assigned run id (e.g. from the API job queue); generated when omitted.
+  runId?: string;
+}
+
+// Rendered guardian note for one opted-in guardian, collected only during dry runs.
+export interface GuardianMessagePreview {
+  guardianName: string;
+  language: string;
+  usedFallback: boolean;
+  subject: string;
+  text: string;
 }
 
-export async function runOnce(config: ToolConfig, store: HistoryStore): Promise<string> {
+// Rendered output for one student, collected only during dry runs.
+export interface StudentMessagePreview {
+  studentId: string;
+  status: "rendered" | "analysis_failed" | "insights_failed";
+  usedFallback: boolean;
+  subject?: string;
+  text?: string;
+  // One entry per opted-in guardian; omitted when none opted in.
+  guardians?: GuardianMessagePreview[];
+  error?: string;
+}
+
+// Rendered output for the teacher summary, collected only during dry runs.
+export interface TeacherMessagePreview {
+  status: "rendered" | "summary_failed";
+  usedFallback: boolean;
+  subject?: string;
+  text?: string;
+  error?: string;
+}
+
+export interface RunPreview {
+  students: StudentMessagePreview[];
+  teacher?: TeacherMessagePreview;
+}
+
+export interface RunResult {
+  runId: string;
+  // Final run status, matching the `runs.status` column (dry runs use the same values).
+  status: string;
+  // How model-written insights turned out; omitted when the run stopped before generating any.
+  insights?: InsightStats;
+  // Only present for dry runs.
+  preview?: RunPreview;
+}
+
+/**
+ * Email a student's insights and fold them into the student's memory (plus a per-run archive).
+ *
+ * Used directly by runs when review is off, and by the API when a teacher approves a draft, so an approved
+ * draft has exactly the same effects as an unreviewed message. Memory only changes when the email was
+ * delivered: it records what the student was told, and an undelivered message told them nothing.
+ */
+export async function deliverStudentMessage(
+  config: ToolConfig,
+  classId: string,
+  runId: string,
+  student: Student,
+  insights: StudentInsights,
+  logger: Logger,
+): Promise<{ subject: string; delivery: EmailDelivery }> {
+  // Uses the class's current templates, so an approved draft gets the wording in effect at approval time.
+  const email = buildStudentEmail(student, insights, { runId, classId }, {
+    templates: resolveClass(config, classId).emailTemplates,
+    locale: config.emailLocale,
+  });
+  // Retries happen inside; a failure comes back as a result, not an exception.
+  const delivery = await sendEmail(config, email, logger);
+  if (delivery.status === "failed") {
+    return { subject: email.subject, delivery };
+  }
+
+  // Memory is re-read here because drafts can be approved long after the run that produced them.
+  const studentMemory = await loadStudentMemory(config.memoryDir, classId, student.id, logger);
+  const updatedMemory = updateStudentMemory(studentMemory, student, insights, config.memoryHistoryLimit);
+  // Persist updated memory only after a successful insights flow.
+  await saveStudentMemory(config.memoryDir, classId, updatedMemory, logger);
+  await saveStudentMemoryArchive(
+    config.memoryDir,
+    classId,
+    {
+      runId,
+      studentId: student.id,
+      createdAt: new Date().toISOString(),
+      summary: updatedMemory.summary,
+      strengths: updatedMemory.strengths,
+      improvementAreas: updatedMemory.improvementAreas,
+      goals: updatedMemory.goals,
+    },
+    logger,
+  );
+  return { subject: email.subject, delivery };
+}
+
+function optedInGuardians(student: Student): Guardian[] {
+  return student.guardians?.filter((guardian) => guardian.optIn) ?? [];
+}
+
+function guardianLanguage(config: ToolConfig, guardian: Guardian): string {
+  return preferredLocale(guardian.language, config.emailLocale);
+}
+
+/**
+ * Generate one guardian note per language the student's opted-in guardians read. Never throws: a model error
+ * or invalid output falls back to the deterministic note, so an opted-in family is never silently skipped.
+ */
+async function generateGuardianNotes(
+  config: ToolConfig,
+  agent: ReturnType<typeof createAgentWithMemory>,
+  analysis: StudentAnalysis,
+  memory: StudentMemory | undefined,
+  preferences: TeacherPreferences | undefined,
+  stats: InsightStats,
+  logger: Logger,
+): Promise<GuardianNote[]> {
+  const languages = new Set(optedInGuardians(analysis.student).map((guardian) => guardianLanguage(config, guardian)));
+  const notes: GuardianNote[] = [];
+  for (const language of languages) {
+    let result: Awaited<ReturnType<typeof agent.generateGuardianInsights>>;
+    try {
+      result = await agent.generateGuardianInsights(analysis, language, memory);
+    } catch (error) {
+      result = { ok: false, reason: "model_error", errors: [error instanceof Error ? error.message : String(error)] };
+    }
+    tallyInsights(stats, result);
+    if (result.ok) {
+      notes.push({ language, insights: result.value, usedFallback: false });
+      continue;
+    }
+    logger.warn("Guardian insights unavailable; using fallback", {
+      studentId: analysis.student.id,
+      language,
+      reason: result.reason,
+      errors: result.errors,
+    });
+    const insights = buildFallbackGuardianInsights(analysis, preferences, language);
+    notes.push({ language, insights, usedFallback: true });
+  }
+  return notes;
+}
+
+/**
+ * Email each opted-in guardian the note in their language and record one `guardian_messages` row per guardian.
+ *
+ * Runs after a delivered student message (directly, or when a teacher approves the draft). Guardians are read
+ * from the current student record, so a family that opted out after the run is not emailed.
+ */
+export async function deliverGuardianNotes(
+  config: ToolConfig,
+  store: HistoryStore,
+  classId: string,
+  runId: string,
+  student: Student,
+  notes: GuardianNote[],
+  logger: Logger,
+) {
+  const records = await sendGuardianNotes(config, classId, runId, student, notes, logger);
+  records.forEach((record) => store.recordGuardianMessage(record));
+}
+
+// The sending half of `deliverGuardianNotes`; runs record the rows later, in roster order.
+/**
+ * Render the note email for each opted-in guardian, in the guardian's language. Shared by delivery and dry runs,
+ * so a preview shows exactly what would be sent.
+ */
+function renderGuardianEmails(
+  config: ToolConfig,
+  classId: string,
+  runId: string,
+  student: Student,
+  notes: GuardianNote[],
+  logger: Logger,
+): { guardian: Guardian; note: GuardianNote; email: EmailContent }[] {
+  const rendered: { guardian: Guardian; note: GuardianNote; email: EmailContent }[] = [];
+  const templates = resolveClass(config, classId).emailTemplates;
+  for (const guardian of optedInGuardians(student)) {
+    // `es-mx` can use an `es` note; a guardian added since the run has no matching note until the next one.
+    const chain = localeChain(guardianLanguage(config, guardian));
+    const note = chain.map((language) => notes.find((entry) => entry.language === language)).find(Boolean);
+    if (!note) {
+      logger.warn("No guardian note for this guardian's language; skipping", {
+        studentId: student.id,
+        language: guardianLanguage(config, guardian),
+      });
+      continue;
+    }
+    const email = buildGuardianEmail(guardian, student, note.insights, { runId, classId }, {
+      templates,
+      locale: note.language,
+    });
+    rendered.push({ guardian, note, email });
+  }
+  return rendered;
+}
+
+async function sendGuardianNotes(
+  config: ToolConfig,
+  classId: string,
+  runId: string,
+  student: Student,
+  notes: GuardianNote[],
+  logger: Logger,
+): Promise<GuardianMessageRecord[]> {
+  const records: GuardianMessageRecord[] = [];
+  for (const { guardian, note, email } of renderGuardianEmails(config, classId, runId, student, notes, logger)) {
+    const delivery = await sendEmail(config, email, logger);
+    records.push({
+      runId,
+      classId,
+      studentId: student.id,
+      guardianName: guardian.name,
+      guardianEmail: guardian.email,
+      language: note.language,
+      insights: note.insights,
+      emailSubject: email.subject,
+      delivery,
+      status: delivery.status === "delivered" ? "sent" : "delivery_failed",
+      error: delivery.error,
+      usedFallback: note.usedFallback,
+    });
+  }
+  return records;
+}
+
+function countRawStudents(rawStudents: unknown, studentId?: string): number {
+  if (!Array.isArray(rawStudents)) return 0;
+  if (studentId === undefined) return rawStudents.length;
+  // Student-scoped runs only count raw records that claim the requested id (valid or not).
+  return rawStudents.filter((value) =>
+    typeof value === "object" && value !== null && (value as Record<string, unknown>).id === studentId
+  ).length;
+}
+
+export async function runOnce(
+  config: ToolConfig,
+  store: HistoryStore,
+  options: RunOptions = {},
+): Promise<RunResult> {
   const logger = createLogger(config.logLevel);
-  logger.info("Starting analysis cycle (tool-first mode)");
+  const scope = options.scope ?? "all";
+  if (scope === "student" && !options.studentId) {
+    throw new Error("Student-scoped runs require a studentId");
+  }
+  const scopedStudentId = scope === "student" ? options.studentId : undefined;
+  // Everything below (roster, rules, teacher email, memory, history rows) is per class.
+  const klass = resolveClass(config, options.classId);
+  const classId = klass.id;
+  const emailOptions = { templates: klass.emailTemplates, locale: config.emailLocale };
+  const dryRun = options.dryRun === true;
+  // Dry runs skip every history write; optional chaining on `history` keeps the guards in one place.
+  const history = dryRun ? null : store;
+  const preview: RunPreview | undefined = dryRun ? { students: [] } : undefined;
+  logger.info("Starting analysis cycle (tool-first mode)", { classId, scope, studentId: scopedStudentId, dryRun });
   // Store a unique run id so all events can be tied together.
-  const runId = crypto.randomUUID();
+  const runId = options.runId ?? crypto.randomUUID();
   const startedAt = new Date().toISOString();
 
-  // Fetch the raw student payload for tool validation and filtering.
-  const rawStudents = await loadStudentsRaw(config.studentsJsonPath);
+  // Fetch the roster from the shared store (seeded from the students file on first use).
+  // Dry runs never seed, so they leave an untouched store exactly as they found it.
+  const payload = await loadRoster(klass, store, logger, { seed: !dryRun });
+  const rawStudents = payload.data;
 
   // Direct tool call: validate input before doing any analysis.
   const toolResult = await validateStudentsTool.invoke({ data: rawStudents });
@@ -158,13 +454,22 @@ export async function runOnce(config: ToolConfig, store: HistoryStore): Promise<
   logger.info("Validation tool result", { toolResult });
 
   // Use the native validator output for actual filtering.
-  const validation = validateStudents(rawStudents);
-  const students = validation.valid;
-  const totalCount = Array.isArray(rawStudents) ? rawStudents.length : 0;
+  const validation = validateStudents(rawStudents, payload.locate);
+  if (validation.errors.length > 0) {
+    // Located errors (CSV row/column or array index) are what the data owner needs to fix the source.
+    logger.warn("Student data validation issues", { count: validation.errors.length });
+    validation.errors.forEach((error) => logger.warn("Validation error", { error }));
+  }
+  // Student scope narrows the batch to one record; everything downstream is the same per-student flow.
+  const students = scopedStudentId === undefined
+    ? validation.valid
+    : validation.valid.filter((student) => student.id === scopedStudentId);
+  const totalCount = countRawStudents(rawStudents, scopedStudentId);
 
   // Track run metadata in SQLite for later reporting.
-  store.startRun({
+  history?.startRun({
     runId,
+    classId,
     startedAt,
     studentCount: totalCount,
     validStudentCount: students.length,
@@ -173,222 +478,356 @@ export async function runOnce(config: ToolConfig, store: HistoryStore): Promise<
   if (students.length === 0) {
     // Avoid LLM calls when there is no valid input.
     logger.warn("No valid students available for analysis");
-    store.finishRun(runId, "no_valid_students");
-    return runId;
+    history?.finishRun(runId, "no_valid_students");
+    return { runId, status: "no_valid_students", preview };
   }
 
   // Memory-aware agent is used even in tool-first mode.
-  const agent = createAgentWithMemory(config, logger, config.teacherRules);
+  const agent = createAgentWithMemory(config, logger, klass.teacherRules);
   // Collect successful analyses to build the teacher summary at the end.
   const analyses: ReturnType<typeof analyzeStudent>[] = [];
-
-  for (const student of students) {
+  // Each student's row status, in roster order; a single-student run reports its student's as the run status.
+  const studentStatuses: string[] = [];
+  // Recorded on the run row, so the fallback rate can be tracked across runs.
+  const insightStats: InsightStats = { generated: 0, repaired: 0, fallbacks: 0 };
+
+  // Students run in parallel up to the configured bound; history rows, previews, and `analyses` are written by
+  // the returned steps, in roster order.
+  await runWorkerPool(students, config.studentConcurrency, async (student) => {
     let analysis: ReturnType<typeof analyzeStudent>;
     try {
       // Generate deterministic metrics that guide the LLM output.
-      analysis = analyzeStudent(student);
-      analyses.push(analysis);
+      analysis = analyzeStudent(student, config.riskPolicy);
     } catch (error) {
       logger.error("Failed to analyze student", {
         studentId: student.id,
         error: error instanceof Error ? error.message : String(error),
       });
-      store.recordStudentMessage({
-        runId,
-        studentId: student.id,
-        status: "analysis_failed",
-        error: error instanceof Error ? error.message : String(error),
-        usedFallback: false,
-      });
-      continue;
+      return () => {
+        studentStatuses.push("analysis_failed");
+        history?.recordStudentMessage({
+          runId,
+          classId,
+          studentId: student.id,
+          status: "analysis_failed",
+          error: error instanceof Error ? error.message : String(error),
+          usedFallback: false,
+        });
+        preview?.students.push({
+          studentId: student.id,
+          status: "analysis_failed",
+          usedFallback: false,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      };
     }
 
     try {
       // Memory is loaded per student so insights can reference past runs.
-      const studentMemory = await loadStudentMemory(config.memoryDir, student.id, logger);
-      // Call the LLM with analysis + memory to get structured JSON insights.
-      const rawInsights = await agent.generateStudentInsights(analysis, studentMemory);
-      const parsed = parseStudentInsights(rawInsights);
+      const studentMemory = await loadStudentMemory(config.memoryDir, classId, student.id, logger);
+      // Call the LLM with analysis + memory to get validated insights (re-asked once if invalid).
+      const parsed = await agent.generateStudentInsights(analysis, studentMemory);
+      tallyInsights(insightStats, parsed);
       const usedFallback = !parsed.ok;
+      const fallbackReason = parsed.ok ? undefined : parsed.reason;
       if (!parsed.ok) {
-        logger.warn("Student insights JSON invalid; using fallback", {
+        logger.warn("Student insights unavailable; using fallback", {
           studentId: analysis.student.id,
+          reason: parsed.reason,
           errors: parsed.errors,
         });
       }
 
+      // Fallbacks and headings follow the student's language, like the generated text.
+      const locale = preferredLocale(analysis.student.language, config.emailLocale);
       // Use deterministic fallback if JSON parsing fails.
       const insights = parsed.ok
         ? parsed.value
-        : buildFallbackStudentInsights(analysis, config.teacherRules);
-      // Render the structured insights into a human-readable message.
-      const message = renderStudentMessage(insights);
-      // Wrap the message into the email template used by the local sender.
-      const email = buildStudentEmail(analysis.student, message);
-      // Send returns the saved file path (or null if not saving).
-      const emailPath = await sendEmail(config, email, logger);
-
-      // Persist the outcome in the history DB, including fallback usage.
-      store.recordStudentMessage({
-        runId,
-        studentId: analysis.student.id,
+        : buildFallbackStudentInsights(analysis, klass.teacherRules, locale);
+      // Opt-in only: students without an opted-in guardian cost no extra model calls. Dry runs generate the
+      // notes too, so the preview shows the guardian prompt's output (or its fallback) before anyone is emailed.
+      const guardianNotes = await generateGuardianNotes(
+        config,
+        agent,
         analysis,
-        insights,
-        emailSubject: email.subject,
-        emailPath,
-        status: "sent",
-        usedFallback,
-      });
-
-      // Update the student's memory file based on the final insights.
-      const updatedMemory = updateStudentMemory(
         studentMemory,
-        analysis.student,
-        insights,
-        config.memoryHistoryLimit,
+        klass.teacherRules,
+        insightStats,
+        logger,
       );
-      // Persist updated memory only after a successful insights flow.
-      await saveStudentMemory(config.memoryDir, updatedMemory, logger);
-      await saveStudentMemoryArchive(
-        config.memoryDir,
-        {
+      // Render the structured insights into a human-readable message.
+      const message = renderStudentMessage(insights, locale);
+      // Render the email template (subject and text for drafts and previews).
+      const email = buildStudentEmail(analysis.student, insights, undefined, emailOptions);
+
+      if (preview) {
+        // Dry run stops here: nothing is sent, recorded, or remembered.
+        const guardians = renderGuardianEmails(config, classId, runId, analysis.student, guardianNotes, logger)
+          .map(({ guardian, note, email }) => ({
+            guardianName: guardian.name,
+            language: note.language,
+            usedFallback: note.usedFallback,
+            subject: email.subject,
+            text: email.text,
+          }));
+        return () => {
+          analyses.push(analysis);
+          studentStatuses.push("rendered");
+          preview.students.push({
+            studentId: analysis.student.id,
+            status: "rendered",
+            usedFallback,
+            subject: email.subject,
+            text: email.text,
+            ...(guardians.length > 0 ? { guardians } : {}),
+          });
+        };
+      }
+
+      if (config.reviewStudentMessages) {
+        // The draft waits for a teacher; email and memory update happen on approval (`deliverStudentMessage`).
+        return () => {
+          analyses.push(analysis);
+          studentStatuses.push("pending_review");
+          history?.supersedeDrafts(classId, analysis.student.id);
+          history?.recordStudentMessage({
+            runId,
+            classId,
+            studentId: analysis.student.id,
+            analysis,
+            insights,
+            emailSubject: email.subject,
+            messageText: message,
+            guardianNotes,
+            status: "pending_review",
+            usedFallback,
+            fallbackReason,
+          });
+        };
+      }
+
+      // Sending and the memory update belong to this student alone, so they happen here, in parallel.
+      const { delivery } = await deliverStudentMessage(config, classId, runId, analysis.student, insights, logger);
+      const guardianRecords = delivery.status === "delivered" && history
+        ? await sendGuardianNotes(config, classId, runId, analysis.student, guardianNotes, logger)
+        : [];
+
+      const status = delivery.status === "delivered" ? "sent" : "delivery_failed";
+      return () => {
+        analyses.push(analysis);
+        studentStatuses.push(status);
+        guardianRecords.forEach((record) => history?.recordGuardianMessage(record));
+        // Persist the outcome in the history DB, including fallback usage and how delivery went.
+        history?.recordStudentMessage({
           runId,
+          classId,
           studentId: analysis.student.id,
-          createdAt: new Date().toISOString(),
-          summary: updatedMemory.summary,
-          strengths: updatedMemory.strengths,
-          improvementAreas: updatedMemory.improvementAreas,
-          goals: updatedMemory.goals,
-        },
-        logger,
-      );
+          analysis,
+          insights,
+          emailSubject: email.subject,
+          emailPath: delivery.path,
+          delivery,
+          guardianNotes,
+          status,
+          error: delivery.error,
+          usedFallback,
+          fallbackReason,
+        });
+      };
     } catch (error) {
       logger.error("Failed to process student", {
         studentId: analysis.student.id,
         error: error instanceof Error ? error.message : String(error),
       });
-      store.recordStudentMessage({
-        runId,
-        studentId: analysis.student.id,
-        analysis,
-        status: "insights_failed",
-        error: error instanceof Error ? error.message : String(error),
-        usedFallback: false,
-      });
+      return () => {
+        analyses.push(analysis);
+        studentStatuses.push("insights_failed");
+        history?.recordStudentMessage({
+          runId,
+          classId,
+          studentId: analysis.student.id,
+          analysis,
+          status: "insights_failed",
+          error: error instanceof Error ? error.message : String(error),
+          usedFallback: false,
+        });
+        preview?.students.push({
+          studentId: analysis.student.id,
+          status: "insights_failed",
+          usedFallback: false,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      };
     }
+  });
+
+  if (scope === "student") {
+    // A single-student refresh must not regenerate the class summary or touch teacher memory. Its status is the
+    // student's own outcome, so a refresh whose insights or email failed is not reported as completed.
+    const outcome = studentStatuses[0];
+    const status = analyses.length === 0
+      ? "no_successful_analyses"
+      : outcome === "sent" || outcome === "pending_review" || outcome === "rendered"
+      ? "completed"
+      : outcome;
+    history?.finishRun(runId, status, insightStats);
+    logger.info("Student analysis cycle completed", {
+      studentId: scopedStudentId,
+      insights: { ...insightStats, fallbackRate: insightFallbackRate(insightStats) },
+    });
+    return { runId, status, insights: insightStats, preview };
   }
 
   if (analyses.length === 0) {
     // If no analysis succeeded, skip the teacher summary entirely.
     logger.warn("No successful analyses; skipping teacher summary");
-    store.finishRun(runId, "no_successful_analyses");
-    return runId;
+    history?.finishRun(runId, "no_successful_analyses");
+    return { runId, status: "no_successful_analyses", preview };
   }
 
   try {
     // Summaries aggregate the full batch for a teacher-level view.
     const teacherSummary = buildTeacherSummary(analyses);
     // Load class-level memory to inform the teacher summary.
-    const teacherMemory = await loadTeacherMemory(config.memoryDir, logger);
-    // Call the LLM with summary + memory for structured JSON output.
-    const rawSummary = await agent.generateTeacherSummary(teacherSummary, teacherMemory);
-    const parsed = parseTeacherInsights(rawSummary);
+    const teacherMemory = await loadTeacherMemory(config.memoryDir, classId, logger);
+    // Call the LLM with summary + memory for validated insights (re-asked once if invalid).
+    const parsed = await agent.generateTeacherSummary(teacherSummary, teacherMemory);
+    tallyInsights(insightStats, parsed);
     const usedFallback = !parsed.ok;
     if (!parsed.ok) {
-      logger.warn("Teacher summary JSON invalid; using fallback", { errors: parsed.errors });
+      logger.warn("Teacher summary unavailable; using fallback", { reason: parsed.reason, errors: parsed.errors });
     }
 
     // Fall back to deterministic teacher insights on invalid JSON.
     const insights = parsed.ok
       ? parsed.value
-      : buildFallbackTeacherInsights(teacherSummary, config.teacherRules);
-    // Render the teacher insights into a readable summary.
-    const message = renderTeacherMessage(insights);
-    // Wrap into the teacher email template and send locally.
-    const teacherEmail = buildTeacherEmail(config.teacherEmail, message);
-    const emailPath = await sendEmail(config, teacherEmail, logger);
+      : buildFallbackTeacherInsights(teacherSummary, klass.teacherRules, config.emailLocale);
+    // Render the teacher insights through the email template and send through the configured transport.
+    const teacherEmail = buildTeacherEmail(klass.teacherEmail, insights, { runId, classId }, emailOptions);
+
+    if (preview) {
+      // Dry run: surface the rendered summary but leave the outbox, history, and teacher memory untouched.
+      preview.teacher = {
+        status: "rendered",
+        usedFallback,
+        subject: teacherEmail.subject,
+        text: teacherEmail.text,
+      };
+      logger.info("Dry-run analysis cycle completed", {
+        insights: { ...insightStats, fallbackRate: insightFallbackRate(insightStats) },
+      });
+      return { runId, status: "completed", insights: insightStats, preview };
+    }
+
+    const delivery = await sendEmail(config, teacherEmail, logger);
 
     // Persist teacher-level results and artifacts to history DB.
-    store.recordTeacherMessage({
+    history?.recordTeacherMessage({
       runId,
+      classId,
       summary: teacherSummary,
       insights,
       emailSubject: teacherEmail.subject,
-      emailPath,
-      status: "sent",
+      emailPath: delivery.path,
+      delivery,
+      status: delivery.status === "delivered" ? "sent" : "delivery_failed",
+      error: delivery.error,
       usedFallback,
     });
 
-    // Update the teacher memory file based on final summary insights.
-    const updatedTeacherMemory = updateTeacherMemory(
-      teacherMemory,
-      insights,
-      config.memoryHistoryLimit,
-    );
-    // Store updated teacher memory after a successful summary.
-    await saveTeacherMemory(config.memoryDir, updatedTeacherMemory, logger);
-    await saveTeacherMemoryArchive(
-      config.memoryDir,
-      {
-        runId,
-        createdAt: new Date().toISOString(),
-        summary: insights.classOverview,
-        strengths: insights.strengths,
-        attentionNeeded: insights.attentionNeeded,
-        nextSteps: insights.nextSteps,
-      },
-      logger,
-    );
+    // Same rule as student memory: only a summary that reached the teacher is remembered.
+    if (delivery.status === "delivered") {
+      // Update the teacher memory file based on final summary insights.
+      const updatedTeacherMemory = updateTeacherMemory(
+        teacherMemory,
+        insights,
+        config.memoryHistoryLimit,
+      );
+      // Store updated teacher memory after a successful summary.
+      await saveTeacherMemory(config.memoryDir, classId, updatedTeacherMemory, logger);
+      await saveTeacherMemoryArchive(
+        config.memoryDir,
+        classId,
+        {
+          runId,
+          createdAt: new Date().toISOString(),
+          summary: insights.classOverview,
+          strengths: insights.strengths,
+          attentionNeeded: insights.attentionNeeded,
+          nextSteps: insights.nextSteps,
+        },
+        logger,
+      );
+    }
   } catch (error) {
     logger.error("Failed to send teacher summary", {
       error: error instanceof Error ? error.message : String(error),
     });
-    store.recordTeacherMessage({
+    history?.recordTeacherMessage({
       runId,
+      classId,
       summary: buildTeacherSummary(analyses),
       status: "summary_failed",
       error: error instanceof Error ? error.message : String(error),
       usedFallback: false,
     });
+    if (preview) {
+      preview.teacher = {
+        status: "summary_failed",
+        usedFallback: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
   }
 
-  store.finishRun(runId, "completed");
-  logger.info("Analysis cycle completed");
-  return runId;
+  history?.finishRun(runId, "completed", insightStats);
+  logger.info("Analysis cycle completed", {
+    classId,
+    insights: { ...insightStats, fallbackRate: insightFallbackRate(insightStats) },
+  });
+  return { runId, status: "completed", insights: insightStats, preview };
 }
 
 async function main() {
   const config = await loadConfig();
   const logger = createLogger(config.logLevel);
-  logger.info("Local email simulation enabled (tool-first mode)");
+  logger.info("Email transport configured (tool-first mode)", { transport: config.emailTransport });
 
   // Load teacher preferences so the LLM can align to instructional goals.
   config.teacherRules = await loadTeacherRules(config.teacherRulesPath, logger);
+  config.riskPolicy = await loadRiskPolicy(config.riskPolicyPath, logger);
+  // Each class brings its own roster source, teacher rules, teacher email, and schedule.
+  config.classes = await loadClasses(config, logger);
   // History storage is shared across all modes.
   const store = new HistoryStore(config.historyDbPath, logger);
 
+  logger.info("Starting scheduler", { classes: config.classes.map((klass) => klass.id) });
+  config.classes.forEach((klass) => scheduleClass(config, klass, store, logger));
+}
+
+function scheduleClass(config: ToolConfig, klass: ClassConfig, store: HistoryStore, logger: Logger) {
   // Schedule wrapper keeps the run loop consistent with other entry points.
   const scheduleRun = () => {
-    runOnce(config, store).catch((error) => {
+    runOnce(config, store, { classId: klass.id }).catch((error) => {
       logger.error("Scheduled run failed", {
+        classId: klass.id,
         error: error instanceof Error ? error.message : String(error),
       });
     });
   };
 
-  logger.info("Starting scheduler");
   // Run immediately once on startup.
   scheduleRun();
 
-  if (config.scheduleCron) {
-    // Cron schedule takes precedence when provided.
-    Deno.cron("student-analysis-tool-first", config.scheduleCron, scheduleRun);
-    logger.info("Cron schedule configured", { cron: config.scheduleCron });
+  if (klass.scheduleCron) {
+    // Cron schedule takes precedence when provided; cron names must be unique per process.
+    Deno.cron(`student-analysis-tool-first-${klass.id}`, klass.scheduleCron, scheduleRun);
+    logger.info("Cron schedule configured", { classId: klass.id, cron: klass.scheduleCron });
   } else {
     // Fallback to fixed-interval scheduling.
-    const intervalMs = config.scheduleIntervalMin * 60 * 1000;
+    const intervalMs = klass.scheduleIntervalMin * 60 * 1000;
     setInterval(scheduleRun, intervalMs);
-    logger.info("Interval schedule configured", { minutes: config.scheduleIntervalMin });
+    logger.info("Interval schedule configured", { classId: klass.id, minutes: klass.scheduleIntervalMin });
   }
 }
 
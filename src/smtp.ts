@@ -0,0 +1,283 @@
+import type { EmailContent, EmailReceipt, EmailTransport } from "./email.ts";
+import type { Logger } from "./logger.ts";
+import { buildMimeMessage, createMessageId } from "./mime.ts";
+import type { SmtpConfig } from "./types.ts";
+
+/**
+ * Minimal SMTP client used by the "smtp" email transport.
+ *
+ * Why a hand-rolled client:
+ * - The pipeline only needs one message per session to one recipient: EHLO, optional STARTTLS and AUTH,
+ *   MAIL/RCPT/DATA, QUIT. That fits in one small module on top of `Deno.connect`/`Deno.startTls`, with no
+ *   extra dependency to audit.
+ * - Errors carry the server's reply code so the retry loop in `deliverEmail` can tell a temporary refusal
+ *   (4xx, dropped connection) from a permanent one (5xx: bad address, rejected credentials).
+ *
+ * Credentials are never sent in the clear unless `security` is explicitly "none": with "starttls" a server
+ * that does not offer STARTTLS is a permanent error rather than a silent downgrade.
+ */
+export class SmtpError extends Error {
+  // Server reply code, or 0 when the failure happened below SMTP (connect, timeout, closed socket).
+  readonly code: number;
+  // Permanent failures are not retried.
+  readonly permanent: boolean;
+
+  constructor(message: string, code = 0, permanent = code >= 500) {
+    super(message);
+    this.name = "SmtpError";
+    this.code = code;
+    this.permanent = permanent;
+  }
+}
+
+interface SmtpReply {
+  code: number;
+  // Reply text with the code stripped, one entry per line of a multi-line reply.
+  lines: string[];
+}
+
+/**
+ * Line-oriented reader/writer over a (possibly upgraded) connection.
+ */
+class SmtpConnection {
+  #conn: Deno.Conn;
+  #buffer = "";
+  #decoder = new TextDecoder();
+  #encoder = new TextEncoder();
+
+  constructor(conn: Deno.Conn) {
+    this.#conn = conn;
+  }
+
+  get conn(): Deno.Conn {
+    return this.#conn;
+  }
+
+  upgrade(conn: Deno.Conn) {
+    // Anything buffered before STARTTLS would be plaintext injected by a third party; RFC 3207 says discard it.
+    this.#buffer = "";
+    this.#conn = conn;
+  }
+
+  async readReply(): Promise<SmtpReply> {
+    const lines: string[] = [];
+    while (true) {
+      const line = await this.#readLine();
+      const code = Number(line.slice(0, 3));
+      if (!/^\d{3}$/.test(line.slice(0, 3))) {
+        throw new SmtpError(`Malformed SMTP reply: ${line.slice(0, 80)}`);
+      }
+      lines.push(line.slice(4));
+      // "250-..." continues a multi-line reply; "250 ..." (or a bare "250") ends it.
+      if (line[3] !== "-") {
+        return { code, lines };
+      }
+    }
+  }
+
+  async write(text: string) {
+    const bytes = this.#encoder.encode(text);
+    let written = 0;
+    // `write` may accept fewer bytes than offered, so loop until the whole chunk is out.
+    while (written < bytes.length) {
+      written += await this.#conn.write(bytes.subarray(written));
+    }
+  }
+
+  /**
+   * Send one command line and require one of the expected reply codes.
+   *
+   * `label` replaces the command in error messages so AUTH payloads never reach logs.
+   */
+  async command(line: string, expected: number[], label = line): Promise<SmtpReply> {
+    await this.write(`${line}\r\n`);
+    return expectReply(await this.readReply(), expected, label);
+  }
+
+  close() {
+    try {
+      this.#conn.close();
+    } catch {
+      // Already closed (timeout or server hang-up); nothing left to release.
+    }
+  }
+
+  async #readLine(): Promise<string> {
+    while (true) {
+      const end = this.#buffer.indexOf("\r\n");
+      if (end !== -1) {
+        const line = this.#buffer.slice(0, end);
+        this.#buffer = this.#buffer.slice(end + 2);
+        return line;
+      }
+      const chunk = new Uint8Array(4096);
+      const read = await this.#conn.read(chunk);
+      if (read === null) {
+        throw new SmtpError("SMTP server closed the connection");
+      }
+      this.#buffer += this.#decoder.decode(chunk.subarray(0, read), { stream: true });
+    }
+  }
+}
+
+function expectReply(reply: SmtpReply, expected: number[], label: string): SmtpReply {
+  if (!expected.includes(reply.code)) {
+    throw new SmtpError(`${label} failed: ${reply.code} ${reply.lines.join(" ")}`.trim(), reply.code);
+  }
+  return reply;
+}
+
+/**
+ * EHLO keywords (upper-cased) mapped to their parameters, e.g. `AUTH` → `["PLAIN", "LOGIN"]`.
+ */
+function parseExtensions(reply: SmtpReply): Map<string, string[]> {
+  const extensions = new Map<string, string[]>();
+  // The first line is the server greeting, not an extension.
+  for (const line of reply.lines.slice(1)) {
+    const [keyword, ...params] = line.trim().split(/\s+/);
+    if (keyword) extensions.set(keyword.toUpperCase(), params.map((param) => param.toUpperCase()));
+  }
+  return extensions;
+}
+
+/**
+ * Bare address for the SMTP envelope: `Edu Assistant <noreply@local>` → `noreply@local`.
+ */
+export function envelopeAddress(address: string): string {
+  const match = address.match(/<([^>]+)>/);
+  return (match ? match[1] : address).trim();
+}
+
+/**
+ * DATA payload: CRLF line endings, dot-stuffed, without the terminating ".".
+ */
+export function smtpData(message: string): string {
+  return message
+    .replace(/\r?\n/g, "\r\n")
+    .split("\r\n")
+    // A line starting with "." gets a second one, or the server would read "." alone as end of data.
+    .map((line) => (line.startsWith(".") ? `.${line}` : line))
+    .join("\r\n");
+}
+
+function base64(text: string): string {
+  // btoa only takes Latin-1, so go through UTF-8 bytes first (passwords may contain any character).
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary);
+}
+
+async function authenticate(
+  connection: SmtpConnection,
+  config: SmtpConfig,
+  extensions: Map<string, string[]>,
+) {
+  const offered = extensions.get("AUTH") ?? [];
+  const method = config.authMethod ??
+    (offered.includes("PLAIN") ? "plain" : offered.includes("LOGIN") ? "login" : undefined);
+  if (!method || !offered.includes(method.toUpperCase())) {
+    throw new SmtpError(
+      `SMTP server does not offer AUTH ${config.authMethod?.toUpperCase() ?? "PLAIN or LOGIN"}`,
+      0,
+      true,
+    );
+  }
+
+  const username = config.username ?? "";
+  const password = config.password ?? "";
+  if (method === "plain") {
+    await connection.command(`AUTH PLAIN ${base64(`\0${username}\0${password}`)}`, [235], "AUTH PLAIN");
+    return;
+  }
+  await connection.command("AUTH LOGIN", [334]);
+  await connection.command(base64(username), [334], "AUTH LOGIN username");
+  await connection.command(base64(password), [235], "AUTH LOGIN password");
+}
+
+/**
+ * Run one SMTP session that delivers `email` and return the server's final acceptance reply.
+ */
+async function runSession(config: SmtpConfig, from: string, email: EmailContent): Promise<string> {
+  let timedOut = false;
+  let connection: SmtpConnection | undefined;
+  let expire = () => {};
+  const expired = new Promise<undefined>((resolve) => (expire = () => resolve(undefined)));
+  // The deadline starts before the connect, so a relay that silently drops packets cannot hold an attempt for the
+  // OS connect timeout. Closing the socket makes any pending read/write fail, which ends the session on a stalled
+  // server.
+  const timer = setTimeout(() => {
+    timedOut = true;
+    connection?.close();
+    expire();
+  }, config.timeoutMs);
+
+  try {
+    const connecting: Promise<Deno.Conn> = (config.security === "tls"
+      ? Deno.connectTls({ hostname: config.host, port: config.port })
+      : Deno.connect({ hostname: config.host, port: config.port }))
+      .catch((error) => {
+        // Refused or unreachable: usually temporary (relay restarting), so it is retried.
+        const detail = error instanceof Error ? error.message : String(error);
+        throw new SmtpError(`Failed to connect to ${config.host}:${config.port}: ${detail}`);
+      });
+    const conn = await Promise.race([connecting, expired]);
+    if (!conn) {
+      // A connection that opens after the deadline is closed straight away.
+      connecting.then((late) => late.close(), () => undefined);
+      // Reported as the session timeout below.
+      throw new SmtpError("Connect timed out");
+    }
+    connection = new SmtpConnection(conn);
+
+    expectReply(await connection.readReply(), [220], "Greeting");
+    let extensions = parseExtensions(await connection.command(`EHLO ${config.heloName}`, [250]));
+
+    if (config.security === "starttls") {
+      if (!extensions.has("STARTTLS")) {
+        throw new SmtpError("SMTP server does not offer STARTTLS", 0, true);
+      }
+      await connection.command("STARTTLS", [220]);
+      connection.upgrade(await Deno.startTls(connection.conn as Deno.TcpConn, { hostname: config.host }));
+      // Extensions (notably AUTH) can differ once the channel is encrypted, so ask again.
+      extensions = parseExtensions(await connection.command(`EHLO ${config.heloName}`, [250]));
+    }
+
+    if (config.username) {
+      await authenticate(connection, config, extensions);
+    }
+
+    await connection.command(`MAIL FROM:<${envelopeAddress(from)}>`, [250]);
+    await connection.command(`RCPT TO:<${envelopeAddress(email.to)}>`, [250, 251]);
+    await connection.command("DATA", [354]);
+    const message = buildMimeMessage(email, { from, messageId: email.messageId ?? createMessageId(from) });
+    await connection.write(`${smtpData(message)}\r\n.\r\n`);
+    const accepted = expectReply(await connection.readReply(), [250], "DATA");
+    // The message is accepted at this point; a failed QUIT must not turn it into a retry (and a duplicate).
+    await connection.command("QUIT", [221]).catch(() => undefined);
+    return `${accepted.code} ${accepted.lines.join(" ")}`.trim();
+  } catch (error) {
+    if (timedOut) {
+      throw new SmtpError(`SMTP session timed out after ${config.timeoutMs} ms`);
+    }
+    if (error instanceof SmtpError) throw error;
+    throw new SmtpError(error instanceof Error ? error.message : String(error));
+  } finally {
+    clearTimeout(timer);
+    connection?.close();
+  }
+}
+
+/**
+ * Email transport that relays through an SMTP server. Each message uses its own session.
+ */
+export function createSmtpTransport(config: SmtpConfig, from: string, logger: Logger): EmailTransport {
+  return {
+    name: "smtp",
+    async send(email: EmailContent): Promise<EmailReceipt> {
+      const response = await runSession(config, from, email);
+      logger.info("Email sent via SMTP", { to: email.to, subject: email.subject, host: config.host, response });
+      return { path: null, response };
+    },
+  };
+}
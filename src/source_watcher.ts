@@ -0,0 +1,185 @@
+import { dirname, resolve } from "@std/path";
+import type { Logger } from "./logger.ts";
+
+/**
+ * Hot reload for file-backed sources (students file, teacher rules) in the API server.
+ *
+ * Why this exists:
+ * - Editing `students.json` or `teacher_rules.json` shouldn't require a server restart.
+ * - Editors save in bursts (truncate + write, or write temp + rename), so changes are debounced
+ *   and the file's directory is watched rather than the file inode.
+ * - Reloads validate before applying: on failure the last good copy stays active and the errors are
+ *   kept for the admin status endpoint.
+ *
+ * What this watcher is (and isn’t):
+ * - It only schedules reloads and tracks status; each source decides how to parse, validate, and apply.
+ * - It lives in memory for one server process.
+ */
+export interface ReloadResult {
+  // True when the new content was applied; false keeps the previous copy.
+  ok: boolean;
+  errors: string[];
+}
+
+export type Reloader = () => Promise<ReloadResult>;
+
+export interface SourceStatus {
+  name: string;
+  path: string;
+  // When content was last applied successfully (startup load or reload).
+  lastLoadedAt?: string;
+  // When the most recent reload attempt ran.
+  lastCheckedAt?: string;
+  // Errors from the most recent attempt (0 when it was applied cleanly).
+  errorCount: number;
+  errors: string[];
+  // True when the latest attempt was rejected and the last good copy is still in use.
+  usingLastGood: boolean;
+}
+
+interface WatchedSource {
+  status: SourceStatus;
+  absolutePath: string;
+  reload: Reloader;
+  timer?: ReturnType<typeof setTimeout>;
+  // Serializes reloads per source so overlapping events never apply out of order.
+  running: Promise<void>;
+}
+
+export class SourceWatcher {
+  #sources = new Map<string, WatchedSource>();
+  #watchers: Deno.FsWatcher[] = [];
+  #logger: Logger;
+  #debounceMs: number;
+
+  constructor(logger: Logger, debounceMs = 500) {
+    this.#logger = logger;
+    this.#debounceMs = debounceMs;
+  }
+
+  /**
+   * Register a source. `initial` describes the startup load, which happens outside the watcher.
+   */
+  register(
+    name: string,
+    path: string,
+    reload: Reloader,
+    initial: { lastLoadedAt?: string; errors?: string[] } = {},
+  ) {
+    const errors = initial.errors ?? [];
+    this.#sources.set(name, {
+      status: {
+        name,
+        path,
+        lastLoadedAt: initial.lastLoadedAt,
+        errorCount: errors.length,
+        errors,
+        usingLastGood: false,
+      },
+      absolutePath: resolve(path),
+      reload,
+      running: Promise.resolve(),
+    });
+  }
+
+  /**
+   * Start watching the directories of all registered sources.
+   */
+  start() {
+    const directories = new Set([...this.#sources.values()].map((source) => dirname(source.absolutePath)));
+    for (const directory of directories) {
+      try {
+        const watcher = Deno.watchFs(directory, { recursive: false });
+        this.#watchers.push(watcher);
+        this.#consume(watcher);
+        this.#logger.info("Watching sources for changes", { directory });
+      } catch (error) {
+        // Watching is a convenience; without it the server still runs with the startup copies.
+        this.#logger.warn("Failed to watch source directory", {
+          directory,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  /**
+   * Run a source's reload now (bypassing the debounce) and return its updated status.
+   */
+  reload(name: string): Promise<SourceStatus | undefined> {
+    const source = this.#sources.get(name);
+    if (!source) return Promise.resolve(undefined);
+    source.running = source.running.then(() => this.#apply(source));
+    return source.running.then(() => ({ ...source.status }));
+  }
+
+  list(): SourceStatus[] {
+    return [...this.#sources.values()].map((source) => ({ ...source.status }));
+  }
+
+  close() {
+    this.#sources.forEach((source) => clearTimeout(source.timer));
+    this.#watchers.forEach((watcher) => {
+      try {
+        watcher.close();
+      } catch {
+        // Already closed.
+      }
+    });
+    this.#watchers = [];
+  }
+
+  async #consume(watcher: Deno.FsWatcher) {
+    try {
+      for await (const event of watcher) {
+        if (event.kind === "access") continue;
+        for (const source of this.#sources.values()) {
+          if (event.paths.some((path) => resolve(path) === source.absolutePath)) {
+            this.#schedule(source);
+          }
+        }
+      }
+    } catch (error) {
+      this.#logger.warn("Source watcher stopped", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  #schedule(source: WatchedSource) {
+    // Debounce: only the last event in a burst triggers a reload.
+    clearTimeout(source.timer);
+    source.timer = setTimeout(() => {
+      source.timer = undefined;
+      void this.reload(source.status.name);
+    }, this.#debounceMs);
+  }
+
+  async #apply(source: WatchedSource) {
+    const checkedAt = new Date().toISOString();
+    let result: ReloadResult;
+    try {
+      result = await source.reload();
+    } catch (error) {
+      result = { ok: false, errors: [error instanceof Error ? error.message : String(error)] };
+    }
+
+    source.status = {
+      ...source.status,
+      lastCheckedAt: checkedAt,
+      lastLoadedAt: result.ok ? checkedAt : source.status.lastLoadedAt,
+      errorCount: result.errors.length,
+      errors: result.errors,
+      usingLastGood: !result.ok,
+    };
+    if (result.ok) {
+      this.#logger.info("Source reloaded", { source: source.status.name, path: source.status.path });
+    } else {
+      this.#logger.warn("Source reload rejected; keeping last good copy", {
+        source: source.status.name,
+        path: source.status.path,
+        errors: result.errors,
+      });
+    }
+  }
+}
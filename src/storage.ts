@@ -1,7 +1,21 @@
 import { Database } from "@db/sqlite";
 import { dirname } from "@std/path";
 import type { Logger } from "./logger.ts";
-import type { StudentAnalysis, StudentInsights, TeacherInsights, TeacherSummary } from "./types.ts";
+import type { DraftStatus } from "./drafts.ts";
+import type { EmailDelivery } from "./email.ts";
+import type { UserRole } from "../packages/shared-types/src/contracts.ts";
+import { insightFallbackRate } from "./insights.ts";
+import type {
+  GuardianInsights,
+  GuardianNote,
+  InsightFallbackReason,
+  InsightStats,
+  Student,
+  StudentAnalysis,
+  StudentInsights,
+  TeacherInsights,
+  TeacherSummary,
+} from "./types.ts";
 
 /**
  * SQLite-backed audit/history store.
@@ -10,6 +24,21 @@ import type { StudentAnalysis, StudentInsights, TeacherInsights, TeacherSummary
  * - Single-file persistence fits local demos and workshops.
  * - Simple schema supports “what happened last run?” queries and UI status panels.
  * - Storing both run metadata and per-student/teacher message results makes debugging and retrospection easy.
+ * - The student roster lives here too, so API edits are visible to chat and the next run without a restart.
+ * - Chat sessions and their turns are stored here so follow-up questions have context and the UI can
+ *   restore a conversation after a reload.
+ * - Student messages double as review drafts: a run stores them as `pending_review`, and teacher edits
+ *   (as diffs), approval, and delivery update the same row, so the audit trail stays in one place.
+ * - Student message rows that used fallback insights record why (invalid model output, a failed model call, or
+ *   the run's circuit breaker), so an outage can be told apart from a prompt problem.
+ * - Message rows record how delivery went (transport, attempts, time), and a message whose email could not
+ *   be delivered after retries is stored as `delivery_failed` with the transport's error.
+ * - Guardian notes generated with a student message are kept on that row (so a draft's notes go out on
+ *   approval), and each note sent to a guardian gets its own `guardian_messages` row.
+ * - Runs record how their model-written insights turned out (generated, repaired by a re-ask, fell back), so
+ *   the fallback rate can be followed from run to run.
+ * - Every row carries a `class_id`, so one database serves several classes. Databases created before classes
+ *   existed are migrated in place; their rows belong to the `default` class.
  *
  * What this store is (and isn’t):
  * - It is a lightweight append/update store for run history.
@@ -18,6 +47,7 @@ import type { StudentAnalysis, StudentInsights, TeacherInsights, TeacherSummary
  */
 export interface RunStats {
   runId: string;
+  classId: string;
   startedAt: string;
   studentCount: number;
   validStudentCount: number;
@@ -25,15 +55,171 @@ export interface RunStats {
 
 export interface HistoryRunEntry {
   runId: string;
+  classId: string;
   startedAt: string;
   completedAt?: string;
   studentCount: number;
   validStudentCount: number;
   status: string;
+  // Absent for runs that stopped before generating insights and for runs recorded before these counts existed.
+  insights?: InsightStats & { fallbackRate: number };
+}
+
+// `runs` row shape shared by `listRuns` and `getRun`.
+interface RunRow {
+  id: string;
+  class_id: string;
+  started_at: string;
+  completed_at: string | null;
+  student_count: number;
+  valid_student_count: number;
+  status: string;
+  insights_generated: number | null;
+  insights_repaired: number | null;
+  insights_fallbacks: number | null;
+}
+
+const RUN_COLUMNS = `id, class_id, started_at, completed_at, student_count, valid_student_count, status,
+  insights_generated, insights_repaired, insights_fallbacks`;
+
+function toRunEntry(row: RunRow): HistoryRunEntry {
+  const insights = row.insights_generated === null ? undefined : {
+    generated: row.insights_generated,
+    repaired: row.insights_repaired ?? 0,
+    fallbacks: row.insights_fallbacks ?? 0,
+  };
+  // Convert DB column names into the API-facing shape used by the server.
+  return {
+    runId: row.id,
+    classId: row.class_id,
+    startedAt: row.started_at,
+    completedAt: row.completed_at ?? undefined,
+    studentCount: row.student_count,
+    validStudentCount: row.valid_student_count,
+    status: row.status,
+    ...(insights ? { insights: { ...insights, fallbackRate: insightFallbackRate(insights) } } : {}),
+  };
+}
+
+export interface StudentMessageEntry {
+  studentId: string;
+  status: string;
+  usedFallback: boolean;
+  // Set when `usedFallback` is; absent on rows recorded before reasons were stored.
+  fallbackReason?: InsightFallbackReason;
+  error?: string;
+  emailSubject?: string;
+  emailPath?: string;
+  createdAt: string;
+  deliveryAttempts?: number;
+  deliveredAt?: string;
+}
+
+export interface StudentDraftEntry {
+  id: string;
+  runId: string;
+  classId: string;
+  studentId: string;
+  status: DraftStatus;
+  usedFallback: boolean;
+  analysis?: StudentAnalysis;
+  insights: StudentInsights;
+  // Rendered message as it will be emailed (re-rendered after each edit).
+  messageText: string;
+  emailSubject?: string;
+  emailPath?: string;
+  createdAt: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  reviewNote?: string;
+  editCount: number;
+  // Notes for opted-in guardians, sent when the draft is approved.
+  guardianNotes?: GuardianNote[];
+  // Delivery error for `delivery_failed` drafts.
+  error?: string;
+  deliveryAttempts?: number;
+  deliveredAt?: string;
+  // When delivery of the approved draft last started (approval or retry).
+  deliveryStartedAt?: string;
+}
+
+export interface StudentDraftEditEntry {
+  userId: string;
+  // Line diff of the rendered message (see `diffLines` in src/drafts.ts).
+  diff: string;
+  createdAt: string;
+}
+
+export interface GuardianMessageEntry {
+  studentId: string;
+  guardianName: string;
+  guardianEmail: string;
+  language: string;
+  status: string;
+  usedFallback: boolean;
+  error?: string;
+  emailSubject?: string;
+  createdAt: string;
+  deliveryAttempts?: number;
+  deliveredAt?: string;
+}
+
+// A guardian email to record; built before recording so parallel runs can write rows in roster order.
+export interface GuardianMessageRecord {
+  runId: string;
+  classId: string;
+  studentId: string;
+  guardianName: string;
+  guardianEmail: string;
+  language: string;
+  insights?: GuardianInsights;
+  emailSubject?: string;
+  delivery?: EmailDelivery;
+  status: string;
+  error?: string;
+  usedFallback: boolean;
+}
+
+export interface TeacherMessageEntry {
+  status: string;
+  usedFallback: boolean;
+  error?: string;
+  emailSubject?: string;
+  emailPath?: string;
+  createdAt: string;
+  deliveryAttempts?: number;
+  deliveredAt?: string;
+}
+
+export interface ChatSessionEntry {
+  sessionId: string;
+  // The authenticated user who owns the conversation.
+  userId: string;
+  role: UserRole;
+  // The student the conversation is about (absent for admin sessions).
+  studentId?: string;
+  // First user message, shortened, so the UI can label conversations.
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+}
+
+export interface ChatTurnEntry {
+  role: "user" | "assistant";
+  content: string;
+  createdAt: string;
+}
+
+export interface RosterImportEntry {
+  classId: string;
+  source: string;
+  importedAt: string;
+  studentCount: number;
 }
 
 /**
- * Simple SQLite-backed store for run history and generated messages.
+ * Simple SQLite-backed store for run history, generated messages, and the student roster.
  */
 export class HistoryStore {
   #db: Database;
@@ -56,6 +242,7 @@ export class HistoryStore {
     this.#db.exec(`
       CREATE TABLE IF NOT EXISTS runs (
         id TEXT PRIMARY KEY,
+        class_id TEXT NOT NULL DEFAULT 'default',
         started_at TEXT NOT NULL,
         completed_at TEXT,
         student_count INTEGER NOT NULL,
@@ -68,6 +255,7 @@ export class HistoryStore {
       CREATE TABLE IF NOT EXISTS student_messages (
         id TEXT PRIMARY KEY,
         run_id TEXT NOT NULL,
+        class_id TEXT NOT NULL DEFAULT 'default',
         student_id TEXT NOT NULL,
         analysis_json TEXT,
         insights_json TEXT,
@@ -84,6 +272,7 @@ export class HistoryStore {
       CREATE TABLE IF NOT EXISTS teacher_messages (
         id TEXT PRIMARY KEY,
         run_id TEXT NOT NULL,
+        class_id TEXT NOT NULL DEFAULT 'default',
         summary_json TEXT NOT NULL,
         insights_json TEXT,
         email_subject TEXT,
@@ -94,16 +283,139 @@ export class HistoryStore {
         created_at TEXT NOT NULL
       );
     `);
+
+    // Students are stored as validated JSON; id/name/email are columns for listing without parsing.
+    this.#db.exec(`
+      CREATE TABLE IF NOT EXISTS students (
+        id TEXT PRIMARY KEY,
+        class_id TEXT NOT NULL DEFAULT 'default',
+        name TEXT NOT NULL,
+        email TEXT NOT NULL,
+        data_json TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `);
+
+    // One row per file import, so an intentionally emptied roster isn't re-seeded on the next start.
+    this.#db.exec(`
+      CREATE TABLE IF NOT EXISTS roster_imports (
+        id TEXT PRIMARY KEY,
+        class_id TEXT NOT NULL DEFAULT 'default',
+        source TEXT NOT NULL,
+        student_count INTEGER NOT NULL,
+        imported_at TEXT NOT NULL
+      );
+    `);
+
+    // One row per conversation; `student_id` pins the subject so a session can't drift to another student.
+    this.#db.exec(`
+      CREATE TABLE IF NOT EXISTS chat_sessions (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        role TEXT NOT NULL,
+        student_id TEXT,
+        title TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `);
+
+    // The autoincrement id orders turns exactly, even when two share a timestamp.
+    this.#db.exec(`
+      CREATE TABLE IF NOT EXISTS chat_messages (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        role TEXT NOT NULL,
+        content TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+    `);
+    this.#db.exec(`CREATE INDEX IF NOT EXISTS chat_messages_session ON chat_messages (session_id, id)`);
+
+    // Append-only audit of teacher edits to draft student messages.
+    this.#db.exec(`
+      CREATE TABLE IF NOT EXISTS student_message_edits (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        message_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        diff TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+    `);
+    this.#db.exec(`CREATE INDEX IF NOT EXISTS student_message_edits_message ON student_message_edits (message_id, id)`);
+
+    // One row per note per guardian; the student's own row keeps the generated notes.
+    this.#db.exec(`
+      CREATE TABLE IF NOT EXISTS guardian_messages (
+        id TEXT PRIMARY KEY,
+        run_id TEXT NOT NULL,
+        class_id TEXT NOT NULL,
+        student_id TEXT NOT NULL,
+        guardian_name TEXT NOT NULL,
+        guardian_email TEXT NOT NULL,
+        language TEXT NOT NULL,
+        insights_json TEXT,
+        email_subject TEXT,
+        email_path TEXT,
+        status TEXT NOT NULL,
+        error TEXT,
+        used_fallback INTEGER NOT NULL,
+        delivery_transport TEXT,
+        delivery_attempts INTEGER,
+        delivered_at TEXT,
+        created_at TEXT NOT NULL
+      );
+    `);
+    this.#db.exec(`CREATE INDEX IF NOT EXISTS guardian_messages_run ON guardian_messages (run_id, created_at)`);
+
+    // Databases from before multi-class support lack `class_id`; existing rows become the default class.
+    for (const table of ["runs", "student_messages", "teacher_messages", "students", "roster_imports"]) {
+      this.#ensureColumn(table, "class_id", "TEXT NOT NULL DEFAULT 'default'");
+    }
+    // Review columns were added with the approval workflow; older rows simply have no review data.
+    for (const column of ["message_text", "reviewed_by", "reviewed_at", "review_note"]) {
+      this.#ensureColumn("student_messages", column, "TEXT");
+    }
+    // When delivery of an approved draft last started; retries compare-and-set it so only one of them sends.
+    this.#ensureColumn("student_messages", "delivery_started_at", "TEXT");
+    // Guardian notes came later still; rows without them simply had no opted-in guardians.
+    this.#ensureColumn("student_messages", "guardian_notes_json", "TEXT");
+    // Delivery columns came with pluggable transports; older rows predate retries and have none.
+    for (const table of ["student_messages", "teacher_messages"]) {
+      this.#ensureColumn(table, "delivery_transport", "TEXT");
+      this.#ensureColumn(table, "delivery_attempts", "INTEGER");
+      this.#ensureColumn(table, "delivered_at", "TEXT");
+    }
+    // Fallback reasons came with the model call policy; older fallback rows have none.
+    this.#ensureColumn("student_messages", "fallback_reason", "TEXT");
+    // Insight counts came with structured output; NULL means the run never recorded them.
+    for (const column of ["insights_generated", "insights_repaired", "insights_fallbacks"]) {
+      this.#ensureColumn("runs", column, "INTEGER");
+    }
+  }
+
+  #ensureColumn(table: string, column: string, definition: string) {
+    const stmt = this.#db.prepare(`PRAGMA table_info(${table})`);
+    try {
+      const columns = stmt.all<{ name: string }>();
+      if (!columns.some((entry) => entry.name === column)) {
+        this.#db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+      }
+    } finally {
+      stmt.finalize();
+    }
   }
 
   startRun(stats: RunStats) {
     try {
       // Insert a “running” record immediately so we can see a run even if it crashes mid-way.
       this.#db.exec(
-        `INSERT INTO runs (id, started_at, student_count, valid_student_count, status)
-         VALUES (?, ?, ?, ?, ?)`,
+        `INSERT INTO runs (id, class_id, started_at, student_count, valid_student_count, status)
+         VALUES (?, ?, ?, ?, ?, ?)`,
         [
           stats.runId,
+          stats.classId,
           stats.startedAt,
           stats.studentCount,
           stats.validStudentCount,
@@ -117,13 +429,22 @@ export class HistoryStore {
     }
   }
 
-  finishRun(runId: string, status: string) {
+  finishRun(runId: string, status: string, insights?: InsightStats) {
     // We record completion time at finish; this gives a simple run duration via subtraction.
     const completedAt = new Date().toISOString();
     try {
       this.#db.exec(
-        `UPDATE runs SET completed_at = ?, status = ? WHERE id = ?`,
-        [completedAt, status, runId],
+        `UPDATE runs
+         SET completed_at = ?, status = ?, insights_generated = ?, insights_repaired = ?, insights_fallbacks = ?
+         WHERE id = ?`,
+        [
+          completedAt,
+          status,
+          insights?.generated ?? null,
+          insights?.repaired ?? null,
+          insights?.fallbacks ?? null,
+          runId,
+        ],
       );
     } catch (error) {
       this.#logger.error("Failed to record run completion", {
@@ -134,36 +455,51 @@ export class HistoryStore {
 
   recordStudentMessage(params: {
     runId: string;
+    classId: string;
     studentId: string;
     analysis?: StudentAnalysis;
     insights?: StudentInsights;
     emailSubject?: string;
     emailPath?: string | null;
+    // Rendered message body; stored for drafts so reviewers see exactly what will be sent.
+    messageText?: string;
+    // Notes generated for opted-in guardians (delivered with the message, or on approval for drafts).
+    guardianNotes?: GuardianNote[];
+    // Outcome of sending the email, when one was sent.
+    delivery?: EmailDelivery;
     status: string;
     error?: string;
     usedFallback: boolean;
+    fallbackReason?: InsightFallbackReason;
   }) {
     // Every student message gets its own row so partial success is preserved.
     const createdAt = new Date().toISOString();
     try {
       this.#db.exec(
         `INSERT INTO student_messages
-          (id, run_id, student_id, analysis_json, insights_json, email_subject, email_path, status, error, used_fallback, created_at)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          (id, run_id, class_id, student_id, analysis_json, insights_json, email_subject, email_path, message_text, status, error, used_fallback, fallback_reason, created_at, delivery_transport, delivery_attempts, delivered_at, guardian_notes_json)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
         [
           crypto.randomUUID(),
           params.runId,
+          params.classId,
           params.studentId,
           // Store JSON blobs for audit/debug. These are not queried by the demo UI, but are handy for inspection.
           params.analysis ? JSON.stringify(params.analysis) : null,
           params.insights ? JSON.stringify(params.insights) : null,
           params.emailSubject ?? null,
           params.emailPath ?? null,
+          params.messageText ?? null,
           params.status,
           params.error ?? null,
           // SQLite has no boolean type, so we store 0/1.
           params.usedFallback ? 1 : 0,
+          params.fallbackReason ?? null,
           createdAt,
+          params.delivery?.transport ?? null,
+          params.delivery?.attempts ?? null,
+          params.delivery?.deliveredAt ?? null,
+          params.guardianNotes && params.guardianNotes.length > 0 ? JSON.stringify(params.guardianNotes) : null,
         ],
       );
     } catch (error) {
@@ -174,12 +510,48 @@ export class HistoryStore {
     }
   }
 
+  recordGuardianMessage(params: GuardianMessageRecord) {
+    try {
+      this.#db.exec(
+        `INSERT INTO guardian_messages
+          (id, run_id, class_id, student_id, guardian_name, guardian_email, language, insights_json, email_subject, email_path, status, error, used_fallback, delivery_transport, delivery_attempts, delivered_at, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          crypto.randomUUID(),
+          params.runId,
+          params.classId,
+          params.studentId,
+          params.guardianName,
+          params.guardianEmail,
+          params.language,
+          params.insights ? JSON.stringify(params.insights) : null,
+          params.emailSubject ?? null,
+          params.delivery?.path ?? null,
+          params.status,
+          params.error ?? null,
+          params.usedFallback ? 1 : 0,
+          params.delivery?.transport ?? null,
+          params.delivery?.attempts ?? null,
+          params.delivery?.deliveredAt ?? null,
+          new Date().toISOString(),
+        ],
+      );
+    } catch (error) {
+      this.#logger.error("Failed to record guardian message", {
+        studentId: params.studentId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
   recordTeacherMessage(params: {
     runId: string;
+    classId: string;
     summary: TeacherSummary;
     insights?: TeacherInsights;
     emailSubject?: string;
     emailPath?: string | null;
+    delivery?: EmailDelivery;
     status: string;
     error?: string;
     usedFallback: boolean;
@@ -189,11 +561,12 @@ export class HistoryStore {
     try {
       this.#db.exec(
         `INSERT INTO teacher_messages
-          (id, run_id, summary_json, insights_json, email_subject, email_path, status, error, used_fallback, created_at)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          (id, run_id, class_id, summary_json, insights_json, email_subject, email_path, status, error, used_fallback, created_at, delivery_transport, delivery_attempts, delivered_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
         [
           crypto.randomUUID(),
           params.runId,
+          params.classId,
           JSON.stringify(params.summary),
           params.insights ? JSON.stringify(params.insights) : null,
           params.emailSubject ?? null,
@@ -202,6 +575,9 @@ export class HistoryStore {
           params.error ?? null,
           params.usedFallback ? 1 : 0,
           createdAt,
+          params.delivery?.transport ?? null,
+          params.delivery?.attempts ?? null,
+          params.delivery?.deliveredAt ?? null,
         ],
       );
     } catch (error) {
@@ -211,54 +587,206 @@ export class HistoryStore {
     }
   }
 
-  listRuns(limit = 25): HistoryRunEntry[] {
+  /**
+   * List recent runs, optionally limited to some classes (an empty list matches nothing).
+   */
+  listRuns(limit = 25, classIds?: string[]): HistoryRunEntry[] {
+    if (classIds && classIds.length === 0) return [];
     // Prepared statement keeps query logic readable and avoids string concatenation hazards.
+    // The class filter only adds placeholders, never values, to the SQL text.
+    const classFilter = classIds ? `WHERE class_id IN (${classIds.map(() => "?").join(", ")})` : "";
     const stmt = this.#db.prepare(
-      `SELECT id, started_at, completed_at, student_count, valid_student_count, status
+      `SELECT ${RUN_COLUMNS}
        FROM runs
+       ${classFilter}
        ORDER BY started_at DESC
        LIMIT ?`,
     );
 
+    try {
+      return stmt.all<RunRow>(...(classIds ?? []), limit).map(toRunEntry);
+    } catch (error) {
+      this.#logger.error("Failed to list runs", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    } finally {
+      // Always finalize prepared statements in Deno’s sqlite binding.
+      stmt.finalize();
+    }
+  }
+
+  getRun(runId: string): HistoryRunEntry | null {
+    const stmt = this.#db.prepare(
+      `SELECT ${RUN_COLUMNS}
+       FROM runs
+       WHERE id = ?`,
+    );
+
+    try {
+      const row = stmt.get<RunRow>(runId);
+      return row ? toRunEntry(row) : null;
+    } catch (error) {
+      this.#logger.error("Failed to fetch run", {
+        runId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    } finally {
+      stmt.finalize();
+    }
+  }
+
+  listStudentMessages(runId: string): StudentMessageEntry[] {
+    // Rows are returned in insertion order, which runs keep to roster order however many students run at once.
+    // `rowid` breaks ties between rows written in the same millisecond.
+    const stmt = this.#db.prepare(
+      `SELECT student_id, status, used_fallback, fallback_reason, error, email_subject, email_path, created_at,
+         delivery_attempts, delivered_at
+       FROM student_messages
+       WHERE run_id = ?
+       ORDER BY created_at ASC, rowid ASC`,
+    );
+
     try {
       const rows = stmt.all<{
-        id: string;
-        started_at: string;
-        completed_at: string | null;
-        student_count: number;
-        valid_student_count: number;
+        student_id: string;
         status: string;
-      }>(limit);
+        used_fallback: number;
+        fallback_reason: InsightFallbackReason | null;
+        error: string | null;
+        email_subject: string | null;
+        email_path: string | null;
+        created_at: string;
+        delivery_attempts: number | null;
+        delivered_at: string | null;
+      }>(runId);
 
-      // Convert DB column names into the API-facing shape used by the server.
       return rows.map((row) => ({
-        runId: row.id,
-        startedAt: row.started_at,
-        completedAt: row.completed_at ?? undefined,
-        studentCount: row.student_count,
-        validStudentCount: row.valid_student_count,
+        studentId: row.student_id,
         status: row.status,
+        usedFallback: row.used_fallback === 1,
+        fallbackReason: row.fallback_reason ?? undefined,
+        error: row.error ?? undefined,
+        emailSubject: row.email_subject ?? undefined,
+        emailPath: row.email_path ?? undefined,
+        createdAt: row.created_at,
+        deliveryAttempts: row.delivery_attempts ?? undefined,
+        deliveredAt: row.delivered_at ?? undefined,
       }));
     } catch (error) {
-      this.#logger.error("Failed to list runs", {
+      this.#logger.error("Failed to list student messages", {
+        runId,
         error: error instanceof Error ? error.message : String(error),
       });
       return [];
     } finally {
-      // Always finalize prepared statements in Deno’s sqlite binding.
       stmt.finalize();
     }
   }
 
-  getLatestStudentInsights(studentId: string): {
+  listGuardianMessages(runId: string): GuardianMessageEntry[] {
+    const stmt = this.#db.prepare(
+      `SELECT student_id, guardian_name, guardian_email, language, status, used_fallback, error, email_subject,
+         created_at, delivery_attempts, delivered_at
+       FROM guardian_messages
+       WHERE run_id = ?
+       ORDER BY created_at ASC, rowid ASC`,
+    );
+
+    try {
+      const rows = stmt.all<{
+        student_id: string;
+        guardian_name: string;
+        guardian_email: string;
+        language: string;
+        status: string;
+        used_fallback: number;
+        error: string | null;
+        email_subject: string | null;
+        created_at: string;
+        delivery_attempts: number | null;
+        delivered_at: string | null;
+      }>(runId);
+
+      return rows.map((row) => ({
+        studentId: row.student_id,
+        guardianName: row.guardian_name,
+        guardianEmail: row.guardian_email,
+        language: row.language,
+        status: row.status,
+        usedFallback: row.used_fallback === 1,
+        error: row.error ?? undefined,
+        emailSubject: row.email_subject ?? undefined,
+        createdAt: row.created_at,
+        deliveryAttempts: row.delivery_attempts ?? undefined,
+        deliveredAt: row.delivered_at ?? undefined,
+      }));
+    } catch (error) {
+      this.#logger.error("Failed to list guardian messages", {
+        runId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    } finally {
+      stmt.finalize();
+    }
+  }
+
+  getTeacherMessage(runId: string): TeacherMessageEntry | null {
+    // One teacher row per run; student-scoped and early-exit runs have none.
+    const stmt = this.#db.prepare(
+      `SELECT status, used_fallback, error, email_subject, email_path, created_at, delivery_attempts, delivered_at
+       FROM teacher_messages
+       WHERE run_id = ?
+       ORDER BY created_at DESC
+       LIMIT 1`,
+    );
+
+    try {
+      const row = stmt.get<{
+        status: string;
+        used_fallback: number;
+        error: string | null;
+        email_subject: string | null;
+        email_path: string | null;
+        created_at: string;
+        delivery_attempts: number | null;
+        delivered_at: string | null;
+      }>(runId);
+      if (!row) return null;
+
+      return {
+        status: row.status,
+        usedFallback: row.used_fallback === 1,
+        error: row.error ?? undefined,
+        emailSubject: row.email_subject ?? undefined,
+        emailPath: row.email_path ?? undefined,
+        createdAt: row.created_at,
+        deliveryAttempts: row.delivery_attempts ?? undefined,
+        deliveredAt: row.delivered_at ?? undefined,
+      };
+    } catch (error) {
+      this.#logger.error("Failed to fetch teacher message", {
+        runId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    } finally {
+      stmt.finalize();
+    }
+  }
+
+  getLatestStudentInsights(classId: string, studentId: string): {
     insights?: StudentInsights;
     createdAt?: string;
   } | null {
     // “Latest” is defined by created_at descending. This is simple and works well for demo history.
+    // Only delivered messages count: drafts awaiting review (or rejected) must not reach the student early.
     const stmt = this.#db.prepare(
       `SELECT insights_json, created_at
        FROM student_messages
-       WHERE student_id = ?
+       WHERE class_id = ? AND student_id = ? AND status = 'sent'
        ORDER BY created_at DESC
        LIMIT 1`,
     );
@@ -267,7 +795,7 @@ export class HistoryStore {
       const row = stmt.get<{
         insights_json: string | null;
         created_at: string | null;
-      }>(studentId);
+      }>(classId, studentId);
       if (!row) return null;
 
       let insights: StudentInsights | undefined;
@@ -298,6 +826,495 @@ export class HistoryStore {
     }
   }
 
+  /**
+   * Mark a student's earlier pending drafts as superseded, before a newer run stores its draft.
+   *
+   * Approving a stale draft would deliver outdated advice and roll memory back, so only the newest stays reviewable.
+   */
+  supersedeDrafts(classId: string, studentId: string): number {
+    try {
+      return this.#db.exec(
+        `UPDATE student_messages SET status = 'superseded'
+         WHERE class_id = ? AND student_id = ? AND status = 'pending_review'`,
+        [classId, studentId],
+      );
+    } catch (error) {
+      this.#logger.error("Failed to supersede drafts", {
+        studentId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return 0;
+    }
+  }
+
+  /**
+   * List drafts in some classes (an empty list matches nothing), newest first, optionally by status.
+   */
+  listDrafts(classIds: string[] | undefined, status: DraftStatus | undefined, limit = 50): StudentDraftEntry[] {
+    if (classIds && classIds.length === 0) return [];
+    // Only rows that went through review carry a rendered message; older and failed rows are not drafts.
+    const filters = ["m.message_text IS NOT NULL"];
+    if (classIds) filters.push(`m.class_id IN (${classIds.map(() => "?").join(", ")})`);
+    if (status) filters.push("m.status = ?");
+    const stmt = this.#db.prepare(
+      `${DRAFT_SELECT}
+       WHERE ${filters.join(" AND ")}
+       ORDER BY m.created_at DESC
+       LIMIT ?`,
+    );
+
+    try {
+      const rows = stmt.all<StudentDraftRow>(...(classIds ?? []), ...(status ? [status] : []), limit);
+      return rows.map(toStudentDraftEntry);
+    } catch (error) {
+      this.#logger.error("Failed to list drafts", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    } finally {
+      stmt.finalize();
+    }
+  }
+
+  getDraft(id: string): StudentDraftEntry | null {
+    const stmt = this.#db.prepare(`${DRAFT_SELECT} WHERE m.id = ? AND m.message_text IS NOT NULL`);
+
+    try {
+      const row = stmt.get<StudentDraftRow>(id);
+      return row ? toStudentDraftEntry(row) : null;
+    } catch (error) {
+      this.#logger.error("Failed to fetch draft", {
+        draftId: id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    } finally {
+      stmt.finalize();
+    }
+  }
+
+  listDraftEdits(id: string): StudentDraftEditEntry[] {
+    const stmt = this.#db.prepare(
+      `SELECT user_id, diff, created_at FROM student_message_edits WHERE message_id = ? ORDER BY id ASC`,
+    );
+
+    try {
+      return stmt.all<{ user_id: string; diff: string; created_at: string }>(id).map((row) => ({
+        userId: row.user_id,
+        diff: row.diff,
+        createdAt: row.created_at,
+      }));
+    } catch (error) {
+      this.#logger.error("Failed to list draft edits", {
+        draftId: id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    } finally {
+      stmt.finalize();
+    }
+  }
+
+  /**
+   * Replace a pending draft's insights and record the edit. Returns false when the draft is no longer pending.
+   */
+  editDraft(
+    id: string,
+    edit: { insights: StudentInsights; messageText: string; userId: string; diff: string },
+  ): boolean {
+    const now = new Date().toISOString();
+    let updated = false;
+    try {
+      // One transaction so the stored draft and its audit trail can't disagree.
+      this.#db.transaction(() => {
+        updated = this.#db.exec(
+          `UPDATE student_messages SET insights_json = ?, message_text = ?
+           WHERE id = ? AND status = 'pending_review'`,
+          [JSON.stringify(edit.insights), edit.messageText, id],
+        ) > 0;
+        if (!updated) return;
+        this.#db.exec(
+          `INSERT INTO student_message_edits (message_id, user_id, diff, created_at) VALUES (?, ?, ?, ?)`,
+          [id, edit.userId, edit.diff, now],
+        );
+      })();
+      return updated;
+    } catch (error) {
+      this.#logger.error("Failed to edit draft", {
+        draftId: id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Approve or reject a pending draft. Returns false when it was already reviewed (or superseded),
+   * which is what keeps two concurrent approvals from delivering the same message twice.
+   */
+  reviewDraft(id: string, status: "approved" | "rejected", reviewedBy: string, note?: string): boolean {
+    const now = new Date().toISOString();
+    try {
+      return this.#db.exec(
+        `UPDATE student_messages SET status = ?, reviewed_by = ?, reviewed_at = ?, review_note = ?,
+           delivery_started_at = ?
+         WHERE id = ? AND status = 'pending_review'`,
+        [status, reviewedBy, now, note ?? null, status === "approved" ? now : null, id],
+      ) > 0;
+    } catch (error) {
+      this.#logger.error("Failed to review draft", {
+        draftId: id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Claim an approved draft for another delivery attempt. Returns false when the draft changed since it was
+   * read (a concurrent retry claimed it first), so two retries never send the same message twice.
+   */
+  claimDraftRetry(draft: StudentDraftEntry): boolean {
+    try {
+      return this.#db.exec(
+        `UPDATE student_messages SET status = 'approved', delivery_started_at = ?
+         WHERE id = ? AND status = ? AND delivery_started_at IS ?`,
+        [new Date().toISOString(), draft.id, draft.status, draft.deliveryStartedAt ?? null],
+      ) > 0;
+    } catch (error) {
+      this.#logger.error("Failed to claim draft retry", {
+        draftId: draft.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Record how delivery of an approved draft went: `sent`, or `delivery_failed` with the transport's error.
+   */
+  recordDraftDelivery(id: string, emailSubject: string, delivery: EmailDelivery) {
+    try {
+      this.#db.exec(
+        `UPDATE student_messages
+         SET status = ?, email_subject = ?, email_path = ?, error = ?, delivery_transport = ?, delivery_attempts = ?,
+           delivered_at = ?
+         WHERE id = ?`,
+        [
+          delivery.status === "delivered" ? "sent" : "delivery_failed",
+          emailSubject,
+          delivery.path,
+          delivery.error ?? null,
+          delivery.transport,
+          delivery.attempts,
+          delivery.deliveredAt ?? null,
+          id,
+        ],
+      );
+    } catch (error) {
+      this.#logger.error("Failed to record draft delivery", {
+        draftId: id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * List stored students, optionally for one class only.
+   */
+  listStudents(classId?: string): Student[] {
+    // Ordered by id so the UI roster and run order are stable across edits.
+    const stmt = this.#db.prepare(
+      classId === undefined
+        ? `SELECT id, data_json FROM students ORDER BY id ASC`
+        : `SELECT id, data_json FROM students WHERE class_id = ? ORDER BY id ASC`,
+    );
+
+    try {
+      const rows = classId === undefined
+        ? stmt.all<{ id: string; data_json: string }>()
+        : stmt.all<{ id: string; data_json: string }>(classId);
+      const students: Student[] = [];
+      rows.forEach((row) => {
+        try {
+          students.push(JSON.parse(row.data_json) as Student);
+        } catch (error) {
+          // A corrupted row shouldn't hide the rest of the roster.
+          this.#logger.warn("Failed to parse stored student", {
+            studentId: row.id,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      });
+      return students;
+    } catch (error) {
+      this.#logger.error("Failed to list students", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    } finally {
+      stmt.finalize();
+    }
+  }
+
+  getStudent(studentId: string): Student | null {
+    const stmt = this.#db.prepare(
+      `SELECT data_json FROM students WHERE id = ?`,
+    );
+
+    try {
+      const row = stmt.get<{ data_json: string }>(studentId);
+      return row ? JSON.parse(row.data_json) as Student : null;
+    } catch (error) {
+      this.#logger.error("Failed to fetch student", {
+        studentId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    } finally {
+      stmt.finalize();
+    }
+  }
+
+  /**
+   * Which class a student belongs to (student ids are unique across classes).
+   */
+  getStudentClassId(studentId: string): string | null {
+    const stmt = this.#db.prepare(`SELECT class_id FROM students WHERE id = ?`);
+
+    try {
+      return stmt.get<{ class_id: string }>(studentId)?.class_id ?? null;
+    } catch (error) {
+      this.#logger.error("Failed to fetch student class", {
+        studentId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    } finally {
+      stmt.finalize();
+    }
+  }
+
+  /**
+   * Insert or replace a (validated) student record in a class. Returns false when the write failed.
+   */
+  saveStudent(student: Student, classId: string): boolean {
+    const now = new Date().toISOString();
+    try {
+      // Upsert keeps the original created_at so “when was this student added” survives edits.
+      this.#db.exec(
+        `INSERT INTO students (id, class_id, name, email, data_json, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET
+           class_id = excluded.class_id,
+           name = excluded.name,
+           email = excluded.email,
+           data_json = excluded.data_json,
+           updated_at = excluded.updated_at`,
+        [student.id, classId, student.name, student.email, JSON.stringify(student), now, now],
+      );
+      return true;
+    } catch (error) {
+      this.#logger.error("Failed to save student", {
+        studentId: student.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Delete a student record. Returns false when no row matched (or the write failed).
+   */
+  deleteStudent(studentId: string): boolean {
+    try {
+      const changes = this.#db.exec(`DELETE FROM students WHERE id = ?`, [studentId]);
+      return changes > 0;
+    } catch (error) {
+      this.#logger.error("Failed to delete student", {
+        studentId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Upsert a batch of validated students from a class's file import and record the import.
+   *
+   * Callers filter out students owned by other classes first; this method would move them.
+   */
+  importStudents(classId: string, source: string, students: Student[]): { created: number; updated: number } {
+    const existing = new Set(this.listStudents(classId).map((student) => student.id));
+    let created = 0;
+    let updated = 0;
+    // One transaction so a partially failed import doesn't leave a half-updated roster.
+    this.#db.transaction(() => {
+      students.forEach((student) => {
+        if (!this.saveStudent(student, classId)) {
+          throw new Error(`Failed to save student ${student.id}`);
+        }
+        if (existing.has(student.id)) {
+          updated += 1;
+        } else {
+          created += 1;
+        }
+      });
+      this.#db.exec(
+        `INSERT INTO roster_imports (id, class_id, source, student_count, imported_at) VALUES (?, ?, ?, ?, ?)`,
+        [crypto.randomUUID(), classId, source, students.length, new Date().toISOString()],
+      );
+    })();
+    return { created, updated };
+  }
+
+  getLatestRosterImport(classId: string): RosterImportEntry | null {
+    const stmt = this.#db.prepare(
+      `SELECT source, student_count, imported_at
+       FROM roster_imports
+       WHERE class_id = ?
+       ORDER BY imported_at DESC
+       LIMIT 1`,
+    );
+
+    try {
+      const row = stmt.get<{ source: string; student_count: number; imported_at: string }>(classId);
+      if (!row) return null;
+      return {
+        classId,
+        source: row.source,
+        importedAt: row.imported_at,
+        studentCount: row.student_count,
+      };
+    } catch (error) {
+      this.#logger.error("Failed to fetch roster import", {
+        classId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    } finally {
+      stmt.finalize();
+    }
+  }
+
+  getChatSession(sessionId: string): ChatSessionEntry | null {
+    const stmt = this.#db.prepare(
+      `SELECT s.id, s.user_id, s.role, s.student_id, s.title, s.created_at, s.updated_at,
+         (SELECT COUNT(*) FROM chat_messages m WHERE m.session_id = s.id) AS message_count
+       FROM chat_sessions s
+       WHERE s.id = ?`,
+    );
+
+    try {
+      const row = stmt.get<ChatSessionRow>(sessionId);
+      return row ? toChatSessionEntry(row) : null;
+    } catch (error) {
+      this.#logger.error("Failed to fetch chat session", {
+        sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    } finally {
+      stmt.finalize();
+    }
+  }
+
+  /**
+   * List a user's chat sessions, most recently active first.
+   */
+  listChatSessions(userId: string, limit = 25): ChatSessionEntry[] {
+    const stmt = this.#db.prepare(
+      `SELECT s.id, s.user_id, s.role, s.student_id, s.title, s.created_at, s.updated_at,
+         (SELECT COUNT(*) FROM chat_messages m WHERE m.session_id = s.id) AS message_count
+       FROM chat_sessions s
+       WHERE s.user_id = ?
+       ORDER BY s.updated_at DESC
+       LIMIT ?`,
+    );
+
+    try {
+      return stmt.all<ChatSessionRow>(userId, limit).map(toChatSessionEntry);
+    } catch (error) {
+      this.#logger.error("Failed to list chat sessions", {
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    } finally {
+      stmt.finalize();
+    }
+  }
+
+  /**
+   * List a session's turns in order. With `limit`, only the most recent turns are returned (still oldest first).
+   */
+  listChatTurns(sessionId: string, limit?: number): ChatTurnEntry[] {
+    // The inner query picks the newest rows; the outer one restores chronological order for the prompt.
+    const stmt = this.#db.prepare(
+      `SELECT role, content, created_at FROM (
+         SELECT id, role, content, created_at
+         FROM chat_messages
+         WHERE session_id = ?
+         ORDER BY id DESC
+         LIMIT ?
+       ) ORDER BY id ASC`,
+    );
+
+    try {
+      // SQLite treats a negative LIMIT as “no limit”.
+      const rows = stmt.all<{ role: string; content: string; created_at: string }>(sessionId, limit ?? -1);
+      return rows.map((row) => ({
+        role: row.role === "assistant" ? "assistant" : "user",
+        content: row.content,
+        createdAt: row.created_at,
+      }));
+    } catch (error) {
+      this.#logger.error("Failed to list chat turns", {
+        sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    } finally {
+      stmt.finalize();
+    }
+  }
+
+  /**
+   * Append turns to a chat session, creating the session on its first exchange. Returns false when the write failed.
+   */
+  appendChatTurns(
+    session: { sessionId: string; userId: string; role: UserRole; studentId?: string },
+    turns: Array<{ role: "user" | "assistant"; content: string }>,
+  ): boolean {
+    const now = new Date().toISOString();
+    const firstUserTurn = turns.find((turn) => turn.role === "user")?.content ?? "";
+    const title = firstUserTurn.replace(/\s+/g, " ").trim().slice(0, 80) || "Conversation";
+    try {
+      // One transaction so a conversation never stores a question without its reply.
+      this.#db.transaction(() => {
+        this.#db.exec(
+          `INSERT INTO chat_sessions (id, user_id, role, student_id, title, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT(id) DO UPDATE SET updated_at = excluded.updated_at`,
+          [session.sessionId, session.userId, session.role, session.studentId ?? null, title, now, now],
+        );
+        turns.forEach((turn) => {
+          this.#db.exec(
+            `INSERT INTO chat_messages (session_id, role, content, created_at) VALUES (?, ?, ?, ?)`,
+            [session.sessionId, turn.role, turn.content, now],
+          );
+        });
+      })();
+      return true;
+    } catch (error) {
+      this.#logger.error("Failed to record chat turns", {
+        sessionId: session.sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
   close() {
     try {
       this.#db.close();
@@ -308,3 +1325,83 @@ export class HistoryStore {
     }
   }
 }
+
+const DRAFT_SELECT = `SELECT m.id, m.run_id, m.class_id, m.student_id, m.status, m.used_fallback, m.analysis_json,
+         m.insights_json, m.message_text, m.email_subject, m.email_path, m.created_at, m.reviewed_by, m.reviewed_at,
+         m.review_note, m.error, m.delivery_attempts, m.delivered_at, m.delivery_started_at,
+         m.guardian_notes_json, (SELECT COUNT(*) FROM student_message_edits e WHERE e.message_id = m.id) AS edit_count
+       FROM student_messages m`;
+
+interface StudentDraftRow {
+  id: string;
+  run_id: string;
+  class_id: string;
+  student_id: string;
+  status: DraftStatus;
+  used_fallback: number;
+  analysis_json: string | null;
+  insights_json: string;
+  message_text: string;
+  email_subject: string | null;
+  email_path: string | null;
+  created_at: string;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_note: string | null;
+  error: string | null;
+  delivery_attempts: number | null;
+  delivered_at: string | null;
+  delivery_started_at: string | null;
+  guardian_notes_json: string | null;
+  edit_count: number;
+}
+
+function toStudentDraftEntry(row: StudentDraftRow): StudentDraftEntry {
+  return {
+    id: row.id,
+    runId: row.run_id,
+    classId: row.class_id,
+    studentId: row.student_id,
+    status: row.status,
+    usedFallback: row.used_fallback === 1,
+    analysis: row.analysis_json ? JSON.parse(row.analysis_json) as StudentAnalysis : undefined,
+    insights: JSON.parse(row.insights_json) as StudentInsights,
+    messageText: row.message_text,
+    emailSubject: row.email_subject ?? undefined,
+    emailPath: row.email_path ?? undefined,
+    createdAt: row.created_at,
+    reviewedBy: row.reviewed_by ?? undefined,
+    reviewedAt: row.reviewed_at ?? undefined,
+    reviewNote: row.review_note ?? undefined,
+    editCount: row.edit_count,
+    guardianNotes: row.guardian_notes_json ? JSON.parse(row.guardian_notes_json) as GuardianNote[] : undefined,
+    error: row.error ?? undefined,
+    deliveryAttempts: row.delivery_attempts ?? undefined,
+    deliveredAt: row.delivered_at ?? undefined,
+    deliveryStartedAt: row.delivery_started_at ?? undefined,
+  };
+}
+
+interface ChatSessionRow {
+  id: string;
+  user_id: string;
+  role: UserRole;
+  student_id: string | null;
+  title: string;
+  created_at: string;
+  updated_at: string;
+  message_count: number;
+}
+
+function toChatSessionEntry(row: ChatSessionRow): ChatSessionEntry {
+  return {
+    sessionId: row.id,
+    userId: row.user_id,
+    role: row.role,
+    studentId: row.student_id ?? undefined,
+    title: row.title,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    messageCount: row.message_count,
+  };
+}
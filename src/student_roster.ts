@@ -0,0 +1,115 @@
+import { loadStudentPayload, type StudentPayload } from "./roster_import.ts";
+import { validateStudents } from "./validator.ts";
+import type { HistoryStore } from "./storage.ts";
+import type { Logger } from "./logger.ts";
+import type { ClassConfig, Student } from "./types.ts";
+
+/**
+ * Student roster access shared by the API server and the batch pipeline.
+ *
+ * Why this exists:
+ * - The roster is editable through the API, so the SQLite `students` table is the source of truth.
+ * - `students.json` (or a CSV export) is only a seed/import source: it is imported the first time
+ *   the store is used, and again whenever someone explicitly re-imports it.
+ * - Chat, the UI roster, and `runOnce` all read through here, so they always see the same students.
+ * - Each class imports its own students file into its own slice of the table. Student ids are unique
+ *   across classes, so a file record whose id belongs to another class is reported instead of moved.
+ */
+export interface RosterImportResult {
+  classId: string;
+  source: string;
+  // Number of valid records written (created + updated).
+  imported: number;
+  created: number;
+  updated: number;
+  // Located validation errors for records that were skipped.
+  errors: string[];
+}
+
+async function readRosterFile(klass: ClassConfig, store: HistoryStore, logger: Logger) {
+  const payload = await loadStudentPayload(klass.studentsJsonPath, klass.studentsCsvMappingPath);
+  const validation = validateStudents(payload.data, payload.locate);
+  const valid: Student[] = [];
+  const errors = [...validation.errors];
+  validation.valid.forEach((student) => {
+    const owner = store.getStudentClassId(student.id);
+    if (owner !== null && owner !== klass.id) {
+      errors.push(`student ${student.id} already belongs to class ${owner}`);
+      return;
+    }
+    valid.push(student);
+  });
+  if (errors.length > 0) {
+    logger.warn("Roster import validation issues", { classId: klass.id, count: errors.length });
+    errors.forEach((error) => logger.warn("Validation error", { classId: klass.id, error }));
+  }
+  return { valid, errors };
+}
+
+/**
+ * Import a class's students file into the store (upserting valid records).
+ */
+export async function importRosterFile(
+  klass: ClassConfig,
+  store: HistoryStore,
+  logger: Logger,
+): Promise<RosterImportResult> {
+  const validation = await readRosterFile(klass, store, logger);
+  const { created, updated } = store.importStudents(klass.id, klass.studentsJsonPath, validation.valid);
+  logger.info("Student roster imported", {
+    classId: klass.id,
+    source: klass.studentsJsonPath,
+    created,
+    updated,
+    skipped: validation.errors.length,
+  });
+  return {
+    classId: klass.id,
+    source: klass.studentsJsonPath,
+    imported: created + updated,
+    created,
+    updated,
+    errors: validation.errors,
+  };
+}
+
+/**
+ * Re-import the students file only if every record in it is valid.
+ *
+ * Used by hot reload: a half-edited file shouldn't silently drop students, so any validation error
+ * keeps the current roster untouched and is reported back instead.
+ */
+export async function reloadRosterFile(
+  klass: ClassConfig,
+  store: HistoryStore,
+  logger: Logger,
+): Promise<{ applied: boolean; errors: string[] }> {
+  const validation = await readRosterFile(klass, store, logger);
+  if (validation.errors.length > 0) {
+    return { applied: false, errors: validation.errors };
+  }
+  const { created, updated } = store.importStudents(klass.id, klass.studentsJsonPath, validation.valid);
+  logger.info("Student roster reloaded", { classId: klass.id, source: klass.studentsJsonPath, created, updated });
+  return { applied: true, errors: [] };
+}
+
+/**
+ * Read a class's current roster, seeding the store from its students file on first use.
+ *
+ * With `seed: false` (dry runs) an unseeded class is left untouched and the file is read directly.
+ */
+export async function loadRoster(
+  klass: ClassConfig,
+  store: HistoryStore,
+  logger: Logger,
+  options: { seed?: boolean } = {},
+): Promise<StudentPayload> {
+  if (!store.getLatestRosterImport(klass.id)) {
+    if (options.seed === false) {
+      return await loadStudentPayload(klass.studentsJsonPath, klass.studentsCsvMappingPath);
+    }
+    await importRosterFile(klass, store, logger);
+  }
+  // Stored records were validated on write; they still go through `validateStudents` downstream.
+  return { data: store.listStudents(klass.id) };
+}
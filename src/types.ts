@@ -7,11 +7,13 @@
  *   what the LLM should return and what the UI/API are allowed to expose).
  *
  * How it’s used:
- * - `Student` + `Grade` describe validated input data (from `students.json`).
+ * - `Student` + `Grade` (+ optional dated `Assessment` history) describe validated input data (from `students.json`).
  * - `StudentAnalysis` + `TeacherSummary` are deterministic computations produced by `src/analyzer.ts`.
- * - `StudentInsights` + `TeacherInsights` are the *structured* outputs we request from the LLM, then validate in
- *   `src/insights.ts` before rendering to messages/emails.
+ * - `StudentInsights` + `TeacherInsights` (+ `GuardianInsights` for families) are the *structured* outputs we
+ *   request from the LLM, then validate in `src/insights.ts` before rendering to messages/emails.
+ * - `RiskPolicy` describes the configurable thresholds `src/analyzer.ts` uses for risk levels and attention flags.
  * - `AppConfig` collects runtime configuration; it is loaded from env vars by the various entry points.
+ * - `MessageBlock` and the `EmailTemplate*` types describe rendered messages and the templates that wrap them.
  */
 export type PerformanceTrend = "improving" | "stable" | "declining";
 
@@ -22,6 +24,15 @@ export interface Grade {
   score: number; // 0-100
 }
 
+export interface Assessment {
+  // Subject label; assessments are grouped by subject to compute per-subject trends.
+  subject: string;
+  // Same bounded signal as `Grade.score`.
+  score: number; // 0-100
+  // When the assessment happened; used to order records and measure change over time.
+  date: string; // ISO date string
+}
+
 export interface Student {
   // Stable identifier used across: memory files, chat personalization, and run history.
   id: string;
@@ -37,10 +48,39 @@ export interface Student {
   assignmentCompletionRate: number; // 0-100
   // Free-form notes are input context for the LLM; they are not used for deterministic scoring.
   teacherNotes: string;
-  // A simple qualitative trend label. The validator ensures this is in a closed set.
+  // Hand-entered trend label. Only used when `assessments` can't produce a computed trend.
   performanceTrend: PerformanceTrend;
   // Used primarily for recency context; validated as a parseable date string.
   lastAssessmentDate: string; // ISO date string
+  // Optional dated assessment history; when present, `src/analyzer.ts` computes trends from it.
+  assessments?: Assessment[];
+  // Optional family contacts; only guardians with `optIn` receive guardian notes.
+  guardians?: Guardian[];
+  // Preferred language/locale tag for the student's messages (e.g. "es"); defaults to `EMAIL_LOCALE`.
+  language?: string;
+}
+
+export interface Guardian {
+  name: string;
+  email: string;
+  // Preferred language/locale tag (e.g. "es", "pt-BR"); picks the note's language and email template.
+  language?: string;
+  // Explicit consent to receive notes; contacts without it are kept on file but never emailed.
+  optIn: boolean;
+}
+
+export interface SubjectTrend {
+  subject: string;
+  // Number of dated assessments used for this subject (always >= 2).
+  assessmentCount: number;
+  // Least-squares slope of score over time, in points per 30 days.
+  slopePer30Days: number;
+  // Score change between the two most recent assessments.
+  recentDelta: number;
+  latestScore: number;
+  latestDate: string;
+  // Slope bucketed into the same closed set as the hand-entered label.
+  trend: PerformanceTrend;
 }
 
 export interface StudentMetrics {
@@ -70,8 +110,79 @@ export interface StudentAnalysis {
   strengths: string[];
   // Deterministic “improvement” strings; can be used as fallback or as prompt context.
   improvementAreas: string[];
-  // Coarse risk label derived from thresholds in `src/analyzer.ts`.
+  // Coarse risk label derived from the active `RiskPolicy`.
   riskLevel: RiskLevel;
+  // Sum of the weights of the matched risk rules (compared against `RiskPolicy.levels`).
+  riskScore: number;
+  // IDs of the risk rules that matched, so teachers can see why a student was flagged.
+  riskRuleIds: string[];
+  // IDs of the attention rules that matched (non-empty exactly when `metrics.needsAttention` is true).
+  attentionRuleIds: string[];
+  // Structured reasons behind the risk level / attention flag (one per signal, most severe first).
+  riskFactors: RiskFactor[];
+  // Effective trend used for risk and messaging.
+  trend: PerformanceTrend;
+  // “assessments” when computed from dated history; “reported” when falling back to `performanceTrend`.
+  trendSource: "assessments" | "reported";
+  // Per-subject trend details; empty when there is not enough assessment history.
+  subjectTrends: SubjectTrend[];
+}
+
+// Signals a risk rule can test. `subjectScore` compares individual grades (optionally one subject only).
+export type RiskSignal =
+  | "averageScore"
+  | "participationScore"
+  | "assignmentCompletionRate"
+  | "subjectScore"
+  | "trend";
+
+export type RiskOperator = "lt" | "lte" | "gt" | "gte" | "eq";
+
+export interface RiskRule {
+  // Stable identifier recorded in `StudentAnalysis` when the rule matches.
+  id: string;
+  signal: RiskSignal;
+  operator: RiskOperator;
+  // Numeric threshold, or a `PerformanceTrend` label for the `trend` signal (compared with `eq`).
+  value: number | PerformanceTrend;
+  // Only for `subjectScore`: restrict the rule to one subject (case-insensitive). Omit to match any subject.
+  subject?: string;
+  // Contribution to `riskScore` when matched. Ignored for attention rules.
+  weight: number;
+  // Optional human-readable explanation for teachers.
+  description?: string;
+}
+
+export interface RiskFactor {
+  // The rule that produced this factor (from `rules` or `attentionRules`).
+  ruleId: string;
+  signal: RiskSignal;
+  // Set for `subjectScore` factors: the subject whose grade crossed the threshold.
+  subject?: string;
+  // What the analyzer saw, and the threshold it was compared against.
+  observed: number | PerformanceTrend;
+  operator: RiskOperator;
+  threshold: number | PerformanceTrend;
+  // Derived from the rule weight relative to `RiskPolicy.levels`; attention-only rules are “low”.
+  severity: RiskLevel;
+  // Plain-language reason, e.g. “Assignment completion is 60%, below 70%”. Safe to show teachers.
+  reason: string;
+}
+
+export interface RiskPolicy {
+  // Weighted rules; matched weights are summed into `riskScore`.
+  rules: RiskRule[];
+  // Minimum `riskScore` for each level (anything below `medium` is “low”).
+  levels: { high: number; medium: number };
+  // Any matched attention rule sets `metrics.needsAttention`.
+  attentionRules: RiskRule[];
+}
+
+export interface TeacherSummaryAttention {
+  studentId: string;
+  name: string;
+  riskLevel: RiskLevel;
+  riskFactors: RiskFactor[];
 }
 
 export interface TeacherSummary {
@@ -79,8 +190,8 @@ export interface TeacherSummary {
   classAverage: number;
   // Names of top students (for summary context; not used for grading).
   topStudents: string[];
-  // Names of students flagged for attention (needsAttention or high risk).
-  attentionNeeded: string[];
+  // Students flagged for attention (needsAttention or high risk), with the reasons behind each flag.
+  attentionNeeded: TeacherSummaryAttention[];
   // Compact notes for the teacher: e.g., how many are declining.
   notes: string[];
 }
@@ -124,13 +235,58 @@ export interface TeacherInsights {
   nextSteps: string[];
 }
 
+/**
+ * Family-facing version of a student's insights: plain language, no scores, concrete ways to help at home.
+ */
+export interface GuardianInsights {
+  // Short overview of how the student is doing.
+  summary: string;
+  // 1–3 things going well.
+  highlights: string[];
+  // 1–3 concrete ways to support learning at home.
+  homeSupport: string[];
+  // Closing line inviting follow-up with the teacher.
+  closing: string;
+}
+
+/**
+ * Guardian insights generated for one language during a run. Stored with the student's message so an
+ * approved draft sends exactly the notes the teacher reviewed.
+ */
+export interface GuardianNote {
+  language: string;
+  insights: GuardianInsights;
+  usedFallback: boolean;
+}
+
+/**
+ * Why a message used deterministic fallback insights: the model's reply failed validation even after the re-ask,
+ * the model call failed (after retries), or the run's circuit breaker had stopped calling the model.
+ */
+export type InsightFallbackReason = "invalid_output" | "model_error" | "circuit_open";
+
+/**
+ * How a run's model-written insights (student, guardian, and teacher) turned out. `generated` counts every
+ * insight set the run produced; `repaired` ones were only accepted after re-asking with the validation errors,
+ * and `fallbacks` were replaced by deterministic insights, whatever the `InsightFallbackReason`.
+ */
+export interface InsightStats {
+  generated: number;
+  repaired: number;
+  fallbacks: number;
+}
+
+/**
+ * One block of a rendered message: a paragraph, or a headed list. Shared by the text and HTML renderers so
+ * both bodies of an email always carry the same content.
+ */
+export type MessageBlock =
+  | { kind: "paragraph"; text: string }
+  | { kind: "list"; heading: string; items: string[] };
+
 export interface AppConfig {
-  // Required secret used by the LangChain OpenAI client (never exposed to UI).
-  openAiApiKey: string;
-  // Model name passed through to ChatOpenAI.
-  openAiModel: string;
-  // Optional override for OpenAI-compatible APIs (self-hosted, proxies, etc).
-  openAiBaseUrl?: string;
+  // Which model API generates insights and chat replies, and how to reach it (never exposed to UI).
+  llm: LlmConfig;
   // Optional pricing numbers used for UI cost estimation.
   openAiPriceInputPer1K?: number;
   // Optional pricing numbers used for UI cost estimation.
@@ -141,20 +297,124 @@ export interface AppConfig {
   teacherEmail: string;
   // If set, emails are written to disk; otherwise they are only logged.
   emailOutDir?: string;
+  // How emails leave the process: "file" (log + optional `emailOutDir` artifacts) or "smtp".
+  emailTransport: EmailTransportName;
+  // SMTP relay settings; required when `emailTransport` is "smtp".
+  smtp?: SmtpConfig;
+  // Delivery attempts per email before it is recorded as failed (first try included).
+  emailMaxAttempts: number;
+  // Delay before the first retry; doubles for each further retry.
+  emailRetryBaseMs: number;
+  // Optional directory of email template overrides (`<template>.<locale>.json`).
+  emailTemplatesDir?: string;
+  // Locale used to pick email templates (falls back to the language, then "en").
+  emailLocale: string;
   // SQLite file path for the audit/history database.
   historyDbPath: string;
   // Optional path to a teacher preferences JSON file.
   teacherRulesPath?: string;
   // Loaded/parsed teacher preferences object (populated at runtime).
   teacherRules?: TeacherPreferences;
+  // Optional path to a risk policy JSON file (defaults to the built-in thresholds).
+  riskPolicyPath?: string;
+  // Loaded/sanitized risk policy (populated at runtime).
+  riskPolicy?: RiskPolicy;
+  // Students processed at once within a run (default 4); history rows keep roster order either way.
+  studentConcurrency?: number;
   // Optional cron schedule (takes precedence if set).
   scheduleCron?: string;
   // Interval schedule fallback when cron is not set.
   scheduleIntervalMin: number;
-  // Student data file path (JSON).
+  // Student data file path (JSON, or CSV when the path ends in `.csv`).
   studentsJsonPath: string;
+  // Optional column mapping JSON for CSV rosters (headers default to `Student` field names).
+  studentsCsvMappingPath?: string;
+  // Optional classes file; when unset, the settings above form a single "default" class.
+  classesPath?: string;
+  // Loaded classes with their teacher rules (populated at runtime).
+  classes?: ClassConfig[];
   // Controls how much operational output gets written to console.
   logLevel: LogLevel;
+  // Store student messages as drafts that a teacher approves before delivery (REVIEW_STUDENT_MESSAGES).
+  reviewStudentMessages: boolean;
+}
+
+/**
+ * One class/section: its own roster source, teacher preferences, teacher email, memory namespace, and schedule.
+ */
+export interface ClassConfig {
+  // Stable slug; keys roster rows, history rows, and the memory directory.
+  id: string;
+  name: string;
+  studentsJsonPath: string;
+  studentsCsvMappingPath?: string;
+  teacherRulesPath?: string;
+  // Loaded/parsed teacher preferences for this class (populated at runtime).
+  teacherRules?: TeacherPreferences;
+  emailTemplatesDir?: string;
+  // Loaded email template overrides for this class (populated at runtime).
+  emailTemplates?: EmailTemplateSet;
+  teacherEmail: string;
+  scheduleCron?: string;
+  scheduleIntervalMin: number;
 }
 
 export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type EmailTransportName = "file" | "smtp";
+
+export type LlmProviderName = "openai" | "anthropic" | "ollama" | "mock";
+
+export interface LlmConfig {
+  provider: LlmProviderName;
+  // Model name sent with every request ("mock" for the scripted provider).
+  model: string;
+  // Required for "openai" and "anthropic"; local Ollama servers run without one.
+  apiKey?: string;
+  // Overrides the provider's default endpoint (OpenAI-compatible proxies, a remote Ollama host, ...).
+  baseUrl?: string;
+  // JSON file of canned responses; required for "mock" (see `src/llm_provider.ts`).
+  mockScriptPath?: string;
+  // Ask for insights through the API's native structured output (default on). `LLM_STRUCTURED_OUTPUT=false`
+  // falls back to prompt-only JSON for models or servers without JSON-schema support.
+  structuredOutput?: boolean;
+  // Call policy (see `withRetryPolicy` and `CircuitBreaker`): the limit for one call, attempts per call when it
+  // hits a rate limit, server error, or timeout, the first retry delay (doubling after), and how many consecutive
+  // failed calls switch the rest of a run to fallbacks. Defaults: 60 s, 3, 1 s, 3.
+  timeoutMs?: number;
+  maxAttempts?: number;
+  retryBaseMs?: number;
+  circuitBreakerThreshold?: number;
+  // Optional caps on model calls per minute and on tokens (prompt + reply) per minute (see `RateLimiter`).
+  // Unset means no limit. One budget is shared by every run and chat turn in the process (`sharedRateLimiter`).
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+}
+
+export type EmailTemplateId = "student_update" | "teacher_summary" | "guardian_update";
+
+export interface EmailTemplate {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// Template overrides by id, then by lower-case locale; a file may override only some fields.
+export type EmailTemplateSet = Record<EmailTemplateId, Record<string, Partial<EmailTemplate>>>;
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  // "starttls" upgrades a plain connection (usually port 587), "tls" connects over TLS (465),
+  // "none" never encrypts and is only meant for local relays and tests.
+  security: "starttls" | "tls" | "none";
+  // Credentials are optional: local relays often accept mail without AUTH.
+  username?: string;
+  password?: string;
+  // Forces one AUTH mechanism; otherwise PLAIN is used when offered, then LOGIN.
+  authMethod?: "plain" | "login";
+  // Name announced in EHLO.
+  heloName: string;
+  // Upper bound for one whole SMTP session (connect through QUIT).
+  timeoutMs: number;
+}
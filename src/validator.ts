@@ -1,4 +1,4 @@
-import type { Grade, PerformanceTrend, Student } from "./types.ts";
+import type { Assessment, Grade, Guardian, PerformanceTrend, Student } from "./types.ts";
 
 /**
  * Boundary validator for student input data.
@@ -11,11 +11,17 @@ import type { Grade, PerformanceTrend, Student } from "./types.ts";
  * How this module is used:
  * - `validateStudent(...)` validates a single record and either returns a fully-typed `Student` or a list of errors.
  * - `validateStudents(...)` applies that per-record validation across an array and collects `valid` + `errors`.
+ * - Optional guardian contacts are validated here too, so a bad family address is caught at import.
  */
 type ValidationResult<T> = { ok: true; value: T } | { ok: false; errors: string[] };
 
 // Deliberately simple pattern: “good enough” for demo data quality checks without heavy dependencies.
-const EMAIL_PATTERN = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+export const EMAIL_PATTERN = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+// Language tag shape (`es`, `pt-BR`, `zh_Hant`); which languages have templates is decided at send time.
+const LANGUAGE_PATTERN = /^[A-Za-z]{2,3}(?:[-_][A-Za-z0-9]{2,8})*$/;
+// Student ids become memory file names and email headers, and the API lets teachers choose them, so they are
+// limited to the same shape as class ids: no path separators, dots, spaces, or control characters.
+export const STUDENT_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/;
 
 function isRecord(value: unknown): value is Record<string, unknown> {
   // We treat arrays as invalid records because our schema expects key/value objects.
@@ -87,6 +93,78 @@ function validateGrade(value: unknown, index: number): ValidationResult<Grade> {
   };
 }
 
+function validateAssessment(value: unknown, index: number): ValidationResult<Assessment> {
+  // Same per-entry approach as grades, plus a date so entries can be placed on a timeline.
+  const errors: string[] = [];
+  if (!isRecord(value)) {
+    return { ok: false, errors: [`assessments[${index}] must be an object`] };
+  }
+
+  const subject = value.subject;
+  const score = value.score;
+  const date = value.date;
+
+  if (!isNonEmptyString(subject)) {
+    errors.push(`assessments[${index}].subject must be a non-empty string`);
+  }
+  if (!inRange(score, 0, 100)) {
+    errors.push(`assessments[${index}].score must be a number between 0 and 100`);
+  }
+  if (!isValidDate(date)) {
+    errors.push(`assessments[${index}].date must be a valid date string`);
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    value: {
+      subject: (subject as string).trim(),
+      score: score as number,
+      date: date as string,
+    },
+  };
+}
+
+function validateGuardian(value: unknown, index: number): ValidationResult<Guardian> {
+  const errors: string[] = [];
+  if (!isRecord(value)) {
+    return { ok: false, errors: [`guardians[${index}] must be an object`] };
+  }
+
+  const { name, email, language, optIn } = value;
+  if (!isNonEmptyString(name)) {
+    errors.push(`guardians[${index}].name must be a non-empty string`);
+  }
+  if (!isNonEmptyString(email) || !EMAIL_PATTERN.test(email.trim())) {
+    errors.push(`guardians[${index}].email must be a valid address`);
+  }
+  if (language !== undefined && (typeof language !== "string" || !LANGUAGE_PATTERN.test(language.trim()))) {
+    errors.push(`guardians[${index}].language must be a language tag like "en" or "pt-BR"`);
+  }
+  // Consent must be stated explicitly; anything but a boolean is more likely a typo than a decision.
+  if (optIn !== undefined && typeof optIn !== "boolean") {
+    errors.push(`guardians[${index}].optIn must be true or false`);
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    value: {
+      name: (name as string).trim(),
+      email: (email as string).trim(),
+      ...(typeof language === "string" ? { language: language.trim() } : {}),
+      // Missing consent means no notes.
+      optIn: optIn === true,
+    },
+  };
+}
+
 /**
  * Validate raw student data and return a typed Student or detailed errors.
  */
@@ -107,6 +185,9 @@ export function validateStudent(value: unknown, index: number): ValidationResult
   const teacherNotes = value.teacherNotes;
   const performanceTrend = parseTrend(value.performanceTrend);
   const lastAssessmentDate = value.lastAssessmentDate;
+  const assessments = value.assessments;
+  const guardians = value.guardians;
+  const language = value.language;
 
   // Normalize “safe” values. We still record errors if their raw forms are invalid.
   const idValue = isNonEmptyString(id) ? id.trim() : "";
@@ -122,6 +203,8 @@ export function validateStudent(value: unknown, index: number): ValidationResult
   // Validate required identity fields (they’re used as keys across the system).
   if (!isNonEmptyString(id)) {
     errors.push("id must be a non-empty string");
+  } else if (!STUDENT_ID_PATTERN.test(idValue)) {
+    errors.push('id must be 1-64 letters, digits, "-" or "_"');
   }
   if (!isNonEmptyString(name)) {
     errors.push("name must be a non-empty string");
@@ -164,6 +247,44 @@ export function validateStudent(value: unknown, index: number): ValidationResult
     errors.push("lastAssessmentDate must be a valid date string");
   }
 
+  // Assessment history is optional; when present, every entry must be valid so trends aren't skewed.
+  const validatedAssessments: Assessment[] = [];
+  if (assessments !== undefined) {
+    if (!Array.isArray(assessments)) {
+      errors.push("assessments must be an array when provided");
+    } else {
+      assessments.forEach((assessment, assessmentIndex) => {
+        const result = validateAssessment(assessment, assessmentIndex);
+        if (result.ok) {
+          validatedAssessments.push(result.value);
+        } else {
+          errors.push(...result.errors);
+        }
+      });
+    }
+  }
+
+  // Guardian contacts are optional; a bad contact rejects the record so a family is never silently dropped.
+  const validatedGuardians: Guardian[] = [];
+  if (guardians !== undefined) {
+    if (!Array.isArray(guardians)) {
+      errors.push("guardians must be an array when provided");
+    } else {
+      guardians.forEach((guardian, guardianIndex) => {
+        const result = validateGuardian(guardian, guardianIndex);
+        if (result.ok) {
+          validatedGuardians.push(result.value);
+        } else {
+          errors.push(...result.errors);
+        }
+      });
+    }
+  }
+
+  if (language !== undefined && (typeof language !== "string" || !LANGUAGE_PATTERN.test(language.trim()))) {
+    errors.push('language must be a language tag like "en" or "pt-BR"');
+  }
+
   // Returning structured errors lets callers decide whether to fail fast or continue with the valid subset.
   if (errors.length > 0) {
     return { ok: false, errors };
@@ -181,14 +302,24 @@ export function validateStudent(value: unknown, index: number): ValidationResult
       teacherNotes: notesValue,
       performanceTrend: trendValue,
       lastAssessmentDate: lastAssessmentValue,
+      // Only attach the field when history was supplied, keeping simple records unchanged.
+      ...(assessments !== undefined ? { assessments: validatedAssessments } : {}),
+      ...(guardians !== undefined ? { guardians: validatedGuardians } : {}),
+      ...(typeof language === "string" ? { language: language.trim() } : {}),
     },
   };
 }
 
 /**
  * Validate a JSON payload that should be a list of students.
+ *
+ * `locate` rewrites each record error to point at its source (e.g. a CSV row/column); the default
+ * prefix is the array location.
  */
-export function validateStudents(data: unknown): { valid: Student[]; errors: string[] } {
+export function validateStudents(
+  data: unknown,
+  locate: (index: number, error: string) => string = (index, error) => `students[${index}]: ${error}`,
+): { valid: Student[]; errors: string[] } {
   // This function intentionally does *not* throw: it returns a split of `valid` + `errors`.
   const errors: string[] = [];
   const valid: Student[] = [];
@@ -205,9 +336,9 @@ export function validateStudents(data: unknown): { valid: Student[]; errors: str
     if (result.ok) {
       valid.push(result.value);
     } else {
-      // Prefix each error with the array location so the raw JSON can be fixed quickly.
+      // Prefix each error with its location so the raw input can be fixed quickly.
       result.errors.forEach((error) => {
-        errors.push(`students[${index}]: ${error}`);
+        errors.push(locate(index, error));
       });
     }
   });
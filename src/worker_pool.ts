@@ -0,0 +1,81 @@
+/**
+ * Bounded-concurrency processing of a run's students, shared by every pipeline entry point.
+ *
+ * Why a pool (instead of a plain `for ... of` loop):
+ * - Each student waits on one or more model round trips and an email send. Working on a few students at once
+ *   turns a 150-student class from 150 serial round trips into roughly 150 / concurrency.
+ * - The bound keeps a large class from opening hundreds of model calls and SMTP connections at once; request
+ *   and token rate limits are applied where the calls are made (`RateLimiter` in `llm_provider.ts`).
+ *
+ * Why results are committed in order:
+ * - `work` does the slow part for one student (model calls, email, that student's own memory file) and returns a
+ *   commit step; the pool runs the steps one at a time in roster order. History rows, the analyses that feed the
+ *   teacher summary, and dry-run previews therefore come out the same however the calls happened to finish.
+ * - Finished students wait in memory until the students before them are committed, so a slow student delays
+ *   commits, never the model calls of the others.
+ */
+export const DEFAULT_STUDENT_CONCURRENCY = 4;
+
+// Runs after every earlier item's step; the place for history writes and other shared state.
+export type CommitStep = () => void | Promise<void>;
+
+/**
+ * Run `work` for every item with at most `concurrency` in flight, and each returned step in item order.
+ *
+ * `work` is expected to handle its own failures (the pipelines record them per student). If it or a step throws
+ * anyway, no further items are started. Once the items in flight have settled, every item that finished still gets
+ * its step (in item order, skipping the one that failed), because its emails may already be out and its memory
+ * written; then the first error is rethrown. Errors from those late steps are dropped in favor of the first one.
+ */
+export async function runWorkerPool<T>(
+  items: readonly T[],
+  concurrency: number | undefined,
+  work: (item: T, index: number) => Promise<CommitStep>,
+): Promise<void> {
+  const limit = Math.max(1, Math.floor(concurrency ?? DEFAULT_STUDENT_CONCURRENCY));
+  const finished = new Map<number, CommitStep>();
+  let nextItem = 0;
+  let nextCommit = 0;
+  let failure: { error: unknown } | undefined;
+  // Steps run from one promise chain, so two of them never interleave even when they are async.
+  let commits: Promise<void> = Promise.resolve();
+
+  const commitReady = async () => {
+    while (!failure && finished.has(nextCommit)) {
+      const step = finished.get(nextCommit)!;
+      finished.delete(nextCommit);
+      nextCommit += 1;
+      await step();
+    }
+  };
+
+  const worker = async () => {
+    while (!failure && nextItem < items.length) {
+      const index = nextItem;
+      nextItem += 1;
+      try {
+        finished.set(index, await work(items[index], index));
+      } catch (error) {
+        failure ??= { error };
+        return;
+      }
+      // Caught here so a failed step cannot become an unhandled rejection while other workers run.
+      commits = commits.then(commitReady).catch((error) => {
+        failure ??= { error };
+      });
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  await commits;
+  if (!failure) return;
+  // Items past the failure finished their work, so they are committed rather than silently dropped.
+  for (const index of [...finished.keys()].sort((a, b) => a - b)) {
+    try {
+      await finished.get(index)!();
+    } catch {
+      // The first error is the one reported.
+    }
+  }
+  throw failure.error;
+}
@@ -1,4 +1,5 @@
-import { analyzeStudent } from "../src/analyzer.ts";
+import { analyzeStudent, buildTeacherSummary, computeSubjectTrends } from "../src/analyzer.ts";
+import { buildFallbackTeacherInsights } from "../src/insights.ts";
 import type { Student } from "../src/types.ts";
 import { assertEquals } from "jsr:@std/assert@0.224.0";
 
@@ -36,3 +37,113 @@ Deno.test("analyzeStudent computes averages and risk level", () => {
   // Declining trend + low completion should push risk to high.
   assertEquals(analysis.riskLevel, "high");
 });
+
+Deno.test("analyzeStudent computes trend from dated assessments", () => {
+  // The hand-entered label says “improving”, but the assessment history shows a steady decline.
+  const student: Student = {
+    id: "S101",
+    name: "Trend Student",
+    email: "trend@example.com",
+    grades: [
+      { subject: "Math", score: 82 },
+      { subject: "English", score: 84 },
+    ],
+    participationScore: 8,
+    assignmentCompletionRate: 92,
+    teacherNotes: "",
+    performanceTrend: "improving",
+    lastAssessmentDate: "2024-09-01",
+    assessments: [
+      { subject: "Math", score: 90, date: "2024-07-01" },
+      { subject: "Math", score: 86, date: "2024-07-31" },
+      { subject: "Math", score: 82, date: "2024-08-30" },
+      { subject: "English", score: 90, date: "2024-07-01" },
+      { subject: "English", score: 84, date: "2024-08-30" },
+    ],
+  };
+
+  const analysis = analyzeStudent(student);
+  // Computed history wins over the stale label.
+  assertEquals(analysis.trendSource, "assessments");
+  assertEquals(analysis.trend, "declining");
+  // Math drops 4 points every 30 days; the latest delta is the last step.
+  const math = analysis.subjectTrends.find((trend) => trend.subject === "Math");
+  assertEquals(math?.slopePer30Days, -4);
+  assertEquals(math?.recentDelta, -4);
+  // A declining computed trend is a strong risk signal.
+  assertEquals(analysis.riskLevel, "high");
+});
+
+Deno.test("analyzeStudent falls back to the reported trend without history", () => {
+  const student: Student = {
+    id: "S102",
+    name: "Snapshot Student",
+    email: "snapshot@example.com",
+    grades: [{ subject: "Math", score: 90 }],
+    participationScore: 8,
+    assignmentCompletionRate: 95,
+    teacherNotes: "",
+    performanceTrend: "stable",
+    lastAssessmentDate: "2024-09-01",
+    // A single assessment per subject has no direction.
+    assessments: [{ subject: "Math", score: 90, date: "2024-09-01" }],
+  };
+
+  const analysis = analyzeStudent(student);
+  assertEquals(analysis.trendSource, "reported");
+  assertEquals(analysis.trend, "stable");
+  assertEquals(analysis.subjectTrends.length, 0);
+});
+
+Deno.test("computeSubjectTrends groups subjects regardless of case", () => {
+  // One subject entered three ways is one series, not three half-length ones.
+  const trends = computeSubjectTrends([
+    { subject: "Math", score: 90, date: "2024-07-01" },
+    { subject: "math", score: 86, date: "2024-07-31" },
+    { subject: " MATH ", score: 82, date: "2024-08-30" },
+    { subject: "English", score: 88, date: "2024-08-30" },
+  ]);
+  assertEquals(trends.length, 1);
+  assertEquals(trends[0].subject, "Math");
+  assertEquals(trends[0].assessmentCount, 3);
+  assertEquals(trends[0].slopePer30Days, -4);
+  assertEquals(trends[0].latestScore, 82);
+});
+
+Deno.test("analyzeStudent explains risk with structured factors", () => {
+  const student: Student = {
+    id: "S102",
+    name: "Factor Student",
+    email: "factor@example.com",
+    grades: [
+      { subject: "Math", score: 90 },
+      { subject: "English", score: 70 },
+    ],
+    participationScore: 5,
+    assignmentCompletionRate: 60,
+    teacherNotes: "",
+    performanceTrend: "declining",
+    lastAssessmentDate: "2024-09-01",
+  };
+
+  const analysis = analyzeStudent(student);
+  // One factor per signal (overlapping completion rules collapse), most severe first.
+  assertEquals(
+    analysis.riskFactors.map((factor) => [factor.ruleId, factor.observed, factor.threshold, factor.severity]),
+    [
+      ["completion-below-70", 60, 70, "high"],
+      ["trend-declining", "declining", "declining", "high"],
+      ["participation-at-most-6", 5, 6, "medium"],
+    ],
+  );
+  assertEquals(analysis.riskFactors[0].reason, "Assignment completion is 60%, below 70%");
+
+  // The teacher summary and its fallback carry the same concrete reasons.
+  const summary = buildTeacherSummary([analysis]);
+  assertEquals(summary.attentionNeeded[0].studentId, "S102");
+  const insights = buildFallbackTeacherInsights(summary);
+  assertEquals(
+    insights.attentionNeeded[0].reason,
+    "Assignment completion is 60%, below 70%; Performance trend is declining.",
+  );
+});
@@ -0,0 +1,75 @@
+import {
+  authenticate,
+  canAccessClass,
+  canAccessStudent,
+  signSessionToken,
+  validateAuthUsers,
+  verifySessionToken,
+} from "../src/auth.ts";
+import { assert, assertEquals } from "jsr:@std/assert@0.224.0";
+
+/**
+ * Unit tests for session tokens and role/roster access.
+ *
+ * These guard the API boundary: a forged, expired, or stale token must never resolve to a session,
+ * and a teacher's reach is exactly the rosters of the classes they teach.
+ */
+const secret = "test-secret-that-is-at-least-32-characters";
+const now = Date.UTC(2024, 0, 1);
+
+Deno.test("verifySessionToken accepts valid tokens and rejects tampered or expired ones", async () => {
+  const token = await signSessionToken({ id: "teacher-1", role: "teacher" }, secret, 3600, now);
+
+  const verified = await verifySessionToken(token, secret, now + 1000);
+  assert(verified.ok);
+  assertEquals(verified.value.sub, "teacher-1");
+  assertEquals(verified.value.role, "teacher");
+
+  const [header, , signature] = token.split(".");
+  const forgedPayload = btoa(JSON.stringify({ sub: "admin", role: "admin", iat: 0, exp: 9999999999 }))
+    .replace(/=+$/, "");
+  const forged = await verifySessionToken(`${header}.${forgedPayload}.${signature}`, secret, now);
+  assertEquals(forged.ok ? [] : forged.errors, ["Invalid token signature"]);
+
+  const wrongSecret = await verifySessionToken(token, "another-secret-that-is-32-characters!", now);
+  assertEquals(wrongSecret.ok, false);
+
+  const expired = await verifySessionToken(token, secret, now + 3600 * 1000);
+  assertEquals(expired.ok ? [] : expired.errors, ["Token expired"]);
+});
+
+Deno.test("authenticate maps tokens to current users and enforces roster access", async () => {
+  const { users, errors } = validateAuthUsers({
+    users: [
+      { id: "teacher-1", role: "teacher", classIds: ["period-1"] },
+      { id: "student-1", role: "student", studentId: "S001" },
+      { id: "admin", role: "admin" },
+      { id: "broken", role: "student" },
+    ],
+  });
+  assertEquals(errors, ["users[3].studentId is required for student users"]);
+  const userMap = new Map(users.map((user) => [user.id, user]));
+  const rosterOf = (classIds: string[]) => classIds.includes("period-1") ? ["S001", "S002"] : [];
+
+  const request = (token: string) => new Request("http://local/v1/students", { headers: { authorization: `Bearer ${token}` } });
+  const teacherToken = await signSessionToken({ id: "teacher-1", role: "teacher" }, secret, 3600, now);
+  const teacher = await authenticate(request(teacherToken), secret, userMap, rosterOf, now);
+  assert(teacher.ok);
+  assert(canAccessStudent(teacher.value, "S002"));
+  assertEquals(canAccessStudent(teacher.value, "S003"), false);
+  assert(canAccessClass(teacher.value, "period-1"));
+  assertEquals(canAccessClass(teacher.value, "period-2"), false);
+
+  const studentToken = await signSessionToken({ id: "student-1", role: "student" }, secret, 3600, now);
+  const student = await authenticate(request(studentToken), secret, userMap, rosterOf, now);
+  assert(student.ok);
+  assert(canAccessStudent(student.value, "S001"));
+  assertEquals(canAccessStudent(student.value, "S002"), false);
+  assertEquals(canAccessClass(student.value, "period-1"), false);
+
+  // A token minted with a role the user no longer has is rejected.
+  const staleToken = await signSessionToken({ id: "student-1", role: "teacher" }, secret, 3600, now);
+  assertEquals((await authenticate(request(staleToken), secret, userMap, rosterOf, now)).ok, false);
+  const missing = await authenticate(new Request("http://local/v1/students"), secret, userMap, rosterOf, now);
+  assertEquals(missing.ok ? [] : missing.errors, ["Missing bearer token"]);
+});
@@ -0,0 +1,52 @@
+import { resolveClass, validateClasses } from "../src/classes.ts";
+import { classMemoryDir } from "../src/memory_store.ts";
+import type { AppConfig } from "../src/types.ts";
+import { assertEquals, assertThrows } from "jsr:@std/assert@0.224.0";
+
+/**
+ * Unit tests for class definitions.
+ *
+ * Class ids key roster rows, history rows, and memory paths, so a bad id or an ambiguous class must never
+ * reach a run.
+ */
+const defaults = { teacherEmail: "teacher@example.com", scheduleIntervalMin: 30 };
+
+Deno.test("validateClasses applies defaults and drops invalid classes", () => {
+  const { classes, errors } = validateClasses({
+    classes: [
+      { id: "period-1", name: "Period 1", studentsJsonPath: "p1.json", scheduleCron: "0 7 * * 1-5" },
+      { id: "period-2", studentsJsonPath: "p2.csv", teacherEmail: "b@example.com", scheduleIntervalMin: 60 },
+      { id: "../escape", studentsJsonPath: "p3.json" },
+      { id: "period-1", studentsJsonPath: "dup.json" },
+      { id: "period-4" },
+    ],
+  }, defaults);
+
+  assertEquals(classes.map((klass) => [klass.id, klass.name, klass.teacherEmail, klass.scheduleIntervalMin]), [
+    ["period-1", "Period 1", "teacher@example.com", 30],
+    ["period-2", "period-2", "b@example.com", 60],
+  ]);
+  assertEquals(errors, [
+    'classes[2].id must be 1-64 letters, digits, "-" or "_"',
+    'classes[3].id "period-1" is duplicated',
+    "classes[4].studentsJsonPath must be a non-empty string",
+  ]);
+  assertEquals(validateClasses([], defaults).errors, ["Classes file must be an object with a classes array"]);
+});
+
+Deno.test("resolveClass requires an explicit id once several classes exist", () => {
+  const { classes } = validateClasses({
+    classes: [{ id: "a", studentsJsonPath: "a.json" }, { id: "b", studentsJsonPath: "b.json" }],
+  }, defaults);
+  const config = { classes } as AppConfig;
+
+  assertEquals(resolveClass(config, "b").id, "b");
+  assertThrows(() => resolveClass(config), Error, "classId is required");
+  assertThrows(() => resolveClass(config, "c"), Error, "Unknown classId: c");
+  assertEquals(resolveClass({ classes: [classes[0]] } as AppConfig).id, "a");
+});
+
+Deno.test("classMemoryDir keeps the default class at the top level", () => {
+  assertEquals(classMemoryDir("memory", "default"), "memory");
+  assertEquals(classMemoryDir("memory", "period-1"), "memory/classes/period-1");
+});
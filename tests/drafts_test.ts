@@ -0,0 +1,55 @@
+import { applyDraftEdit, canRetryDelivery, diffLines, STALLED_DELIVERY_MS } from "../src/drafts.ts";
+import type { StudentInsights } from "../src/types.ts";
+import { assert, assertEquals } from "jsr:@std/assert@0.224.0";
+
+/**
+ * Unit tests for teacher review of draft student messages.
+ *
+ * The key behaviors:
+ * - Edits are held to the same insights contract as model output.
+ * - The stored diff shows exactly which rendered lines a teacher changed.
+ * - Failed deliveries can be retried at once; an approved draft only once its delivery has stalled.
+ */
+const insights: StudentInsights = {
+  positiveObservation: "You kept a steady pace this week.",
+  strengths: ["Consistent homework"],
+  improvementAreas: ["Math accuracy"],
+  strategies: ["Check each answer once", "Practice 10 problems daily"],
+  nextStepGoal: "Finish the fractions worksheet",
+  encouragement: "Keep going!",
+};
+
+Deno.test("applyDraftEdit merges valid edits and rejects contract violations", () => {
+  const edited = applyDraftEdit(insights, { nextStepGoal: "  Read 20 minutes nightly " });
+  assert(edited.ok);
+  assertEquals(edited.value.nextStepGoal, "Read 20 minutes nightly");
+  assertEquals(edited.value.strategies, insights.strategies);
+
+  const tooFew = applyDraftEdit(insights, { strategies: ["Only one"] });
+  assertEquals(tooFew.ok ? [] : tooFew.errors, ["strategies must include at least 2 item(s)"]);
+
+  const unknown = applyDraftEdit(insights, { grade: "A" });
+  assertEquals(unknown.ok ? [] : unknown.errors, ["insights.grade is not an editable field"]);
+  assertEquals(applyDraftEdit(insights, {}).ok, false);
+  assertEquals(applyDraftEdit(insights, "goal").ok, false);
+});
+
+Deno.test("diffLines marks removed and added lines and keeps context", () => {
+  assertEquals(
+    diffLines("Intro\nGoal: old\nBye", "Intro\nGoal: new\nExtra\nBye"),
+    "  Intro\n- Goal: old\n+ Goal: new\n+ Extra\n  Bye",
+  );
+  assertEquals(diffLines("same", "same"), "  same");
+});
+
+Deno.test("canRetryDelivery waits for a stalled approval before retrying it", () => {
+  const startedAt = "2024-01-01T00:00:00.000Z";
+  const now = Date.parse(startedAt);
+  assertEquals(canRetryDelivery({ status: "delivery_failed", deliveryStartedAt: startedAt }, now), true);
+  assertEquals(canRetryDelivery({ status: "approved", deliveryStartedAt: startedAt }, now + 1000), false);
+  assertEquals(canRetryDelivery({ status: "approved", deliveryStartedAt: startedAt }, now + STALLED_DELIVERY_MS), true);
+  // Older approvals have no start time, so their review time stands in.
+  assertEquals(canRetryDelivery({ status: "approved", reviewedAt: startedAt }, now + 1000), false);
+  assertEquals(canRetryDelivery({ status: "sent", deliveryStartedAt: startedAt }, now + STALLED_DELIVERY_MS), false);
+  assertEquals(canRetryDelivery({ status: "pending_review" }, now), false);
+});
@@ -0,0 +1,99 @@
+import { localeChain, renderEmailTemplate, validateEmailTemplate } from "../src/email_templates.ts";
+import { buildStudentEmail, buildTeacherEmail } from "../src/email.ts";
+import { renderStudentMessage } from "../src/insights.ts";
+import type { EmailTemplateSet, Student, StudentInsights } from "../src/types.ts";
+import { assert, assertEquals } from "jsr:@std/assert@0.224.0";
+
+/**
+ * Unit tests for templated email rendering.
+ *
+ * The key behaviors:
+ * - Values are HTML-escaped in the HTML body and left as-is in the text body and subject.
+ * - Insight sections become real `<ul>` lists in HTML and keep the `- item` text layout.
+ * - Overrides resolve field by field along the locale chain, and invalid override files are rejected.
+ * - At each locale an override beats the built-in template, and built-ins beat overrides for a less specific locale.
+ */
+const student = {
+  id: "S001",
+  name: "Ava <b>Martinez</b>",
+  email: "ava@example.com",
+} as Student;
+
+const insights: StudentInsights = {
+  positiveObservation: "You kept a steady pace this week.",
+  strengths: ["Homework & quizzes on time"],
+  improvementAreas: ["Math accuracy"],
+  strategies: ["Check each answer once", "Use <graph paper>"],
+  nextStepGoal: "Finish the fractions worksheet",
+  encouragement: "Keep going!",
+};
+
+Deno.test("student email escapes values and renders sections as HTML lists", () => {
+  const email = buildStudentEmail(student, insights);
+  assertEquals(email.subject, "Your learning update and next steps, Ava <b>Martinez</b>");
+  assert(email.text.startsWith("Hi Ava <b>Martinez</b>,\n"));
+  assert(email.text.includes(renderStudentMessage(insights)));
+
+  assert(email.html.startsWith("<p>Hi Ava &lt;b&gt;Martinez&lt;/b&gt;,</p>"));
+  assert(email.html.includes("<p><strong>Try this:</strong></p>\n<ul>\n  <li>Check each answer once</li>"));
+  assert(email.html.includes("<li>Use &lt;graph paper&gt;</li>\n</ul>"));
+  assert(email.html.includes("<li>Homework &amp; quizzes on time</li>"));
+  assert(!email.html.includes("<b>"));
+
+  const teacher = buildTeacherEmail("t@example.com", {
+    classOverview: "Steady week.",
+    strengths: ["Participation"],
+    attentionNeeded: [],
+    nextSteps: ["Review fractions", "Pair practice"],
+  });
+  assertEquals(teacher.subject, "Class performance summary");
+  assert(teacher.text.includes("Students needing attention:\n- No students flagged for immediate attention."));
+  assert(teacher.html.includes("<ul>\n  <li>No students flagged for immediate attention.</li>\n</ul>"));
+});
+
+Deno.test("overrides resolve per field along the locale chain", () => {
+  assertEquals(localeChain("pt_BR"), ["pt-br", "pt", "en"]);
+  assertEquals(localeChain(undefined), ["en"]);
+
+  const overrides: EmailTemplateSet = {
+    student_update: {
+      es: { subject: "Tu resumen, {{studentName}}", text: "Hola {{ studentName }}:\n\n{{message}}" },
+      en: { html: "<div>{{message}}</div>" },
+    },
+    teacher_summary: {},
+    guardian_update: {},
+  };
+  const values = { studentName: "José", message: { text: "- uno", html: "<ul><li>uno</li></ul>" } };
+  const spanish = renderEmailTemplate("student_update", values, { locale: "es-MX", overrides });
+  assertEquals(spanish.subject, "Tu resumen, José");
+  assertEquals(spanish.text, "Hola José:\n\n- uno");
+  // No Spanish HTML override: the built-in Spanish template beats the English override.
+  assert(spanish.html.startsWith("<p>Hola, José:</p>"));
+
+  const english = renderEmailTemplate("student_update", values, { locale: "fr", overrides });
+  assertEquals(english.subject, "Your learning update and next steps, José");
+  assertEquals(english.html, "<div><ul><li>uno</li></ul></div>");
+});
+
+Deno.test("validateEmailTemplate rejects unknown fields, unknown placeholders, and a dropped message", () => {
+  assertEquals(validateEmailTemplate("teacher_summary", { subject: "Week summary" }), {
+    template: { subject: "Week summary" },
+    errors: [],
+  });
+  assertEquals(
+    validateEmailTemplate("student_update", {
+      subject: "{{message}}",
+      text: "Hi {{firstName}}",
+      html: "",
+      footer: "x",
+    }).errors,
+    [
+      "footer is not a template field (use subject, text, or html)",
+      "subject cannot use {{message}}",
+      "text uses unknown placeholder {{firstName}}",
+      "text must include {{message}}",
+      "html must be a non-empty string",
+    ],
+  );
+  assertEquals(validateEmailTemplate("student_update", []).errors, ["Email template must be a JSON object"]);
+});
@@ -0,0 +1,246 @@
+import { deliverEmail, type EmailContent } from "../src/email.ts";
+import { retryDelayMs } from "../src/retry.ts";
+import { createSmtpTransport } from "../src/smtp.ts";
+import { createLogger } from "../src/logger.ts";
+import type { SmtpConfig } from "../src/types.ts";
+import { assert, assertEquals } from "jsr:@std/assert@0.224.0";
+
+/**
+ * Unit tests for email delivery through the SMTP transport, against an in-process SMTP stand-in.
+ *
+ * The key behaviors:
+ * - A message goes through AUTH and DATA with dot-stuffing intact.
+ * - Temporary refusals (4xx) are retried; permanent ones (5xx) and a missing STARTTLS are not.
+ * - `timeoutMs` bounds each attempt from the connect on, so a relay that never accepts cannot stall a run.
+ */
+interface StandInSession {
+  commands: string[];
+  auth?: string;
+  data?: string;
+}
+
+interface StandInOptions {
+  // Sessions (counted from 1) that get "421" to MAIL FROM.
+  busySessions?: number[];
+  rejectRecipient?: boolean;
+}
+
+function startSmtpStandIn(options: StandInOptions = {}) {
+  const listener = Deno.listen({ hostname: "127.0.0.1", port: 0 });
+  const sessions: StandInSession[] = [];
+  const handlers: Promise<void>[] = [];
+  const accepting = (async () => {
+    try {
+      for await (const conn of listener) {
+        handlers.push(serve(conn, sessions.length + 1));
+      }
+    } catch {
+      // Listener closed.
+    }
+  })();
+
+  async function serve(conn: Deno.Conn, index: number) {
+    const session: StandInSession = { commands: [] };
+    sessions.push(session);
+    const encoder = new TextEncoder();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    const reply = (text: string) => conn.write(encoder.encode(`${text}\r\n`));
+    const readLine = async (): Promise<string | null> => {
+      while (!buffer.includes("\r\n")) {
+        const chunk = new Uint8Array(1024);
+        const read = await conn.read(chunk);
+        if (read === null) return null;
+        buffer += decoder.decode(chunk.subarray(0, read));
+      }
+      const end = buffer.indexOf("\r\n");
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      return line;
+    };
+
+    try {
+      await reply("220 stand-in ready");
+      while (true) {
+        const line = await readLine();
+        if (line === null) return;
+        const verb = line.split(" ")[0].toUpperCase();
+        session.commands.push(verb === "AUTH" ? line.split(" ").slice(0, 2).join(" ") : line);
+        if (verb === "EHLO") {
+          await reply("250-stand-in\r\n250-8BITMIME\r\n250 AUTH PLAIN LOGIN");
+        } else if (line === "AUTH LOGIN") {
+          await reply("334 VXNlcm5hbWU6");
+          const username = atob((await readLine()) ?? "");
+          await reply("334 UGFzc3dvcmQ6");
+          session.auth = `${username}:${atob((await readLine()) ?? "")}`;
+          await reply("235 authenticated");
+        } else if (verb === "AUTH") {
+          session.auth = atob(line.split(" ")[2]).split("\0").slice(1).join(":");
+          await reply("235 authenticated");
+        } else if (verb === "MAIL") {
+          await reply(options.busySessions?.includes(index) ? "421 busy, try later" : "250 ok");
+        } else if (verb === "RCPT") {
+          await reply(options.rejectRecipient ? "550 no such user" : "250 ok");
+        } else if (verb === "DATA") {
+          await reply("354 go ahead");
+          const lines: string[] = [];
+          for (let next = await readLine(); next !== null && next !== "."; next = await readLine()) {
+            lines.push(next);
+          }
+          session.data = lines.join("\n");
+          await reply("250 ok queued as 42");
+        } else if (verb === "QUIT") {
+          await reply("221 bye");
+          return;
+        } else {
+          await reply("502 not implemented");
+        }
+      }
+    } finally {
+      conn.close();
+    }
+  }
+
+  return {
+    port: (listener.addr as Deno.NetAddr).port,
+    sessions,
+    async close() {
+      listener.close();
+      await accepting;
+      await Promise.all(handlers);
+    },
+  };
+}
+
+function smtpConfig(port: number, overrides: Partial<SmtpConfig> = {}): SmtpConfig {
+  return { host: "127.0.0.1", port, security: "none", heloName: "test", timeoutMs: 5000, ...overrides };
+}
+
+const email: EmailContent = {
+  to: "Ava Martinez <ava@example.com>",
+  subject: "Your learning update",
+  text: "Hi Ava,\n.hidden line\nBye",
+  html: "<p>Hi Ava</p>",
+};
+const logger = createLogger("error");
+
+Deno.test("SMTP transport authenticates and delivers a dot-stuffed message", async () => {
+  const server = startSmtpStandIn();
+  try {
+    const transport = createSmtpTransport(
+      smtpConfig(server.port, { username: "mailer", password: "s3cret", authMethod: "login" }),
+      "Edu Assistant <noreply@school.test>",
+      logger,
+    );
+    const delivery = await deliverEmail(transport, email, { maxAttempts: 1, baseDelayMs: 1 }, logger);
+    assertEquals(delivery.status, "delivered");
+    assertEquals(delivery.attempts, 1);
+
+    const [session] = server.sessions;
+    assertEquals(session.auth, "mailer:s3cret");
+    assertEquals(session.commands, [
+      "EHLO test",
+      "AUTH LOGIN",
+      "MAIL FROM:<noreply@school.test>",
+      "RCPT TO:<ava@example.com>",
+      "DATA",
+      "QUIT",
+    ]);
+    assert(session.data?.includes("Subject: Your learning update"));
+    // The server sees the stuffed dot; un-stuffing is the receiver's job.
+    assert(session.data?.includes("Hi Ava,\n..hidden line\nBye"));
+  } finally {
+    await server.close();
+  }
+});
+
+Deno.test("deliverEmail retries temporary refusals but not permanent ones", async () => {
+  const busy = startSmtpStandIn({ busySessions: [1] });
+  try {
+    const config = smtpConfig(busy.port, { username: "mailer", password: "pw" });
+    const transport = createSmtpTransport(config, "a@b.test", logger);
+    const delivery = await deliverEmail(transport, email, { maxAttempts: 3, baseDelayMs: 1 }, logger);
+    assertEquals(delivery.status, "delivered");
+    assertEquals(delivery.attempts, 2);
+    assertEquals(busy.sessions[1].auth, "mailer:pw");
+  } finally {
+    await busy.close();
+  }
+
+  const rejecting = startSmtpStandIn({ rejectRecipient: true });
+  try {
+    const transport = createSmtpTransport(smtpConfig(rejecting.port), "a@b.test", logger);
+    const delivery = await deliverEmail(transport, email, { maxAttempts: 3, baseDelayMs: 1 }, logger);
+    assertEquals(delivery.status, "failed");
+    assertEquals(delivery.attempts, 1);
+    assertEquals(delivery.error, "RCPT TO:<ava@example.com> failed: 550 no such user");
+  } finally {
+    await rejecting.close();
+  }
+});
+
+Deno.test("STARTTLS is required when configured, so credentials never go out in the clear", async () => {
+  const server = startSmtpStandIn();
+  try {
+    const transport = createSmtpTransport(
+      smtpConfig(server.port, { security: "starttls", username: "mailer", password: "pw" }),
+      "a@b.test",
+      logger,
+    );
+    const delivery = await deliverEmail(transport, email, { maxAttempts: 3, baseDelayMs: 1 }, logger);
+    assertEquals(delivery.status, "failed");
+    assertEquals(delivery.attempts, 1);
+    assertEquals(delivery.error, "SMTP server does not offer STARTTLS");
+    assertEquals(server.sessions[0].auth, undefined);
+  } finally {
+    await server.close();
+  }
+  assertEquals([1, 2, 3, 10].map((attempt) => retryDelayMs(attempt, 1000)), [1000, 2000, 4000, 30_000]);
+});
+
+/** `promise`'s value, or undefined if it takes longer than `ms`. */
+async function within<T>(promise: Promise<T>, ms: number): Promise<T | undefined> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const late = new Promise<undefined>((resolve) => (timer = setTimeout(() => resolve(undefined), ms)));
+  try {
+    return await Promise.race([promise, late]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+Deno.test("a relay that never accepts fails each attempt at the session timeout", async () => {
+  const listener = Deno.listen({ hostname: "127.0.0.1", port: 0 });
+  const port = (listener.addr as Deno.NetAddr).port;
+  // Fill the accept queue: further connects then stall the way they do against a relay that drops packets.
+  const queued: Deno.Conn[] = [];
+  let probe: Promise<Deno.Conn> | undefined;
+  while (!probe && queued.length < 4096) {
+    const connecting = Deno.connect({ hostname: "127.0.0.1", port });
+    const conn = await within(connecting, 50);
+    if (conn) queued.push(conn);
+    else probe = connecting;
+  }
+  assert(probe, "the accept queue never filled");
+
+  const accepted: Deno.Conn[] = [];
+  try {
+    for (const security of ["none", "tls"] as const) {
+      const transport = createSmtpTransport(smtpConfig(port, { security, timeoutMs: 100 }), "a@b.test", logger);
+      const started = Date.now();
+      const delivery = await deliverEmail(transport, email, { maxAttempts: 2, baseDelayMs: 1 }, logger);
+      assertEquals(delivery.status, "failed");
+      assertEquals(delivery.attempts, 2);
+      assertEquals(delivery.error, "SMTP session timed out after 100 ms");
+      assert(Date.now() - started < 2000, "attempts waited for the OS connect timeout");
+    }
+  } finally {
+    // Drain the queue so the stalled connects complete (and the transport closes them) before the test ends.
+    const expected = queued.length + 1 + 4;
+    while (accepted.length < expected) accepted.push(await listener.accept());
+    (await probe).close();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    [...queued, ...accepted].forEach((conn) => conn.close());
+    listener.close();
+  }
+});
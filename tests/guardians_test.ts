@@ -0,0 +1,141 @@
+import { validateStudent } from "../src/validator.ts";
+import { analyzeStudent } from "../src/analyzer.ts";
+import {
+  analysisForPrompt,
+  buildFallbackGuardianInsights,
+  parseGuardianInsights,
+  renderGuardianMessage,
+} from "../src/insights.ts";
+import { buildGuardianEmail } from "../src/email.ts";
+import type { EmailTemplateSet, Student } from "../src/types.ts";
+import { assert, assertEquals } from "jsr:@std/assert@0.224.0";
+
+/**
+ * Unit tests for guardian contacts and guardian notes.
+ *
+ * The key behaviors:
+ * - Guardian contacts are validated with the student; a missing `optIn` means no consent.
+ * - Guardian notes parse against their own contract, and the fallback never repeats scores or risk labels.
+ * - Contacts stay out of prompts, and the guardian's language picks the email template.
+ */
+const record = {
+  id: "S001",
+  name: "Ava Martinez",
+  email: "ava@example.com",
+  grades: [{ subject: "Math", score: 58 }, { subject: "Science", score: 91 }],
+  participationScore: 7,
+  assignmentCompletionRate: 72,
+  teacherNotes: "Quiet but focused.",
+  performanceTrend: "declining",
+  lastAssessmentDate: "2024-09-01",
+};
+
+Deno.test("validateStudent checks guardian contacts and defaults optIn to false", () => {
+  const result = validateStudent({
+    ...record,
+    guardians: [
+      { name: " Maria Martinez ", email: "maria@example.com", language: "es", optIn: true },
+      { name: "Luis Martinez", email: "luis@example.com" },
+    ],
+  }, 0);
+  assert(result.ok);
+  if (result.ok) {
+    assertEquals(result.value.guardians, [
+      { name: "Maria Martinez", email: "maria@example.com", language: "es", optIn: true },
+      { name: "Luis Martinez", email: "luis@example.com", optIn: false },
+    ]);
+  }
+
+  const invalid = validateStudent({
+    ...record,
+    guardians: [{ name: "", email: "nope", language: "spanish!", optIn: "yes" }],
+  }, 0);
+  assertEquals(invalid.ok ? [] : invalid.errors, [
+    "guardians[0].name must be a non-empty string",
+    "guardians[0].email must be a valid address",
+    'guardians[0].language must be a language tag like "en" or "pt-BR"',
+    "guardians[0].optIn must be true or false",
+  ]);
+  const notArray = validateStudent({ ...record, guardians: {} }, 0);
+  assertEquals(notArray.ok ? [] : notArray.errors, ["guardians must be an array when provided"]);
+});
+
+Deno.test("parseGuardianInsights enforces the guardian contract", () => {
+  const parsed = parseGuardianInsights(`Here you go:
+    {
+      "summary": "Ava has had a harder few weeks in math.",
+      "highlights": ["Strong science work"],
+      "homeSupport": ["Ask Ava to explain one math problem each evening"],
+      "closing": "Thank you for your support."
+    }`);
+  assert(parsed.ok);
+  if (parsed.ok) {
+    const message = renderGuardianMessage(parsed.value);
+    assert(message.includes("What is going well:\n- Strong science work"));
+    assert(message.includes("Ways to help at home:\n- Ask Ava"));
+  }
+
+  const missing = parseGuardianInsights(`{ "summary": "Hi", "highlights": [], "closing": "" }`);
+  assertEquals(missing.ok, false);
+});
+
+Deno.test("fallback guardian insights stay general and contacts never reach prompts", () => {
+  const validated = validateStudent({
+    ...record,
+    guardians: [{ name: "Maria Martinez", email: "maria@example.com", optIn: true }],
+  }, 0);
+  assert(validated.ok);
+  if (!validated.ok) return;
+  const analysis = analyzeStudent(validated.value);
+
+  const fallback = buildFallbackGuardianInsights(analysis, {
+    tone: "warm",
+    classGoals: ["Read together every evening"],
+  });
+  assertEquals(
+    fallback.summary,
+    "Ava Martinez has had a harder few weeks, and a little extra encouragement at home would help.",
+  );
+  assert(fallback.homeSupport.length <= 3);
+  assert(fallback.homeSupport[0].startsWith("Check in together on upcoming assignments"));
+  const text = renderGuardianMessage(fallback);
+  assert(!/\d{2}/.test(text), "fallback note should not quote scores or rates");
+  assert(!text.toLowerCase().includes("risk"));
+
+  assertEquals(analysisForPrompt(analysis).student.guardians, undefined);
+  assert(!JSON.stringify(analysisForPrompt(analysis)).includes("maria@example.com"));
+});
+
+Deno.test("buildGuardianEmail uses the guardian's language and escapes names", () => {
+  const student = { id: "S001", name: "Ava <i>M</i>", email: "ava@example.com" } as Student;
+  const insights = {
+    summary: "Buen progreso.",
+    highlights: ["Ciencias"],
+    homeSupport: ["Leer juntos"],
+    closing: "Gracias.",
+  };
+  const templates: EmailTemplateSet = {
+    student_update: {},
+    teacher_summary: {},
+    guardian_update: { es: { subject: "Novedades de {{studentName}}" } },
+  };
+  const guardian = { name: "Maria", email: "maria@example.com", language: "es-MX", optIn: true };
+
+  const email = buildGuardianEmail(guardian, student, insights, { runId: "run-1", classId: "default" }, {
+    templates,
+    locale: "en",
+  });
+  assertEquals(email.to, "maria@example.com");
+  assertEquals(email.subject, "Novedades de Ava <i>M</i>");
+  assertEquals(email.context, { runId: "run-1", classId: "default", studentId: "S001" });
+  // The subject comes from the override, the bodies from the built-in Spanish template.
+  assert(email.text.startsWith("Estimado/a Maria:"));
+  assert(email.html.includes("Ava &lt;i&gt;M&lt;/i&gt;"));
+  assert(email.html.includes("<ul>\n  <li>Leer juntos</li>\n</ul>"));
+
+  const english = buildGuardianEmail({ ...guardian, language: undefined }, student, insights, undefined, {
+    templates,
+    locale: "en",
+  });
+  assertEquals(english.subject, "An update on Ava <i>M</i>'s learning");
+});
@@ -0,0 +1,511 @@
+import {
+  buildStudentsIndex,
+  handleChat,
+  handleChatSessionDetail,
+  handleChatSessions,
+  handleConfig,
+  handleCreateStudent,
+  handleDeleteStudent,
+  handleDraftRetry,
+  handleHistoryDetail,
+  handleRunStatus,
+  handleUpdateStudent,
+  type ServerConfig,
+} from "../src/http_server.ts";
+import { analyzeStudent, buildTeacherSummary } from "../src/analyzer.ts";
+import { createChatAgent } from "../src/chat_agent.ts";
+import { createMockLlmProvider, LlmError, type LlmProvider } from "../src/llm_provider.ts";
+import { HistoryStore } from "../src/storage.ts";
+import { AnalysisJobQueue } from "../src/job_queue.ts";
+import { createLogger } from "../src/logger.ts";
+import type { Session } from "../src/auth.ts";
+import type { Student } from "../src/types.ts";
+import { assertEquals } from "jsr:@std/assert@0.224.0";
+
+/**
+ * Unit tests for the HTTP handlers, driven directly against a temporary history database.
+ *
+ * The key behaviors:
+ * - Student CRUD: create returns 201 with a location and 409 for an existing id; PATCH merges into the stored
+ *   record, PUT replaces it, and neither may change the id or class; delete returns 204, then 404.
+ * - `HistoryStore.saveStudent` upserts, and `importStudents` counts created versus updated records.
+ * - Config names server paths and the model, so a student token gets a 403 and teachers and admins get it.
+ * - A draft whose delivery failed can be retried once: the retry sends it and a second retry gets a 409.
+ * - A run known only from history reports its stored status, so a failed run (or a single-student run whose
+ *   message failed) stays `failed`.
+ * - Run detail reports each student's status, fallback, error, and subject plus the teacher outcome, and only
+ *   shows a teacher the students on their roster.
+ * - Chat turns are stored per session and only the last `chatHistoryTurns` exchanges are replayed to the model;
+ *   one user can neither list, read, nor continue another user's session.
+ * - Streamed chat sends the reply as `delta` events and ends with one `done` event carrying usage; when the model
+ *   fails mid-reply, the stream ends with an `error` event and the partial reply is not stored.
+ */
+const admin: Session = {
+  userId: "admin",
+  role: "admin",
+  classIds: [],
+  studentIds: [],
+  expiresAt: new Date(Date.now() + 60_000).toISOString(),
+};
+
+const ava: Student = {
+  id: "S001",
+  name: "Ava Martinez",
+  email: "ava@example.com",
+  grades: [{ subject: "Math", score: 58 }],
+  participationScore: 7,
+  assignmentCompletionRate: 72,
+  teacherNotes: "Quiet but focused.",
+  performanceTrend: "declining",
+  lastAssessmentDate: "2024-09-01",
+};
+
+function makeConfig(dir: string): ServerConfig {
+  return {
+    llm: { provider: "mock", model: "mock" },
+    openAiPriceInputPer1K: 1,
+    openAiPriceOutputPer1K: 2,
+    emailFrom: "Edu Assistant <noreply@local>",
+    teacherEmail: "teacher@example.com",
+    emailOutDir: `${dir}/out`,
+    emailTransport: "file",
+    emailMaxAttempts: 1,
+    emailRetryBaseMs: 1,
+    emailLocale: "en",
+    historyDbPath: `${dir}/history.db`,
+    scheduleIntervalMin: 30,
+    studentsJsonPath: `${dir}/students.json`,
+    logLevel: "error",
+    memoryDir: `${dir}/memory`,
+    memoryHistoryLimit: 5,
+    reviewStudentMessages: false,
+    apiHost: "127.0.0.1",
+    apiPort: 0,
+    apiCorsOrigin: "*",
+    watchSources: false,
+    chatHistoryTurns: 6,
+    authSecret: "x".repeat(32),
+    authUsersPath: `${dir}/users.json`,
+    authUsers: new Map(),
+  };
+}
+
+function jsonRequest(method: string, body: unknown): Request {
+  return new Request("http://127.0.0.1/v1/students", {
+    method,
+    body: JSON.stringify(body),
+  });
+}
+
+Deno.test("student CRUD handlers create, update, and delete roster records", async () => {
+  const dir = await Deno.makeTempDir();
+  const config = makeConfig(dir);
+  const store = new HistoryStore(config.historyDbPath, createLogger("error"));
+  const create = (body: unknown, session = admin) =>
+    handleCreateStudent(jsonRequest("POST", body), config, store, session);
+  const merge = (body: unknown, id = "S001") => handleUpdateStudent(jsonRequest("PATCH", body), id, store, "merge");
+  const replace = (body: unknown) => handleUpdateStudent(jsonRequest("PUT", body), "S001", store, "replace");
+  try {
+    const created = await create(ava);
+    assertEquals(created.status, 201);
+    assertEquals(created.headers.get("location"), "/v1/students/S001");
+    assertEquals((await created.json()).classId, "default");
+
+    const duplicate = await create(ava);
+    assertEquals(duplicate.status, 409);
+    assertEquals((await duplicate.json()).error, "Student already exists");
+
+    // A teacher without the class cannot add to it.
+    const teacher: Session = { ...admin, userId: "teacher-rivera", role: "teacher" };
+    assertEquals((await create({ ...ava, id: "S002" }, teacher)).status, 403);
+
+    // PATCH keeps the fields it doesn't mention.
+    assertEquals((await merge({ teacherNotes: "Asks more questions." })).status, 200);
+    assertEquals(store.getStudent("S001")?.teacherNotes, "Asks more questions.");
+    assertEquals(store.getStudent("S001")?.grades, ava.grades);
+
+    // PUT needs the whole record, and stores exactly what was sent.
+    assertEquals((await replace({ name: "Ava M." })).status, 400);
+    assertEquals((await replace({ ...ava, name: "Ava M.", grades: [{ subject: "Art", score: 90 }] })).status, 200);
+    assertEquals(store.getStudent("S001")?.name, "Ava M.");
+    assertEquals(store.getStudent("S001")?.teacherNotes, ava.teacherNotes);
+    assertEquals(store.getStudent("S001")?.grades, [{ subject: "Art", score: 90 }]);
+
+    const renamed = await merge({ id: "S999" });
+    assertEquals(renamed.status, 400);
+    assertEquals((await renamed.json()).error, "Student id cannot be changed");
+    const moved = await replace({ ...ava, classId: "period-2" });
+    assertEquals(moved.status, 400);
+    assertEquals((await moved.json()).error, "Student class cannot be changed");
+    assertEquals(store.getStudent("S001")?.name, "Ava M.");
+
+    assertEquals((await merge({}, "S404")).status, 404);
+
+    assertEquals(handleDeleteStudent("S001", store).status, 204);
+    assertEquals(store.getStudent("S001"), null);
+    assertEquals(handleDeleteStudent("S001", store).status, 404);
+  } finally {
+    store.close();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("HistoryStore upserts students and counts import results", async () => {
+  const dir = await Deno.makeTempDir();
+  const store = new HistoryStore(`${dir}/history.db`, createLogger("error"));
+  try {
+    assertEquals(store.saveStudent(ava, "default"), true);
+    assertEquals(store.saveStudent({ ...ava, name: "Ava M." }, "default"), true);
+    assertEquals(store.listStudents("default").map((student) => student.name), ["Ava M."]);
+    assertEquals(store.getStudentClassId("S001"), "default");
+
+    const ben = { ...ava, id: "S002", name: "Ben Ortiz", email: "ben@example.com" };
+    assertEquals(store.importStudents("default", "students.json", [ava, ben]), { created: 1, updated: 1 });
+    assertEquals(store.listStudents("default").map((student) => student.id), ["S001", "S002"]);
+    assertEquals(store.getStudent("S001")?.name, "Ava Martinez");
+    // Other classes' rosters are separate.
+    assertEquals(store.listStudents("period-2"), []);
+  } finally {
+    store.close();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("config is limited to teachers and admins", async () => {
+  const config = makeConfig("/srv/edu");
+  const student: Session = { ...admin, userId: "ava", role: "student", studentIds: ["S001"] };
+  const teacher: Session = { ...admin, userId: "t1", role: "teacher", classIds: ["default"] };
+
+  const denied = handleConfig(config, student);
+  assertEquals(denied.status, 403);
+  assertEquals((await denied.json()).error, "Forbidden");
+
+  for (const session of [teacher, admin]) {
+    const response = handleConfig(config, session);
+    assertEquals(response.status, 200);
+    assertEquals((await response.json()).historyDbPath, "/srv/edu/history.db");
+  }
+});
+
+Deno.test("retrying a failed draft delivery sends it once", async () => {
+  const dir = await Deno.makeTempDir();
+  const config = makeConfig(dir);
+  const logger = createLogger("error");
+  const store = new HistoryStore(config.historyDbPath, logger);
+  try {
+    store.importStudents("default", "students.json", [ava]);
+    store.startRun({
+      runId: "run-1",
+      classId: "default",
+      startedAt: new Date().toISOString(),
+      studentCount: 1,
+      validStudentCount: 1,
+    });
+    store.recordStudentMessage({
+      runId: "run-1",
+      classId: "default",
+      studentId: "S001",
+      analysis: analyzeStudent(ava),
+      insights: {
+        positiveObservation: "You kept a steady pace this week.",
+        strengths: ["Consistent homework"],
+        improvementAreas: ["Math accuracy"],
+        strategies: ["Check each answer once", "Practice 10 problems daily"],
+        nextStepGoal: "Finish the fractions worksheet",
+        encouragement: "Keep going!",
+      },
+      emailSubject: "Your weekly update",
+      messageText: "You kept a steady pace this week.",
+      status: "pending_review",
+      usedFallback: false,
+    });
+    const [draft] = store.listDrafts(undefined, "pending_review");
+    const retry = () => handleDraftRetry(draft.id, config, store, buildStudentsIndex(config, store), admin, logger);
+
+    // Pending drafts go through approval, not retry.
+    assertEquals((await retry()).status, 409);
+
+    assertEquals(store.reviewDraft(draft.id, "approved", "admin"), true);
+    store.recordDraftDelivery(draft.id, "Your weekly update", {
+      status: "failed",
+      transport: "smtp",
+      attempts: 3,
+      path: null,
+      error: "Connection refused",
+    });
+    assertEquals(store.getDraft(draft.id)?.status, "delivery_failed");
+
+    const retried = await retry();
+    assertEquals(retried.status, 200);
+    assertEquals((await retried.json()).draft.status, "sent");
+    assertEquals([...Deno.readDirSync(`${dir}/out`)].length, 1);
+    assertEquals((await retry()).status, 409);
+  } finally {
+    store.close();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("run status keeps a failed history run failed", async () => {
+  const dir = await Deno.makeTempDir();
+  const logger = createLogger("error");
+  const store = new HistoryStore(`${dir}/history.db`, logger);
+  // No queued jobs: every run below is known only from history, like scheduled runs or runs before a restart.
+  const jobs = new AnalysisJobQueue(() => Promise.reject(new Error("not used")), logger);
+  const status = async (runId: string) => {
+    const body = await handleRunStatus(runId, store, jobs, admin).json();
+    return [body.status, body.outcome];
+  };
+  try {
+    for (const runId of ["run-failed", "run-empty", "run-undelivered", "run-running"]) {
+      store.startRun({
+        runId,
+        classId: "default",
+        startedAt: new Date().toISOString(),
+        studentCount: 0,
+        validStudentCount: 0,
+      });
+    }
+    store.finishRun("run-failed", "failed");
+    store.finishRun("run-empty", "no_valid_students");
+    // A single-student run stores its student's outcome.
+    store.finishRun("run-undelivered", "delivery_failed");
+
+    assertEquals(await status("run-failed"), ["failed", "failed"]);
+    assertEquals(await status("run-empty"), ["completed", "no_valid_students"]);
+    assertEquals(await status("run-undelivered"), ["failed", "delivery_failed"]);
+    assertEquals(await status("run-running"), ["running", undefined]);
+  } finally {
+    store.close();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("history detail reports per-student and teacher outcomes", async () => {
+  const dir = await Deno.makeTempDir();
+  const config = makeConfig(dir);
+  const store = new HistoryStore(config.historyDbPath, createLogger("error"));
+  try {
+    const ben = { ...ava, id: "S002", name: "Ben Ortiz", email: "ben@example.com" };
+    store.importStudents("default", "students.json", [ava, ben]);
+    const runId = "run-1";
+    const startedAt = new Date().toISOString();
+    store.startRun({ runId, classId: "default", startedAt, studentCount: 2, validStudentCount: 2 });
+    store.recordStudentMessage({
+      runId,
+      classId: "default",
+      studentId: "S001",
+      analysis: analyzeStudent(ava),
+      emailSubject: "Your weekly update",
+      status: "sent",
+      usedFallback: true,
+      fallbackReason: "invalid_output",
+    });
+    store.recordStudentMessage({
+      runId,
+      classId: "default",
+      studentId: "S002",
+      analysis: analyzeStudent(ben),
+      status: "insights_failed",
+      error: "Model unavailable",
+      usedFallback: false,
+    });
+    store.recordTeacherMessage({
+      runId,
+      classId: "default",
+      summary: buildTeacherSummary([analyzeStudent(ava)]),
+      emailSubject: "Class summary",
+      status: "sent",
+      usedFallback: false,
+    });
+    store.finishRun(runId, "completed", { generated: 2, repaired: 0, fallbacks: 1 });
+
+    const response = handleHistoryDetail(runId, store, buildStudentsIndex(config, store), admin);
+    assertEquals(response.status, 200);
+    const detail = await response.json();
+    assertEquals(detail.run.status, "completed");
+    assertEquals(detail.run.insights, { generated: 2, repaired: 0, fallbacks: 1, fallbackRate: 0.5 });
+    const outcome = (entry: Record<string, unknown>) => [
+      entry.studentId,
+      entry.studentName,
+      entry.status,
+      entry.usedFallback,
+      entry.fallbackReason,
+      entry.error,
+      entry.emailSubject,
+    ];
+    assertEquals(detail.students.map(outcome), [
+      ["S001", "Ava Martinez", "sent", true, "invalid_output", undefined, "Your weekly update"],
+      ["S002", "Ben Ortiz", "insights_failed", false, undefined, "Model unavailable", undefined],
+    ]);
+    assertEquals(
+      [detail.teacher.status, detail.teacher.usedFallback, detail.teacher.emailSubject],
+      ["sent", false, "Class summary"],
+    );
+
+    // Teachers see only the students on their roster, and nothing from classes they don't teach.
+    const teacher: Session = { ...admin, userId: "teacher-rivera", role: "teacher", classIds: ["default"] };
+    const roster = handleHistoryDetail(runId, store, buildStudentsIndex(config, store), {
+      ...teacher,
+      studentIds: ["S001"],
+    });
+    assertEquals((await roster.json()).students.map((entry: { studentId: string }) => entry.studentId), ["S001"]);
+    const stranger = handleHistoryDetail(runId, store, buildStudentsIndex(config, store), { ...teacher, classIds: [] });
+    assertEquals(stranger.status, 403);
+    assertEquals(handleHistoryDetail("run-404", store, buildStudentsIndex(config, store), admin).status, 404);
+  } finally {
+    store.close();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("chat sessions replay a bounded window and stay private to their user", async () => {
+  const dir = await Deno.makeTempDir();
+  const config = { ...makeConfig(dir), chatHistoryTurns: 1 };
+  const logger = createLogger("error");
+  const store = new HistoryStore(config.historyDbPath, logger);
+  const provider = createMockLlmProvider({
+    responses: [
+      { match: "student's record", content: '{"updates": []}' },
+      { match: "writing directly to a teacher", content: "Keep practicing fractions." },
+    ],
+  });
+  const agent = createChatAgent(config, logger, provider);
+  const rivera: Session = {
+    ...admin,
+    userId: "teacher-rivera",
+    role: "teacher",
+    classIds: ["default"],
+    studentIds: ["S001"],
+  };
+  const chen: Session = { ...rivera, userId: "teacher-chen" };
+  const chat = (message: string, session: Session) =>
+    handleChat(
+      new Request("http://127.0.0.1/v1/chat", {
+        method: "POST",
+        body: JSON.stringify({
+          userId: session.userId,
+          role: "teacher",
+          studentId: "S001",
+          sessionId: "session-1",
+          message,
+        }),
+      }),
+      config,
+      logger,
+      agent,
+      buildStudentsIndex(config, store),
+      store,
+      session,
+    );
+  try {
+    store.importStudents("default", "students.json", [ava]);
+    for (const question of ["First question", "Second question", "Third question"]) {
+      assertEquals((await chat(question, rivera)).status, 200);
+    }
+
+    // All three exchanges are stored; `limit` keeps the newest turns, still oldest first.
+    assertEquals(store.listChatTurns("session-1").length, 6);
+    assertEquals(
+      store.listChatTurns("session-1", 2).map((turn) => [turn.role, turn.content]),
+      [["user", "Third question"], ["assistant", "Keep practicing fractions."]],
+    );
+    // With one turn of history, the third question only carried the second exchange.
+    const replay = provider.requests.filter((request) => request.messages[0].content.includes("writing directly"));
+    const lastPrompt = replay.at(-1)!.messages;
+    assertEquals(lastPrompt.map((message) => message.role), ["system", "user", "assistant", "user"]);
+    assertEquals(lastPrompt[1].content, "Second question");
+
+    const own = await handleChatSessions(store, rivera, 25).json();
+    assertEquals(own.sessions.map((entry: { sessionId: string }) => entry.sessionId), ["session-1"]);
+    assertEquals(own.sessions[0].messageCount, 6);
+    assertEquals((await handleChatSessionDetail("session-1", store, rivera).json()).messages.length, 6);
+
+    // Another teacher of the same student sees nothing and cannot continue the session.
+    assertEquals((await handleChatSessions(store, chen, 25).json()).sessions, []);
+    assertEquals(handleChatSessionDetail("session-1", store, chen).status, 404);
+    assertEquals((await chat("Can I read this?", chen)).status, 404);
+    assertEquals(store.listChatTurns("session-1").length, 6);
+  } finally {
+    store.close();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+// Splits an SSE body into its events, in order.
+function parseSse(body: string): Array<{ event: string; data: Record<string, unknown> }> {
+  return body.split("\n\n").filter((block) => block.trim() !== "").map((block) => {
+    const lines = block.split("\n");
+    const field = (name: string) => lines.find((line) => line.startsWith(`${name}: `))!.slice(name.length + 2);
+    return { event: field("event"), data: JSON.parse(field("data")) };
+  });
+}
+
+Deno.test("streamed chat frames deltas, then usage or an in-band error", async () => {
+  const dir = await Deno.makeTempDir();
+  const config = makeConfig(dir);
+  const logger = createLogger("error");
+  const store = new HistoryStore(config.historyDbPath, logger);
+  const provider = createMockLlmProvider({
+    responses: [
+      { match: "student's record", content: '{"updates": []}' },
+      {
+        match: "writing directly to a teacher",
+        content: "Keep practicing fractions.",
+        usage: { inputTokens: 100, outputTokens: 10, totalTokens: 110 },
+      },
+    ],
+  });
+  // Same replies, but the connection drops after the last delta, before the model reports completion.
+  const dropping: LlmProvider = {
+    ...provider,
+    async *stream(request) {
+      for await (const chunk of provider.stream(request)) {
+        if (chunk.type === "done") throw new LlmError("Connection reset");
+        yield chunk;
+      }
+    },
+  };
+  const teacher: Session = { ...admin, userId: "teacher-rivera", role: "teacher", classIds: ["default"] };
+  const chat = async (sessionId: string, llm: LlmProvider) => {
+    const response = await handleChat(
+      new Request("http://127.0.0.1/v1/chat/stream", {
+        method: "POST",
+        body: JSON.stringify({
+          userId: teacher.userId,
+          role: "teacher",
+          studentId: "S001",
+          sessionId,
+          message: "How is Ava doing?",
+        }),
+      }),
+      config,
+      logger,
+      createChatAgent(config, logger, llm),
+      buildStudentsIndex(config, store),
+      store,
+      { ...teacher, studentIds: ["S001"] },
+      true,
+    );
+    assertEquals(response.headers.get("content-type"), "text/event-stream");
+    return parseSse(await response.text());
+  };
+  try {
+    store.importStudents("default", "students.json", [ava]);
+
+    const events = await chat("session-1", provider);
+    assertEquals(events.map((entry) => entry.event), ["delta", "delta", "delta", "done"]);
+    assertEquals(events.slice(0, -1).map((entry) => entry.data.text).join(""), "Keep practicing fractions.");
+    const done = events.at(-1)!.data;
+    assertEquals([done.reply, done.sessionId], ["Keep practicing fractions.", "session-1"]);
+    assertEquals(done.usage, { inputTokens: 100, outputTokens: 10, totalTokens: 110, costUsd: 0.12 });
+
+    const failed = await chat("session-2", dropping);
+    assertEquals(failed.map((entry) => entry.event), ["delta", "delta", "delta", "error"]);
+    assertEquals(failed.at(-1)!.data, { error: "Chat request failed" });
+    assertEquals(store.getChatSession("session-2"), null);
+  } finally {
+    store.close();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
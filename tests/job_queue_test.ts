@@ -0,0 +1,52 @@
+import { AnalysisJobQueue } from "../src/job_queue.ts";
+import { createLogger } from "../src/logger.ts";
+import type { RunOptions } from "../src/run_with_tool.ts";
+import { assertEquals } from "jsr:@std/assert@0.224.0";
+
+/**
+ * Unit tests for the API analysis job queue.
+ *
+ * The key behaviors:
+ * - Enqueue returns immediately with a queued job.
+ * - Overlapping jobs run one after another (never concurrently).
+ * - Runner failures mark the job as failed instead of crashing the queue.
+ */
+Deno.test("AnalysisJobQueue runs overlapping jobs sequentially", async () => {
+  let active = 0;
+  let maxActive = 0;
+  const order: string[] = [];
+  const queue = new AnalysisJobQueue(async (runId: string, _options: RunOptions) => {
+    active += 1;
+    maxActive = Math.max(maxActive, active);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    order.push(runId);
+    active -= 1;
+    return { runId, status: "completed" };
+  }, createLogger("error"));
+
+  const first = queue.enqueue({ scope: "all" });
+  const second = queue.enqueue({ scope: "student", studentId: "S001" });
+  // Both jobs are visible as queued before any processing happens.
+  assertEquals(first.status, "queued");
+  assertEquals(second.status, "queued");
+
+  while (queue.get(second.runId)?.status !== "completed") {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+
+  assertEquals(maxActive, 1);
+  assertEquals(order, [first.runId, second.runId]);
+  assertEquals(queue.get(first.runId)?.result?.status, "completed");
+});
+
+Deno.test("AnalysisJobQueue records runner failures", async () => {
+  const queue = new AnalysisJobQueue(() => Promise.reject(new Error("boom")), createLogger("error"));
+  const job = queue.enqueue({ scope: "all" });
+
+  while (queue.get(job.runId)?.status === "queued" || queue.get(job.runId)?.status === "running") {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+
+  assertEquals(queue.get(job.runId)?.status, "failed");
+  assertEquals(queue.get(job.runId)?.error, "boom");
+});
@@ -0,0 +1,418 @@
+import {
+  CircuitBreaker,
+  completeStructured,
+  createAnthropicProvider,
+  createMockLlmProvider,
+  createOllamaProvider,
+  estimateTokens,
+  LlmError,
+  type LlmRequest,
+  type LlmResponseFormat,
+  type LlmStreamChunk,
+  LlmTimeoutError,
+  openAiClientFields,
+  parseMockScript,
+  RateLimiter,
+  sharedRateLimiter,
+  withRetryPolicy,
+} from "../src/llm_provider.ts";
+import { createLogger } from "../src/logger.ts";
+import { assert, assertEquals, assertRejects } from "jsr:@std/assert@0.224.0";
+
+/**
+ * Unit tests for the LLM provider adapters and the scripted mock provider.
+ *
+ * The key behaviors:
+ * - The mock picks the first matching entry with uses left, replays errors as `LlmError`, and streams the same
+ *   text it would return whole.
+ * - The Anthropic adapter moves system messages to `system` and reads text and usage from JSON and SSE.
+ * - The Ollama adapter reads NDJSON streams, and HTTP failures surface as `LlmError` with the status.
+ * - Structured requests use each API's native mechanism; `completeStructured` re-asks once with the validation
+ *   errors and drops the schema for models that reject it.
+ * - The retry policy times calls out and retries only timeouts, 429s, and 5xx, and is the only retry layer (the
+ *   OpenAI client's own retries are off); an open circuit breaker makes `completeStructured` fall back without
+ *   calling the model.
+ * - The rate limiter holds calls back until they fit the request and token limits of the window; every retry
+ *   counts as a request, and a call's estimate includes the longest reply it allows.
+ */
+const request: LlmRequest = {
+  messages: [
+    { role: "system", content: "You are a helpful coach." },
+    { role: "user", content: "Student Name: Ava\n\nTeacher Message: How is Ava doing?" },
+  ],
+  temperature: 0.5,
+};
+
+async function collect(chunks: AsyncGenerator<LlmStreamChunk>) {
+  const deltas: string[] = [];
+  let done: LlmStreamChunk | undefined;
+  for await (const chunk of chunks) {
+    if (chunk.type === "delta") deltas.push(chunk.text);
+    else done = chunk;
+  }
+  return { deltas, done };
+}
+
+/**
+ * Serve one handler on a random local port and return its base URL; the caller closes the server.
+ */
+function serve(handler: (request: Request, body: Record<string, unknown>) => Response) {
+  const seen: { headers: Headers; body: Record<string, unknown> }[] = [];
+  const server = Deno.serve({ hostname: "127.0.0.1", port: 0, onListen: () => {} }, async (incoming) => {
+    const body = await incoming.json();
+    seen.push({ headers: incoming.headers, body });
+    return handler(incoming, body);
+  });
+  return { server, seen, baseUrl: `http://127.0.0.1:${server.addr.port}` };
+}
+
+Deno.test("mock provider replays scripted responses by match and use count", async () => {
+  const mock = createMockLlmProvider({
+    responses: [
+      { match: "Teacher Message:", content: "First answer.", times: 1, usage: usage(10, 3) },
+      { match: "rate limited", error: "Too many requests", status: 429 },
+      { content: "Any other answer, split into words." },
+    ],
+  });
+
+  assertEquals(await mock.complete(request), { content: "First answer.", usage: usage(10, 3) });
+  // The first entry is used up, so the same request now falls through to the catch-all.
+  const { deltas, done } = await collect(mock.stream(request));
+  assertEquals(deltas, ["Any ", "other ", "answer, ", "split ", "into ", "words."]);
+  assertEquals(done, { type: "done", response: { content: "Any other answer, split into words." } });
+
+  const error = await mock.complete({ ...request, messages: [{ role: "user", content: "rate limited" }] })
+    .catch((error) => error);
+  assert(error instanceof LlmError);
+  assertEquals([error.message, error.status], ["Too many requests", 429]);
+  assertEquals(mock.requests.length, 3);
+  assertEquals(mock.requests[0].temperature, 0.5);
+
+  const strict = createMockLlmProvider({ responses: [{ match: "nothing like this", content: "x" }] });
+  await assertRejects(() => strict.complete(request), LlmError, "no response for this request");
+});
+
+Deno.test("parseMockScript reports each invalid entry", () => {
+  const parsed = parseMockScript({
+    responses: [
+      { content: "ok" },
+      { match: 3, content: "x" },
+      { content: "x", error: "y" },
+      { times: 0 },
+      [],
+      { content: "x", delayMs: -1 },
+    ],
+  });
+  assertEquals(parsed.ok ? [] : parsed.errors, [
+    "responses[1].match must be a string",
+    "responses[2] needs exactly one of content or error",
+    "responses[3] needs exactly one of content or error",
+    "responses[3].times must be a positive integer",
+    "responses[4] must be an object",
+    "responses[5].delayMs must be a non-negative integer",
+  ]);
+  assertEquals(parseMockScript({}).ok, false);
+});
+
+Deno.test("anthropic provider sends system separately and reads JSON and SSE replies", async () => {
+  const { server, seen, baseUrl } = serve((_incoming, body) => {
+    if (!body.stream) {
+      return Response.json({
+        content: [{ type: "text", text: "Ava is " }, { type: "text", text: "doing well." }],
+        usage: { input_tokens: 20, output_tokens: 5 },
+      });
+    }
+    const events = [
+      { type: "message_start", message: { usage: { input_tokens: 20 } } },
+      { type: "content_block_delta", delta: { type: "text_delta", text: "Ava is " } },
+      { type: "content_block_delta", delta: { type: "text_delta", text: "doing well." } },
+      { type: "message_delta", usage: { output_tokens: 6 } },
+      { type: "message_stop" },
+    ];
+    const text = events.map((event) => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`).join("");
+    return new Response(text, { headers: { "content-type": "text/event-stream" } });
+  });
+  try {
+    const provider = createAnthropicProvider({ provider: "anthropic", model: "claude-test", apiKey: "k", baseUrl });
+
+    assertEquals(await provider.complete(request), {
+      content: "Ava is doing well.",
+      usage: usage(20, 5),
+    });
+    assertEquals(seen[0].headers.get("x-api-key"), "k");
+    assert(seen[0].headers.get("anthropic-version"));
+    assertEquals(seen[0].body.system, "You are a helpful coach.");
+    assertEquals(seen[0].body.messages, [{ role: "user", content: request.messages[1].content }]);
+    assertEquals(seen[0].body.temperature, 0.5);
+
+    const { deltas, done } = await collect(provider.stream(request));
+    assertEquals(deltas, ["Ava is ", "doing well."]);
+    assertEquals(done, { type: "done", response: { content: "Ava is doing well.", usage: usage(20, 6) } });
+  } finally {
+    await server.shutdown();
+  }
+});
+
+Deno.test("ollama provider streams NDJSON and surfaces HTTP errors with the status", async () => {
+  const { server, seen, baseUrl } = serve((_incoming, body) => {
+    if (body.model === "busy") {
+      return new Response("model is loading", { status: 503 });
+    }
+    if (!body.stream) {
+      return Response.json({ message: { content: "Hello." }, done: true, prompt_eval_count: 7, eval_count: 2 });
+    }
+    const lines = [
+      { message: { content: "Hel" }, done: false },
+      { message: { content: "lo." }, done: false },
+      { message: { content: "" }, done: true, prompt_eval_count: 7, eval_count: 3 },
+    ];
+    return new Response(lines.map((line) => JSON.stringify(line)).join("\n") + "\n");
+  });
+  try {
+    const provider = createOllamaProvider({ provider: "ollama", model: "llama-test", baseUrl: `${baseUrl}/` });
+    assertEquals(await provider.complete(request), { content: "Hello.", usage: usage(7, 2) });
+    assertEquals(seen[0].body.options, { temperature: 0.5, num_predict: 2048 });
+    assertEquals(seen[0].body.messages, request.messages);
+
+    const { deltas, done } = await collect(provider.stream(request));
+    assertEquals(deltas, ["Hel", "lo."]);
+    assertEquals(done, { type: "done", response: { content: "Hello.", usage: usage(7, 3) } });
+
+    const busy = createOllamaProvider({ provider: "ollama", model: "busy", baseUrl });
+    const error = await busy.complete(request).catch((error) => error);
+    assert(error instanceof LlmError);
+    assertEquals([error.message, error.status], ["Ollama API returned HTTP 503: model is loading", 503]);
+  } finally {
+    await server.shutdown();
+  }
+});
+
+const format: LlmResponseFormat = {
+  name: "greeting",
+  description: "A greeting",
+  schema: {
+    type: "object",
+    properties: { text: { type: "string" } },
+    required: ["text"],
+    additionalProperties: false,
+  },
+};
+
+function parseGreeting(raw: string) {
+  try {
+    const value = JSON.parse(raw) as { text?: unknown };
+    if (typeof value.text === "string") return { ok: true as const, value: value.text };
+  } catch {
+    // Reported below like any other invalid reply.
+  }
+  return { ok: false as const, errors: ["text must be a string"] };
+}
+
+Deno.test("completeStructured re-asks once with the validation errors", async () => {
+  const mock = createMockLlmProvider({
+    responses: [
+      { match: "failed validation", content: '{"text": "Hello"}', times: 1 },
+      { content: "Hello in prose" },
+    ],
+  });
+  const structured = { ...request, responseFormat: format };
+
+  assertEquals(await completeStructured(mock, structured, parseGreeting), { ok: true, value: "Hello", repaired: true });
+  assertEquals(mock.requests[0].responseFormat, format);
+  const retry = mock.requests[1];
+  assertEquals(retry.messages.map((message) => message.role), ["system", "user", "assistant", "user"]);
+  assertEquals(retry.messages[2].content, "Hello in prose");
+  assert(retry.messages[3].content.includes("- text must be a string"));
+
+  // The repair entry is used up, so both replies are prose now.
+  assertEquals(await completeStructured(mock, structured, parseGreeting), {
+    ok: false,
+    reason: "invalid_output",
+    errors: ["text must be a string"],
+  });
+  assertEquals(mock.requests.length, 4);
+});
+
+Deno.test("completeStructured drops the schema for a model that rejects it", async () => {
+  const { server, seen, baseUrl } = serve((_incoming, body) => {
+    if (body.format) return new Response("format not supported", { status: 400 });
+    return Response.json({ message: { content: '{"text": "Hi"}' }, done: true });
+  });
+  try {
+    const provider = createOllamaProvider({ provider: "ollama", model: "old-model", baseUrl });
+    const structured = { ...request, responseFormat: format };
+    assertEquals(await completeStructured(provider, structured, parseGreeting), {
+      ok: true,
+      value: "Hi",
+      repaired: false,
+    });
+    assertEquals(seen[0].body.format, format.schema);
+    assertEquals(seen[1].body.format, undefined);
+
+    // Remembered per provider: the next structured request goes out without the schema.
+    await completeStructured(provider, structured, parseGreeting);
+    assertEquals(seen.length, 3);
+    assertEquals(seen[2].body.format, undefined);
+  } finally {
+    await server.shutdown();
+  }
+});
+
+Deno.test("anthropic provider turns a response format into a required tool call", async () => {
+  const { server, seen, baseUrl } = serve((_incoming, body) => {
+    if (!body.stream) {
+      return Response.json({
+        content: [{ type: "tool_use", id: "t1", name: "greeting", input: { text: "Hello" } }],
+        usage: { input_tokens: 30, output_tokens: 8 },
+      });
+    }
+    const events = [
+      { type: "content_block_delta", delta: { type: "input_json_delta", partial_json: '{"text": ' } },
+      { type: "content_block_delta", delta: { type: "input_json_delta", partial_json: '"Hello"}' } },
+    ];
+    const text = events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join("");
+    return new Response(text, { headers: { "content-type": "text/event-stream" } });
+  });
+  try {
+    const provider = createAnthropicProvider({ provider: "anthropic", model: "claude-test", apiKey: "k", baseUrl });
+    const structured = { ...request, responseFormat: format };
+
+    assertEquals(await provider.complete(structured), { content: '{"text":"Hello"}', usage: usage(30, 8) });
+    assertEquals(seen[0].body.tools, [{ name: "greeting", description: "A greeting", input_schema: format.schema }]);
+    assertEquals(seen[0].body.tool_choice, { type: "tool", name: "greeting" });
+
+    const { deltas } = await collect(provider.stream(structured));
+    assertEquals(deltas.join(""), '{"text": "Hello"}');
+  } finally {
+    await server.shutdown();
+  }
+});
+
+Deno.test("withRetryPolicy retries rate limits and timeouts but not rejected requests", async () => {
+  const logger = createLogger("error");
+  const mock = createMockLlmProvider({
+    responses: [
+      { match: "busy", error: "Too many requests", status: 429, times: 2 },
+      { match: "busy", content: "Finally." },
+      { match: "slow", content: "Too late.", delayMs: 1_000 },
+      { match: "bad", error: "Invalid schema", status: 400 },
+    ],
+  });
+  const provider = withRetryPolicy(mock, { timeoutMs: 50, maxAttempts: 3, retryBaseMs: 1 }, logger);
+  const ask = (content: string) => provider.complete({ ...request, messages: [{ role: "user", content }] });
+
+  assertEquals((await ask("busy")).content, "Finally.");
+  assertEquals(mock.requests.length, 3);
+
+  const timedOut = await ask("slow").catch((error) => error);
+  assert(timedOut instanceof LlmTimeoutError);
+  assertEquals(timedOut.message, "Model call timed out after 50 ms");
+  assertEquals(mock.requests.length, 6);
+  // Each attempt got its own signal, aborted when it timed out.
+  assert(mock.requests.slice(3).every((sent) => sent.signal?.aborted));
+
+  const rejected = await ask("bad").catch((error) => error);
+  assert(rejected instanceof LlmError);
+  assertEquals(rejected.status, 400);
+  assertEquals(mock.requests.length, 7);
+});
+
+Deno.test("openai clients leave retries to withRetryPolicy", () => {
+  const fields = openAiClientFields({ provider: "openai", model: "gpt-4", apiKey: "sk-test" }, 0.2);
+  assertEquals(fields.maxRetries, 0);
+  assertEquals(fields.maxTokens, 2048);
+  assertEquals([fields.modelName, fields.temperature, fields.configuration], ["gpt-4", 0.2, undefined]);
+});
+
+Deno.test("an open circuit breaker stops completeStructured from calling the model", async () => {
+  const mock = createMockLlmProvider({
+    responses: [
+      { match: "Ava", error: "Service unavailable", status: 503 },
+      { content: '{"text": "Hello"}' },
+    ],
+  });
+  const breaker = new CircuitBreaker(2, createLogger("error"));
+  const ask = (content: string) =>
+    completeStructured(
+      mock,
+      { ...request, messages: [{ role: "user", content }], responseFormat: format },
+      parseGreeting,
+      breaker,
+    );
+
+  // A success in between resets the count, so only two failures in a row open the breaker.
+  assertEquals(await ask("Ava"), { ok: false, reason: "model_error", errors: ["Service unavailable"] });
+  assertEquals(await ask("Ben"), { ok: true, value: "Hello", repaired: false });
+  assertEquals((await ask("Ava")).ok, false);
+  assertEquals(breaker.open, false);
+  assertEquals((await ask("Ava")).ok, false);
+  assertEquals(breaker.open, true);
+
+  const skipped = await ask("Ben");
+  assertEquals(skipped.ok ? undefined : skipped.reason, "circuit_open");
+  assertEquals(mock.requests.length, 4);
+});
+
+Deno.test("rate limited calls wait for room under the request and token limits", async () => {
+  const windowMs = 100;
+  const logger = createLogger("error");
+  const mock = createMockLlmProvider({ responses: [{ content: "ok", usage: usage(40, 10) }] });
+  const limit = (limiter: RateLimiter) => withRetryPolicy(mock, { maxAttempts: 1 }, logger, limiter);
+
+  // Two requests per window: the third waits for the first to leave it.
+  const requests = limit(new RateLimiter({ requestsPerMinute: 2 }, windowMs));
+  const started = Date.now();
+  await Promise.all([requests.complete(request), requests.complete(request), requests.complete(request)]);
+  assert(Date.now() - started >= windowMs - 5);
+
+  // The first call reports 50 tokens, so a second one (estimated with its reply allowance) has to wait.
+  const tokens = new RateLimiter({ tokensPerMinute: estimateTokens(request) + 10 }, windowMs);
+  const limited = limit(tokens);
+  await limited.complete(request);
+  const before = Date.now();
+  await limited.complete(request);
+  assert(Date.now() - before >= windowMs - 5);
+});
+
+Deno.test("retries after a rate limit count against the request limit", async () => {
+  const windowMs = 100;
+  const mock = createMockLlmProvider({
+    responses: [
+      { error: "Too many requests", status: 429, times: 1 },
+      { content: "ok" },
+    ],
+  });
+  const limiter = new RateLimiter({ requestsPerMinute: 1 }, windowMs);
+  const provider = withRetryPolicy(mock, { maxAttempts: 2, retryBaseMs: 1 }, createLogger("error"), limiter);
+  const started = Date.now();
+  assertEquals((await provider.complete(request)).content, "ok");
+  // The retry is a second request, so it waits for the first attempt's slot to leave the window.
+  assert(Date.now() - started >= windowMs - 5);
+  assertEquals(mock.requests.length, 2);
+});
+
+Deno.test("token estimates cover the prompt and the longest allowed reply", () => {
+  const prompt = Math.ceil(request.messages.reduce((sum, message) => sum + message.content.length, 0) / 4);
+  assertEquals(estimateTokens(request), prompt + 2048);
+});
+
+Deno.test("providers for the same account share one rate limit budget", async () => {
+  const llm = { provider: "openai" as const, model: "gpt-test", apiKey: "k", requestsPerMinute: 1 };
+  assert(sharedRateLimiter(llm) === sharedRateLimiter({ ...llm, model: "another-model" }));
+  assert(sharedRateLimiter(llm) !== sharedRateLimiter({ ...llm, apiKey: "other-key" }));
+
+  // Two runs' providers (or a run and chat) wrapping one limiter: the second call waits for the first's slot.
+  const windowMs = 100;
+  const logger = createLogger("error");
+  const limiter = new RateLimiter({ requestsPerMinute: 1 }, windowMs);
+  const run = withRetryPolicy(createMockLlmProvider({ responses: [{ content: "run" }] }), {}, logger, limiter);
+  const chat = withRetryPolicy(createMockLlmProvider({ responses: [{ content: "chat" }] }), {}, logger, limiter);
+  const started = Date.now();
+  await run.complete(request);
+  await chat.complete(request);
+  assert(Date.now() - started >= windowMs - 5);
+});
+
+function usage(inputTokens: number, outputTokens: number) {
+  return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+}
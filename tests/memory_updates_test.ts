@@ -0,0 +1,73 @@
+import { applyMemoryUpdates, parseMemoryUpdates } from "../src/memory_updates.ts";
+import type { StudentMemory } from "../src/memory_store.ts";
+import { assert, assertEquals } from "jsr:@std/assert@0.224.0";
+
+/**
+ * Unit tests for chat-driven memory updates.
+ *
+ * The key behaviors:
+ * - Only well-formed extraction output is accepted; anything else yields no updates at all.
+ * - Applying reports only real changes, with one history entry per message.
+ */
+const memory: StudentMemory = {
+  studentId: "S001",
+  summary: "Steady effort this week.",
+  strengths: ["Consistent participation"],
+  improvementAreas: [],
+  goals: ["Finish homework on time", "Ask one question per class"],
+  accommodations: [],
+  lastUpdated: "2024-01-01T00:00:00.000Z",
+  history: [{ date: "2024-01-01T00:00:00.000Z", note: "Focus: math" }],
+};
+
+Deno.test("parseMemoryUpdates accepts fenced JSON and rejects malformed entries", () => {
+  const parsed = parseMemoryUpdates(
+    '```json\n{"updates": [{"field": "accommodations", "action": "add", "value": " extended time on tests "}]}\n```',
+  );
+  assert(parsed.ok);
+  assertEquals(parsed.value, [{ field: "accommodations", action: "add", value: "extended time on tests" }]);
+
+  const empty = parseMemoryUpdates('{"updates": []}');
+  assertEquals(empty.ok ? empty.value : null, []);
+
+  const invalid = parseMemoryUpdates('{"updates": [{"field": "grades", "action": "add", "value": "A"}]}');
+  assertEquals(invalid.ok ? [] : invalid.errors, [
+    "updates[0].field must be one of goals, accommodations, strengths, improvementAreas",
+  ]);
+  assertEquals(parseMemoryUpdates("No changes needed.").ok, false);
+});
+
+Deno.test("applyMemoryUpdates reports only effective changes and records history", () => {
+  const { memory: updated, changes } = applyMemoryUpdates(
+    memory,
+    [
+      { field: "goals", action: "add", value: "Read 20 min nightly" },
+      { field: "goals", action: "add", value: "finish homework on time" },
+      { field: "accommodations", action: "add", value: "Extended time on tests" },
+      { field: "strengths", action: "remove", value: "Group work" },
+    ],
+    { author: "teacher-1", historyLimit: 5, now: "2024-02-01T00:00:00.000Z" },
+  );
+
+  assertEquals(changes, [
+    { field: "goals", action: "add", value: "Read 20 min nightly" },
+    { field: "accommodations", action: "add", value: "Extended time on tests" },
+  ]);
+  assertEquals(updated.goals, ["Read 20 min nightly", "Finish homework on time", "Ask one question per class"]);
+  assertEquals(updated.accommodations, ["Extended time on tests"]);
+  assertEquals(updated.lastUpdated, "2024-02-01T00:00:00.000Z");
+  assertEquals(
+    updated.history[0].note,
+    'Teacher chat (teacher-1): added goal "Read 20 min nightly"; added accommodation "Extended time on tests"',
+  );
+  assertEquals(updated.history.length, 2);
+  // The input memory is not mutated.
+  assertEquals(memory.goals.length, 2);
+
+  const unchanged = applyMemoryUpdates(memory, [{ field: "goals", action: "remove", value: "Unknown" }], {
+    author: "teacher-1",
+    historyLimit: 5,
+  });
+  assertEquals(unchanged.changes, []);
+  assertEquals(unchanged.memory, memory);
+});
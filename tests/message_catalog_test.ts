@@ -0,0 +1,124 @@
+import { languageName, localizeAnalysisPhrase, messageCatalog, preferredLocale } from "../src/message_catalog.ts";
+import { analyzeStudent } from "../src/analyzer.ts";
+import { buildFallbackStudentInsights, buildFallbackTeacherInsights, renderStudentMessage } from "../src/insights.ts";
+import { buildStudentEmail } from "../src/email.ts";
+import type { RiskFactor, Student, StudentInsights } from "../src/types.ts";
+import { assert, assertEquals } from "jsr:@std/assert@0.224.0";
+
+/**
+ * Unit tests for localized message wording.
+ *
+ * The key behaviors:
+ * - Catalogs resolve along the locale chain, and languages without one get English wording.
+ * - Fallback insights use the reader's language, including translated analyzer phrases and risk reasons.
+ * - A student's `language` picks both the headings and the built-in email template.
+ */
+const student: Student = {
+  id: "S002",
+  name: "Mateo Ruiz",
+  email: "mateo@example.com",
+  grades: [{ subject: "Math", score: 62 }, { subject: "Art", score: 70 }],
+  participationScore: 5,
+  assignmentCompletionRate: 70,
+  teacherNotes: "",
+  performanceTrend: "declining",
+  lastAssessmentDate: "2024-09-01",
+  language: "es-MX",
+};
+
+const insights: StudentInsights = {
+  positiveObservation: "Has mostrado constancia esta semana.",
+  strengths: ["Participación"],
+  improvementAreas: ["Matemáticas"],
+  strategies: ["Repasar 10 minutos", "Hacer una pregunta"],
+  nextStepGoal: "Terminar la guía de fracciones",
+  encouragement: "¡Sigue así!",
+};
+
+Deno.test("catalogs resolve along the locale chain", () => {
+  assertEquals(messageCatalog("es-MX").student.strengths, "Fortalezas:");
+  assertEquals(messageCatalog("fr").student.strengths, "Strengths:");
+  assertEquals(messageCatalog(undefined).guardian.homeSupport, "Ways to help at home:");
+  assertEquals(preferredLocale(undefined, "pt_BR"), "pt-br");
+  assertEquals(preferredLocale("ES", "en"), "es");
+  assertEquals(languageName("es"), "Spanish");
+
+  const spanish = renderStudentMessage(insights, "es");
+  assert(spanish.includes("Fortalezas:\n- Participación"));
+  assert(spanish.includes("Próxima meta: Terminar la guía de fracciones"));
+  assert(renderStudentMessage(insights).includes("Next step goal: Terminar la guía de fracciones"));
+});
+
+Deno.test("fallback insights use the reader's language", () => {
+  const analysis = analyzeStudent(student);
+  const spanish = buildFallbackStudentInsights(analysis, undefined, "es-MX");
+  assertEquals(spanish.improvementAreas, ["El promedio general necesita mejorar", "Participar más en clase"]);
+  assertEquals(spanish.strategies[0], messageCatalog("es").studentFallback.useChecklist);
+  assertEquals(spanish.encouragement, "Los pequeños pasos suman: sigue adelante y pide ayuda si la necesitas.");
+
+  // English stays the analyzer's own wording.
+  const english = buildFallbackStudentInsights(analysis);
+  assertEquals(english.improvementAreas, ["Overall grade average needs improvement", "Increase class participation"]);
+
+  const catalog = messageCatalog("es");
+  assertEquals(
+    localizeAnalysisPhrase("Focus on weaker subjects: Math, Art", catalog),
+    "Reforzar las materias más débiles: Math, Art",
+  );
+  assertEquals(localizeAnalysisPhrase("Custom teacher phrase", catalog), "Custom teacher phrase");
+
+  const teacher = buildFallbackTeacherInsights(
+    { classAverage: 66, topStudents: [], attentionNeeded: [], notes: [] },
+    undefined,
+    "es",
+  );
+  assertEquals(teacher.strengths, ["Varios estudiantes mantienen un desempeño constante."]);
+  assert(teacher.classOverview.startsWith("El promedio del grupo es 66,0."));
+
+  // Risk reasons are rebuilt from the factors, so they follow the class language too.
+  const riskFactors: RiskFactor[] = [
+    {
+      ruleId: "low-completion",
+      signal: "assignmentCompletionRate",
+      observed: 60,
+      operator: "lt",
+      threshold: 70,
+      severity: "high",
+      reason: "Assignment completion is 60%, below 70%",
+    },
+    {
+      ruleId: "declining",
+      signal: "trend",
+      observed: "declining",
+      operator: "eq",
+      threshold: "declining",
+      severity: "medium",
+      reason: "Performance trend is declining",
+    },
+  ];
+  const flagged = {
+    classAverage: 66,
+    topStudents: [],
+    attentionNeeded: [{ studentId: "S002", name: "Mateo Ruiz", riskLevel: "high" as const, riskFactors }],
+    notes: [],
+  };
+  assertEquals(
+    buildFallbackTeacherInsights(flagged, undefined, "es").attentionNeeded[0].reason,
+    "La entrega de tareas es del 60 %, inferior a 70 %; La tendencia del rendimiento está en descenso.",
+  );
+  assertEquals(
+    buildFallbackTeacherInsights(flagged).attentionNeeded[0].reason,
+    "Assignment completion is 60%, below 70%; Performance trend is declining.",
+  );
+});
+
+Deno.test("a student's language picks the email template and headings", () => {
+  const email = buildStudentEmail(student, insights, undefined, { locale: "en" });
+  assertEquals(email.subject, "Tu resumen de aprendizaje y próximos pasos, Mateo Ruiz");
+  assert(email.text.startsWith("Hola, Mateo Ruiz:"));
+  assert(email.html.includes("<p><strong>Prueba esto:</strong></p>"));
+
+  const english = buildStudentEmail({ ...student, language: undefined }, insights, undefined, { locale: "en" });
+  assertEquals(english.subject, "Your learning update and next steps, Mateo Ruiz");
+  assert(english.html.includes("<p><strong>Try this:</strong></p>"));
+});
@@ -0,0 +1,125 @@
+import {
+  buildMimeMessage,
+  encodeHeaderText,
+  encodeQuotedPrintable,
+  formatAddress,
+  formatRfc5322Date,
+  parseAddress,
+} from "../src/mime.ts";
+import type { EmailContent } from "../src/email.ts";
+import { assert, assertEquals } from "jsr:@std/assert@0.224.0";
+
+/**
+ * Unit tests for RFC 5322 / MIME message rendering.
+ *
+ * The key behaviors:
+ * - Non-ASCII names and subjects are RFC 2047 encoded, and ASCII names with specials are quoted.
+ * - Bodies are quoted-printable with lines of at most 76 characters, and decode back to the original text.
+ * - The message is multipart/alternative (text, then HTML) with Date, Message-ID, and run headers.
+ * - Newlines in subjects and run header values cannot start extra headers.
+ */
+function decodeEncodedWords(value: string): string {
+  const bytes = value.split(" ").flatMap((word) => {
+    const match = word.match(/^=\?UTF-8\?B\?(.*)\?=$/);
+    return match ? Array.from(atob(match[1]), (char) => char.charCodeAt(0)) : [];
+  });
+  return new TextDecoder().decode(new Uint8Array(bytes));
+}
+
+function decodeQuotedPrintable(value: string): string {
+  const binary = value
+    .replace(/=\r\n/g, "")
+    .replace(/=([0-9A-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+}
+
+Deno.test("addresses and header text are quoted or encoded as needed", () => {
+  assertEquals(formatAddress("Ava Martinez", "ava@example.com"), "Ava Martinez <ava@example.com>");
+  assertEquals(formatAddress('Rivera, Ana "Ms"', "ana@example.com"), '"Rivera, Ana \\"Ms\\"" <ana@example.com>');
+  assertEquals(formatAddress(undefined, "ava@example.com"), "ava@example.com");
+  assertEquals(
+    formatAddress("José Núñez", "jose@example.com"),
+    "=?UTF-8?B?Sm9zw6kgTsO6w7Fleg==?= <jose@example.com>",
+  );
+  assertEquals(parseAddress('"Rivera, Ana" <ana@example.com>'), { name: "Rivera, Ana", address: "ana@example.com" });
+  assertEquals(parseAddress("noreply@local"), { address: "noreply@local" });
+
+  // Long text is split into several words, each within the 75-character limit, without cutting a character.
+  const subject = "Tu actualización de aprendizaje y próximos pasos, María José Hernández";
+  const words = encodeHeaderText(subject);
+  assert(words.length > 1);
+  assert(words.every((word) => word.length <= 75));
+  assertEquals(decodeEncodedWords(words.join(" ")), subject);
+
+  assertEquals(formatRfc5322Date(new Date("2026-03-05T07:08:09.000Z")), "Thu, 5 Mar 2026 07:08:09 +0000");
+});
+
+Deno.test("encodeQuotedPrintable keeps lines short and round-trips UTF-8", () => {
+  const text = `Señal = progreso ${"é".repeat(40)}\nTrailing space \nPlain line`;
+  const encoded = encodeQuotedPrintable(text);
+  assert(encoded.split("\r\n").every((line) => line.length <= 76));
+  assert(encoded.includes("Trailing space=20\r\n"));
+  assert(encoded.startsWith("Se=C3=B1al =3D progreso"));
+  assertEquals(decodeQuotedPrintable(encoded).replace(/\r\n/g, "\n"), text);
+});
+
+Deno.test("buildMimeMessage renders multipart/alternative with run headers", () => {
+  const email: EmailContent = {
+    to: "jose@example.com",
+    toName: "José Núñez",
+    subject: "Your learning update, José",
+    text: "Hi José,\nKeep going!",
+    html: "<p>Hi José,</p>",
+    context: { runId: "run-1", classId: "period-1", studentId: "S007" },
+  };
+  const message = buildMimeMessage(email, {
+    from: "Edu Assistant <noreply@school.test>",
+    messageId: "<abc@school.test>",
+    date: new Date("2026-03-05T07:08:09.000Z"),
+    boundary: "b1",
+  });
+  const headerEnd = message.indexOf("\r\n\r\n");
+  const head = message.slice(0, headerEnd);
+  const body = message.slice(headerEnd + 4);
+
+  assertEquals(head.split("\r\n"), [
+    "From: Edu Assistant <noreply@school.test>",
+    "To: =?UTF-8?B?Sm9zw6kgTsO6w7Fleg==?= <jose@example.com>",
+    "Subject: =?UTF-8?B?WW91ciBsZWFybmluZyB1cGRhdGUsIEpvc8Op?=",
+    "Date: Thu, 5 Mar 2026 07:08:09 +0000",
+    "Message-ID: <abc@school.test>",
+    "MIME-Version: 1.0",
+    "X-Edu-Run-Id: run-1",
+    "X-Edu-Class-Id: period-1",
+    "X-Edu-Student-Id: S007",
+    'Content-Type: multipart/alternative; boundary="b1"',
+  ]);
+  const parts = body.split("--b1");
+  assertEquals(parts.length, 4);
+  assert(parts[1].startsWith("\r\nContent-Type: text/plain; charset=utf-8\r\n"));
+  assert(parts[1].includes("Content-Transfer-Encoding: quoted-printable"));
+  assert(parts[1].includes("Hi Jos=C3=A9,\r\nKeep going!"));
+  assert(parts[2].startsWith("\r\nContent-Type: text/html; charset=utf-8"));
+  assert(parts[2].includes("<p>Hi Jos=C3=A9,</p>"));
+  assertEquals(parts[3], "--\r\n");
+  // 7-bit clean: safe for any relay without 8BITMIME.
+  assert(/^[\x20-\x7e\r\n]*$/.test(message));
+});
+
+Deno.test("buildMimeMessage keeps newlines in ids from injecting headers", () => {
+  const email: EmailContent = {
+    to: "ava@example.com",
+    subject: "Update\r\nBcc: x@evil.test",
+    text: "Hi",
+    html: "<p>Hi</p>",
+    context: { runId: "run-1\nBcc: a@evil.test", classId: "period-1\r\n", studentId: "S001\r\nBcc: x@evil.test" },
+  };
+  const message = buildMimeMessage(email, { from: "noreply@school.test", messageId: "<m@school.test>" });
+  const head = message.slice(0, message.indexOf("\r\n\r\n")).split("\r\n");
+
+  assert(!head.some((line) => line.startsWith("Bcc:")));
+  assert(head.includes("X-Edu-Run-Id: run-1 Bcc: a@evil.test"));
+  assert(head.includes("X-Edu-Class-Id: period-1"));
+  assert(head.includes("X-Edu-Student-Id: S001 Bcc: x@evil.test"));
+  assert(head.includes("Subject: Update Bcc: x@evil.test"));
+});
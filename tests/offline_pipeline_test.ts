@@ -0,0 +1,328 @@
+import { runOnce } from "../src/run_with_tool.ts";
+import { buildStudentsIndex, handleChat, type ServerConfig } from "../src/http_server.ts";
+import { createChatAgent } from "../src/chat_agent.ts";
+import { createMockLlmProvider } from "../src/llm_provider.ts";
+import { loadStudentMemory, loadTeacherMemory } from "../src/memory_store.ts";
+import { HistoryStore } from "../src/storage.ts";
+import { createLogger } from "../src/logger.ts";
+import type { Session } from "../src/auth.ts";
+import type { ChatResponse } from "../packages/shared-types/src/contracts.ts";
+import { assert, assertEquals } from "jsr:@std/assert@0.224.0";
+
+/**
+ * End-to-end tests for the pipeline and chat with the mock LLM provider (no network, no API key).
+ *
+ * The key behaviors:
+ * - `runOnce` with `LLM_PROVIDER=mock` settings sends student, guardian, and teacher emails from scripted
+ *   replies; an invalid reply is re-asked once, one still unusable falls back per student, and the run records
+ *   both counts.
+ * - A dry run fills the preview (guardian notes included) and writes nothing: no emails, history or roster rows,
+ *   memory files, or archives.
+ * - A student-scoped run records and remembers only that student: no teacher summary, and the other students'
+ *   and the teacher's memory stay as they were. Its status is that student's outcome, so a failed send shows.
+ * - When the model keeps failing, the circuit breaker skips it for the rest of the run, and each student's
+ *   fallback records why.
+ * - `handleChat` replies (whole and streamed), applies memory updates from the extraction call, prices the
+ *   turn, and replays earlier turns to the model on follow-ups.
+ */
+const students = [
+  {
+    id: "S001",
+    name: "Ava Martinez",
+    email: "ava@example.com",
+    grades: [{ subject: "Math", score: 58 }, { subject: "Science", score: 91 }],
+    participationScore: 7,
+    assignmentCompletionRate: 72,
+    teacherNotes: "Quiet but focused.",
+    performanceTrend: "declining",
+    lastAssessmentDate: "2024-09-01",
+    guardians: [{ name: "Maria Martinez", email: "maria@example.com", optIn: true }],
+  },
+  {
+    id: "S002",
+    name: "Ben Ortiz",
+    email: "ben@example.com",
+    grades: [{ subject: "Math", score: 88 }],
+    participationScore: 9,
+    assignmentCompletionRate: 95,
+    teacherNotes: "",
+    performanceTrend: "improving",
+    lastAssessmentDate: "2024-09-01",
+  },
+];
+
+// Most specific entries first: every batch prompt shares the "Student analysis JSON" wording.
+const script = {
+  responses: [
+    // The first teacher summary misses fields, so the re-ask (which repeats the prompt) gets the next entry.
+    { match: "class summary for the teacher", content: '{"classOverview": "A steady week overall."}', times: 1 },
+    {
+      match: "class summary for the teacher",
+      content: JSON.stringify({
+        classOverview: "A steady week overall.",
+        strengths: ["Strong science work"],
+        attentionNeeded: [{ name: "Ava Martinez", reason: "Math scores are slipping" }],
+        nextSteps: ["Review fractions", "Pair practice"],
+      }),
+    },
+    {
+      match: "parent or guardian",
+      content: JSON.stringify({
+        summary: "Ava has had a harder few weeks in math.",
+        highlights: ["Strong science work"],
+        homeSupport: ["Ask Ava to explain one math problem each evening"],
+        closing: "Please reach out with any questions.",
+      }),
+    },
+    { match: "Ben Ortiz", content: "Sorry, I can only answer in prose today." },
+    {
+      match: "writing for a student",
+      content: JSON.stringify({
+        positiveObservation: "Your science work stands out.",
+        strengths: ["Science"],
+        improvementAreas: ["Math accuracy"],
+        strategies: ["Check each answer once", "Practice ten minutes a day"],
+        nextStepGoal: "Finish the fractions worksheet",
+        encouragement: "Keep going!",
+      }),
+    },
+  ],
+};
+
+async function setUp(dir: string): Promise<ServerConfig> {
+  await Deno.writeTextFile(`${dir}/students.json`, JSON.stringify(students));
+  await Deno.writeTextFile(`${dir}/mock_llm.json`, JSON.stringify(script));
+  return {
+    llm: { provider: "mock", model: "mock", mockScriptPath: `${dir}/mock_llm.json` },
+    openAiPriceInputPer1K: 1,
+    openAiPriceOutputPer1K: 2,
+    emailFrom: "Edu Assistant <noreply@local>",
+    teacherEmail: "teacher@example.com",
+    emailOutDir: `${dir}/out`,
+    emailTransport: "file",
+    emailMaxAttempts: 1,
+    emailRetryBaseMs: 1,
+    emailLocale: "en",
+    historyDbPath: `${dir}/history.db`,
+    scheduleIntervalMin: 30,
+    studentsJsonPath: `${dir}/students.json`,
+    logLevel: "error",
+    memoryDir: `${dir}/memory`,
+    memoryHistoryLimit: 5,
+    reviewStudentMessages: false,
+    apiHost: "127.0.0.1",
+    apiPort: 0,
+    apiCorsOrigin: "*",
+    watchSources: false,
+    chatHistoryTurns: 6,
+    authSecret: "x".repeat(32),
+    authUsersPath: `${dir}/users.json`,
+    authUsers: new Map(),
+  };
+}
+
+Deno.test("runOnce delivers a full run from scripted model replies", async () => {
+  const dir = await Deno.makeTempDir();
+  const config = await setUp(dir);
+  const store = new HistoryStore(config.historyDbPath, createLogger("error"));
+  try {
+    const result = await runOnce(config, store);
+    assertEquals(result.status, "completed");
+    // Two students, one guardian note, one teacher summary: Ben fell back and the summary needed the re-ask.
+    assertEquals(result.insights, { generated: 4, repaired: 1, fallbacks: 1 });
+    assertEquals(store.getRun(result.runId)?.insights, { generated: 4, repaired: 1, fallbacks: 1, fallbackRate: 0.25 });
+
+    // Roster order, although Ava (with a guardian note) finishes after Ben.
+    const messages = store.listStudentMessages(result.runId)
+      .map((entry) => [entry.studentId, entry.status, entry.usedFallback]);
+    assertEquals(messages, [["S001", "sent", false], ["S002", "sent", true]]);
+    assertEquals(store.getTeacherMessage(result.runId)?.usedFallback, false);
+    const guardians = store.listGuardianMessages(result.runId);
+    assertEquals(guardians.map((entry) => [entry.guardianEmail, entry.usedFallback]), [["maria@example.com", false]]);
+
+    // Two students, one guardian, one teacher summary.
+    const written = [...Deno.readDirSync(`${dir}/out`)].filter((entry) => entry.name.endsWith(".eml"));
+    assertEquals(written.length, 4);
+    const memory = await loadStudentMemory(config.memoryDir, "default", "S001", createLogger("error"));
+    assertEquals(memory.goals, ["Finish the fractions worksheet"]);
+  } finally {
+    store.close();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("a dry run previews every message and writes nothing", async () => {
+  const dir = await Deno.makeTempDir();
+  const config = await setUp(dir);
+  const store = new HistoryStore(config.historyDbPath, createLogger("error"));
+  try {
+    const result = await runOnce(config, store, { dryRun: true });
+    assertEquals(result.status, "completed");
+    assertEquals(
+      result.preview?.students.map((entry) => [entry.studentId, entry.status, entry.usedFallback]),
+      [["S001", "rendered", false], ["S002", "rendered", true]],
+    );
+    assert(result.preview?.students[0].text?.includes("Your science work stands out."));
+    // Guardian notes are generated and rendered too, but not sent.
+    const [note] = result.preview?.students[0].guardians ?? [];
+    assertEquals([note?.guardianName, note?.language, note?.usedFallback], ["Maria Martinez", "en", false]);
+    assert(note?.text.includes("Ask Ava to explain one math problem each evening"));
+    assertEquals(result.preview?.students[1].guardians, undefined);
+    assertEquals(result.preview?.teacher?.status, "rendered");
+
+    // Only the inputs and the (empty) database are in the directory: no email files, memory, or archives.
+    const files = [...Deno.readDirSync(dir)].map((entry) => entry.name)
+      .filter((name) => !name.startsWith("history.db"))
+      .sort();
+    assertEquals(files, ["mock_llm.json", "students.json"]);
+    assertEquals(store.getRun(result.runId), null);
+    assertEquals(store.listRuns(), []);
+    assertEquals(store.listStudentMessages(result.runId), []);
+    assertEquals(store.getTeacherMessage(result.runId), null);
+    assertEquals(store.listDrafts(undefined, undefined), []);
+    // Dry runs read the students file without seeding the roster table.
+    assertEquals(store.listStudents(), []);
+  } finally {
+    store.close();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("a student-scoped run refreshes one student and leaves the rest alone", async () => {
+  const dir = await Deno.makeTempDir();
+  const config = await setUp(dir);
+  const logger = createLogger("error");
+  const store = new HistoryStore(config.historyDbPath, logger);
+  try {
+    // A full run first, so both students and the teacher have memory to compare against.
+    await runOnce(config, store);
+    const benBefore = await loadStudentMemory(config.memoryDir, "default", "S002", logger);
+    const teacherBefore = await loadTeacherMemory(config.memoryDir, "default", logger);
+    assertEquals([benBefore.history.length, teacherBefore.history.length], [1, 1]);
+
+    const result = await runOnce(config, store, { scope: "student", studentId: "S001" });
+    assertEquals(result.status, "completed");
+    assertEquals(store.getRun(result.runId)?.studentCount, 1);
+    assertEquals(store.listStudentMessages(result.runId).map((entry) => entry.studentId), ["S001"]);
+    // No class summary was generated, sent, or remembered.
+    assertEquals(store.getTeacherMessage(result.runId), null);
+    assertEquals(await loadTeacherMemory(config.memoryDir, "default", logger), teacherBefore);
+    assertEquals(await loadStudentMemory(config.memoryDir, "default", "S002", logger), benBefore);
+    const archives = [...Deno.readDirSync(`${config.memoryDir}/archive`)].map((entry) => entry.name)
+      .filter((name) => name.startsWith(`run-${result.runId}-`));
+    assertEquals(archives, [`run-${result.runId}-student-S001.json`]);
+
+    const ava = await loadStudentMemory(config.memoryDir, "default", "S001", logger);
+    assertEquals(ava.history.length, 2);
+
+    // A refresh whose email could not be sent reports that outcome instead of "completed".
+    const closed = Deno.listen({ hostname: "127.0.0.1", port: 0 });
+    const port = (closed.addr as Deno.NetAddr).port;
+    closed.close();
+    config.emailTransport = "smtp";
+    config.smtp = { host: "127.0.0.1", port, security: "none", heloName: "test", timeoutMs: 1000 };
+    const undelivered = await runOnce(config, store, { scope: "student", studentId: "S002" });
+    assertEquals(undelivered.status, "delivery_failed");
+    assertEquals(store.getRun(undelivered.runId)?.status, "delivery_failed");
+  } finally {
+    store.close();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("runOnce stops calling a failing model and records each fallback reason", async () => {
+  const dir = await Deno.makeTempDir();
+  const config = await setUp(dir);
+  await Deno.writeTextFile(config.llm.mockScriptPath!, JSON.stringify({
+    responses: [{ error: "Service unavailable", status: 503 }],
+  }));
+  config.llm = { ...config.llm, maxAttempts: 2, retryBaseMs: 1, circuitBreakerThreshold: 1 };
+  // One student at a time, so the second one starts after the first opened the breaker.
+  config.studentConcurrency = 1;
+  const store = new HistoryStore(config.historyDbPath, createLogger("error"));
+  try {
+    const result = await runOnce(config, store);
+    assertEquals(result.status, "completed");
+    assertEquals(result.insights, { generated: 4, repaired: 0, fallbacks: 4 });
+
+    const reasons = store.listStudentMessages(result.runId)
+      .map((entry) => [entry.studentId, entry.status, entry.fallbackReason])
+      .sort();
+    assertEquals(reasons, [["S001", "sent", "model_error"], ["S002", "sent", "circuit_open"]]);
+    // Only the first student's call failed for real; the guardian note and teacher summary were skipped too.
+    assertEquals(store.getTeacherMessage(result.runId)?.usedFallback, true);
+  } finally {
+    store.close();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("handleChat answers, streams, and remembers with the mock provider", async () => {
+  const dir = await Deno.makeTempDir();
+  const config = await setUp(dir);
+  const logger = createLogger("error");
+  const store = new HistoryStore(config.historyDbPath, logger);
+  const provider = createMockLlmProvider({
+    responses: [
+      {
+        match: "student's record",
+        content: '{"updates": [{"field": "accommodations", "action": "add", "value": "Extended time"}]}',
+        times: 1,
+        usage: { inputTokens: 100, outputTokens: 10, totalTokens: 110 },
+      },
+      { match: "student's record", content: '{"updates": []}' },
+      {
+        match: "writing directly to a teacher",
+        content: "Student Overview: Ava is steady.",
+        usage: { inputTokens: 400, outputTokens: 50, totalTokens: 450 },
+      },
+    ],
+  });
+  const agent = createChatAgent(config, logger, provider);
+  const session: Session = {
+    userId: "teacher-rivera",
+    role: "teacher",
+    classIds: ["default"],
+    studentIds: ["S001", "S002"],
+    expiresAt: new Date(Date.now() + 60_000).toISOString(),
+  };
+  const chat = (message: string, sessionId: string, stream = false) =>
+    handleChat(
+      new Request("http://127.0.0.1/v1/chat", {
+        method: "POST",
+        body: JSON.stringify({ userId: session.userId, role: "teacher", studentId: "S001", sessionId, message }),
+      }),
+      config,
+      logger,
+      agent,
+      buildStudentsIndex(config, store),
+      store,
+      session,
+      stream,
+    );
+  try {
+    // Seed the roster the way a run does.
+    await runOnce(config, store);
+
+    const response = await chat("Ava now gets extended time on quizzes.", "session-1");
+    assertEquals(response.status, 200);
+    const body = await response.json() as ChatResponse;
+    assertEquals(body.reply, "Student Overview: Ava is steady.");
+    assertEquals(body.memoryUpdated, true);
+    // Reply and extraction tokens are summed and priced at $1 / $2 per 1K.
+    assertEquals(body.usage, { inputTokens: 500, outputTokens: 60, totalTokens: 560, costUsd: 0.62 });
+    const memory = await loadStudentMemory(config.memoryDir, "default", "S001", logger);
+    assertEquals(memory.accommodations, ["Extended time"]);
+
+    const streamed = await (await chat("What about math?", "session-1", true)).text();
+    assert(streamed.startsWith('event: delta\ndata: {"text":"Student "}'));
+    assert(streamed.includes('event: done\ndata: {"reply":"Student Overview: Ava is steady.","sessionId":"session-1"'));
+    // The follow-up carried the first exchange between the system prompt and the new message.
+    const followUp = provider.requests.at(-1)!;
+    assertEquals(followUp.messages.map((message) => message.role), ["system", "user", "assistant", "user"]);
+    assertEquals(followUp.messages[2].content, "Student Overview: Ava is steady.");
+  } finally {
+    store.close();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
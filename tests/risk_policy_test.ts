@@ -0,0 +1,69 @@
+import { analyzeStudent, DEFAULT_RISK_POLICY } from "../src/analyzer.ts";
+import { sanitizeRiskPolicy } from "../src/risk_policy.ts";
+import type { Student } from "../src/types.ts";
+import { assertEquals } from "jsr:@std/assert@0.224.0";
+
+/**
+ * Unit tests for the configurable risk policy.
+ *
+ * The key behaviors:
+ * - Invalid rules are dropped (with errors) while the rest of the policy stays usable.
+ * - Weighted rules, per-subject thresholds, and level cut-offs drive the risk level.
+ * - Matched rule IDs are recorded on the analysis so the level is explainable.
+ */
+const student: Student = {
+  id: "S200",
+  name: "Policy Student",
+  email: "policy@example.com",
+  grades: [
+    { subject: "Math", score: 62 },
+    { subject: "English", score: 98 },
+  ],
+  participationScore: 8,
+  assignmentCompletionRate: 95,
+  teacherNotes: "",
+  performanceTrend: "stable",
+  lastAssessmentDate: "2024-09-01",
+};
+
+Deno.test("sanitizeRiskPolicy drops invalid rules and keeps defaults for missing sections", () => {
+  const { policy, errors } = sanitizeRiskPolicy({
+    rules: [
+      { id: "math-low", signal: "subjectScore", subject: " Math ", operator: "lt", value: 65, weight: 3 },
+      { id: "math-low", signal: "averageScore", operator: "lt", value: 50 },
+      { id: "bad-signal", signal: "shoeSize", operator: "lt", value: 10 },
+      { id: "bad-trend", signal: "trend", operator: "lt", value: "declining" },
+      { id: "negative", signal: "averageScore", operator: "lt", value: 50, weight: -1 },
+    ],
+  });
+
+  assertEquals(policy.rules, [
+    { id: "math-low", signal: "subjectScore", operator: "lt", value: 65, weight: 3, subject: "Math" },
+  ]);
+  assertEquals(policy.levels, DEFAULT_RISK_POLICY.levels);
+  assertEquals(policy.attentionRules, DEFAULT_RISK_POLICY.attentionRules);
+  assertEquals(errors.length, 4);
+});
+
+Deno.test("analyzeStudent applies per-subject rules and records matched rule IDs", () => {
+  // Under the default policy a strong average hides the weak Math score.
+  const baseline = analyzeStudent(student);
+  assertEquals(baseline.riskLevel, "low");
+  assertEquals(baseline.riskRuleIds, []);
+
+  const { policy } = sanitizeRiskPolicy({
+    rules: [
+      { id: "math-low", signal: "subjectScore", subject: "math", operator: "lt", value: 65, weight: 3 },
+      { id: "average-below-80", signal: "averageScore", operator: "lt", value: 80 },
+    ],
+    levels: { high: 4, medium: 2 },
+    attentionRules: [{ id: "any-subject-below-65", signal: "subjectScore", operator: "lt", value: 65 }],
+  });
+  const analysis = analyzeStudent(student, policy);
+
+  assertEquals(analysis.riskLevel, "medium");
+  assertEquals(analysis.riskScore, 3);
+  assertEquals(analysis.riskRuleIds, ["math-low"]);
+  assertEquals(analysis.attentionRuleIds, ["any-subject-below-65"]);
+  assertEquals(analysis.metrics.needsAttention, true);
+});
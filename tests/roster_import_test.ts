@@ -0,0 +1,89 @@
+import { csvToStudentRecords, parseCsv } from "../src/roster_import.ts";
+import { validateStudents } from "../src/validator.ts";
+import { assertEquals } from "jsr:@std/assert@0.224.0";
+
+/**
+ * Unit tests for CSV roster import.
+ *
+ * The key behaviors:
+ * - Wide (one column per subject) and long (one row per grade) layouts both produce `Student` records.
+ * - Column mappings rename SIS headers to `Student` fields.
+ * - Validation errors point at the CSV row/column instead of an array index, numbered by the line the row starts
+ *   on even after blank lines and quoted newlines.
+ */
+Deno.test("parseCsv handles quotes, escaped quotes, and CRLF", () => {
+  const rows = parseCsv('id,notes\r\nS1,"Likes ""logic"", puzzles"\r\n\r\nS2,"Two\nlines"\r\n');
+  assertEquals(rows, [
+    { line: 1, cells: ["id", "notes"] },
+    { line: 2, cells: ["S1", 'Likes "logic", puzzles'] },
+    { line: 4, cells: ["S2", "Two\nlines"] },
+  ]);
+});
+
+Deno.test("csvToStudentRecords imports a mapped wide layout", () => {
+  const csv = [
+    "Student ID,Full Name,Email,Participation,Completion,Notes,Trend,Last Assessed,Math,English",
+    "S1,Ada Park,ada@example.com,8,92%,,Stable,2024-09-01,88,",
+    "S2,Ben Cho,ben@example.com,11,80,Quiet,declining,2024-09-01,70,abc",
+  ].join("\n");
+  const payload = csvToStudentRecords(csv, {
+    columns: {
+      id: "Student ID",
+      name: "Full Name",
+      participationScore: "Participation",
+      assignmentCompletionRate: "Completion",
+      teacherNotes: "Notes",
+      performanceTrend: "Trend",
+      lastAssessmentDate: "Last Assessed",
+    },
+  });
+  const { valid, errors } = validateStudents(payload.data, payload.locate);
+
+  // Blank subject cells are skipped rather than read as zero.
+  assertEquals(valid.length, 1);
+  assertEquals(valid[0].grades, [{ subject: "Math", score: 88 }]);
+  assertEquals(valid[0].assignmentCompletionRate, 92);
+  assertEquals(errors, [
+    "row 3, column J (English): grades[1].score must be a number between 0 and 100",
+    "row 3, column D (Participation): participationScore must be a number between 1 and 10",
+  ]);
+});
+
+Deno.test("csvToStudentRecords groups a long layout and keeps the newest grade per subject", () => {
+  const csv = [
+    "id,name,email,participationScore,assignmentCompletionRate,teacherNotes,performanceTrend,subject,score,date",
+    "S1,Ada Park,ada@example.com,8,92,,stable,Math,80,2024-07-01",
+    "S1,,,,,,,English,75,2024-07-15",
+    "S1,,,,,,,Math,90,2024-08-30",
+    "S2,Ben Cho,ben@example.com,6,85,,stable,Math,,2024-08-01",
+  ].join("\n");
+  const payload = csvToStudentRecords(csv);
+  const { valid, errors } = validateStudents(payload.data, payload.locate);
+
+  assertEquals(valid.length, 1);
+  assertEquals(valid[0].grades, [{ subject: "Math", score: 90 }, { subject: "English", score: 75 }]);
+  assertEquals(valid[0].assessments?.length, 3);
+  // Without a lastAssessmentDate column, the newest assessment date is used.
+  assertEquals(valid[0].lastAssessmentDate, "2024-08-30");
+  assertEquals(errors, [
+    "row 5, column I (score): grades[0].score must be a number between 0 and 100",
+    "row 5, column I (score): assessments[0].score must be a number between 0 and 100",
+  ]);
+});
+
+Deno.test("validation errors name the line a row starts on after blank lines and quoted newlines", () => {
+  const csv = [
+    "id,name,email,participationScore,assignmentCompletionRate,teacherNotes,performanceTrend,lastAssessmentDate,Math",
+    "",
+    'S1,Ada Park,ada@example.com,8,92,"Strong start.',
+    'Needs reminders.",stable,2024-09-01,88',
+    "S2,Ben Cho,ben@example.com,11,80,,stable,2024-09-01,70",
+  ].join("\r\n");
+  const payload = csvToStudentRecords(csv);
+  const { valid, errors } = validateStudents(payload.data, payload.locate);
+
+  assertEquals(valid[0].teacherNotes, "Strong start.\r\nNeeds reminders.");
+  assertEquals(errors, [
+    "row 5, column D (participationScore): participationScore must be a number between 1 and 10",
+  ]);
+});
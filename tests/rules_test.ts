@@ -0,0 +1,20 @@
+import { validateTeacherRules } from "../src/rules.ts";
+import { assertEquals } from "jsr:@std/assert@0.224.0";
+
+/**
+ * Unit tests for teacher rules validation.
+ *
+ * Hot reload relies on `errors` to reject a bad edit, while the sanitized `rules` keep startup lenient.
+ */
+Deno.test("validateTeacherRules reports wrong types and still sanitizes", () => {
+  const { rules, errors } = validateTeacherRules({
+    classGoals: ["  Read daily  ", ""],
+    focusAreas: "Writing",
+    tone: "loud",
+  });
+
+  assertEquals(errors, ["focusAreas must be an array of strings", "tone must be warm, neutral, or direct"]);
+  assertEquals(rules?.classGoals, ["Read daily"]);
+  assertEquals(rules?.focusAreas, undefined);
+  assertEquals(validateTeacherRules([]).errors, ["Teacher rules must be a JSON object"]);
+});
@@ -0,0 +1,32 @@
+import { SourceWatcher } from "../src/source_watcher.ts";
+import { createLogger } from "../src/logger.ts";
+import { assertEquals } from "jsr:@std/assert@0.224.0";
+
+/**
+ * Unit tests for the hot-reload status tracking.
+ *
+ * The key behaviors:
+ * - A rejected reload keeps the previous load time and reports its errors.
+ * - A later successful reload clears the errors and updates the load time.
+ */
+Deno.test("SourceWatcher keeps the last good copy when a reload is rejected", async () => {
+  const results = [
+    { ok: false, errors: ["students[0]: email must be a valid address"] },
+    { ok: true, errors: [] },
+  ];
+  const watcher = new SourceWatcher(createLogger("error"));
+  watcher.register("students", "students.json", () => Promise.resolve(results.shift()!), {
+    lastLoadedAt: "2024-09-01T00:00:00.000Z",
+  });
+
+  const rejected = await watcher.reload("students");
+  assertEquals(rejected?.lastLoadedAt, "2024-09-01T00:00:00.000Z");
+  assertEquals(rejected?.errorCount, 1);
+  assertEquals(rejected?.usingLastGood, true);
+
+  const applied = await watcher.reload("students");
+  assertEquals(applied?.errorCount, 0);
+  assertEquals(applied?.usingLastGood, false);
+  assertEquals(applied?.lastLoadedAt, applied?.lastCheckedAt);
+  assertEquals(await watcher.reload("unknown"), undefined);
+});
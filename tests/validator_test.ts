@@ -1,4 +1,4 @@
-import { validateStudents } from "../src/validator.ts";
+import { validateStudent, validateStudents } from "../src/validator.ts";
 import { assertEquals, assert } from "jsr:@std/assert@0.224.0";
 
 /**
@@ -44,3 +44,22 @@ Deno.test("validateStudents filters invalid records", () => {
   // We expect at least one validation error from the invalid record.
   assert(result.errors.length > 0);
 });
+
+Deno.test("validateStudent rejects ids that could escape file names or headers", () => {
+  const record = {
+    name: "Ava Martinez",
+    email: "ava@example.com",
+    grades: [{ subject: "Math", score: 80 }],
+    participationScore: 7,
+    assignmentCompletionRate: 90,
+    teacherNotes: "",
+    performanceTrend: "stable",
+    lastAssessmentDate: "2024-09-01",
+  };
+  assert(validateStudent({ ...record, id: " S-001_a " }, 0).ok);
+
+  for (const id of ["..", "../../tmp/pwned", "a/b", "S001\r\nBcc: x@evil.test", "S\u0000", ".hidden", "S 001"]) {
+    const result = validateStudent({ ...record, id }, 0);
+    assertEquals(result.ok ? [] : result.errors, ['id must be 1-64 letters, digits, "-" or "_"'], id);
+  }
+});
@@ -0,0 +1,88 @@
+import { runWorkerPool } from "../src/worker_pool.ts";
+import { assert, assertEquals } from "jsr:@std/assert@0.224.0";
+
+/**
+ * Unit tests for the bounded student pool.
+ *
+ * The key behaviors:
+ * - No more than `concurrency` items are in flight, and every item is processed once.
+ * - Commit steps run in item order however the work finishes, and never overlap.
+ * - A thrown error stops new items and is rethrown after the items in flight settle; items that already finished
+ *   still get their commit step.
+ */
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+Deno.test("runWorkerPool bounds concurrency and commits in item order", async () => {
+  // Earlier items take longest, so they finish last.
+  const items = [40, 30, 20, 10, 0];
+  let inFlight = 0;
+  let maxInFlight = 0;
+  let committing = false;
+  const committed: number[] = [];
+
+  await runWorkerPool(items, 3, async (delayMs, index) => {
+    inFlight += 1;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    await sleep(delayMs);
+    inFlight -= 1;
+    return async () => {
+      assert(!committing, "commit steps overlapped");
+      committing = true;
+      await sleep(1);
+      committed.push(index);
+      committing = false;
+    };
+  });
+
+  assertEquals(committed, [0, 1, 2, 3, 4]);
+  assertEquals(maxInFlight, 3);
+
+  // Fractional or missing bounds still process everything.
+  const seen: number[] = [];
+  await runWorkerPool([1, 2], 0.5, (item) => Promise.resolve(() => void seen.push(item)));
+  await runWorkerPool([], undefined, () => Promise.resolve(() => {}));
+  assertEquals(seen, [1, 2]);
+});
+
+Deno.test("runWorkerPool stops starting items after an error", async () => {
+  const started: number[] = [];
+  const error = await runWorkerPool([0, 1, 2, 3], 2, async (item) => {
+    started.push(item);
+    await sleep(item === 0 ? 5 : 20);
+    if (item === 0) throw new Error("boom");
+    return () => {};
+  }).catch((error) => error);
+
+  assert(error instanceof Error);
+  assertEquals(error.message, "boom");
+  // Item 1 was already running and settles; items 2 and 3 never start.
+  assertEquals(started, [0, 1]);
+});
+
+Deno.test("runWorkerPool still commits items that finished before a failure", async () => {
+  const committed: number[] = [];
+  const error = await runWorkerPool([0, 1, 2, 3], 3, async (item) => {
+    // Item 0 fails last, after items 1 and 2 have finished their work.
+    await sleep(item === 0 ? 20 : 5);
+    if (item === 0) throw new Error("boom");
+    return () => void committed.push(item);
+  }).catch((error) => error);
+
+  assert(error instanceof Error);
+  assertEquals(error.message, "boom");
+  // Items 1 and 2 were done (emails sent, memory written), so their history still gets recorded, in order.
+  // Item 3 started once item 1 finished and is committed too.
+  assertEquals(committed, [1, 2, 3]);
+
+  // A failing step does not drop the finished items behind it either.
+  const afterStep: number[] = [];
+  const stepError = await runWorkerPool([0, 1, 2], 3, async (item) => {
+    await sleep(item === 0 ? 10 : 1);
+    return () => {
+      if (item === 0) throw new Error("history write failed");
+      afterStep.push(item);
+    };
+  }).catch((error) => error);
+  assertEquals(stepError.message, "history write failed");
+  assertEquals(afterStep, [1, 2]);
+});